@@ -0,0 +1,42 @@
+/**
+ * Pinning proxy for the dapp's `ipfs` upload provider
+ *
+ * Deployed as a Vercel function at `/api/pin`. Forwards the browser's
+ * multipart `file` to PINNING_URL with the PINNING_TOKEN bearer credential,
+ * so the credential stays on the server and out of the JS bundle. Set
+ * VITE_PINNING_URL=/api/pin to use it.
+ */
+
+/** Largest icon accepted, matching MAX_IMAGE_BYTES in the dapp */
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+export async function POST(request: Request): Promise<Response> {
+  const endpoint = process.env.PINNING_URL;
+  if (!endpoint) {
+    return Response.json({ error: "PINNING_URL is not configured" }, { status: 503 });
+  }
+
+  const form = await request.formData().catch(() => undefined);
+  const file = form?.get("file");
+  if (!(file instanceof Blob)) {
+    return Response.json({ error: "Expected a multipart `file` field" }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return Response.json({ error: `File is larger than ${MAX_FILE_BYTES} bytes` }, { status: 413 });
+  }
+
+  const body = new FormData();
+  body.append("file", file);
+  const token = process.env.PINNING_TOKEN;
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    body,
+  });
+
+  // The CID fields are passed through as the pinning service sent them
+  return new Response(response.body, {
+    status: response.status,
+    headers: { "Content-Type": response.headers.get("Content-Type") ?? "application/json" },
+  });
+}
@@ -1,386 +1,87 @@
 /**
  * Blaze Launchpad V2 - Frontend Integration Example
- * 
+ *
  * This file demonstrates how to interact with the deployed contract
- * using the Aptos TypeScript SDK.
+ * through the shared `BlazeClient` (scripts/client.ts).
  */
 
-import { 
-  Aptos, 
-  AptosConfig, 
-  Network, 
-  Account,
-  Ed25519PrivateKey
-} from "@aptos-labs/ts-sdk";
+import { Network, Account } from "@aptos-labs/ts-sdk";
+import { BlazeClient, CreatePoolParams } from "../scripts/client";
+import { findAddress, resolveAddress } from "../scripts/deployments";
+import { AccountSigner, TransactionSigner } from "../scripts/signer";
 
-// Configuration
+// Configuration: addresses come from scripts/deployments.json, which the
+// publish scripts (`npm run move:publish`, `npm run move:publish-quest`) write
 const NETWORK = Network.TESTNET; // or Network.MAINNET
-const CONTRACT_ADDRESS = "YOUR_CONTRACT_ADDRESS_HERE"; // Replace with your deployed contract
+const CONTRACT_ADDRESS = resolveAddress(NETWORK, "launchpad_v2");
+const QUEST_ADDRESS = findAddress(NETWORK, "quest_staking");
 
-// Initialize Aptos client
-const config = new AptosConfig({ network: NETWORK });
-const aptos = new Aptos(config);
+// Initialize Blaze client
+export const blaze = new BlazeClient({
+  network: NETWORK,
+  contractAddress: CONTRACT_ADDRESS,
+  questAddress: QUEST_ADDRESS,
+});
 
 // ==================== Account Setup ====================
 
 /**
  * Create or import an account
+ *
+ * In Node, `profileSigner("testnet")` / `envSigner()` from scripts/profiles.ts
+ * read the key from the Aptos CLI config or PRIVATE_KEY instead.
  */
-export async function setupAccount(privateKeyHex?: string): Promise<Account> {
+export async function setupAccount(privateKeyHex?: string): Promise<AccountSigner> {
   if (privateKeyHex) {
     // Import existing account
-    const privateKey = new Ed25519PrivateKey(privateKeyHex);
-    return Account.fromPrivateKey({ privateKey });
+    return AccountSigner.fromPrivateKey(privateKeyHex);
   } else {
     // Generate new account
-    return Account.generate();
+    return new AccountSigner(Account.generate(), "generated account");
   }
 }
 
-// ==================== View Functions ====================
-
-/**
- * Get admin address
- */
-export async function getAdmin(): Promise<string> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_admin`,
-      typeArguments: [],
-      functionArguments: [],
-    },
-  });
-  return result[0] as string;
-}
-
-/**
- * Get treasury address
- */
-export async function getTreasury(): Promise<string> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_treasury`,
-      typeArguments: [],
-      functionArguments: [],
-    },
-  });
-  return result[0] as string;
-}
-
-/**
- * Get APT/USD price from oracle (in cents)
- */
-export async function getAptUsdPrice(): Promise<number> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_apt_usd_price`,
-      typeArguments: [],
-      functionArguments: [],
-    },
-  });
-  return Number(result[0]);
-}
-
-/**
- * Get oracle data (price, last_update, oracle_address)
- */
-export async function getOracleData(): Promise<{
-  price: number;
-  lastUpdate: number;
-  oracleAddress: string;
-}> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_oracle_data`,
-      typeArguments: [],
-      functionArguments: [],
-    },
-  });
-  return {
-    price: Number(result[0]),
-    lastUpdate: Number(result[1]),
-    oracleAddress: result[2] as string,
-  };
-}
-
-/**
- * Get all pool IDs
- */
-export async function getAllPools(): Promise<string[]> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_pools`,
-      typeArguments: [],
-      functionArguments: [],
-    },
-  });
-  return result[0] as string[];
-}
-
-/**
- * Get pool data
- */
-export async function getPool(poolId: string): Promise<any> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_pool`,
-      typeArguments: [],
-      functionArguments: [poolId],
-    },
-  });
-  return result;
-}
-
-/**
- * Get current price per token in APT
- */
-export async function getCurrentPrice(poolId: string): Promise<number> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_current_price`,
-      typeArguments: [],
-      functionArguments: [poolId],
-    },
-  });
-  return Number(result[0]);
-}
-
-/**
- * Get current token supply
- */
-export async function getCurrentSupply(poolId: string): Promise<string> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_current_supply`,
-      typeArguments: [],
-      functionArguments: [poolId],
-    },
-  });
-  return result[0] as string;
-}
-
-/**
- * Calculate market cap in USD cents
- */
-export async function calculateMarketCapUsd(poolId: string): Promise<number> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::calculate_market_cap_usd`,
-      typeArguments: [],
-      functionArguments: [poolId],
-    },
-  });
-  return Number(result[0]);
-}
-
-/**
- * Check if pool has reached migration threshold
- */
-export async function isMigrationThresholdReached(poolId: string): Promise<boolean> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::is_migration_threshold_reached`,
-      typeArguments: [],
-      functionArguments: [poolId],
-    },
-  });
-  return result[0] as boolean;
-}
-
-/**
- * Calculate tokens received for APT amount (before fees)
- */
-export async function calculateCurvedMintReturn(
-  poolId: string,
-  aptAmount: number
-): Promise<number> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::calculate_curved_mint_return`,
-      typeArguments: [],
-      functionArguments: [poolId, aptAmount],
-    },
-  });
-  return Number(result[0]);
-}
-
-/**
- * Get buy and sell fees
- */
-export async function getFees(): Promise<{ buyFeeBps: number; sellFeeBps: number }> {
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_fees`,
-      typeArguments: [],
-      functionArguments: [],
-    },
-  });
-  return {
-    buyFeeBps: Number(result[0]),
-    sellFeeBps: Number(result[1]),
-  };
-}
-
 // ==================== Write Functions ====================
 
 /**
- * Create a new token pool
+ * Create a new token pool and return its object address
+ *
+ * `signer` is an `AccountSigner` (Node) or, in React, a `WalletAdapterSigner`
+ * around `{ accountAddress, signAndSubmitTransaction }` from `useWallet()`.
  */
-export async function createPool(
-  account: Account,
-  params: {
-    name: string;
-    ticker: string;
-    tokenImageUri: string;
-    description?: string;
-    website?: string;
-    twitter?: string;
-    telegram?: string;
-    discord?: string;
-    maxSupply?: number;
-    decimals: number;
-    reserveRatio: number;
-    initialAptReserve: number;
-    marketCapThresholdUsd?: number;
-  }
-): Promise<string> {
-  const transaction = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::create_pool`,
-      typeArguments: [],
-      functionArguments: [
-        params.name,
-        params.ticker,
-        params.tokenImageUri,
-        params.description ? [params.description] : [],
-        params.website ? [params.website] : [],
-        params.twitter ? [params.twitter] : [],
-        params.telegram ? [params.telegram] : [],
-        params.discord ? [params.discord] : [],
-        params.maxSupply ? [params.maxSupply] : [],
-        params.decimals,
-        params.reserveRatio,
-        params.initialAptReserve,
-        params.marketCapThresholdUsd ? [params.marketCapThresholdUsd] : [],
-      ],
-    },
-  });
-
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: account,
-    transaction,
-  });
-
-  await aptos.waitForTransaction({ transactionHash: committedTxn.hash });
-  return committedTxn.hash;
+export async function createPool(signer: TransactionSigner, params: CreatePoolParams): Promise<string> {
+  const result = await blaze.createPool(signer, params);
+  console.log(`Pool created: ${result.poolId} (${result.explorerUrl})`);
+  return result.poolId;
 }
 
 /**
- * Buy tokens
+ * Buy tokens with APT, accepting up to `slippageBps` less than quoted
  */
 export async function buyTokens(
-  account: Account,
+  signer: TransactionSigner,
   poolId: string,
   aptAmount: number,
-  minTokensOut: number,
-  deadline: number
+  slippageBps: number = 100
 ): Promise<string> {
-  const transaction = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::buy`,
-      typeArguments: [],
-      functionArguments: [poolId, aptAmount, minTokensOut, deadline],
-    },
-  });
-
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: account,
-    transaction,
-  });
-
-  await aptos.waitForTransaction({ transactionHash: committedTxn.hash });
-  return committedTxn.hash;
+  const result = await blaze.buy(signer, poolId, aptAmount, { slippageBps });
+  console.log(`Bought ${result.buyEvent?.tokensReceived} base units (${result.explorerUrl})`);
+  return result.hash;
 }
 
 /**
- * Sell tokens
+ * Sell tokens for APT, accepting up to `slippageBps` less than quoted
  */
 export async function sellTokens(
-  account: Account,
+  signer: TransactionSigner,
   poolId: string,
   tokenAmount: number,
-  minAptOut: number,
-  deadline: number
-): Promise<string> {
-  const transaction = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::sell`,
-      typeArguments: [],
-      functionArguments: [poolId, tokenAmount, minAptOut, deadline],
-    },
-  });
-
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: account,
-    transaction,
-  });
-
-  await aptos.waitForTransaction({ transactionHash: committedTxn.hash });
-  return committedTxn.hash;
-}
-
-/**
- * Update oracle price (Admin only)
- */
-export async function updateOraclePrice(
-  adminAccount: Account,
-  newPrice: number,
-  oracleAddress: string
-): Promise<string> {
-  const transaction = await aptos.transaction.build.simple({
-    sender: adminAccount.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::update_oracle_price`,
-      typeArguments: [],
-      functionArguments: [newPrice, oracleAddress],
-    },
-  });
-
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: adminAccount,
-    transaction,
-  });
-
-  await aptos.waitForTransaction({ transactionHash: committedTxn.hash });
-  return committedTxn.hash;
-}
-
-/**
- * Force migrate to Hyperion (Admin only)
- */
-export async function forceMigrateToHyperion(
-  adminAccount: Account,
-  poolId: string
+  decimals: number = 8,
+  slippageBps: number = 100
 ): Promise<string> {
-  const transaction = await aptos.transaction.build.simple({
-    sender: adminAccount.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::force_migrate_to_hyperion`,
-      typeArguments: [],
-      functionArguments: [poolId],
-    },
-  });
-
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: adminAccount,
-    transaction,
-  });
-
-  await aptos.waitForTransaction({ transactionHash: committedTxn.hash });
-  return committedTxn.hash;
+  const result = await blaze.sell(signer, poolId, tokenAmount, { slippageBps }, decimals);
+  console.log(`Received ${result.sellEvent?.aptReceived} octas (${result.explorerUrl})`);
+  return result.hash;
 }
 
 // ==================== Helper Functions ====================
@@ -388,36 +89,15 @@ export async function forceMigrateToHyperion(
 /**
  * Format price for display
  */
-export function formatPrice(priceInOctas: number, decimals: number = 8): string {
-  return (priceInOctas / Math.pow(10, decimals)).toFixed(decimals);
+export function formatPrice(priceInOctas: bigint, decimals: number = 8): string {
+  return (Number(priceInOctas) / Math.pow(10, decimals)).toFixed(decimals);
 }
 
 /**
  * Format USD amount from cents
  */
-export function formatUsdFromCents(cents: number): string {
-  return `$${(cents / 100).toFixed(2)}`;
-}
-
-/**
- * Get current Unix timestamp + offset in seconds
- */
-export function getDeadline(offsetSeconds: number = 300): number {
-  return Math.floor(Date.now() / 1000) + offsetSeconds;
-}
-
-/**
- * Convert APT to octas
- */
-export function aptToOctas(apt: number): number {
-  return apt * 100000000;
-}
-
-/**
- * Convert octas to APT
- */
-export function octasToApt(octas: number): number {
-  return octas / 100000000;
+export function formatUsdFromCents(cents: bigint): string {
+  return `$${(Number(cents) / 100).toFixed(2)}`;
 }
 
 // ==================== Example Usage ====================
@@ -432,18 +112,18 @@ async function exampleUsage() {
 
   try {
     // Get admin and treasury
-    const admin = await getAdmin();
-    const treasury = await getTreasury();
+    const admin = await blaze.getAdmin();
+    const treasury = await blaze.getTreasury();
     console.log(`👤 Admin: ${admin}`);
     console.log(`💰 Treasury: ${treasury}`);
 
     // Get oracle data
-    const oracleData = await getOracleData();
-    console.log(`📊 APT Price: ${formatUsdFromCents(oracleData.price)}`);
+    const oracleData = await blaze.getOracleData();
+    console.log(`📊 APT Price: ${formatUsdFromCents(oracleData.aptUsdPrice)}`);
     console.log(`🕐 Last Update: ${new Date(oracleData.lastUpdate * 1000).toISOString()}`);
 
     // Get all pools
-    const pools = await getAllPools();
+    const pools = await blaze.getPools();
     console.log(`🏊 Total Pools: ${pools.length}`);
 
     if (pools.length > 0) {
@@ -451,37 +131,45 @@ async function exampleUsage() {
       console.log(`\n📦 Pool: ${firstPool}`);
 
       // Get pool details
-      const supply = await getCurrentSupply(firstPool);
-      const price = await getCurrentPrice(firstPool);
-      const marketCap = await calculateMarketCapUsd(firstPool);
-      const isMigrationReady = await isMigrationThresholdReached(firstPool);
+      const { metadata, settings } = await blaze.getPool(firstPool);
+      const supply = await blaze.getCurrentSupply(firstPool);
+      const price = await blaze.getCurrentPrice(firstPool);
+      const marketCap = await blaze.getMarketCapUsd(firstPool);
+      const isMigrationReady = await blaze.isMigrationThresholdReached(firstPool);
 
+      console.log(`  Token: ${metadata.name} (${metadata.ticker})`);
       console.log(`  Supply: ${supply}`);
-      console.log(`  Price: ${octasToApt(price)} APT`);
+      console.log(`  Price: ${formatPrice(price)} APT`);
       console.log(`  Market Cap: ${formatUsdFromCents(marketCap)}`);
+      console.log(`  Trading Enabled: ${settings.tradingEnabled}`);
       console.log(`  Migration Ready: ${isMigrationReady}`);
 
-      // Calculate purchase
-      const aptAmount = aptToOctas(0.1); // 0.1 APT
-      const tokensOut = await calculateCurvedMintReturn(firstPool, aptAmount);
-      console.log(`\n💱 0.1 APT = ${formatPrice(tokensOut)} tokens`);
+      // Quote a purchase (fees included)
+      const quote = await blaze.quoteBuy(firstPool, 0.1);
+      console.log(`\n💱 0.1 APT = ${formatPrice(quote.tokensOut)} tokens`);
     }
 
     // Example: Create a new pool
     console.log("\n🔨 Creating new pool...");
-    const txHash = await createPool(account, {
+    await createPool(account, {
       name: "Test Token",
       ticker: "TEST",
-      tokenImageUri: "https://example.com/test.png",
+      imageUri: "https://example.com/test.png",
       description: "A test token for demonstration",
       website: "https://example.com",
       twitter: "@testtoken",
       decimals: 8,
       reserveRatio: 50,
-      initialAptReserve: aptToOctas(1), // 1 APT
-      marketCapThresholdUsd: 7500000, // $75,000
+      initialReserveApt: 1,
+      thresholdUsd: 75000,
     });
-    console.log(`✅ Pool created! TX: ${txHash}`);
+
+    // Quests
+    const quests = await blaze.getAllQuests();
+    console.log(`\n🏆 Quests: ${quests.length}`);
+    for (const quest of quests) {
+      console.log(`  #${quest.questId} ${quest.name} [${quest.status}] ${quest.participants.length} participants`);
+    }
 
   } catch (error) {
     console.error("❌ Error:", error);
@@ -495,34 +183,18 @@ if (require.main === module) {
 
 // Export all functions
 export default {
+  // Client
+  blaze,
+
   // Account
   setupAccount,
-  
-  // View functions
-  getAdmin,
-  getTreasury,
-  getAptUsdPrice,
-  getOracleData,
-  getAllPools,
-  getPool,
-  getCurrentPrice,
-  getCurrentSupply,
-  calculateMarketCapUsd,
-  isMigrationThresholdReached,
-  calculateCurvedMintReturn,
-  getFees,
-  
+
   // Write functions
   createPool,
   buyTokens,
   sellTokens,
-  updateOraclePrice,
-  forceMigrateToHyperion,
-  
+
   // Helpers
   formatPrice,
   formatUsdFromCents,
-  getDeadline,
-  aptToOctas,
-  octasToApt,
 };
@@ -2,8 +2,14 @@ import { RouterProvider, createBrowserRouter, Outlet } from "react-router-dom";
 // Internal pages
 import { Mint } from "@/pages/Mint";
 import { CreateFungibleAsset } from "@/pages/CreateFungibleAsset";
+import { CreatePool } from "@/pages/CreatePool";
 import { AllFungibleAssets } from "@/pages/AllFungibleAssets";
 import { QuestManagement } from "@/pages/QuestManagement";
+import { QuestDetails } from "@/pages/QuestDetails";
+import { MyQuests } from "@/pages/MyQuests";
+import { PoolDiscovery } from "@/pages/PoolDiscovery";
+// Internal constants
+import { MODULE_VERSION } from "@/constants";
 
 function Layout() {
   return (
@@ -23,12 +29,24 @@ const router = createBrowserRouter([
       },
       {
         path: "create-asset",
-        element: <CreateFungibleAsset />,
+        element: MODULE_VERSION === "v2" ? <CreatePool /> : <CreateFungibleAsset />,
+      },
+      {
+        path: "pools",
+        element: <PoolDiscovery />,
       },
       {
         path: "quests",
         element: <QuestManagement />,
       },
+      {
+        path: "quests/:questId",
+        element: <QuestDetails />,
+      },
+      {
+        path: "my-quests",
+        element: <MyQuests />,
+      },
       {
         path: "/",
         element: <AllFungibleAssets />,
@@ -1,6 +1,7 @@
 import { Link } from "react-router-dom";
 import { WalletSelector } from "./WalletSelector";
 import { buttonVariants } from "./ui/button";
+import { MODULE_VERSION } from "@/constants";
 
 export function Header() {
   return (
@@ -14,12 +15,20 @@ export function Header() {
           <Link className={buttonVariants({ variant: "link" })} to={"/"}>
             All Assets
           </Link>
+          {MODULE_VERSION === "v2" && (
+            <Link className={buttonVariants({ variant: "link" })} to={"/pools"}>
+              Discover Pools
+            </Link>
+          )}
           <Link className={buttonVariants({ variant: "link" })} to={"/create-asset"}>
             Create Asset
           </Link>
           <Link className={buttonVariants({ variant: "link" })} to={"/quests"}>
             Quest Management
           </Link>
+          <Link className={buttonVariants({ variant: "link" })} to={"/my-quests"}>
+            My Quests
+          </Link>
         </>
         <WalletSelector />
       </div>
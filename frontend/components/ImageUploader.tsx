@@ -0,0 +1,144 @@
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { FC, useEffect, useMemo, useRef, useState } from "react";
+// Internal components
+import { Button, buttonVariants } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+// Internal utils
+import {
+  ACCEPTED_IMAGE_TYPES,
+  ICON_SIZE,
+  PreparedImage,
+  UploadEstimate,
+  getUploadProviders,
+  prepareImage,
+  uploadImage,
+} from "@/utils/imageUpload";
+import { Amount } from "@sdk/amount";
+import { getErrorMessage } from "@sdk/errors";
+
+interface ImageUploaderProps {
+  id: string;
+  disabled?: boolean;
+  onUploaded: (url: string) => void;
+}
+
+const formatEstimate = ({ cost, funding, symbol, decimals }: UploadEstimate) => {
+  if (cost === 0n) return "Free";
+  const amount = (value: bigint) => `${Amount.fromRaw(value, decimals).toString()} ${symbol}`;
+  return funding > 0n ? `${amount(cost)} (${amount(funding)} to fund before uploading)` : amount(cost);
+};
+
+/**
+ * Pick an image, validate it and resize it to the canonical icon, show what
+ * storing it costs, then upload it through the configured providers
+ */
+export const ImageUploader: FC<ImageUploaderProps> = ({ id, disabled, onUploaded }) => {
+  const wallet = useWallet();
+  const providers = useMemo(() => getUploadProviders(wallet), [wallet]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [image, setImage] = useState<PreparedImage>();
+  const [previewUrl, setPreviewUrl] = useState<string>();
+  const [estimate, setEstimate] = useState<UploadEstimate>();
+  const [status, setStatus] = useState<string>();
+  const [error, setError] = useState<string>();
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const clear = () => {
+    setImage(undefined);
+    setPreviewUrl(undefined);
+    setEstimate(undefined);
+    setStatus(undefined);
+    setError(undefined);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const onSelect = async (file?: File) => {
+    clear();
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      const prepared = await prepareImage(file);
+      setImage(prepared);
+      setPreviewUrl(URL.createObjectURL(prepared.file));
+      if (providers.length > 0) {
+        // The first provider is the one that will normally store the image
+        setEstimate(await providers[0].estimate(prepared.file.size));
+      }
+    } catch (e) {
+      setError(getErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const onUpload = async () => {
+    if (!image) return;
+    setIsBusy(true);
+    setError(undefined);
+    try {
+      const { url, provider } = await uploadImage(image, providers, {
+        onAttempt: (provider, attempt) =>
+          setStatus(`Uploading to ${provider.name}${attempt > 1 ? ` (attempt ${attempt})` : ""}...`),
+      });
+      setStatus(`Uploaded to ${provider.name}`);
+      onUploaded(url);
+    } catch (e) {
+      setStatus(undefined);
+      setError(getErrorMessage(e));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start gap-2">
+      {!image && (
+        <Label
+          htmlFor={id}
+          className={buttonVariants({
+            variant: "outline",
+            className: disabled || isBusy ? "pointer-events-none opacity-50" : "cursor-pointer",
+          })}
+        >
+          Choose Image
+        </Label>
+      )}
+      <Input
+        disabled={disabled || isBusy}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
+        className="hidden"
+        ref={inputRef}
+        id={id}
+        onChange={(e) => onSelect(e.target.files?.[0])}
+      />
+      {image && previewUrl && (
+        <>
+          <img src={previewUrl} className="w-24 h-24 object-cover rounded" />
+          <p className="body-sm text-gray-500">
+            {image.file.name}: {image.width}x{image.height} resized to {ICON_SIZE}x{ICON_SIZE}
+          </p>
+          {estimate && <p className="body-sm">Storage cost: {formatEstimate(estimate)}</p>}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={onUpload} disabled={disabled || isBusy || providers.length === 0}>
+              Upload
+            </Button>
+            <Button size="sm" variant="link" className="text-destructive" onClick={clear} disabled={isBusy}>
+              Clear
+            </Button>
+          </div>
+        </>
+      )}
+      {status && <p className="body-sm text-gray-500">{status}</p>}
+      {error && <p className="body-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from "react";
+// Internal components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ConfirmButton } from "@/components/ui/confirm-button";
+// Internal utils
+import { formatAptPrice } from "@/utils/helpers";
+import { truncateAddress } from "@/utils/truncateAddress";
+// Internal hooks
+import { searchLaunchpadTokens, useLaunchpadTokens } from "@/hooks/useLaunchpadTokens";
+import { usePoolSnapshots } from "@/hooks/usePoolSnapshots";
+// Shared SDK modules
+import {
+  MAX_PORTFOLIO_TOKENS,
+  PortfolioIssue,
+  allocateBudget,
+  formatUsdc,
+  parseUsdc,
+  validatePortfolio,
+} from "@sdk/portfolio";
+import { Quest, TokenSelection } from "@sdk/resources";
+
+/** Search results shown at once */
+const RESULT_LIMIT = 8;
+
+interface PortfolioRow {
+  poolId: string;
+
+  /** Percentage of the budget, 0-100 */
+  percent: number;
+}
+
+interface PortfolioBuilderProps {
+  quest?: Quest;
+  disabled?: boolean;
+  onSubmit: (selections: TokenSelection[]) => void;
+}
+
+function evenSplit(count: number): number[] {
+  // Whole percentages, leftovers to the first rows
+  const base = Math.floor(100 / count);
+  return Array.from({ length: count }, (_, index) => base + (index < 100 - base * count ? 1 : 0));
+}
+
+export function PortfolioBuilder({ quest, disabled, onSubmit }: PortfolioBuilderProps) {
+  const [budget, setBudget] = useState<string>("100");
+  const [query, setQuery] = useState<string>("");
+  const [rows, setRows] = useState<PortfolioRow[]>([]);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const { data: tokens, isLoading: tokensLoading } = useLaunchpadTokens();
+  const { data: snapshots } = usePoolSnapshots(rows.map((row) => row.poolId));
+
+  // Keep `now` moving so submission locks as soon as buy-in closes
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // A different quest starts from an empty portfolio
+  useEffect(() => {
+    setRows([]);
+  }, [quest?.questId]);
+
+  const tokensById = useMemo(() => new Map((tokens ?? []).map((token) => [token.poolId, token])), [tokens]);
+  const results = useMemo(() => searchLaunchpadTokens(tokens ?? [], query).slice(0, RESULT_LIMIT), [tokens, query]);
+
+  const budgetUsdc = parseUsdc(budget);
+  const totalPercent = rows.reduce((sum, row) => sum + row.percent, 0);
+  const selections = allocateBudget(
+    budgetUsdc ?? 0n,
+    rows.map((row) => ({ tokenAddress: row.poolId, weight: row.percent })),
+  );
+
+  const issues: PortfolioIssue[] = quest
+    ? validatePortfolio(selections, quest, now)
+    : [{ code: "quest-not-active", message: "Select a quest first" }];
+  const builderIssues = [
+    ...(budgetUsdc === undefined || budgetUsdc === 0n ? ["Enter a USDC budget with at most 6 decimals"] : []),
+    ...(rows.length > 0 && Math.abs(totalPercent - 100) > 1e-9
+      ? [`Allocations add up to ${totalPercent}%, not 100%`]
+      : []),
+  ];
+  // An empty portfolio is the starting point, not an error worth flagging
+  const messages = [
+    ...builderIssues,
+    ...issues.filter((issue) => rows.length > 0 || issue.code !== "size").map((issue) => issue.message),
+  ];
+  const buyInClosed = issues.some((issue) => issue.code === "buy-in-closed");
+
+  const setPercents = (percents: number[]) => {
+    setRows(rows.map((row, index) => ({ ...row, percent: percents[index] })));
+  };
+
+  const addToken = (poolId: string) => {
+    if (rows.length >= MAX_PORTFOLIO_TOKENS || rows.some((row) => row.poolId === poolId)) return;
+    const next = [...rows, { poolId, percent: 0 }];
+    const percents = evenSplit(next.length);
+    setRows(next.map((row, index) => ({ ...row, percent: percents[index] })));
+  };
+
+  const removeToken = (poolId: string) => {
+    setRows(rows.filter((row) => row.poolId !== poolId));
+  };
+
+  const updatePercent = (poolId: string, value: string) => {
+    const percent = Math.min(100, Math.max(0, Number(value) || 0));
+    setRows(rows.map((row) => (row.poolId === poolId ? { ...row, percent } : row)));
+  };
+
+  const formatPrice = (poolId: string) => {
+    const price = snapshots?.get(poolId)?.price;
+    return price === undefined ? "…" : formatAptPrice(price);
+  };
+
+  return (
+    <div className="space-y-4">
+      {quest && (
+        <div className="p-4 bg-muted rounded-lg">
+          <p className="font-medium">Selected Quest: {quest.name}</p>
+          <p className="text-sm text-muted-foreground">
+            Quest ID: {quest.questId} · Buy-in closes {new Date(quest.buyInTime * 1000).toLocaleString()}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="portfolio-budget">Budget (USDC)</Label>
+        <Input
+          id="portfolio-budget"
+          placeholder="100"
+          inputMode="decimal"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          disabled={disabled || buyInClosed}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="portfolio-search">
+          Add tokens ({rows.length}/{MAX_PORTFOLIO_TOKENS})
+        </Label>
+        <Input
+          id="portfolio-search"
+          placeholder="Search by name, ticker or address"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          disabled={disabled || buyInClosed}
+        />
+        {tokensLoading && <p className="text-sm text-muted-foreground">Loading tokens...</p>}
+        {!tokensLoading && results.length === 0 && (
+          <p className="text-sm text-muted-foreground">No launchpad tokens match "{query}"</p>
+        )}
+        <ul className="divide-y rounded-md border">
+          {results.map(({ poolId, metadata }) => {
+            const selected = rows.some((row) => row.poolId === poolId);
+            return (
+              <li key={poolId} className="flex items-center justify-between gap-4 px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {metadata.name} <span className="text-muted-foreground">({metadata.ticker})</span>
+                  </p>
+                  <p className="font-mono text-xs text-muted-foreground">{truncateAddress(poolId)}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addToken(poolId)}
+                  disabled={disabled || buyInClosed || selected || rows.length >= MAX_PORTFOLIO_TOKENS}
+                >
+                  {selected ? "Added" : "Add"}
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="font-medium">Allocation</p>
+            <Button variant="outline" size="sm" onClick={() => setPercents(evenSplit(rows.length))} disabled={disabled}>
+              Split evenly
+            </Button>
+          </div>
+
+          {rows.map((row, index) => {
+            const token = tokensById.get(row.poolId);
+            return (
+              <div key={row.poolId} className="grid grid-cols-12 items-center gap-3">
+                <div className="col-span-3">
+                  <p className="text-sm font-medium">{token?.metadata.ticker ?? truncateAddress(row.poolId)}</p>
+                  <p className="text-xs text-muted-foreground">{formatPrice(row.poolId)}</p>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={100}
+                  step={1}
+                  className="col-span-4"
+                  aria-label={`Allocation for ${token?.metadata.ticker ?? row.poolId}`}
+                  value={row.percent}
+                  onChange={(e) => updatePercent(row.poolId, e.target.value)}
+                  disabled={disabled || buyInClosed}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  className="col-span-2"
+                  value={row.percent}
+                  onChange={(e) => updatePercent(row.poolId, e.target.value)}
+                  disabled={disabled || buyInClosed}
+                />
+                <p className="col-span-2 text-sm text-right">{formatUsdc(selections[index].amountUsdc)} USDC</p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="col-span-1"
+                  onClick={() => removeToken(row.poolId)}
+                  disabled={disabled}
+                >
+                  ✕
+                </Button>
+              </div>
+            );
+          })}
+
+          <p className="text-sm text-muted-foreground">Allocated {totalPercent}% of the budget</p>
+        </div>
+      )}
+
+      {messages.length > 0 && (
+        <ul className="text-sm text-destructive list-disc pl-5">
+          {messages.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmButton
+        title="Submit Portfolio"
+        onSubmit={() => onSubmit(selections)}
+        disabled={disabled || rows.length === 0 || messages.length > 0}
+        confirmMessage={
+          <>
+            <p>Submit this portfolio? It cannot be changed after buy-in closes.</p>
+            {selections.map((selection) => (
+              <p key={selection.tokenAddress}>
+                {tokensById.get(selection.tokenAddress)?.metadata.ticker ?? truncateAddress(selection.tokenAddress)}:{" "}
+                {formatUsdc(selection.amountUsdc)} USDC
+              </p>
+            ))}
+          </>
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { FC, useEffect, useState } from "react";
+// Internal components
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+// Internal utils
+import { formatApt } from "@/utils/helpers";
+// Shared SDK modules
+import { Amount } from "@sdk/amount";
+import { APT_ASSET, Preflight } from "@sdk/preflight";
+
+interface PreflightDialogProps {
+  /** Simulation to review; the dialog is open while set */
+  preflight?: Preflight;
+  title: string;
+  tokenSymbol?: string;
+  tokenDecimals?: number;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation for a simulated transaction: what it would do to the user's
+ * balances and what gas it would burn, or why it would fail. A failing call
+ * can only be submitted after ticking the override.
+ */
+export const PreflightDialog: FC<PreflightDialogProps> = ({
+  preflight,
+  title,
+  tokenSymbol = "",
+  tokenDecimals = 8,
+  onConfirm,
+  onCancel,
+}) => {
+  const [override, setOverride] = useState(false);
+
+  useEffect(() => setOverride(false), [preflight]);
+
+  const formatChange = (asset: string, amount: bigint) => {
+    const sign = amount > 0n ? "+" : "";
+    return asset === APT_ASSET
+      ? `${sign}${formatApt(amount)}`
+      : `${sign}${Amount.fromRaw(amount, tokenDecimals).format({ grouping: true })} ${tokenSymbol}`;
+  };
+
+  return (
+    <AlertDialog open={!!preflight} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+        </AlertDialogHeader>
+        {preflight && (
+          <div className="flex flex-col gap-3 text-sm">
+            {preflight.success ? (
+              <p className="text-green-600">Simulation succeeded</p>
+            ) : (
+              <p className="text-destructive">
+                This transaction would fail: {preflight.error?.message ?? preflight.vmStatus}
+              </p>
+            )}
+            <div className="flex flex-col gap-1">
+              <p className="label-sm">Expected balance changes</p>
+              {preflight.balanceChanges.map(({ asset, amount }) => (
+                <div key={asset} className="flex justify-between">
+                  <span>{asset === APT_ASSET ? "APT" : tokenSymbol || asset}</span>
+                  <span className={amount < 0n ? "text-destructive" : "text-green-600"}>
+                    {formatChange(asset, amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-muted-foreground">
+              <span>Estimated gas</span>
+              <span>
+                {formatApt(preflight.gasFee)} ({preflight.gasUsed.toString()} units)
+              </span>
+            </div>
+            {!preflight.success && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="preflight-override"
+                  checked={override}
+                  onCheckedChange={(checked) => setOverride(checked === true)}
+                />
+                <Label htmlFor="preflight-override">Submit anyway; I accept paying gas for a failed transaction</Label>
+              </div>
+            )}
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm} disabled={!preflight?.success && !override}>
+            Confirm
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -1,2 +1,53 @@
+import { AddressOverride, DeploymentModule, findAddress, resolveAddress, shadowedDeployment } from "@sdk/deployments";
+
 export const NETWORK = import.meta.env.VITE_APP_NETWORK ?? "testnet";
-export const MODULE_ADDRESS = import.meta.env.VITE_MODULE_ADDRESS;
+
+const MODULE_OVERRIDE: AddressOverride = { value: import.meta.env.VITE_MODULE_ADDRESS, name: "VITE_MODULE_ADDRESS" };
+const QUEST_MODULE_OVERRIDE: AddressOverride = {
+  value: import.meta.env.VITE_QUEST_MODULE_ADDRESS,
+  name: "VITE_QUEST_MODULE_ADDRESS",
+};
+
+/**
+ * Contract addresses for NETWORK from scripts/deployments.json, unless the
+ * env variable overrides them. A missing launchpad deployment or a malformed
+ * address fails here, at startup.
+ */
+export const MODULE_ADDRESS = resolveAddress(NETWORK, "launchpad_v2", MODULE_OVERRIDE);
+export const QUEST_MODULE_ADDRESS = findAddress(NETWORK, "quest_staking", QUEST_MODULE_OVERRIDE);
+
+// An override left in .env after a publish would otherwise win over the manifest unnoticed
+function warnIfShadowed(module: DeploymentModule, override: AddressOverride) {
+  const deployment = shadowedDeployment(NETWORK, module, override);
+  if (deployment) {
+    console.warn(
+      `${override.name}=${override.value} overrides the ${module} deployment at ${deployment.address} ` +
+        `recorded for ${NETWORK} in scripts/deployments.json; unset it to use the manifest`,
+    );
+  }
+}
+warnIfShadowed("launchpad_v2", MODULE_OVERRIDE);
+warnIfShadowed("quest_staking", QUEST_MODULE_OVERRIDE);
+
+/**
+ * QUEST_MODULE_ADDRESS for calls that need it. Quests are optional, so a
+ * missing quest_staking deployment only fails the quest features.
+ */
+export function questModuleAddress(): string {
+  return resolveAddress(NETWORK, "quest_staking", {
+    value: QUEST_MODULE_ADDRESS,
+    name: "VITE_QUEST_MODULE_ADDRESS",
+  });
+}
+
+/** Comma separated fullnode / indexer URLs to fail over between (default: the network's public endpoints) */
+export const FULLNODE_URLS: string | undefined = import.meta.env.VITE_FULLNODE_URLS;
+export const INDEXER_URLS: string | undefined = import.meta.env.VITE_INDEXER_URLS;
+
+/**
+ * Launchpad module the UI talks to. Both modules ship in the same package,
+ * so they share MODULE_ADDRESS. Set VITE_MODULE_VERSION=v1 to keep using
+ * the legacy `launchpad` module.
+ */
+export type ModuleVersion = "v1" | "v2";
+export const MODULE_VERSION: ModuleVersion = import.meta.env.VITE_MODULE_VERSION === "v1" ? "v1" : "v2";
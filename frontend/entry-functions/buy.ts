@@ -0,0 +1,30 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal utils
+import { APT_DECIMALS, convertAmountFromHumanReadableToOnChain, getDeadline } from "@/utils/helpers";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+// Shared SDK modules
+import { AmountInput } from "@sdk/amount";
+
+export type BuyArguments = {
+  poolId: string; // The pool (fungible asset metadata object) address
+  aptAmount: AmountInput; // Amount of APT to spend, including the buy fee
+  minTokensOut: bigint; // Minimum tokens to receive in base units, reverts below this
+  deadline?: number; // Unix timestamp in seconds after which the trade reverts (default: 5 minutes from now)
+};
+
+export const buy = (args: BuyArguments): InputTransactionData => {
+  const { poolId, aptAmount, minTokensOut, deadline } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::buy`,
+      typeArguments: [],
+      functionArguments: [
+        poolId, // pool_id: Object<Metadata>
+        convertAmountFromHumanReadableToOnChain(aptAmount, APT_DECIMALS), // apt_amount: u64
+        minTokensOut, // min_tokens_out: u64
+        deadline ?? getDeadline(), // deadline: u64
+      ],
+    },
+  };
+};
@@ -1,6 +1,8 @@
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
 // Internal utils
 import { convertAmountFromHumanReadableToOnChain } from "@/utils/helpers";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
 
 export type BuyTokenArguments = {
   faObj: string; // The fungible asset object address
@@ -12,7 +14,7 @@ export const buyToken = (args: BuyTokenArguments): InputTransactionData => {
   const { faObj, amount, decimals } = args;
   return {
     data: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::buy_token`,
+      function: `${MODULE_ADDRESS}::launchpad::buy_token`,
       typeArguments: [],
       functionArguments: [
         faObj,
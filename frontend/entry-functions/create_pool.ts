@@ -0,0 +1,19 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+// Shared SDK modules
+import { PoolDraft, createPoolArguments } from "@sdk/pool-draft";
+
+/**
+ * Create a launchpad_v2 pool; see `createPoolArguments` for the argument
+ * order and units.
+ */
+export const createPool = (draft: PoolDraft): InputTransactionData => {
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::create_pool`,
+      typeArguments: [],
+      functionArguments: createPoolArguments(draft).map((argument) => argument.value),
+    },
+  };
+};
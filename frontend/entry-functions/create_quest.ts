@@ -1,8 +1,10 @@
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { questModuleAddress } from "@/constants";
 
 export type CreateQuestArguments = {
   name: string;
-  entryFee: number; // in APT (octas)
+  entryFee: bigint; // in octas
   buyInTime: number; // seconds from now
   resultTime: number; // seconds from now
 };
@@ -11,7 +13,7 @@ export const createQuest = (args: CreateQuestArguments): InputTransactionData =>
   const { name, entryFee, resultTime, buyInTime } = args;
   return {
     data: {
-      function: `${import.meta.env.VITE_QUEST_MODULE_ADDRESS}::quest_staking::create_quest`,
+      function: `${questModuleAddress()}::quest_staking::create_quest`,
       typeArguments: [],
       functionArguments: [
         name,
@@ -5,6 +5,8 @@ import {
   convertAmountFromHumanReadableToOnChain,
   convertAmountFromOnChainToHumanReadable,
 } from "@/utils/helpers";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
 
 export type CreateTokenArguments = {
   maxSupply: number; // The total amount of the asset in full unit that can be minted.
@@ -35,7 +37,7 @@ export const createToken = (args: CreateTokenArguments): InputTransactionData =>
   
   return {
     data: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::create_token`,
+      function: `${MODULE_ADDRESS}::launchpad::create_token`,
       typeArguments: [],
       functionArguments: [
         convertAmountFromHumanReadableToOnChain(maxSupply, decimal), // max_supply: Option<u128>
@@ -1,4 +1,6 @@
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { questModuleAddress } from "@/constants";
 
 export type DeclareWinnerArguments = {
   questId: number;
@@ -9,7 +11,7 @@ export const declareWinner = (args: DeclareWinnerArguments): InputTransactionDat
   const { questId, winner } = args;
   return {
     data: {
-      function: `${import.meta.env.VITE_QUEST_MODULE_ADDRESS}::quest_staking::declare_winner`,
+      function: `${questModuleAddress()}::quest_staking::declare_winner`,
       typeArguments: [],
       functionArguments: [questId, winner],
     },
@@ -0,0 +1,18 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+
+export type ForceMigrateToHyperionArguments = {
+  poolId: string; // The pool (fungible asset metadata object) address
+};
+
+export const forceMigrateToHyperion = (args: ForceMigrateToHyperionArguments): InputTransactionData => {
+  const { poolId } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::force_migrate_to_hyperion`,
+      typeArguments: [],
+      functionArguments: [poolId],
+    },
+  };
+};
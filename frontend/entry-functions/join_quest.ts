@@ -1,4 +1,6 @@
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { questModuleAddress } from "@/constants";
 
 export type JoinQuestArguments = {
   questId: number;
@@ -8,7 +10,7 @@ export const joinQuest = (args: JoinQuestArguments): InputTransactionData => {
   const { questId } = args;
   return {
     data: {
-      function: `${import.meta.env.VITE_QUEST_MODULE_ADDRESS}::quest_staking::join_quest`,
+      function: `${questModuleAddress()}::quest_staking::join_quest`,
       typeArguments: [],
       functionArguments: [questId],
     },
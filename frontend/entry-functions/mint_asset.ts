@@ -1,6 +1,8 @@
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
 // Internal utils
 import { convertAmountFromHumanReadableToOnChain } from "@/utils/helpers";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
 
 export type MintAssetArguments = {
   assetType: string;
@@ -12,7 +14,7 @@ export const mintAsset = (args: MintAssetArguments): InputTransactionData => {
   const { assetType, amount, decimals } = args;
   return {
     data: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::mint_fa`,
+      function: `${MODULE_ADDRESS}::launchpad::mint_fa`,
       typeArguments: [],
       functionArguments: [assetType, convertAmountFromHumanReadableToOnChain(amount, decimals)],
     },
@@ -1,16 +1,18 @@
 import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { questModuleAddress } from "@/constants";
 
 export type SelectPortfolioArguments = {
   questId: number;
   tokenAddresses: string[];
-  amountsUsdc: number[]; // amounts in USDC (6 decimals)
+  amountsUsdc: bigint[]; // amounts in USDC (6 decimals)
 };
 
 export const selectPortfolio = (args: SelectPortfolioArguments): InputTransactionData => {
   const { questId, tokenAddresses, amountsUsdc } = args;
   return {
     data: {
-      function: `${import.meta.env.VITE_QUEST_MODULE_ADDRESS}::quest_staking::select_portfolio`,
+      function: `${questModuleAddress()}::quest_staking::select_portfolio`,
       typeArguments: [],
       functionArguments: [questId, tokenAddresses, amountsUsdc],
     },
@@ -0,0 +1,31 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal utils
+import { convertAmountFromHumanReadableToOnChain, getDeadline } from "@/utils/helpers";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+// Shared SDK modules
+import { AmountInput } from "@sdk/amount";
+
+export type SellArguments = {
+  poolId: string; // The pool (fungible asset metadata object) address
+  amount: AmountInput; // Amount of tokens to sell
+  decimals: number; // Token decimals
+  minAptOut: bigint; // Minimum APT to receive in octas after the sell fee, reverts below this
+  deadline?: number; // Unix timestamp in seconds after which the trade reverts (default: 5 minutes from now)
+};
+
+export const sell = (args: SellArguments): InputTransactionData => {
+  const { poolId, amount, decimals, minAptOut, deadline } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::sell`,
+      typeArguments: [],
+      functionArguments: [
+        poolId, // pool_id: Object<Metadata>
+        convertAmountFromHumanReadableToOnChain(amount, decimals), // token_amount: u64
+        minAptOut, // min_apt_out: u64
+        deadline ?? getDeadline(), // deadline: u64
+      ],
+    },
+  };
+};
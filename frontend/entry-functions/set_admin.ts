@@ -0,0 +1,18 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+
+export type SetAdminArguments = {
+  newAdmin: string; // Address that becomes the launchpad admin
+};
+
+export const setAdmin = (args: SetAdminArguments): InputTransactionData => {
+  const { newAdmin } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::set_admin`,
+      typeArguments: [],
+      functionArguments: [newAdmin],
+    },
+  };
+};
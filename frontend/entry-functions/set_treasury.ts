@@ -0,0 +1,18 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+
+export type SetTreasuryArguments = {
+  newTreasury: string; // Address that receives trading fees
+};
+
+export const setTreasury = (args: SetTreasuryArguments): InputTransactionData => {
+  const { newTreasury } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::set_treasury`,
+      typeArguments: [],
+      functionArguments: [newTreasury],
+    },
+  };
+};
@@ -0,0 +1,23 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal utils
+import { APT_DECIMALS, convertAmountFromHumanReadableToOnChain } from "@/utils/helpers";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+// Shared SDK modules
+import { AmountInput } from "@sdk/amount";
+
+export type TransferToAdminArguments = {
+  poolId: string; // The pool (fungible asset metadata object) address
+  amount: AmountInput; // Amount of APT to withdraw from the pool reserve
+};
+
+export const transferToAdmin = (args: TransferToAdminArguments): InputTransactionData => {
+  const { poolId, amount } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::transfer_to_admin`,
+      typeArguments: [],
+      functionArguments: [poolId, convertAmountFromHumanReadableToOnChain(amount, APT_DECIMALS)],
+    },
+  };
+};
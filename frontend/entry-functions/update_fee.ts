@@ -0,0 +1,19 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+
+export type UpdateFeeArguments = {
+  buyFeeBps: number; // Buy fee in basis points (100 = 1%)
+  sellFeeBps: number; // Sell fee in basis points (100 = 1%)
+};
+
+export const updateFee = (args: UpdateFeeArguments): InputTransactionData => {
+  const { buyFeeBps, sellFeeBps } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::update_fee`,
+      typeArguments: [],
+      functionArguments: [buyFeeBps, sellFeeBps],
+    },
+  };
+};
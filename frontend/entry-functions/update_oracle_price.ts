@@ -0,0 +1,22 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+
+export type UpdateOraclePriceArguments = {
+  aptUsdPrice: number; // APT price in USD (e.g. 8.5 = $8.50)
+  oracleAddress: string; // Address recorded as the price source
+};
+
+export const updateOraclePrice = (args: UpdateOraclePriceArguments): InputTransactionData => {
+  const { aptUsdPrice, oracleAddress } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::update_oracle_price`,
+      typeArguments: [],
+      functionArguments: [
+        Math.round(aptUsdPrice * 100), // new_price: u64 (cents)
+        oracleAddress, // oracle_address: address
+      ],
+    },
+  };
+};
@@ -0,0 +1,24 @@
+import { InputTransactionData } from "@aptos-labs/wallet-adapter-react";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+
+export type UpdatePoolSettingsArguments = {
+  poolId: string; // The pool (fungible asset metadata object) address
+  marketCapThresholdUsd?: number; // New migration threshold in USD, unchanged when omitted
+  tradingEnabled?: boolean; // Enable or pause trading, unchanged when omitted
+};
+
+export const updatePoolSettings = (args: UpdatePoolSettingsArguments): InputTransactionData => {
+  const { poolId, marketCapThresholdUsd, tradingEnabled } = args;
+  return {
+    data: {
+      function: `${MODULE_ADDRESS}::launchpad_v2::update_pool_settings`,
+      typeArguments: [],
+      functionArguments: [
+        poolId, // pool_id: Object<Metadata>
+        marketCapThresholdUsd !== undefined ? Math.round(marketCapThresholdUsd * 100) : undefined, // market_cap_threshold_usd: Option<u64> (cents)
+        tradingEnabled, // trading_enabled: Option<bool>
+      ],
+    },
+  };
+};
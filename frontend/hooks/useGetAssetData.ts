@@ -5,10 +5,10 @@ import { useQuery } from "@tanstack/react-query";
 import { aptosClient } from "@/utils/aptosClient";
 import { convertAmountFromOnChainToHumanReadable } from "@/utils/helpers";
 // Internal constants
-import { MODULE_ADDRESS } from "@/constants";
+import { MODULE_ADDRESS, MODULE_VERSION } from "@/constants";
 
 export interface FungibleAsset {
-  maximum_v2: number;
+  maximum_v2: number | null; // null for launchpad_v2 pools created without a max supply
   supply_v2: number;
   name: string;
   symbol: string;
@@ -40,6 +40,9 @@ interface MintData {
 }
 
 async function getMintLimit(fa_address: string): Promise<number> {
+  // launchpad_v2 pools have no per-address mint limit
+  if (MODULE_VERSION === "v2") return 0;
+
   try {
     const mintLimitRes = await aptosClient().view<[boolean, number]>({
       payload: {
@@ -64,9 +67,7 @@ export function useGetAssetData(fa_address?: string) {
 
   return useQuery({
     queryKey: ["app-state", fa_address],
-    refetchInterval: 1000 * 60, // Reduced from 30s to 60s to avoid rate limiting
-    retry: 3, // Retry failed requests
-    retryDelay: 5000, // Wait 5s between retries
+    refetchInterval: 1000 * 60,
     queryFn: async () => {
       try {
         if (!fa_address) return null;
@@ -123,34 +124,13 @@ export function useGetAssetData(fa_address?: string) {
             res.current_fungible_asset_balances[0]?.amount ?? 0,
             asset.decimals,
           ),
-          isMintActive: asset.maximum_v2 > asset.supply_v2,
+          isMintActive: asset.maximum_v2 === null || asset.maximum_v2 > asset.supply_v2,
         } satisfies MintData;
       } catch (error) {
+        // Throttling is retried with backoff by the shared transport, so what
+        // reaches here is a real failure; let React Query surface it
         console.error("Error fetching asset data:", error);
-        
-        // If it's a rate limit error, return a minimal data structure
-        if (error instanceof Error && error.message.includes("rate limit")) {
-          console.warn("Rate limit exceeded, returning minimal data");
-          return {
-            asset: {
-              maximum_v2: 0,
-              supply_v2: 0,
-              name: "Unknown",
-              symbol: "UNK",
-              decimals: 8,
-              asset_type: fa_address!,
-              icon_uri: ""
-            },
-            maxSupply: 0,
-            currentSupply: 0,
-            uniqueHolders: 0,
-            totalAbleToMint: 0,
-            yourBalance: 0,
-            isMintActive: false,
-          };
-        }
-        
-        return null;
+        throw error;
       }
     },
   });
@@ -2,6 +2,8 @@ import { AccountAddress, GetFungibleAssetMetadataResponse } from "@aptos-labs/ts
 import { useState, useEffect } from "react";
 // Internal utils
 import { aptosClient } from "@/utils/aptosClient";
+// Internal constants
+import { MODULE_ADDRESS, MODULE_VERSION } from "@/constants";
 
 /**
  * A react hook to get fungible asset metadatas.
@@ -29,9 +31,11 @@ export function useGetAssetMetadata() {
 }
 
 const getRegistry = async () => {
+  // Both registries return vector<Object<Metadata>>
+  const registryFunction = MODULE_VERSION === "v2" ? "launchpad_v2::get_pools" : "launchpad::get_registry";
   const registry = await aptosClient().view<[[{ inner: string }]]>({
     payload: {
-      function: `${AccountAddress.from(import.meta.env.VITE_MODULE_ADDRESS)}::launchpad::get_registry`,
+      function: `${AccountAddress.from(MODULE_ADDRESS)}::${registryFunction}`,
     },
   });
   return registry[0];
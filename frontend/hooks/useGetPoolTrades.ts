@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+// Internal utils
+import { aptosClient } from "@/utils/aptosClient";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+// Shared SDK modules
+import { LiquidityMigratedEvent, RawEvent, decodeLaunchpadEvent, eventTypeOf, normalizeAddress } from "@sdk/events";
+import { Trade, sortTrades, tradeFromEvent } from "@sdk/trades";
+
+/** Most recent trades fetched, buys and sells together */
+const TRADE_LIMIT = 500;
+
+export interface PoolTradesData {
+  /** Trades in chain order, oldest first */
+  trades: Trade[];
+
+  /** Set once the pool graduated to Hyperion */
+  migration?: LiquidityMigratedEvent;
+}
+
+interface PoolEventsQueryResult {
+  trades: Array<IndexerEvent>;
+  migrations: Array<IndexerEvent>;
+}
+
+interface IndexerEvent extends RawEvent {
+  transaction_version: number;
+  event_index: number;
+}
+
+async function getPoolEvents(poolId: string) {
+  return aptosClient().queryIndexer<PoolEventsQueryResult>({
+    query: {
+      variables: {
+        // One limit over both types, so buys and sells cover the same window
+        trade_types: [eventTypeOf(MODULE_ADDRESS, "BuyEvent"), eventTypeOf(MODULE_ADDRESS, "SellEvent")],
+        migrated_type: eventTypeOf(MODULE_ADDRESS, "LiquidityMigratedEvent"),
+        pool: { pool_id: { inner: normalizeAddress(poolId) } },
+        limit: TRADE_LIMIT,
+      },
+      query: `
+      query PoolEvents($trade_types: [String!], $migrated_type: String, $pool: jsonb, $limit: Int) {
+        trades: events(
+          where: {indexed_type: {_in: $trade_types}, data: {_contains: $pool}}
+          order_by: [{transaction_version: desc}, {event_index: desc}]
+          limit: $limit
+        ) {
+          type
+          data
+          transaction_version
+          event_index
+        }
+        migrations: events(
+          where: {indexed_type: {_eq: $migrated_type}, data: {_contains: $pool}}
+          limit: 1
+        ) {
+          type
+          data
+          transaction_version
+          event_index
+        }
+      }`,
+    },
+  });
+}
+
+/**
+ * Recent buy/sell history of a launchpad_v2 pool, in chain order, plus its
+ * migration event if it graduated.
+ */
+export async function getPoolTrades(poolId: string): Promise<PoolTradesData> {
+  const { trades: events, migrations } = await getPoolEvents(poolId);
+
+  const trades: Trade[] = [];
+  for (const event of events) {
+    const decoded = decodeLaunchpadEvent(event, MODULE_ADDRESS);
+    if (decoded?.type === "BuyEvent" || decoded?.type === "SellEvent") {
+      trades.push(
+        tradeFromEvent(decoded, {
+          version: BigInt(event.transaction_version),
+          eventIndex: Number(event.event_index),
+        }),
+      );
+    }
+  }
+
+  const migration = migrations[0] ? decodeLaunchpadEvent(migrations[0], MODULE_ADDRESS) : undefined;
+
+  return {
+    trades: sortTrades(trades),
+    migration: migration?.type === "LiquidityMigratedEvent" ? migration : undefined,
+  };
+}
+
+/**
+ * A react hook to get the recent buy/sell history of a launchpad_v2 pool.
+ */
+export function useGetPoolTrades(poolId?: string) {
+  return useQuery({
+    queryKey: ["pool-trades", poolId],
+    refetchInterval: 1000 * 15,
+    retry: 3,
+    retryDelay: 5000,
+    queryFn: async (): Promise<PoolTradesData | null> => {
+      if (!poolId) return null;
+      return getPoolTrades(poolId);
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+// Internal utils
+import { blazeClient, poolReader } from "@/utils/blazeClient";
+// Shared SDK modules
+import { TokenMetadata } from "@sdk/resources";
+
+export interface LaunchpadToken {
+  /** Pool id, which is also the token's FA metadata address */
+  poolId: string;
+  metadata: TokenMetadata;
+}
+
+/**
+ * Every launchpad_v2 pool with its token metadata, in creation order.
+ */
+export async function getLaunchpadTokens(): Promise<LaunchpadToken[]> {
+  const [poolIds, tokens] = await Promise.all([blazeClient().getPools(), blazeClient().getTokens()]);
+
+  // get_tokens skips pools without a Pool resource, so only trust the
+  // positional match when nothing was skipped
+  if (tokens.length === poolIds.length) {
+    return poolIds.map((poolId, index) => ({ poolId, metadata: tokens[index] }));
+  }
+  const snapshots = await poolReader().getSnapshots(poolIds);
+  return snapshots.map(({ poolId, metadata }) => ({ poolId, metadata }));
+}
+
+/**
+ * Filter tokens by name, ticker or pool address (case-insensitive)
+ */
+export function searchLaunchpadTokens(tokens: LaunchpadToken[], query: string): LaunchpadToken[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return tokens;
+  return tokens.filter(
+    ({ poolId, metadata }) =>
+      metadata.name.toLowerCase().includes(needle) ||
+      metadata.ticker.toLowerCase().includes(needle) ||
+      poolId.toLowerCase().includes(needle),
+  );
+}
+
+/**
+ * A react hook to list the tokens launched on launchpad_v2.
+ */
+export function useLaunchpadTokens() {
+  return useQuery({
+    queryKey: ["launchpad-tokens"],
+    staleTime: 1000 * 60,
+    queryFn: getLaunchpadTokens,
+  });
+}
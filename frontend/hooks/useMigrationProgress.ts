@@ -0,0 +1,35 @@
+import { useQuery } from "@tanstack/react-query";
+// Internal utils
+import { blazeClient, poolReader } from "@/utils/blazeClient";
+// Internal hooks
+import { getPoolTrades } from "@/hooks/useGetPoolTrades";
+// Shared SDK modules
+import { MigrationProgress, getMigrationProgress } from "@sdk/migration";
+
+/**
+ * Progress of a launchpad_v2 pool toward its Hyperion migration, with an
+ * ETA from recent trades.
+ */
+export async function getPoolMigrationProgress(poolId: string): Promise<MigrationProgress> {
+  const [{ curve, settings, marketCapUsd }, aptUsdPrice, { trades }] = await Promise.all([
+    poolReader().getSnapshot(poolId),
+    blazeClient().getAptUsdPrice(),
+    getPoolTrades(poolId),
+  ]);
+  return getMigrationProgress({ curve, settings, marketCapUsd, aptUsdPrice, trades });
+}
+
+/**
+ * A react hook to track a launchpad_v2 pool's progress toward migration.
+ */
+export function useMigrationProgress(poolId?: string) {
+  return useQuery({
+    queryKey: ["migration-progress", poolId],
+    enabled: !!poolId,
+    refetchInterval: 1000 * 15,
+    queryFn: async (): Promise<MigrationProgress | null> => {
+      if (!poolId) return null;
+      return getPoolMigrationProgress(poolId);
+    },
+  });
+}
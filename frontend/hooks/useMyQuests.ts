@@ -0,0 +1,192 @@
+import { useQuery } from "@tanstack/react-query";
+// Internal utils
+import { aptosClient } from "@/utils/aptosClient";
+import { blazeClient } from "@/utils/blazeClient";
+// Internal constants
+import { questModuleAddress } from "@/constants";
+// Shared SDK modules
+import {
+  PortfolioSelectedEvent,
+  QuestJoinedEvent,
+  RawEvent,
+  WinnerDeclaredEvent,
+  decodeQuestEvent,
+  normalizeAddress,
+  questEventTypeOf,
+} from "@sdk/events";
+import { Participation, Quest } from "@sdk/resources";
+
+/** Most recent events fetched per event type */
+const EVENT_LIMIT = 500;
+
+export type QuestOutcome = "won" | "lost" | "pending" | "cancelled";
+
+export interface MyQuestEntry {
+  quest: Quest;
+  participation: Participation;
+
+  /** Transaction that joined the quest */
+  joinedVersion: bigint;
+
+  /** Transaction that selected the portfolio, if any */
+  portfolioVersion?: bigint;
+  winnerEvent?: WinnerDeclaredEvent & { version: bigint };
+  outcome: QuestOutcome;
+
+  /** Reward received minus entry fee paid, in octas; zero while pending */
+  netApt: bigint;
+}
+
+export interface MyQuestsData {
+  /** Newest join first */
+  entries: MyQuestEntry[];
+
+  /** Sum of `netApt` over settled quests, in octas */
+  netApt: bigint;
+  wins: number;
+  losses: number;
+}
+
+interface QuestEventsQueryResult {
+  joins: Array<IndexerEvent>;
+  portfolios: Array<IndexerEvent>;
+  winners: Array<IndexerEvent>;
+}
+
+interface IndexerEvent extends RawEvent {
+  transaction_version: number;
+}
+
+async function getQuestEvents(user: string) {
+  const questAddress = questModuleAddress();
+  return aptosClient().queryIndexer<QuestEventsQueryResult>({
+    query: {
+      variables: {
+        joined_type: questEventTypeOf(questAddress, "QuestJoinedEvent"),
+        portfolio_type: questEventTypeOf(questAddress, "PortfolioSelectedEvent"),
+        winner_type: questEventTypeOf(questAddress, "WinnerDeclaredEvent"),
+        user: { user: normalizeAddress(user) },
+        limit: EVENT_LIMIT,
+      },
+      query: `
+      query MyQuestEvents($joined_type: String, $portfolio_type: String, $winner_type: String, $user: jsonb, $limit: Int) {
+        joins: events(
+          where: {indexed_type: {_eq: $joined_type}, data: {_contains: $user}}
+          order_by: {transaction_version: desc}
+          limit: $limit
+        ) {
+          type
+          data
+          transaction_version
+        }
+        portfolios: events(
+          where: {indexed_type: {_eq: $portfolio_type}, data: {_contains: $user}}
+          order_by: {transaction_version: desc}
+          limit: $limit
+        ) {
+          type
+          data
+          transaction_version
+        }
+        winners: events(
+          where: {indexed_type: {_eq: $winner_type}}
+          order_by: {transaction_version: desc}
+          limit: $limit
+        ) {
+          type
+          data
+          transaction_version
+        }
+      }`,
+    },
+  });
+}
+
+function decodeWithVersion<T extends QuestJoinedEvent | PortfolioSelectedEvent | WinnerDeclaredEvent>(
+  events: IndexerEvent[],
+  type: T["type"],
+): Array<T & { version: bigint }> {
+  const questAddress = questModuleAddress();
+  const decoded: Array<T & { version: bigint }> = [];
+  for (const event of events) {
+    const quest = decodeQuestEvent(event, questAddress);
+    if (quest?.type === type) {
+      decoded.push({ ...(quest as T), version: BigInt(event.transaction_version) });
+    }
+  }
+  return decoded;
+}
+
+function outcomeOf(quest: Quest, user: string, winnerEvent?: WinnerDeclaredEvent): QuestOutcome {
+  if (quest.status === "Cancelled") return "cancelled";
+  const winner = winnerEvent?.winner ?? quest.winner;
+  if (!winner) return "pending";
+  return normalizeAddress(winner) === normalizeAddress(user) ? "won" : "lost";
+}
+
+/**
+ * Every quest `user` joined, with the participation record, portfolio and
+ * outcome of each.
+ */
+export async function getMyQuests(user: string): Promise<MyQuestsData> {
+  const { joins, portfolios, winners } = await getQuestEvents(user);
+
+  const joined = decodeWithVersion<QuestJoinedEvent>(joins, "QuestJoinedEvent");
+  const portfolioVersions = new Map(
+    decodeWithVersion<PortfolioSelectedEvent>(portfolios, "PortfolioSelectedEvent").map((event) => [
+      event.questId,
+      event.version,
+    ]),
+  );
+  const winnerEvents = new Map(
+    decodeWithVersion<WinnerDeclaredEvent>(winners, "WinnerDeclaredEvent").map((event) => [event.questId, event]),
+  );
+
+  const entries = await Promise.all(
+    joined.map(async (join): Promise<MyQuestEntry> => {
+      const [quest, participation] = await Promise.all([
+        blazeClient().getQuest(join.questId),
+        blazeClient().getParticipation(user, join.questId),
+      ]);
+      const winnerEvent = winnerEvents.get(join.questId);
+      const outcome = outcomeOf(quest, user, winnerEvent);
+
+      // Rewards come from the declared event; fall back to the pool for
+      // winners declared before the indexer caught up
+      const reward = outcome === "won" ? (winnerEvent?.totalReward ?? quest.totalPool) : 0n;
+      const settled = outcome === "won" || outcome === "lost";
+
+      return {
+        quest,
+        participation,
+        joinedVersion: join.version,
+        portfolioVersion: portfolioVersions.get(join.questId),
+        winnerEvent,
+        outcome,
+        netApt: settled ? reward - participation.entryFeePaid : 0n,
+      };
+    }),
+  );
+
+  return {
+    entries,
+    netApt: entries.reduce((sum, entry) => sum + entry.netApt, 0n),
+    wins: entries.filter((entry) => entry.outcome === "won").length,
+    losses: entries.filter((entry) => entry.outcome === "lost").length,
+  };
+}
+
+/**
+ * A react hook to get the quests the connected account joined and how
+ * each one turned out.
+ */
+export function useMyQuests(user?: string) {
+  return useQuery({
+    queryKey: ["my-quests", user],
+    enabled: !!user,
+    queryFn: async (): Promise<MyQuestsData | null> => {
+      if (!user) return null;
+      return getMyQuests(user);
+    },
+  });
+}
@@ -0,0 +1,161 @@
+import { useQuery } from "@tanstack/react-query";
+// Internal utils
+import { aptosClient } from "@/utils/aptosClient";
+import { blazeClient } from "@/utils/blazeClient";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+// Internal hooks
+import { getLaunchpadTokens } from "@/hooks/useLaunchpadTokens";
+// Shared SDK modules
+import { PoolSummary, VOLUME_WINDOW_SECONDS, buildPoolSummaries } from "@sdk/discovery";
+import {
+  CreatePoolEvent,
+  LaunchpadEvent,
+  LiquidityMigratedEvent,
+  RawEvent,
+  decodeLaunchpadEvent,
+  eventTypeOf,
+  normalizeAddress,
+} from "@sdk/events";
+import { Trade, tradeFromEvent } from "@sdk/trades";
+
+/** Most recent pool creations / migrations fetched */
+const POOL_EVENT_LIMIT = 1000;
+
+/** Most recent trades fetched across all pools for the volume column */
+const VOLUME_TRADE_LIMIT = 1000;
+
+interface IndexerEvent extends RawEvent {
+  transaction_version: number;
+  event_index: number;
+}
+
+const EVENT_FIELDS = `
+          type
+          data
+          transaction_version
+          event_index`;
+
+/**
+ * One indexer request for every pool: creations, migrations, trades in the
+ * volume window and, through one aliased field per pool, each pool's latest
+ * trade (the source of its current price and supply).
+ */
+async function getDiscoveryEvents(poolIds: string[]) {
+  const since = new Date((Math.floor(Date.now() / 1000) - VOLUME_WINDOW_SECONDS) * 1000).toISOString();
+  const latestFields = poolIds
+    .map(
+      (_, index) => `
+        latest_${index}: events(
+          where: {indexed_type: {_in: $trade_types}, data: {_contains: $pool_${index}}}
+          order_by: [{transaction_version: desc}, {event_index: desc}]
+          limit: 1
+        ) {${EVENT_FIELDS}
+        }`,
+    )
+    .join("");
+  const poolVariables = Object.fromEntries(
+    poolIds.map((poolId, index) => [`pool_${index}`, { pool_id: { inner: normalizeAddress(poolId) } }]),
+  );
+
+  return aptosClient().queryIndexer<Record<string, IndexerEvent[]>>({
+    query: {
+      variables: {
+        created_type: eventTypeOf(MODULE_ADDRESS, "CreatePoolEvent"),
+        migrated_type: eventTypeOf(MODULE_ADDRESS, "LiquidityMigratedEvent"),
+        trade_types: [eventTypeOf(MODULE_ADDRESS, "BuyEvent"), eventTypeOf(MODULE_ADDRESS, "SellEvent")],
+        since,
+        pool_limit: POOL_EVENT_LIMIT,
+        volume_limit: VOLUME_TRADE_LIMIT,
+        ...poolVariables,
+      },
+      query: `
+      query PoolDiscovery($created_type: String, $migrated_type: String, $trade_types: [String!], $since: timestamp, $pool_limit: Int, $volume_limit: Int${poolIds
+        .map((_, index) => `, $pool_${index}: jsonb`)
+        .join("")}) {
+        creates: events(
+          where: {indexed_type: {_eq: $created_type}}
+          order_by: {transaction_version: desc}
+          limit: $pool_limit
+        ) {${EVENT_FIELDS}
+        }
+        migrations: events(
+          where: {indexed_type: {_eq: $migrated_type}}
+          order_by: {transaction_version: desc}
+          limit: $pool_limit
+        ) {${EVENT_FIELDS}
+        }
+        recent: events(
+          where: {indexed_type: {_in: $trade_types}, transaction_timestamp: {_gte: $since}}
+          order_by: [{transaction_version: desc}, {event_index: desc}]
+          limit: $volume_limit
+        ) {${EVENT_FIELDS}
+        }${latestFields}
+      }`,
+    },
+  });
+}
+
+function decodeAll(events: IndexerEvent[] = []): Array<{ event: LaunchpadEvent; raw: IndexerEvent }> {
+  const decoded: Array<{ event: LaunchpadEvent; raw: IndexerEvent }> = [];
+  for (const raw of events) {
+    const event = decodeLaunchpadEvent(raw, MODULE_ADDRESS);
+    if (event) decoded.push({ event, raw });
+  }
+  return decoded;
+}
+
+function tradesOf(events: IndexerEvent[] = []): Trade[] {
+  const trades: Trade[] = [];
+  for (const { event, raw } of decodeAll(events)) {
+    if (event.type === "BuyEvent" || event.type === "SellEvent") {
+      trades.push(
+        tradeFromEvent(event, {
+          version: BigInt(raw.transaction_version),
+          eventIndex: Number(raw.event_index),
+        }),
+      );
+    }
+  }
+  return trades;
+}
+
+/**
+ * A summary of every launchpad_v2 pool (price, market cap, migration
+ * progress, 24h volume), in creation order.
+ */
+export async function getPoolSummaries(): Promise<PoolSummary[]> {
+  const [tokens, aptUsdPrice] = await Promise.all([getLaunchpadTokens(), blazeClient().getAptUsdPrice()]);
+  const poolIds = tokens.map((token) => token.poolId);
+  const events = poolIds.length > 0 ? await getDiscoveryEvents(poolIds) : {};
+
+  const creates = decodeAll(events.creates)
+    .map(({ event }) => event)
+    .filter((event): event is CreatePoolEvent => event.type === "CreatePoolEvent");
+  const migrations = decodeAll(events.migrations)
+    .map(({ event }) => event)
+    .filter((event): event is LiquidityMigratedEvent => event.type === "LiquidityMigratedEvent");
+
+  return buildPoolSummaries({
+    poolIds,
+    tokens: new Map(tokens.map(({ poolId, metadata }) => [normalizeAddress(poolId), metadata])),
+    creates,
+    migrations,
+    latestTrades: poolIds.flatMap((_, index) => tradesOf(events[`latest_${index}`])),
+    recentTrades: tradesOf(events.recent),
+    aptUsdPrice,
+  });
+}
+
+/**
+ * A react hook to get a summary of every launchpad_v2 pool; sort, filter
+ * and page it with `queryPools`.
+ */
+export function usePoolDiscovery() {
+  return useQuery({
+    queryKey: ["pool-discovery"],
+    refetchInterval: 1000 * 30,
+    staleTime: 1000 * 15,
+    queryFn: getPoolSummaries,
+  });
+}
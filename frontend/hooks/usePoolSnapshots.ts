@@ -0,0 +1,50 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+// Internal utils
+import { poolReader } from "@/utils/blazeClient";
+// Shared SDK modules
+import { PoolSnapshot } from "@sdk/pool-reader";
+import { normalizeAddress } from "@sdk/events";
+
+/** How often pool snapshots are refreshed; the reader re-reads the ledger version at most as often */
+const SNAPSHOT_REFETCH_MS = 1000 * 15;
+
+/**
+ * React Query key of a pool's snapshot, for reading or invalidating it
+ */
+export const poolSnapshotQueryKey = (poolId: string) => ["pool-snapshot", normalizeAddress(poolId)];
+
+/**
+ * A react hook to get one launchpad_v2 pool's state (pool, supply, price
+ * and market cap) as of one ledger version.
+ */
+export function usePoolSnapshot(poolId?: string) {
+  return useQuery({
+    queryKey: poolSnapshotQueryKey(poolId ?? ""),
+    enabled: !!poolId,
+    refetchInterval: SNAPSHOT_REFETCH_MS,
+    queryFn: async (): Promise<PoolSnapshot | null> => {
+      if (!poolId) return null;
+      return poolReader().getSnapshot(poolId);
+    },
+  });
+}
+
+/**
+ * A react hook to get many launchpad_v2 pools' snapshots at the same ledger
+ * version, keyed by pool id. Each snapshot also seeds `usePoolSnapshot`.
+ */
+export function usePoolSnapshots(poolIds: string[]) {
+  const queryClient = useQueryClient();
+  return useQuery({
+    queryKey: ["pool-snapshots", [...poolIds].sort()],
+    enabled: poolIds.length > 0,
+    refetchInterval: SNAPSHOT_REFETCH_MS,
+    queryFn: async (): Promise<Map<string, PoolSnapshot>> => {
+      const snapshots = await poolReader().getSnapshots(poolIds);
+      for (const snapshot of snapshots) {
+        queryClient.setQueryData(poolSnapshotQueryKey(snapshot.poolId), snapshot);
+      }
+      return new Map(snapshots.map((snapshot) => [snapshot.poolId, snapshot]));
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+// Internal utils
+import { blazeClient } from "@/utils/blazeClient";
+// Internal hooks
+import { getPoolTrades } from "@/hooks/useGetPoolTrades";
+// Shared SDK modules
+import { normalizeAddress } from "@sdk/events";
+import { HistoricalPriceSource, Leaderboard, scoreQuest } from "@sdk/quest-scoring";
+import { Participation } from "@sdk/resources";
+
+/**
+ * Price history of every token selected in `participations`, from each
+ * pool's recent launchpad_v2 trades. Pools are fetched in parallel.
+ */
+export async function getPortfolioPriceHistory(participations: Participation[]): Promise<HistoricalPriceSource> {
+  const tokens = new Set<string>();
+  for (const participation of participations) {
+    for (const selection of participation.portfolio?.tokens ?? []) {
+      tokens.add(normalizeAddress(selection.tokenAddress));
+    }
+  }
+
+  const pools = await Promise.all([...tokens].map((token) => getPoolTrades(token)));
+  return HistoricalPriceSource.fromTrades(pools.flatMap((pool) => pool.trades));
+}
+
+/**
+ * A react hook to rank a quest's participants by portfolio return, pricing
+ * each selected token from its launchpad_v2 trade history.
+ *
+ * Only the most recent trades of each pool are fetched, so tokens with a
+ * long history may have no price at buy-in time; those are reported in
+ * `unpricedTokens` and held flat.
+ */
+export function useQuestLeaderboard(questId?: number, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ["quest-leaderboard", questId],
+    enabled: enabled && questId !== undefined,
+    queryFn: async (): Promise<Leaderboard | null> => {
+      if (questId === undefined) return null;
+
+      const [quest, participations] = await Promise.all([
+        blazeClient().getQuest(questId),
+        blazeClient().getParticipations(questId),
+      ]);
+
+      return scoreQuest(quest, participations, await getPortfolioPriceHistory(participations));
+    },
+  });
+}
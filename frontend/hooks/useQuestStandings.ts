@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+// Internal utils
+import { aptosClient } from "@/utils/aptosClient";
+import { blazeClient } from "@/utils/blazeClient";
+// Internal constants
+import { questModuleAddress } from "@/constants";
+// Internal hooks
+import { getPortfolioPriceHistory } from "@/hooks/useQuestLeaderboard";
+// Shared SDK modules
+import { RawEvent, WinnerDeclaredEvent, decodeQuestEvent, questEventTypeOf } from "@sdk/events";
+import { Leaderboard, LivePriceSource, scoreQuest } from "@sdk/quest-scoring";
+import { Participation, Quest } from "@sdk/resources";
+
+export interface QuestStandingsData {
+  quest: Quest;
+
+  /** Every participant's participation, in join order */
+  participations: Participation[];
+
+  /** Ranked by return from buy-in to `markedAt` */
+  leaderboard: Leaderboard;
+
+  /** Time portfolios were valued at, in seconds: now while running, else `resultTime` */
+  markedAt: number;
+
+  /** True while portfolios are marked to the current pool prices */
+  live: boolean;
+
+  /** Set once `declare_winner` ran */
+  winnerEvent?: WinnerDeclaredEvent & { version: bigint };
+}
+
+interface WinnerEventsQueryResult {
+  events: Array<RawEvent & { transaction_version: number }>;
+}
+
+async function getWinnerDeclaredEvent(questId: number) {
+  const questAddress = questModuleAddress();
+  const { events } = await aptosClient().queryIndexer<WinnerEventsQueryResult>({
+    query: {
+      variables: {
+        winner_type: questEventTypeOf(questAddress, "WinnerDeclaredEvent"),
+        quest: { quest_id: questId.toString() },
+      },
+      query: `
+      query WinnerDeclared($winner_type: String, $quest: jsonb) {
+        events(where: {indexed_type: {_eq: $winner_type}, data: {_contains: $quest}}, limit: 1) {
+          type
+          data
+          transaction_version
+        }
+      }`,
+    },
+  });
+
+  if (!events[0]) return undefined;
+  const decoded = decodeQuestEvent(events[0], questAddress);
+  return decoded?.type === "WinnerDeclaredEvent"
+    ? { ...decoded, version: BigInt(events[0].transaction_version) }
+    : undefined;
+}
+
+/**
+ * A react hook to get a quest's participants and their standings.
+ *
+ * Portfolios are valued from each token's price at `buy_in_time` to its
+ * current pool price while the quest runs, and to its price at
+ * `result_time` afterwards.
+ */
+export function useQuestStandings(questId?: number) {
+  return useQuery({
+    queryKey: ["quest-standings", questId],
+    enabled: questId !== undefined,
+    refetchInterval: 1000 * 15,
+    retry: 3,
+    retryDelay: 5000,
+    queryFn: async (): Promise<QuestStandingsData | null> => {
+      if (questId === undefined) return null;
+
+      const [quest, participations, winnerEvent] = await Promise.all([
+        blazeClient().getQuest(questId),
+        blazeClient().getParticipations(questId),
+        getWinnerDeclaredEvent(questId),
+      ]);
+
+      const now = Math.floor(Date.now() / 1000);
+      const live = now < quest.resultTime && quest.status !== "Completed" && quest.status !== "Cancelled";
+      const markedAt = live ? Math.max(now, quest.buyInTime) : quest.resultTime;
+
+      const prices = new LivePriceSource(
+        await getPortfolioPriceHistory(participations),
+        (token) => blazeClient().getCurrentPrice(token),
+        () => now,
+      );
+      const leaderboard = await scoreQuest({ ...quest, resultTime: markedAt }, participations, prices);
+
+      return { quest, participations, leaderboard, markedAt, live, winnerEvent };
+    },
+  });
+}
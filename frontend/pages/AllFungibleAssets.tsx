@@ -5,6 +5,8 @@ import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, Tabl
 // Internal hooks
 import { useGetAssetMetadata } from "@/hooks/useGetAssetMetadata";
 import { convertAmountFromOnChainToHumanReadable } from "@/utils/helpers";
+// Internal constants
+import { MODULE_VERSION } from "@/constants";
 
 export function AllFungibleAssets() {
   const fas = useGetAssetMetadata();
@@ -17,7 +19,7 @@ export function AllFungibleAssets() {
         <TableHeader>
           <TableRow>
             <TableHead className="w-[100px]">Symbol</TableHead>
-            <TableHead>Asset Name (click to mint)</TableHead>
+            <TableHead>Asset Name (click to {MODULE_VERSION === "v2" ? "trade" : "mint"})</TableHead>
             <TableHead>FA address</TableHead>
             <TableHead>Max Supply</TableHead>
             <TableHead>Minted</TableHead>
@@ -51,7 +53,10 @@ export function AllFungibleAssets() {
                       {fa.asset_type}
                     </Link>
                   </TableCell>
-                  <TableCell>{convertAmountFromOnChainToHumanReadable(fa.maximum_v2, fa.decimals)}</TableCell>
+                  <TableCell>
+                    {/* launchpad_v2 pools may be created without a max supply */}
+                    {fa.maximum_v2 == null ? "Unlimited" : convertAmountFromOnChainToHumanReadable(fa.maximum_v2, fa.decimals)}
+                  </TableCell>
                   <TableCell>{convertAmountFromOnChainToHumanReadable(fa.supply_v2, fa.decimals)}</TableCell>
                   <TableCell>{fa.decimals}</TableCell>
                 </TableRow>
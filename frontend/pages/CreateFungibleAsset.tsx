@@ -1,25 +1,24 @@
 import { isAptosConnectWallet, useWallet } from "@aptos-labs/wallet-adapter-react";
 import { Link, useNavigate } from "react-router-dom";
-import { useRef, useState } from "react";
+import { useState } from "react";
 // Internal components
-import { Button, buttonVariants } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { WarningAlert } from "@/components/ui/warning-alert";
 import { UploadSpinner } from "@/components/UploadSpinner";
 import { LabeledInput } from "@/components/ui/labeled-input";
 import { ConfirmButton } from "@/components/ui/confirm-button";
 import { Header } from "@/components/Header";
+import { ImageUploader } from "@/components/ImageUploader";
 // Internal utils
-import { checkIfFund, uploadFile } from "@/utils/Irys";
 import { aptosClient } from "@/utils/aptosClient";
+import { getErrorMessage } from "@sdk/errors";
 // Entry functions
 import { createToken } from "@/entry-functions/create_token";
 
+const PLACEHOLDER_ICON_URL = "https://via.placeholder.com/300x300/4F46E5/FFFFFF?text=Token+Image";
+
 export function CreateFungibleAsset() {
   // Wallet Adapter provider
-  const aptosWallet = useWallet();
   const { account, wallet, signAndSubmitTransaction } = useWallet();
 
   // If we are on Production mode, redierct to the public mint page
@@ -31,7 +30,7 @@ export function CreateFungibleAsset() {
   const [maxSupply, setMaxSupply] = useState<string>();
   const [maxMintPerAccount, setMaxMintPerAccount] = useState<number>();
   const [decimal, setDecimal] = useState<string>();
-  const [image, setImage] = useState<File | null>(null);
+  const [iconURL, setIconURL] = useState<string>("");
   const [projectURL, setProjectURL] = useState<string>("");
   // Bonding curve parameters (required for new contract)
   const [targetSupply, setTargetSupply] = useState<number>();
@@ -41,9 +40,6 @@ export function CreateFungibleAsset() {
   // Internal state
   const [isUploading, setIsUploading] = useState(false);
 
-  // Local Ref
-  const inputRef = useRef<HTMLInputElement>(null);
-
   const disableCreateAssetButton =
     !name || !symbol || !maxSupply || !decimal || !projectURL || !maxMintPerAccount || !targetSupply || !virtualLiquidity || !account || isUploading;
 
@@ -51,25 +47,11 @@ export function CreateFungibleAsset() {
   const onCreateAsset = async () => {
     try {
       if (!account) throw new Error("Connect wallet first");
-      // Image is now optional - we'll use a placeholder if not provided
+      // Image is optional - we'll use a placeholder if none was uploaded
 
       // Set internal isUploading state
       setIsUploading(true);
 
-      // For now, use a placeholder URL instead of Irys upload
-      // TODO: Fix Irys integration or implement alternative file upload
-      const iconURL = "https://via.placeholder.com/300x300/4F46E5/FFFFFF?text=Token+Image";
-      
-      // Alternative: Try Irys upload but fallback to placeholder if it fails
-      // try {
-      //   const funded = await checkIfFund(aptosWallet, image.size);
-      //   if (!funded) throw new Error("Current account balance is not enough to fund a decentralized asset node");
-      //   const iconURL = await uploadFile(aptosWallet, image);
-      // } catch (irysError) {
-      //   console.warn("Irys upload failed, using placeholder:", irysError);
-      //   const iconURL = "https://via.placeholder.com/300x300/4F46E5/FFFFFF?text=Token+Image";
-      // }
-
       // Submit a create_token entry function transaction
       const response = await signAndSubmitTransaction(
         createToken({
@@ -77,7 +59,7 @@ export function CreateFungibleAsset() {
           name,
           symbol,
           decimal: Number(decimal),
-          iconURL,
+          iconURL: iconURL || PLACEHOLDER_ICON_URL,
           projectURL,
           targetSupply: targetSupply!,
           virtualLiquidity: virtualLiquidity!,
@@ -96,7 +78,7 @@ export function CreateFungibleAsset() {
         navigate(`/`, { replace: true });
       }
     } catch (error) {
-      alert(error);
+      alert(getErrorMessage(error));
     } finally {
       setIsUploading(false);
     }
@@ -121,54 +103,11 @@ export function CreateFungibleAsset() {
               <CardDescription>Upload an image for your token. A placeholder will be used if not provided.</CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="flex flex-col items-start justify-between">
-                {!image && (
-                  <Label
-                    htmlFor="upload"
-                    className={buttonVariants({
-                      variant: "outline",
-                      className: "cursor-pointer",
-                    })}
-                  >
-                    Choose Image (Optional)
-                  </Label>
-                )}
-                <Input
-                  disabled={isUploading || !account || !wallet || isAptosConnectWallet(wallet)}
-                  type="file"
-                  className="hidden"
-                  ref={inputRef}
-                  id="upload"
-                  placeholder="Upload Image"
-                  onChange={(e) => {
-                    setImage(e.target.files![0]);
-                  }}
-                />
-                {image && (
-                  <>
-                    <img src={URL.createObjectURL(image)} className="max-w-48 max-h-48 object-cover rounded" />
-                    <p className="body-sm">
-                      {image.name}
-                      <Button
-                        variant="link"
-                        className="text-destructive"
-                        onClick={() => {
-                          setImage(null);
-                          inputRef.current!.value = "";
-                        }}
-                      >
-                        Clear
-                      </Button>
-                    </p>
-                  </>
-                )}
-                {!image && (
-                  <div className="mt-2 p-4 border-2 border-dashed border-gray-300 rounded-lg text-center">
-                    <p className="text-sm text-gray-500">No image selected</p>
-                    <p className="text-xs text-gray-400">A placeholder image will be used</p>
-                  </div>
-                )}
-              </div>
+              <ImageUploader
+                id="upload"
+                disabled={isUploading || !account || !wallet || isAptosConnectWallet(wallet)}
+                onUploaded={setIconURL}
+              />
             </CardContent>
           </Card>
 
@@ -0,0 +1,82 @@
+import { APT_DECIMALS, convertAmountFromOnChainToHumanReadable } from "@/utils/helpers";
+import { CurvePoint } from "@sdk/pool-draft";
+
+interface CurvePreviewProps {
+  points: CurvePoint[];
+}
+
+const WIDTH = 800;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 72, bottom: 24, left: 8 };
+
+const toApt = (octas: bigint) => convertAmountFromOnChainToHumanReadable(octas, APT_DECIMALS);
+
+/**
+ * Price per token against APT bought in, from the first buy to migration
+ */
+export const CurvePreview: React.FC<CurvePreviewProps> = ({ points }: CurvePreviewProps) => {
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-500 text-center py-16">Enter the curve settings to preview the price curve</p>;
+  }
+
+  const xs = points.map((point) => toApt(point.aptDeposited));
+  const ys = points.map((point) => toApt(point.price));
+  const minX = xs[0];
+  const maxX = xs[xs.length - 1] || 1;
+  const maxY = Math.max(...ys) * 1.05 || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (value: number) => PADDING.left + ((value - minX) / (maxX - minX || 1)) * plotWidth;
+  const y = (value: number) => PADDING.top + (1 - value / maxY) * plotHeight;
+
+  const path = points.map((_, index) => `${index === 0 ? "M" : "L"}${x(xs[index])},${y(ys[index])}`).join(" ");
+  const migration = points.findIndex((point) => point.migrates);
+  const ticks = [maxY, maxY / 2, 0];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Bonding curve preview">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="currentColor" strokeOpacity={0.1} />
+          <text x={WIDTH - PADDING.right + 4} y={y(tick) + 4} fontSize={10} fill="currentColor">
+            {tick.toPrecision(4)}
+          </text>
+        </g>
+      ))}
+
+      <path d={path} fill="none" stroke="#4f46e5" strokeWidth={2} />
+
+      {points.map((point, index) => (
+        <circle key={index} cx={x(xs[index])} cy={y(ys[index])} r={6} fill="transparent">
+          <title>
+            {`${xs[index]} APT in → ${ys[index]} APT per token, market cap $${(Number(point.marketCapUsd) / 100).toLocaleString()}`}
+          </title>
+        </circle>
+      ))}
+
+      {migration >= 0 && (
+        <g>
+          <line
+            x1={x(xs[migration])}
+            x2={x(xs[migration])}
+            y1={PADDING.top}
+            y2={HEIGHT - PADDING.bottom}
+            stroke="#7c3aed"
+            strokeDasharray="4 4"
+          />
+          <text x={x(xs[migration]) - 4} y={PADDING.top + 10} fontSize={10} fill="#7c3aed" textAnchor="end">
+            Migrates to Hyperion
+          </text>
+        </g>
+      )}
+
+      <text x={PADDING.left} y={HEIGHT - 6} fontSize={10} fill="currentColor">
+        {minX} APT
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fontSize={10} fill="currentColor" textAnchor="end">
+        {maxX} APT bought in
+      </text>
+    </svg>
+  );
+};
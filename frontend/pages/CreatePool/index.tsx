@@ -0,0 +1,403 @@
+import { isAptosConnectWallet, useWallet } from "@aptos-labs/wallet-adapter-react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { useMemo, useState } from "react";
+// Internal components
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { WarningAlert } from "@/components/ui/warning-alert";
+import { LabeledInput } from "@/components/ui/labeled-input";
+import { ConfirmButton } from "@/components/ui/confirm-button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Header } from "@/components/Header";
+import { ImageUploader } from "@/components/ImageUploader";
+import { CurvePreview } from "@/pages/CreatePool/components/CurvePreview";
+// Internal utils
+import { aptosClient } from "@/utils/aptosClient";
+import { APT_DECIMALS, formatApt, formatAptPrice, formatUsdCents } from "@/utils/helpers";
+import { Amount } from "@sdk/amount";
+import { getErrorMessage } from "@sdk/errors";
+import { decodeLaunchpadEvents, findEvent } from "@sdk/events";
+import {
+  CreatePoolArgument,
+  DEFAULT_MARKET_CAP_THRESHOLD_USD,
+  MAX_TICKER_LENGTH,
+  PoolDraftInput,
+  createPoolArguments,
+  parsePoolDraft,
+  previewCurve,
+  previewFirstBuy,
+} from "@sdk/pool-draft";
+// Internal constants
+import { MODULE_ADDRESS } from "@/constants";
+// Entry functions
+import { createPool } from "@/entry-functions/create_pool";
+// View functions
+import { getAptUsdPrice, getFees } from "@/view-functions/launchpadV2";
+
+const STEPS: Array<{ title: string; description: string; fields: Array<keyof PoolDraftInput> }> = [
+  { title: "Token", description: "Name, ticker and what the token is about", fields: ["name", "ticker", "imageUri", "description"] },
+  { title: "Links", description: "Where holders can find the project", fields: ["website", "twitter", "telegram", "discord"] },
+  {
+    title: "Supply & Curve",
+    description: "Supply, Bancor curve and the market cap at which the pool migrates to Hyperion",
+    fields: ["maxSupply", "decimals", "reserveRatio", "initialReserveApt", "thresholdUsd"],
+  },
+  { title: "Review", description: "The exact create_pool call you are about to sign", fields: [] },
+];
+
+const formatArgument = ({ value }: CreatePoolArgument) => {
+  if (value === undefined) return "option::none()";
+  return typeof value === "string" ? JSON.stringify(value) : value.toString();
+};
+
+export function CreatePool() {
+  const { account, wallet, signAndSubmitTransaction } = useWallet();
+  const navigate = useNavigate();
+
+  const [step, setStep] = useState(0);
+  const [input, setInput] = useState<PoolDraftInput>({
+    name: "",
+    ticker: "",
+    imageUri: "",
+    decimals: "8",
+    reserveRatio: "50",
+    initialReserveApt: "1",
+  });
+  const [firstBuyApt, setFirstBuyApt] = useState("1");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: pricing } = useQuery({
+    queryKey: ["create-pool-pricing"],
+    queryFn: async () => {
+      const [fees, aptUsdPrice] = await Promise.all([getFees(), getAptUsdPrice()]);
+      return { fees, aptUsdPrice };
+    },
+  });
+
+  const { draft, issues } = useMemo(() => parsePoolDraft(input), [input]);
+  const stepIssues = issues.filter((issue) => STEPS[step].fields.includes(issue.field));
+  // Later steps only open once everything before them checks out
+  const canAdvance = STEPS.slice(0, step + 1).every(({ fields }) => !issues.some((issue) => fields.includes(issue.field)));
+
+  const preview = useMemo(() => {
+    const amount = Amount.tryParse(firstBuyApt, APT_DECIMALS, "floor")?.raw ?? 0n;
+    if (!draft || !pricing || amount <= 0n) return null;
+    try {
+      const firstBuy = previewFirstBuy(draft, amount, pricing.fees, pricing.aptUsdPrice);
+      return { firstBuy, curve: previewCurve(draft, pricing.aptUsdPrice, firstBuy.aptToReserve) };
+    } catch {
+      // The curve math overflows the same way the contract would
+      return null;
+    }
+  }, [draft, pricing, firstBuyApt]);
+
+  const set = (field: keyof PoolDraftInput) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setInput((current) => ({ ...current, [field]: e.target.value }));
+
+  const disabled = isSubmitting || !account;
+
+  const onCreatePool = async () => {
+    try {
+      if (!account) throw new Error("Connect wallet first");
+      if (!draft) throw new Error("Fix the highlighted fields first");
+      setIsSubmitting(true);
+
+      const response = await signAndSubmitTransaction(createPool(draft));
+      const committedTransactionResponse = await aptosClient().waitForTransaction({
+        transactionHash: response.hash,
+      });
+
+      // Go straight to the new pool's trading page
+      const created = findEvent(decodeLaunchpadEvents(committedTransactionResponse, MODULE_ADDRESS), "CreatePoolEvent");
+      if (committedTransactionResponse.success) {
+        navigate(created ? `/mint/${created.poolId}` : `/`, { replace: true });
+      }
+    } catch (error) {
+      alert(getErrorMessage(error));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Header />
+      <div className="flex flex-col gap-4 px-4 py-2 max-w-screen-lg mx-auto">
+        {wallet && isAptosConnectWallet(wallet) && (
+          <WarningAlert title="Wallet not supported">
+            Google account is not supported when creating a Token. Please use a different wallet.
+          </WarningAlert>
+        )}
+
+        <ol className="flex flex-wrap gap-2">
+          {STEPS.map(({ title }, index) => (
+            <li key={title}>
+              <Button
+                size="sm"
+                variant={index === step ? "default" : "outline"}
+                disabled={index > step && !canAdvance}
+                onClick={() => setStep(index)}
+              >
+                {index + 1}. {title}
+              </Button>
+            </li>
+          ))}
+        </ol>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{STEPS[step].title}</CardTitle>
+            <CardDescription>{STEPS[step].description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {step === 0 && (
+              <>
+                <LabeledInput
+                  id="pool-name"
+                  label="Name"
+                  tooltip="The name of the token, e.g. Blaze"
+                  required
+                  value={input.name}
+                  onChange={set("name")}
+                  disabled={disabled}
+                  type="text"
+                />
+                <LabeledInput
+                  id="pool-ticker"
+                  label="Ticker"
+                  tooltip={`The ticker of the token, 1-${MAX_TICKER_LENGTH} characters, e.g. BLZ`}
+                  required
+                  value={input.ticker}
+                  onChange={set("ticker")}
+                  disabled={disabled}
+                  type="text"
+                />
+                <ImageUploader
+                  id="pool-image-upload"
+                  disabled={disabled}
+                  onUploaded={(imageUri) => setInput((current) => ({ ...current, imageUri }))}
+                />
+                <LabeledInput
+                  id="pool-image"
+                  label="Image URL"
+                  tooltip="Filled in by the upload above, or paste the URL of an image hosted elsewhere"
+                  required
+                  value={input.imageUri}
+                  onChange={set("imageUri")}
+                  disabled={disabled}
+                  type="text"
+                />
+                {input.imageUri && <img src={input.imageUri} className="max-w-24 max-h-24 object-cover rounded" />}
+                <LabeledInput
+                  id="pool-description"
+                  label="Description"
+                  tooltip="A short description of the token"
+                  value={input.description ?? ""}
+                  onChange={set("description")}
+                  disabled={disabled}
+                  type="text"
+                />
+              </>
+            )}
+
+            {step === 1 && (
+              <>
+                <LabeledInput
+                  id="pool-website"
+                  label="Website"
+                  tooltip="Your website address"
+                  value={input.website ?? ""}
+                  onChange={set("website")}
+                  disabled={disabled}
+                  type="text"
+                />
+                <LabeledInput
+                  id="pool-twitter"
+                  label="Twitter"
+                  tooltip="Twitter/X profile link"
+                  value={input.twitter ?? ""}
+                  onChange={set("twitter")}
+                  disabled={disabled}
+                  type="text"
+                />
+                <LabeledInput
+                  id="pool-telegram"
+                  label="Telegram"
+                  tooltip="Telegram group link"
+                  value={input.telegram ?? ""}
+                  onChange={set("telegram")}
+                  disabled={disabled}
+                  type="text"
+                />
+                <LabeledInput
+                  id="pool-discord"
+                  label="Discord"
+                  tooltip="Discord invite link"
+                  value={input.discord ?? ""}
+                  onChange={set("discord")}
+                  disabled={disabled}
+                  type="text"
+                />
+              </>
+            )}
+
+            {step === 2 && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-4">
+                  <LabeledInput
+                    id="pool-max-supply"
+                    label="Max Supply"
+                    tooltip="The most tokens, in full units, that can ever exist. Leave empty for unlimited."
+                    value={input.maxSupply ?? ""}
+                    onChange={set("maxSupply")}
+                    disabled={disabled}
+                    type="text"
+                  />
+                  <LabeledInput
+                    id="pool-decimals"
+                    label="Decimals"
+                    tooltip="How many 0's constitute one full unit of the token. For example, APT has 8."
+                    required
+                    value={input.decimals}
+                    onChange={set("decimals")}
+                    disabled={disabled}
+                    type="text"
+                  />
+                  <LabeledInput
+                    id="pool-reserve-ratio"
+                    label="Reserve Ratio (%)"
+                    tooltip="Bancor connector weight, 1-100. Lower values make the price rise faster."
+                    required
+                    value={input.reserveRatio}
+                    onChange={set("reserveRatio")}
+                    disabled={disabled}
+                    type="text"
+                  />
+                  <LabeledInput
+                    id="pool-initial-reserve"
+                    label="Initial Reserve (APT)"
+                    tooltip="APT you deposit into the pool reserve at creation"
+                    required
+                    value={input.initialReserveApt}
+                    onChange={set("initialReserveApt")}
+                    disabled={disabled}
+                    type="text"
+                  />
+                  <LabeledInput
+                    id="pool-threshold"
+                    label="Migration Market Cap (USD)"
+                    tooltip={`Market cap at which liquidity migrates to Hyperion. Leave empty for the contract default of ${formatUsdCents(DEFAULT_MARKET_CAP_THRESHOLD_USD)}.`}
+                    value={input.thresholdUsd ?? ""}
+                    onChange={set("thresholdUsd")}
+                    disabled={disabled}
+                    type="text"
+                  />
+                  <LabeledInput
+                    id="pool-first-buy"
+                    label="Preview First Buy (APT)"
+                    tooltip="Not submitted. The first buy into an empty pool sets the starting price of the curve."
+                    value={firstBuyApt}
+                    onChange={(e) => setFirstBuyApt(e.target.value)}
+                    disabled={disabled}
+                    type="text"
+                  />
+                </div>
+
+                {preview && (
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                    <div className="text-center">
+                      <p className="label-sm">First Buyer Receives</p>
+                      <p className="body-md font-semibold">
+                        {Amount.fromRaw(preview.firstBuy.tokensOut, draft?.decimals ?? 8).format({ grouping: true })}{" "}
+                        {input.ticker}
+                      </p>
+                    </div>
+                    <div className="text-center">
+                      <p className="label-sm">Starting Price</p>
+                      <p className="body-md font-semibold">{formatAptPrice(preview.firstBuy.newPrice)}</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="label-sm">Market Cap After</p>
+                      <p className="body-md font-semibold">{formatUsdCents(preview.firstBuy.marketCapUsd)}</p>
+                    </div>
+                    <div className="text-center">
+                      <p className="label-sm">Buy Fee</p>
+                      <p className="body-md font-semibold">{formatApt(preview.firstBuy.fee)}</p>
+                    </div>
+                    {preview.firstBuy.migrates && (
+                      <p className="md:col-span-4 text-sm text-destructive text-center">
+                        This buy alone reaches the migration threshold; the pool would migrate to Hyperion immediately.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <CurvePreview points={preview?.curve ?? []} />
+              </>
+            )}
+
+            {step === 3 && draft && (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Argument</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {createPoolArguments(draft).map((argument) => (
+                      <TableRow key={argument.name}>
+                        <TableCell className="font-mono text-xs">{argument.name}</TableCell>
+                        <TableCell className="font-mono text-xs">{argument.type}</TableCell>
+                        <TableCell className="font-mono text-xs break-all">{formatArgument(argument)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                <p className="text-sm text-muted-foreground">
+                  Amounts are in base units: max_supply in 10^{draft.decimals}ths of a token, initial_apt_reserve in
+                  octas ({formatApt(draft.initialReserve)}, transferred from your wallet) and market_cap_threshold_usd
+                  in cents.
+                </p>
+              </>
+            )}
+
+            {stepIssues.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5">
+                {stepIssues.map((issue) => (
+                  <li key={`${issue.field}:${issue.message}`}>{issue.message}</li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-between">
+          <Button variant="outline" disabled={step === 0} onClick={() => setStep(step - 1)}>
+            Back
+          </Button>
+          {step < STEPS.length - 1 ? (
+            <Button disabled={!canAdvance} onClick={() => setStep(step + 1)}>
+              Next
+            </Button>
+          ) : (
+            <ConfirmButton
+              title="Create Pool"
+              onSubmit={onCreatePool}
+              disabled={disabled || !draft}
+              confirmMessage={
+                <>
+                  <p>This creates {input.ticker} on launchpad_v2 with the arguments above.</p>
+                  <p>Make sure you have the initial reserve plus enough APT for transaction fees.</p>
+                </>
+              }
+            />
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,6 +1,6 @@
-import { FC, FormEvent, useState, useEffect } from "react";
+import { FC, FormEvent, useState, useEffect, useMemo } from "react";
 import { useQueryClient } from "@tanstack/react-query";
-import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { InputTransactionData, useWallet } from "@aptos-labs/wallet-adapter-react";
 // Internal utils
 import { truncateAddress } from "@/utils/truncateAddress";
 // Internal components
@@ -9,12 +9,21 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button, buttonVariants } from "@/components/ui/button";
 import { Socials } from "@/pages/Mint/components/Socials";
+import { PreflightDialog } from "@/components/PreflightDialog";
+import { useToast } from "@/components/ui/use-toast";
 // Internal hooks
 import { useGetAssetData } from "../../../hooks/useGetAssetData";
 // Internal utils
 import { aptosClient } from "@/utils/aptosClient";
+import { blazeClient, poolReader } from "@/utils/blazeClient";
+import { APT_DECIMALS, formatApt, formatAptPrice } from "@/utils/helpers";
+import { Amount } from "@sdk/amount";
+import { getErrorMessage } from "@sdk/errors";
+import { FeeConfig, applySlippage, calculateCurrentPrice, simulateBuy, simulateSell } from "@sdk/bancor";
+import { decodeLaunchpadEvents, findEvent } from "@sdk/events";
+import { Preflight } from "@sdk/preflight";
 // Internal constants
-import { NETWORK } from "@/constants";
+import { MODULE_ADDRESS, MODULE_VERSION, NETWORK } from "@/constants";
 // Internal assets
 import Placeholder1 from "@/assets/placeholders/asset.png";
 import ExternalLink from "@/assets/icons/external-link.svg";
@@ -24,8 +33,28 @@ import { config } from "@/config";
 // Internal entry functions
 import { buyToken } from "@/entry-functions/buy_token";
 import { sellToken } from "@/entry-functions/sell_token";
+import { buy } from "@/entry-functions/buy";
+import { sell } from "@/entry-functions/sell";
 // Internal view functions
 import { getBondingCurve, getBondingCurveMintCost, getBondingCurveSellPayout, getBondingCurvePrice } from "@/view-functions/bondingCurve";
+import { PoolInfo, getFees } from "@/view-functions/launchpadV2";
+
+/** Accepted shortfall from the quoted output on launchpad_v2 trades (100 = 1%) */
+const SLIPPAGE_BPS = 100;
+
+interface PoolSnapshot {
+  pool: PoolInfo;
+  supply: bigint;
+  fees: FeeConfig;
+}
+
+/** A launchpad_v2 trade simulated and waiting for the user's confirmation */
+interface PendingTrade {
+  title: string;
+  request: InputTransactionData;
+  preflight: Preflight;
+  onSubmitted?: () => void;
+}
 
 interface HeroSectionProps {
   faAddress?: string;
@@ -35,6 +64,7 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
   const { data } = useGetAssetData(faAddress);
   const queryClient = useQueryClient();
   const { account, signAndSubmitTransaction } = useWallet();
+  const { toast } = useToast();
   const [assetCount, setAssetCount] = useState<string>("1");
   const [error, setError] = useState<string | null>(null);
   const [bondingCurveData, setBondingCurveData] = useState<any>(null);
@@ -42,6 +72,9 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
   const [payoutToSell, setPayoutToSell] = useState<number>(0);
   const [currentPrice, setCurrentPrice] = useState<number>(0);
   const [isLoadingPrices, setIsLoadingPrices] = useState<boolean>(false);
+  const [aptAmount, setAptAmount] = useState<string>("0.1");
+  const [poolSnapshot, setPoolSnapshot] = useState<PoolSnapshot | null>(null);
+  const [pendingTrade, setPendingTrade] = useState<PendingTrade>();
 
   const { asset, totalAbleToMint = 0, yourBalance = 0, maxSupply = 0, currentSupply = 0 } = data ?? {
     asset: null,
@@ -51,9 +84,49 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
     currentSupply: 0
   };
 
+  // Fetch the launchpad_v2 pool snapshot used for local quotes
+  useEffect(() => {
+    if (faAddress && MODULE_VERSION === "v2") {
+      Promise.all([poolReader().getSnapshot(faAddress), getFees()])
+        .then(([pool, fees]) => setPoolSnapshot({ pool, supply: pool.supply, fees }))
+        .catch(error => {
+          console.error("Error fetching pool data:", error);
+          setPoolSnapshot(null);
+        });
+    }
+  }, [faAddress, data]);
+
+  const isTradingActive =
+    !!poolSnapshot &&
+    poolSnapshot.pool.curve.isActive &&
+    poolSnapshot.pool.settings.tradingEnabled &&
+    !poolSnapshot.pool.settings.migrationCompleted;
+  const isMigrated = !!poolSnapshot?.pool.settings.migrationCompleted;
+
+  // Quotes mirror the on-chain math, so they include fees unlike calculate_curved_*_return
+  const quotes = useMemo(() => {
+    if (!poolSnapshot) return null;
+    const { pool, supply, fees } = poolSnapshot;
+    const quote = <T,>(fn: () => T) => {
+      try {
+        return fn();
+      } catch {
+        return undefined;
+      }
+    };
+
+    const apt = Amount.tryParse(aptAmount, APT_DECIMALS, "floor")?.raw ?? 0n;
+    const tokens = Amount.tryParse(assetCount, asset?.decimals ?? 8, "floor")?.raw ?? 0n;
+    return {
+      price: calculateCurrentPrice(supply, pool.curve.reserveBalance, pool.curve.reserveRatio),
+      buy: apt > 0n ? quote(() => simulateBuy(pool.curve, supply, apt, fees)) : undefined,
+      sell: tokens > 0n ? quote(() => simulateSell(pool.curve, supply, tokens, fees)) : undefined,
+    };
+  }, [poolSnapshot, aptAmount, assetCount, asset]);
+
   // Fetch bonding curve data when asset changes
   useEffect(() => {
-    if (faAddress) {
+    if (faAddress && MODULE_VERSION === "v1") {
       getBondingCurve({ faObj: faAddress })
         .then(setBondingCurveData)
         .catch(error => {
@@ -114,6 +187,40 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
     }
   }, [faAddress, assetCount, bondingCurveData, asset]);
 
+  // launchpad_v2 trades are simulated first and only signed once the user confirms the preview
+  const reviewTrade = async (title: string, request: InputTransactionData, onSubmitted?: () => void) => {
+    if (!account) return;
+    try {
+      const preflight = await blazeClient().preflight(account.address.toString(), request.data);
+      setPendingTrade({ title, request, preflight, onSubmitted });
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const submitTrade = async ({ request, onSubmitted }: PendingTrade) => {
+    setPendingTrade(undefined);
+    try {
+      const response = await signAndSubmitTransaction(request);
+      const committed = await aptosClient().waitForTransaction({ transactionHash: response.hash });
+      // Re-pin the reader to a ledger version that includes the trade before refetching
+      poolReader().invalidate();
+      queryClient.invalidateQueries();
+      onSubmitted?.();
+
+      // The buy that crosses the threshold migrates the pool in the same transaction
+      const migration = findEvent(decodeLaunchpadEvents(committed, MODULE_ADDRESS), "LiquidityMigratedEvent");
+      if (migration) {
+        toast({
+          title: "🎓 Your buy graduated this token!",
+          description: `The pool reached its migration threshold and moved to Hyperion at ${truncateAddress(migration.hyperionPoolAddress)}.`,
+        });
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
   const buyTokenAction = async (e: FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -126,6 +233,29 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
       return setError("Asset not found");
     }
 
+    if (MODULE_VERSION === "v2") {
+      if (!isTradingActive) {
+        return setError(isMigrated ? "This pool migrated to Hyperion" : "Trading is not available for this pool");
+      }
+
+      const apt = Amount.tryParse(aptAmount, APT_DECIMALS, "floor");
+      if (!apt || apt.raw <= 0n) {
+        return setError("Invalid APT amount");
+      }
+      if (!quotes?.buy) {
+        return setError("Unable to quote this trade");
+      }
+
+      return reviewTrade(
+        `Buy ${asset.symbol} with ${aptAmount} APT`,
+        buy({
+          poolId: asset.asset_type,
+          aptAmount,
+          minTokensOut: applySlippage(quotes.buy.tokensOut, SLIPPAGE_BPS),
+        }),
+      );
+    }
+
     if (!data?.isMintActive) {
       return setError("Minting is not available");
     }
@@ -146,8 +276,8 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
       await aptosClient().waitForTransaction({ transactionHash: response.hash });
       queryClient.invalidateQueries();
       setAssetCount("1");
-    } catch (err: any) {
-      setError(err.message || "Transaction failed");
+    } catch (err) {
+      setError(getErrorMessage(err));
     }
   };
 
@@ -163,8 +293,8 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
       return setError("Asset not found");
     }
 
-    if (!bondingCurveData?.is_active) {
-      return setError("Bonding curve is not active");
+    if (MODULE_VERSION === "v2" ? !isTradingActive : !bondingCurveData?.is_active) {
+      return setError(MODULE_VERSION === "v2" ? "Trading is not available for this pool" : "Bonding curve is not active");
     }
 
     if (yourBalance < parseFloat(assetCount)) {
@@ -176,6 +306,22 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
       return setError("Invalid amount");
     }
 
+    if (MODULE_VERSION === "v2") {
+      if (!quotes?.sell) {
+        return setError("Unable to quote this trade");
+      }
+      return reviewTrade(
+        `Sell ${assetCount} ${asset.symbol}`,
+        sell({
+          poolId: asset.asset_type,
+          amount: assetCount,
+          decimals: asset.decimals,
+          minAptOut: applySlippage(quotes.sell.aptOut, SLIPPAGE_BPS),
+        }),
+        () => setAssetCount("1"),
+      );
+    }
+
     try {
       const response = await signAndSubmitTransaction(
         sellToken({
@@ -187,8 +333,8 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
       await aptosClient().waitForTransaction({ transactionHash: response.hash });
       queryClient.invalidateQueries();
       setAssetCount("1");
-    } catch (err: any) {
-      setError(err.message || "Transaction failed");
+    } catch (err) {
+      setError(getErrorMessage(err));
     }
   };
 
@@ -205,6 +351,41 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
 
         <Card>
           <CardContent fullPadding className="space-y-4">
+            {/* Migrated pools trade on Hyperion, not on the curve */}
+            {isMigrated && (
+              <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-1">
+                <p className="body-md-semibold">🎓 This token graduated to Hyperion</p>
+                <p className="body-sm text-gray-500">The bonding curve is closed, so buying and selling here is disabled.</p>
+                {poolSnapshot?.pool.settings.hyperionPoolAddress && (
+                  <a
+                    className={buttonVariants({ variant: "link" })}
+                    target="_blank"
+                    href={`https://explorer.aptoslabs.com/account/${poolSnapshot.pool.settings.hyperionPoolAddress}?network=${NETWORK}`}
+                  >
+                    View Hyperion pool <Image src={ExternalLink} />
+                  </a>
+                )}
+              </div>
+            )}
+
+            {/* APT Amount Input (launchpad_v2 buys spend APT) */}
+            {MODULE_VERSION === "v2" && (
+              <div className="flex flex-col md:flex-row gap-4 items-center">
+                <Input
+                  type="text"
+                  name="apt-amount"
+                  value={aptAmount}
+                  onChange={(e) => {
+                    setAptAmount(e.target.value);
+                  }}
+                  placeholder="APT to spend"
+                  className="flex-1"
+                  disabled={isMigrated}
+                />
+                <span className="text-sm text-gray-500">APT</span>
+              </div>
+            )}
+
             {/* Token Amount Input */}
             <div className="flex flex-col md:flex-row gap-4 items-center">
               <Input
@@ -214,8 +395,9 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
                 onChange={(e) => {
                   setAssetCount(e.target.value);
                 }}
-                placeholder="Amount to trade"
+                placeholder={MODULE_VERSION === "v2" ? "Amount to sell" : "Amount to trade"}
                 className="flex-1"
+                disabled={isMigrated}
               />
               <span className="text-sm text-gray-500">{asset?.symbol}</span>
             </div>
@@ -244,16 +426,42 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
               </div>
             )}
 
+            {MODULE_VERSION === "v2" && quotes && !isMigrated && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                <div className="text-center">
+                  <p className="label-sm">Price per Token</p>
+                  <p className="body-md font-semibold">{formatAptPrice(quotes.price)}</p>
+                </div>
+                <div className="text-center">
+                  <p className="label-sm">You Receive (Buy)</p>
+                  <p className="body-md font-semibold">
+                    {quotes.buy
+                      ? `${Amount.fromRaw(quotes.buy.tokensOut, asset?.decimals ?? 8).format({ grouping: true })} ${asset?.symbol ?? ""}`
+                      : "-"}
+                  </p>
+                </div>
+                <div className="text-center">
+                  <p className="label-sm">You Receive (Sell)</p>
+                  <p className="body-md font-semibold">
+                    {quotes.sell ? formatApt(quotes.sell.aptOut, 6) : "-"}
+                  </p>
+                </div>
+                <p className="md:col-span-3 text-xs text-gray-500 text-center">
+                  Fees included. Trades revert if the fill is more than {SLIPPAGE_BPS / 100}% below the quote.
+                </p>
+              </div>
+            )}
+
             {/* Action Buttons */}
             <div className="flex flex-col md:flex-row gap-4">
               <Button 
                 onClick={buyTokenAction}
                 className="flex-1"
-                disabled={!data?.isMintActive || isLoadingPrices}
+                disabled={(MODULE_VERSION === "v2" ? !isTradingActive : !data?.isMintActive) || isLoadingPrices}
               >
                 Buy Tokens
               </Button>
-              {bondingCurveData?.is_active && (
+              {(MODULE_VERSION === "v2" ? isTradingActive : bondingCurveData?.is_active) && (
                 <Button 
                   onClick={sellTokenAction}
                   variant="outline"
@@ -285,6 +493,15 @@ export const HeroSection: React.FC<HeroSectionProps> = ({ faAddress }: HeroSecti
 
         {error && <p className="body-sm text-destructive">{error}</p>}
 
+        <PreflightDialog
+          preflight={pendingTrade?.preflight}
+          title={pendingTrade?.title ?? ""}
+          tokenSymbol={asset?.symbol}
+          tokenDecimals={asset?.decimals}
+          onConfirm={() => pendingTrade && submitTrade(pendingTrade)}
+          onCancel={() => setPendingTrade(undefined)}
+        />
+
         <div className="flex gap-x-2 items-center flex-wrap justify-between">
           <p className="whitespace-nowrap body-sm-semibold">Address</p>
 
@@ -0,0 +1,73 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { formatApt, formatUsdCents } from "@/utils/helpers";
+import { NETWORK } from "@/constants";
+import { formatEta } from "@sdk/migration";
+import { useMigrationProgress } from "@/hooks/useMigrationProgress";
+
+interface MigrationProgressSectionProps {
+  poolId?: string;
+}
+
+export const MigrationProgressSection: React.FC<MigrationProgressSectionProps> = ({
+  poolId,
+}: MigrationProgressSectionProps) => {
+  const { data: progress } = useMigrationProgress(poolId);
+  if (!progress) return null;
+
+  return (
+    <section className="px-4 max-w-screen-xl mx-auto w-full">
+      <Card shadow="md">
+        <CardContent fullPadding className="space-y-4">
+          <div className="flex items-center justify-between flex-wrap gap-2">
+            <h2 className="heading-sm">Bonding Curve Progress</h2>
+            <p className="body-sm text-gray-500">
+              {formatUsdCents(progress.marketCapUsd)} of {formatUsdCents(progress.thresholdUsd)} market cap
+            </p>
+          </div>
+
+          <Progress value={progress.progressBps / 100} />
+
+          {progress.migrated ? (
+            <div className="space-y-1">
+              <p className="body-md-semibold text-green-600">🎓 Graduated to Hyperion</p>
+              <p className="body-sm text-gray-500">
+                The bonding curve is closed and its liquidity moved to Hyperion
+                {progress.migratedAt ? ` on ${new Date(progress.migratedAt * 1000).toLocaleString()}` : ""}.
+              </p>
+              {progress.hyperionPoolAddress && (
+                <a
+                  href={`https://explorer.aptoslabs.com/account/${progress.hyperionPoolAddress}?network=${NETWORK}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="body-sm underline"
+                >
+                  Trade on the Hyperion pool
+                </a>
+              )}
+            </div>
+          ) : progress.reached ? (
+            <p className="body-sm text-gray-500">Threshold reached; the next buy migrates the pool to Hyperion.</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <p className="label-sm">Progress</p>
+                <p className="body-md">{(progress.progressBps / 100).toFixed(2)}%</p>
+              </div>
+              <div>
+                <p className="label-sm">APT to Migration (approx.)</p>
+                <p className="body-md">{formatApt(progress.aptToThreshold)}</p>
+              </div>
+              <div>
+                <p className="label-sm">Estimated Time</p>
+                <p className="body-md" title={`Net reserve inflow: ${formatApt(progress.reserveVelocityPerHour)} per hour`}>
+                  {progress.etaSeconds !== undefined ? `~${formatEta(progress.etaSeconds)}` : "Not enough recent buying"}
+                </p>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+};
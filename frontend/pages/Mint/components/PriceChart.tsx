@@ -0,0 +1,162 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { APT_DECIMALS, convertAmountFromOnChainToHumanReadable } from "@/utils/helpers";
+import { LiquidityMigratedEvent } from "@sdk/events";
+import { Candle, TIMEFRAME_SECONDS, Timeframe, Trade, buildCandles } from "@sdk/trades";
+
+interface PriceChartProps {
+  trades: Trade[];
+  migration?: LiquidityMigratedEvent;
+}
+
+const TIMEFRAMES = Object.keys(TIMEFRAME_SECONDS) as Timeframe[];
+
+const WIDTH = 800;
+const HEIGHT = 300;
+const PADDING = { top: 16, right: 72, bottom: 24, left: 8 };
+
+/** Candles shown at once; older ones are dropped */
+const MAX_CANDLES = 60;
+
+const toApt = (price: bigint) => convertAmountFromOnChainToHumanReadable(price, APT_DECIMALS);
+
+function formatTime(time: number, timeframe: Timeframe) {
+  const date = new Date(time * 1000);
+  return timeframe === "1d"
+    ? date.toLocaleDateString()
+    : date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+export const PriceChart: React.FC<PriceChartProps> = ({ trades, migration }: PriceChartProps) => {
+  const [timeframe, setTimeframe] = useState<Timeframe>("5m");
+
+  const candles = useMemo(() => buildCandles(trades, timeframe).slice(-MAX_CANDLES), [trades, timeframe]);
+
+  return (
+    <section className="px-4 max-w-screen-xl mx-auto w-full">
+      <Card shadow="md">
+        <CardContent fullPadding className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <h2 className="heading-sm">Price (APT)</h2>
+              {migration && (
+                <span className="text-xs font-medium text-purple-700 bg-purple-100 rounded px-2 py-0.5">
+                  Migrated to Hyperion
+                </span>
+              )}
+            </div>
+            <div className="flex gap-1">
+              {TIMEFRAMES.map((value) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={value === timeframe ? "default" : "outline"}
+                  onClick={() => setTimeframe(value)}
+                >
+                  {value}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {candles.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-16">No trades yet</p>
+          ) : (
+            <CandleSvg candles={candles} timeframe={timeframe} migration={migration} />
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+};
+
+interface CandleSvgProps {
+  candles: Candle[];
+  timeframe: Timeframe;
+  migration?: LiquidityMigratedEvent;
+}
+
+function CandleSvg({ candles, timeframe, migration }: CandleSvgProps) {
+  const bucket = TIMEFRAME_SECONDS[timeframe];
+  const start = candles[0].time;
+  const end = candles[candles.length - 1].time + bucket;
+
+  const low = Math.min(...candles.map((candle) => toApt(candle.low)));
+  const high = Math.max(...candles.map((candle) => toApt(candle.high)));
+  // Flat series still need some vertical range to draw into
+  const range = high - low || high || 1;
+  const min = low - range * 0.05;
+  const max = high + range * 0.05;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + ((time - start) / (end - start)) * plotWidth;
+  const y = (price: number) => PADDING.top + (1 - (price - min) / (max - min)) * plotHeight;
+  const bodyWidth = Math.max(1, (plotWidth / ((end - start) / bucket)) * 0.7);
+
+  const migrationTime = migration ? Number(migration.timestamp) : undefined;
+  const showMigration = migrationTime !== undefined && migrationTime >= start && migrationTime <= end;
+
+  const ticks = [max, (max + min) / 2, min];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Price chart">
+      {ticks.map((tick) => (
+        <g key={tick}>
+          <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="currentColor" strokeOpacity={0.1} />
+          <text x={WIDTH - PADDING.right + 4} y={y(tick) + 4} fontSize={10} fill="currentColor">
+            {tick.toPrecision(4)}
+          </text>
+        </g>
+      ))}
+
+      {candles.map((candle) => {
+        const open = toApt(candle.open);
+        const close = toApt(candle.close);
+        const up = candle.close >= candle.open;
+        const color = up ? "#16a34a" : "#dc2626";
+        const center = x(candle.time + bucket / 2);
+
+        return (
+          <g key={candle.time}>
+            <title>
+              {`${formatTime(candle.time, timeframe)}  O ${open}  H ${toApt(candle.high)}  L ${toApt(candle.low)}  C ${close}  (${candle.trades} trades)`}
+            </title>
+            <line x1={center} x2={center} y1={y(toApt(candle.high))} y2={y(toApt(candle.low))} stroke={color} />
+            <rect
+              x={center - bodyWidth / 2}
+              y={y(Math.max(open, close))}
+              width={bodyWidth}
+              height={Math.max(1, Math.abs(y(open) - y(close)))}
+              fill={color}
+            />
+          </g>
+        );
+      })}
+
+      {showMigration && (
+        <g>
+          <line
+            x1={x(migrationTime)}
+            x2={x(migrationTime)}
+            y1={PADDING.top}
+            y2={HEIGHT - PADDING.bottom}
+            stroke="#7c3aed"
+            strokeDasharray="4 4"
+          />
+          <text x={x(migrationTime) + 4} y={PADDING.top + 10} fontSize={10} fill="#7c3aed">
+            Migrated to Hyperion
+          </text>
+        </g>
+      )}
+
+      <text x={PADDING.left} y={HEIGHT - 6} fontSize={10} fill="currentColor">
+        {formatTime(start, timeframe)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={HEIGHT - 6} fontSize={10} fill="currentColor" textAnchor="end">
+        {formatTime(end, timeframe)}
+      </text>
+    </svg>
+  );
+}
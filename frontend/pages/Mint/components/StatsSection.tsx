@@ -1,10 +1,22 @@
 import { Card } from "@/components/ui/card";
 import { clampNumber } from "@/utils/clampNumber";
+import { formatApt, formatAptPrice, formatUsdCents } from "@/utils/helpers";
 import { useGetAssetData } from "../../../hooks/useGetAssetData";
 import { getBondingCurve } from "@/view-functions/bondingCurve";
 import { getLiquidityPool } from "@/view-functions/liquidityPool";
+import { PoolInfo, getFees } from "@/view-functions/launchpadV2";
+import { poolReader } from "@/utils/blazeClient";
+import { MODULE_VERSION } from "@/constants";
+import { FeeConfig } from "@sdk/bancor";
 import { useState, useEffect } from "react";
 
+interface PoolStatsData {
+  pool: PoolInfo;
+  price: bigint;
+  marketCapUsd: bigint;
+  fees: FeeConfig;
+}
+
 interface StatsSectionProps {
   faAddress?: string;
 }
@@ -13,9 +25,17 @@ export const StatsSection: React.FC<StatsSectionProps> = ({ faAddress }: StatsSe
   const { data } = useGetAssetData(faAddress);
   const [bondingCurveData, setBondingCurveData] = useState<any>(null);
   const [liquidityPoolData, setLiquidityPoolData] = useState<any>(null);
+  const [poolStats, setPoolStats] = useState<PoolStatsData | null>(null);
 
   useEffect(() => {
-    if (faAddress) {
+    if (faAddress && MODULE_VERSION === "v2") {
+      Promise.all([poolReader().getSnapshot(faAddress), getFees()])
+        .then(([pool, fees]) => setPoolStats({ pool, price: pool.price, marketCapUsd: pool.marketCapUsd, fees }))
+        .catch(error => {
+          console.error("Error fetching pool data:", error);
+          setPoolStats(null);
+        });
+    } else if (faAddress) {
       getBondingCurve({ faObj: faAddress })
         .then(setBondingCurveData)
         .catch(error => {
@@ -35,12 +55,31 @@ export const StatsSection: React.FC<StatsSectionProps> = ({ faAddress }: StatsSe
   if (!data) return null;
   const { maxSupply = 0, currentSupply = 0, uniqueHolders = 0 } = data;
 
-  const stats = [
+  const stats: Array<{ title: string; value: number | string }> = [
     { title: "Max Supply", value: maxSupply },
     { title: "Current Supply", value: currentSupply },
     { title: "Unique Holders", value: uniqueHolders },
   ];
 
+  // Add launchpad_v2 pool stats
+  if (poolStats) {
+    const { pool, price, marketCapUsd, fees } = poolStats;
+    const status = pool.settings.migrationCompleted
+      ? "Migrated to Hyperion"
+      : pool.settings.tradingEnabled && pool.curve.isActive
+        ? "Active"
+        : "Paused";
+    stats.push(
+      { title: "Current Price", value: formatAptPrice(price) },
+      { title: "Market Cap", value: formatUsdCents(marketCapUsd) },
+      { title: "Migration Threshold", value: formatUsdCents(pool.settings.marketCapThresholdUsd) },
+      { title: "APT Reserve", value: formatApt(pool.curve.reserveBalance, 2) },
+      { title: "Reserve Ratio", value: `${pool.curve.reserveRatio}%` },
+      { title: "Buy / Sell Fee", value: `${Number(fees.buyFeeBps) / 100}% / ${Number(fees.sellFeeBps) / 100}%` },
+      { title: "Pool Status", value: status }
+    );
+  }
+
   // Add bonding curve stats if active
   if (bondingCurveData?.is_active) {
     stats.push(
@@ -0,0 +1,88 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Amount } from "@sdk/amount";
+import { truncateAddress } from "@/utils/truncateAddress";
+import { NETWORK } from "@/constants";
+import { Trade } from "@sdk/trades";
+
+interface TradeFeedProps {
+  trades: Trade[];
+  tokenDecimals: number;
+  tokenSymbol?: string;
+}
+
+/** Rows shown in the feed, newest first */
+const FEED_SIZE = 25;
+
+function formatAge(timestamp: number) {
+  const seconds = Math.max(0, Math.floor(Date.now() / 1000) - timestamp);
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 60 * 60) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 24 * 60 * 60) return `${Math.floor(seconds / 3600)}h ago`;
+  return new Date(timestamp * 1000).toLocaleDateString();
+}
+
+export const TradeFeed: React.FC<TradeFeedProps> = ({ trades, tokenDecimals, tokenSymbol }: TradeFeedProps) => {
+  const recent = trades.slice(-FEED_SIZE).reverse();
+
+  return (
+    <section className="px-4 max-w-screen-xl mx-auto w-full">
+      <Card shadow="md">
+        <CardContent fullPadding className="space-y-4">
+          <h2 className="heading-sm">Recent Trades</h2>
+
+          {recent.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">No trades yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Trader</TableHead>
+                  <TableHead className="text-right">APT</TableHead>
+                  <TableHead className="text-right">{tokenSymbol ?? "Tokens"}</TableHead>
+                  <TableHead className="text-right">Time</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recent.map((trade) => (
+                  <TableRow key={`${trade.version}:${trade.eventIndex}`}>
+                    <TableCell className={trade.side === "buy" ? "text-green-600" : "text-red-600"}>
+                      {trade.side === "buy" ? "Buy" : "Sell"}
+                    </TableCell>
+                    <TableCell>
+                      <a
+                        href={`https://explorer.aptoslabs.com/account/${trade.trader}?network=${NETWORK}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="hover:underline"
+                      >
+                        {truncateAddress(trade.trader)}
+                      </a>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Amount.octas(trade.aptAmount).format({ maxDecimals: 4, minDecimals: 4 })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Amount.fromRaw(trade.tokenAmount, tokenDecimals).format({ maxDecimals: 3, grouping: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <a
+                        href={`https://explorer.aptoslabs.com/txn/${trade.version}?network=${NETWORK}`}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="hover:underline"
+                      >
+                        {formatAge(trade.timestamp)}
+                      </a>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </section>
+  );
+};
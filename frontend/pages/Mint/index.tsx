@@ -1,18 +1,24 @@
 import { HeroSection } from "./components/HeroSection";
 import { StatsSection } from "./components/StatsSection";
+import { MigrationProgressSection } from "./components/MigrationProgressSection";
+import { PriceChart } from "./components/PriceChart";
+import { TradeFeed } from "./components/TradeFeed";
 import { OurStorySection } from "./components/OurStorySection";
 import { useGetAssetData } from "../../hooks/useGetAssetData";
+import { useGetPoolTrades } from "../../hooks/useGetPoolTrades";
 import { Socials } from "./components/Socials";
 import { Header } from "@/components/Header";
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
 import { useEffect } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { useParams } from "react-router-dom";
+import { MODULE_VERSION } from "@/constants";
 
 export function Mint() {
   const { faAddress } = useParams();
 
   const { data, isLoading } = useGetAssetData(faAddress);
+  const { data: poolTrades } = useGetPoolTrades(faAddress);
 
   const queryClient = useQueryClient();
   const { account } = useWallet();
@@ -37,6 +43,13 @@ export function Mint() {
         <main className="flex flex-col gap-10 md:gap-16 mt-6">
           <HeroSection faAddress={faAddress} />
           <StatsSection faAddress={faAddress} />
+          {MODULE_VERSION === "v2" && <MigrationProgressSection poolId={faAddress} />}
+          <PriceChart trades={poolTrades?.trades ?? []} migration={poolTrades?.migration} />
+          <TradeFeed
+            trades={poolTrades?.trades ?? []}
+            tokenDecimals={data?.asset.decimals ?? 8}
+            tokenSymbol={data?.asset.symbol}
+          />
           <OurStorySection />
         </main>
 
@@ -0,0 +1,164 @@
+import { useWallet } from "@aptos-labs/wallet-adapter-react";
+import { Link } from "react-router-dom";
+// Internal components
+import { Header } from "@/components/Header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+// Internal utils
+import { formatApt } from "@/utils/helpers";
+import { truncateAddress } from "@/utils/truncateAddress";
+import { NETWORK } from "@/constants";
+import { getErrorMessage } from "@sdk/errors";
+import { formatUsdc } from "@sdk/portfolio";
+// Internal hooks
+import { QuestOutcome, useMyQuests } from "@/hooks/useMyQuests";
+
+const formatNetApt = (octas: bigint) => {
+  return `${octas > 0n ? "+" : ""}${formatApt(octas)}`;
+};
+
+const netClass = (octas: bigint) => {
+  if (octas > 0n) return "text-green-600";
+  if (octas < 0n) return "text-red-600";
+  return "";
+};
+
+const OUTCOME_LABELS: Record<QuestOutcome, string> = {
+  won: "🏆 Won",
+  lost: "Lost",
+  pending: "In progress",
+  cancelled: "Cancelled",
+};
+
+function TransactionLink({ version, children }: { version: bigint; children: React.ReactNode }) {
+  return (
+    <a
+      href={`https://explorer.aptoslabs.com/txn/${version}?network=${NETWORK}`}
+      target="_blank"
+      rel="noreferrer"
+      className="hover:underline"
+    >
+      {children}
+    </a>
+  );
+}
+
+export function MyQuests() {
+  const { account } = useWallet();
+  const { data, isLoading, error } = useMyQuests(account?.address);
+
+  return (
+    <>
+      <Header />
+      <div className="max-w-screen-xl mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">My Quests</h1>
+          <p className="text-muted-foreground">Quests you joined, the portfolios you picked and how they turned out</p>
+        </div>
+
+        {!account && <p className="text-muted-foreground">Connect your wallet to see your quests.</p>}
+
+        {account && isLoading && <p className="text-muted-foreground">Loading your quests...</p>}
+
+        {error && <p className="text-destructive">Failed to load your quests: {getErrorMessage(error)}</p>}
+
+        {data && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Summary</CardTitle>
+                <CardDescription>Settled quests only; entry fees of quests in progress are not counted yet</CardDescription>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Joined</p>
+                  <p className="text-2xl font-semibold">{data.entries.length}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Won</p>
+                  <p className="text-2xl font-semibold">{data.wins}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Lost</p>
+                  <p className="text-2xl font-semibold">{data.losses}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Net</p>
+                  <p className={`text-2xl font-semibold ${netClass(data.netApt)}`}>{formatNetApt(data.netApt)}</p>
+                </div>
+              </CardContent>
+            </Card>
+
+            {data.entries.length === 0 ? (
+              <p className="text-muted-foreground">
+                You have not joined any quest yet. <Link to="/quests" className="underline">Browse quests</Link>
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Quest</TableHead>
+                    <TableHead>Entry Fee</TableHead>
+                    <TableHead>Portfolio</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.entries.map(({ quest, participation, joinedVersion, portfolioVersion, winnerEvent, outcome, netApt }) => (
+                    <TableRow key={quest.questId}>
+                      <TableCell>
+                        <Link to={`/quests/${quest.questId}`} className="font-medium hover:underline">
+                          #{quest.questId} {quest.name}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          <TransactionLink version={joinedVersion}>
+                            Joined {new Date(participation.joinedAt * 1000).toLocaleString()}
+                          </TransactionLink>
+                        </p>
+                      </TableCell>
+                      <TableCell>{formatApt(participation.entryFeePaid)}</TableCell>
+                      <TableCell>
+                        {participation.portfolio ? (
+                          <ul className="text-xs space-y-0.5">
+                            {participation.portfolio.tokens.map((token) => (
+                              <li key={token.tokenAddress}>
+                                <Link to={`/mint/${token.tokenAddress}`} className="font-mono hover:underline">
+                                  {truncateAddress(token.tokenAddress)}
+                                </Link>{" "}
+                                {formatUsdc(token.amountUsdc)} USDC
+                              </li>
+                            ))}
+                            {portfolioVersion !== undefined && (
+                              <li className="text-muted-foreground">
+                                <TransactionLink version={portfolioVersion}>
+                                  Selected {new Date(participation.portfolio.selectedAt * 1000).toLocaleString()}
+                                </TransactionLink>
+                              </li>
+                            )}
+                          </ul>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Not selected</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {winnerEvent ? (
+                          <TransactionLink version={winnerEvent.version}>{OUTCOME_LABELS[outcome]}</TransactionLink>
+                        ) : (
+                          OUTCOME_LABELS[outcome]
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right ${netClass(netApt)}`}>
+                        {outcome === "won" || outcome === "lost" ? formatNetApt(netApt) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
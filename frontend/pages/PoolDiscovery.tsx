@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+// Internal components
+import { Header } from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+// Internal utils
+import { formatApt, formatAptPrice, formatUsdCents } from "@/utils/helpers";
+import { truncateAddress } from "@/utils/truncateAddress";
+import { getErrorMessage } from "@sdk/errors";
+import { MigrationFilter, PoolSort, queryPools } from "@sdk/discovery";
+// Internal hooks
+import { usePoolDiscovery } from "@/hooks/usePoolDiscovery";
+
+const PAGE_SIZE = 20;
+
+const SORT_LABELS: Record<PoolSort, string> = {
+  newest: "Newest",
+  "market-cap": "Market Cap",
+  volume: "24h Volume",
+  migration: "Closest to Migration",
+};
+
+const MIGRATION_LABELS: Record<MigrationFilter, string> = {
+  all: "All",
+  active: "On curve",
+  migrated: "Migrated",
+};
+
+
+export function PoolDiscovery() {
+  const { data, isLoading, error } = usePoolDiscovery();
+  const [sort, setSort] = useState<PoolSort>("newest");
+  const [migration, setMigration] = useState<MigrationFilter>("all");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(0);
+
+  const result = useMemo(
+    () => queryPools(data ?? [], { sort, migration, search, page, pageSize: PAGE_SIZE }),
+    [data, sort, migration, search, page],
+  );
+
+  return (
+    <>
+      <Header />
+      <div className="max-w-screen-xl mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Discover Pools</h1>
+          <p className="text-muted-foreground">Every launchpad_v2 pool, with its market cap and progress toward migration</p>
+        </div>
+
+        <div className="flex flex-wrap gap-4 items-center justify-between">
+          <Input
+            className="max-w-sm"
+            placeholder="Search by name, ticker or address"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(0);
+            }}
+          />
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(SORT_LABELS) as PoolSort[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={sort === option ? "default" : "outline"}
+                onClick={() => {
+                  setSort(option);
+                  setPage(0);
+                }}
+              >
+                {SORT_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(MIGRATION_LABELS) as MigrationFilter[]).map((option) => (
+              <Button
+                key={option}
+                size="sm"
+                variant={migration === option ? "secondary" : "ghost"}
+                onClick={() => {
+                  setMigration(option);
+                  setPage(0);
+                }}
+              >
+                {MIGRATION_LABELS[option]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {isLoading && <p className="text-muted-foreground">Loading pools...</p>}
+
+        {error && <p className="text-destructive">Failed to load pools: {getErrorMessage(error)}</p>}
+
+        {data && (
+          <>
+            <Table>
+              {result.total === 0 && (
+                <TableCaption>{data.length === 0 ? "No pool has been created yet." : "No pool matches."}</TableCaption>
+              )}
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Token</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Market Cap</TableHead>
+                  <TableHead className="w-[200px]">Migration</TableHead>
+                  <TableHead className="text-right">24h Volume</TableHead>
+                  <TableHead>Creator</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.pools.map((pool) => (
+                  <TableRow key={pool.poolId}>
+                    <TableCell>
+                      <Link to={`/mint/${pool.poolId}`} className="flex items-center gap-2 hover:underline">
+                        {pool.metadata.tokenImageUri && (
+                          <img src={pool.metadata.tokenImageUri} style={{ width: "32px" }} className="rounded" />
+                        )}
+                        <span className="font-medium">{pool.metadata.ticker}</span>
+                        <span className="text-muted-foreground">{pool.metadata.name}</span>
+                      </Link>
+                      <p className="text-xs text-muted-foreground">
+                        Created {new Date(pool.createdAt * 1000).toLocaleDateString()}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {pool.price > 0n ? formatAptPrice(pool.price) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{formatUsdCents(pool.marketCapUsd)}</TableCell>
+                    <TableCell>
+                      {pool.migrated ? (
+                        <span className="text-sm text-green-600">Migrated to Hyperion</span>
+                      ) : (
+                        <div className="space-y-1">
+                          <Progress value={pool.progressBps / 100} className="h-2" />
+                          <p className="text-xs text-muted-foreground">
+                            {pool.thresholdUsd !== undefined
+                              ? `${(pool.progressBps / 100).toFixed(1)}% of ${formatUsdCents(pool.thresholdUsd)}`
+                              : "Threshold unknown"}
+                          </p>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatApt(pool.volume24h)}
+                      <p className="text-xs text-muted-foreground">{pool.trades24h} trades</p>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{truncateAddress(pool.metadata.creator)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {result.pageCount > 1 && (
+              <div className="flex items-center justify-end gap-2">
+                <Button size="sm" variant="outline" disabled={result.page === 0} onClick={() => setPage(result.page - 1)}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {result.page + 1} of {result.pageCount} ({result.total} pools)
+                </span>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={result.page + 1 >= result.pageCount}
+                  onClick={() => setPage(result.page + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </>
+  );
+}
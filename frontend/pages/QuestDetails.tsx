@@ -0,0 +1,269 @@
+import { Link, useParams } from "react-router-dom";
+// Internal components
+import { Header } from "@/components/Header";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+// Internal utils
+import { formatApt } from "@/utils/helpers";
+import { truncateAddress } from "@/utils/truncateAddress";
+import { NETWORK } from "@/constants";
+import { Amount } from "@sdk/amount";
+import { getErrorMessage } from "@sdk/errors";
+import { normalizeAddress } from "@sdk/events";
+import { LeaderboardEntry } from "@sdk/quest-scoring";
+// Internal hooks
+import { useQuestStandings } from "@/hooks/useQuestStandings";
+
+/** USDC allocations use 6 decimals */
+const USDC_DECIMALS = 6;
+
+const formatTime = (timestamp: number) => {
+  return new Date(timestamp * 1000).toLocaleString();
+};
+
+const formatUsdc = (amount: bigint) => {
+  return `$${Amount.fromRaw(amount, USDC_DECIMALS).format({ maxDecimals: 2, minDecimals: 2 })}`;
+};
+
+const formatReturn = (returnBps: bigint) => {
+  const percent = Number(returnBps) / 100;
+  return `${percent > 0 ? "+" : ""}${percent.toFixed(2)}%`;
+};
+
+const returnClass = (returnBps: bigint) => {
+  if (returnBps > 0n) return "text-green-600";
+  if (returnBps < 0n) return "text-red-600";
+  return "";
+};
+
+function AccountLink({ address }: { address: string }) {
+  return (
+    <a
+      href={`https://explorer.aptoslabs.com/account/${address}?network=${NETWORK}`}
+      target="_blank"
+      rel="noreferrer"
+      className="font-mono text-xs hover:underline"
+    >
+      {truncateAddress(address)}
+    </a>
+  );
+}
+
+function PortfolioRows({ entry }: { entry: LeaderboardEntry }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Token</TableHead>
+          <TableHead className="text-right">Allocated</TableHead>
+          <TableHead className="text-right">Value</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entry.selections.map((selection) => (
+          <TableRow key={selection.tokenAddress}>
+            <TableCell>
+              <Link to={`/mint/${selection.tokenAddress}`} className="font-mono text-xs hover:underline">
+                {truncateAddress(selection.tokenAddress)}
+              </Link>
+            </TableCell>
+            <TableCell className="text-right">{formatUsdc(selection.amountUsdc)}</TableCell>
+            <TableCell className="text-right">
+              {selection.priced ? formatUsdc(selection.endValueUsdc) : <span title="No price yet; held flat">—</span>}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function QuestDetails() {
+  const { questId: questIdParam } = useParams();
+  const questId = questIdParam && /^\d+$/.test(questIdParam) ? Number(questIdParam) : undefined;
+
+  const { data, isLoading, error } = useQuestStandings(questId);
+
+  if (questId === undefined) {
+    return (
+      <>
+        <Header />
+        <p className="text-center p-8">Invalid quest id "{questIdParam}"</p>
+      </>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="text-center p-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-gray-900 mx-auto mb-4"></div>
+        <h1 className="title-md">Loading quest standings...</h1>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <>
+        <Header />
+        <p className="text-center p-8 text-destructive">
+          Failed to load quest #{questId}: {getErrorMessage(error, "Quest not found")}
+        </p>
+      </>
+    );
+  }
+
+  const { quest, leaderboard, markedAt, live, winnerEvent } = data;
+  const winner = winnerEvent?.winner ?? quest.winner;
+  const now = Math.floor(Date.now() / 1000);
+
+  const timeline = [
+    { label: "Created", time: quest.createdAt },
+    { label: "Buy-in closes", time: quest.buyInTime },
+    { label: "Results", time: quest.resultTime },
+  ];
+
+  return (
+    <>
+      <Header />
+      <div className="max-w-screen-xl mx-auto p-6 space-y-6">
+        <div>
+          <Link to="/quests" className="text-sm text-muted-foreground hover:underline">
+            ← All quests
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">
+            #{quest.questId} {quest.name}
+          </h1>
+          <p className="text-muted-foreground">
+            {quest.status} · {quest.participants.length} participant(s) · Prize pool {formatApt(quest.totalPool)} · Entry
+            fee {formatApt(quest.entryFee)}
+          </p>
+        </div>
+
+        {winner && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Winner</CardTitle>
+              <CardDescription>
+                {winnerEvent ? (
+                  <>
+                    Declared in{" "}
+                    <a
+                      href={`https://explorer.aptoslabs.com/txn/${winnerEvent.version}?network=${NETWORK}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="hover:underline"
+                    >
+                      transaction {winnerEvent.version.toString()}
+                    </a>
+                  </>
+                ) : (
+                  "Declared on-chain"
+                )}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="font-mono text-sm break-all">{winner}</p>
+              {winnerEvent && <p className="text-sm mt-1">Reward: {formatApt(winnerEvent.totalReward)}</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {timeline.map(({ label, time }) => (
+                <li key={label} className={time <= now ? "" : "text-muted-foreground"}>
+                  <p className="font-medium">
+                    {time <= now ? "✓ " : ""}
+                    {label}
+                  </p>
+                  <p className="text-sm">{formatTime(time)}</p>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Leaderboard</CardTitle>
+            <CardDescription>
+              {live
+                ? `Live: portfolios marked to current pool prices (${formatTime(markedAt)}), refreshed every 15s`
+                : `Final: portfolios valued at result time (${formatTime(markedAt)})`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {leaderboard.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No participant has selected a portfolio yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rank</TableHead>
+                    <TableHead>Participant</TableHead>
+                    <TableHead className="text-right">Return</TableHead>
+                    <TableHead className="text-right">Start Value</TableHead>
+                    <TableHead className="text-right">{live ? "Current Value" : "End Value"}</TableHead>
+                    <TableHead className="text-right">Selected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {leaderboard.entries.map((entry) => (
+                    <TableRow
+                      key={entry.user}
+                      className={winner && normalizeAddress(winner) === normalizeAddress(entry.user) ? "font-semibold" : ""}
+                    >
+                      <TableCell>{entry.rank}</TableCell>
+                      <TableCell>
+                        <AccountLink address={entry.user} />
+                      </TableCell>
+                      <TableCell className={`text-right ${returnClass(entry.returnBps)}`}>
+                        {formatReturn(entry.returnBps)}
+                      </TableCell>
+                      <TableCell className="text-right">{formatUsdc(entry.startValueUsdc)}</TableCell>
+                      <TableCell className="text-right">{formatUsdc(entry.endValueUsdc)}</TableCell>
+                      <TableCell className="text-right">{formatTime(entry.selectedAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {leaderboard.unpricedTokens.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                No price history for {leaderboard.unpricedTokens.length} token(s); their allocations are held flat.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Portfolios</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {leaderboard.entries.map((entry) => (
+              <div key={entry.user} className="space-y-2">
+                <p className="text-sm">
+                  #{entry.rank} <AccountLink address={entry.user} />
+                </p>
+                <PortfolioRows entry={entry} />
+              </div>
+            ))}
+            {leaderboard.unscored.map((user) => (
+              <p key={user} className="text-sm text-muted-foreground">
+                <AccountLink address={user} /> joined but has not selected a portfolio
+              </p>
+            ))}
+            {quest.participants.length === 0 && <p className="text-sm text-muted-foreground">No participants yet.</p>}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
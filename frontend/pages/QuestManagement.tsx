@@ -1,29 +1,31 @@
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import { useToast } from "@/components/ui/use-toast";
 // Internal components
 import { Header } from "@/components/Header";
+import { PortfolioBuilder } from "@/components/PortfolioBuilder";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { LabeledInput } from "@/components/ui/labeled-input";
 import { ConfirmButton } from "@/components/ui/confirm-button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Separator } from "@/components/ui/separator";
 // Internal utils
 import { aptosClient } from "@/utils/aptosClient";
 import { convertAmountFromOnChainToHumanReadable, convertAmountFromHumanReadableToOnChain } from "@/utils/helpers";
+import { getErrorMessage } from "@sdk/errors";
 // Entry functions
 import { createQuest } from "@/entry-functions/create_quest";
 import { joinQuest } from "@/entry-functions/join_quest";
 import { selectPortfolio } from "@/entry-functions/select_portfolio";
 import { declareWinner } from "@/entry-functions/declare_winner";
+// Internal hooks
+import { useQuestLeaderboard } from "@/hooks/useQuestLeaderboard";
 // View functions
-import { getAllQuests, getUserParticipation, hasUserParticipated, getQuestParticipants, Quest, Participation } from "@/view-functions/quest";
+import { getAllQuests, getUserParticipation, hasUserParticipated, getQuestParticipants, Quest, Participation, TokenSelection } from "@/view-functions/quest";
 
 export function QuestManagement() {
   const { account, signAndSubmitTransaction } = useWallet();
@@ -37,8 +39,8 @@ export function QuestManagement() {
 
   // State for portfolio selection
   const [selectedQuestId, setSelectedQuestId] = useState<number | null>(null);
-  const [portfolioTokens, setPortfolioTokens] = useState<Array<{ address: string; amount: string }>>([]);
   const [winnerAddress, setWinnerAddress] = useState<string>("");
+  const [rankingRequested, setRankingRequested] = useState(false);
 
   // State for data
   const [quests, setQuests] = useState<Quest[]>([]);
@@ -46,6 +48,8 @@ export function QuestManagement() {
   const [loading, setLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
 
+  const leaderboard = useQuestLeaderboard(selectedQuestId ?? undefined, rankingRequested);
+
   // Load quests on component mount
   useEffect(() => {
     loadQuests();
@@ -67,7 +71,7 @@ export function QuestManagement() {
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Failed to load quests: ${error}`,
+        description: `Failed to load quests: ${getErrorMessage(error)}`,
       });
     } finally {
       setLoading(false);
@@ -81,10 +85,10 @@ export function QuestManagement() {
       const participations = new Map<number, Participation>();
       
       for (const quest of quests) {
-        const hasParticipated = await hasUserParticipated(account.address, quest.quest_id);
+        const hasParticipated = await hasUserParticipated(account.address, quest.questId);
         if (hasParticipated) {
-          const participation = await getUserParticipation(account.address, quest.quest_id);
-          participations.set(quest.quest_id, participation);
+          const participation = await getUserParticipation(account.address, quest.questId);
+          participations.set(quest.questId, participation);
         }
       }
       
@@ -101,7 +105,7 @@ export function QuestManagement() {
       const response = await signAndSubmitTransaction(
         createQuest({
           name: questName,
-          entryFee: convertAmountFromHumanReadableToOnChain(parseFloat(entryFee), 8), // APT has 8 decimals
+          entryFee: convertAmountFromHumanReadableToOnChain(entryFee, 8), // APT has 8 decimals
           buyInTime: parseInt(buyInTime) * 60, // convert minutes to seconds
           resultTime: parseInt(resultTime) * 60, // convert minutes to seconds
         })
@@ -126,7 +130,7 @@ export function QuestManagement() {
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Failed to create quest: ${error}`,
+        description: `Failed to create quest: ${getErrorMessage(error)}`,
       });
     }
   };
@@ -154,23 +158,20 @@ export function QuestManagement() {
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Failed to join quest: ${error}`,
+        description: `Failed to join quest: ${getErrorMessage(error)}`,
       });
     }
   };
 
-  const handleSelectPortfolio = async () => {
+  const handleSelectPortfolio = async (selections: TokenSelection[]) => {
     try {
       if (!account || !selectedQuestId) throw new Error("Missing required data");
 
-      const tokenAddresses = portfolioTokens.map(t => t.address);
-      const amountsUsdc = portfolioTokens.map(t => convertAmountFromHumanReadableToOnChain(parseFloat(t.amount), 6)); // USDC has 6 decimals
-
       const response = await signAndSubmitTransaction(
         selectPortfolio({
           questId: selectedQuestId,
-          tokenAddresses,
-          amountsUsdc,
+          tokenAddresses: selections.map((selection) => selection.tokenAddress),
+          amountsUsdc: selections.map((selection) => selection.amountUsdc),
         })
       );
 
@@ -184,14 +185,13 @@ export function QuestManagement() {
       });
 
       // Reset portfolio selection
-      setPortfolioTokens([]);
       setSelectedQuestId(null);
       await loadUserParticipations();
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Failed to select portfolio: ${error}`,
+        description: `Failed to select portfolio: ${getErrorMessage(error)}`,
       });
     }
   };
@@ -217,33 +217,17 @@ export function QuestManagement() {
       });
 
       setWinnerAddress("");
+      setRankingRequested(false);
       await loadQuests();
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: `Failed to declare winner: ${error}`,
+        description: `Failed to declare winner: ${getErrorMessage(error)}`,
       });
     }
   };
 
-  const addPortfolioToken = () => {
-    if (portfolioTokens.length < 5) {
-      setPortfolioTokens([...portfolioTokens, { address: "", amount: "" }]);
-    }
-  };
-
-  const removePortfolioToken = (index: number) => {
-    const newTokens = portfolioTokens.filter((_, i) => i !== index);
-    setPortfolioTokens(newTokens);
-  };
-
-  const updatePortfolioToken = (index: number, field: 'address' | 'amount', value: string) => {
-    const newTokens = [...portfolioTokens];
-    newTokens[index][field] = value;
-    setPortfolioTokens(newTokens);
-  };
-
   const getStatusBadge = (status: string) => {
     const variants = {
       Active: "default",
@@ -265,22 +249,22 @@ export function QuestManagement() {
 
   const canJoinQuest = (quest: Quest) => {
     if (!account) return false;
-    const hasParticipated = userParticipations.has(quest.quest_id);
+    const hasParticipated = userParticipations.has(quest.questId);
     const currentTime = Math.floor(Date.now() / 1000);
-    return quest.status === "Active" && !hasParticipated && currentTime < quest.buy_in_time;
+    return quest.status === "Active" && !hasParticipated && currentTime < quest.buyInTime;
   };
 
   const canSelectPortfolio = (quest: Quest) => {
     if (!account) return false;
-    const participation = userParticipations.get(quest.quest_id);
+    const participation = userParticipations.get(quest.questId);
     const currentTime = Math.floor(Date.now() / 1000);
-    return participation && !participation.portfolio && currentTime < quest.buy_in_time;
+    return participation && !participation.portfolio && currentTime < quest.buyInTime;
   };
 
   const canDeclareWinner = (quest: Quest) => {
     if (!account) return false;
     const currentTime = Math.floor(Date.now() / 1000);
-    return quest.status === "Active" && currentTime >= quest.result_time;
+    return quest.status === "Active" && currentTime >= quest.resultTime;
   };
 
   return (
@@ -326,21 +310,25 @@ export function QuestManagement() {
               </TableHeader>
               <TableBody>
                 {quests.map((quest) => (
-                  <TableRow key={quest.quest_id}>
-                    <TableCell className="font-medium">{quest.quest_id}</TableCell>
-                    <TableCell>{quest.name}</TableCell>
+                  <TableRow key={quest.questId}>
+                    <TableCell className="font-medium">{quest.questId}</TableCell>
+                    <TableCell>
+                      <Link to={`/quests/${quest.questId}`} className="hover:underline">
+                        {quest.name}
+                      </Link>
+                    </TableCell>
                     <TableCell>{getStatusBadge(quest.status)}</TableCell>
-                    <TableCell>{convertAmountFromOnChainToHumanReadable(quest.entry_fee, 8)}</TableCell>
+                    <TableCell>{convertAmountFromOnChainToHumanReadable(quest.entryFee, 8)}</TableCell>
                     <TableCell>{quest.participants.length}</TableCell>
-                    <TableCell>{convertAmountFromOnChainToHumanReadable(quest.total_pool, 8)}</TableCell>
-                    <TableCell>{formatTime(quest.buy_in_time)}</TableCell>
-                    <TableCell>{formatTime(quest.result_time)}</TableCell>
+                    <TableCell>{convertAmountFromOnChainToHumanReadable(quest.totalPool, 8)}</TableCell>
+                    <TableCell>{formatTime(quest.buyInTime)}</TableCell>
+                    <TableCell>{formatTime(quest.resultTime)}</TableCell>
                     <TableCell>
                       <div className="flex gap-2">
                         {canJoinQuest(quest) && (
                           <Button
                             size="sm"
-                            onClick={() => handleJoinQuest(quest.quest_id)}
+                            onClick={() => handleJoinQuest(quest.questId)}
                           >
                             Join
                           </Button>
@@ -349,7 +337,7 @@ export function QuestManagement() {
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => setSelectedQuestId(quest.quest_id)}
+                            onClick={() => setSelectedQuestId(quest.questId)}
                           >
                             Select Portfolio
                           </Button>
@@ -358,7 +346,7 @@ export function QuestManagement() {
                           <Button
                             size="sm"
                             variant="destructive"
-                            onClick={() => setSelectedQuestId(quest.quest_id)}
+                            onClick={() => setSelectedQuestId(quest.questId)}
                           >
                             Declare Winner
                           </Button>
@@ -435,62 +423,14 @@ export function QuestManagement() {
               <CardHeader>
                 <CardTitle>Select Portfolio</CardTitle>
                 <CardDescription>
-                  Choose 1-5 tokens for your quest portfolio
+                  Search launchpad tokens and split a USDC budget across 1-5 of them
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
-                {selectedQuestId && (
-                  <div className="p-4 bg-muted rounded-lg">
-                    <p className="font-medium">Selected Quest: {quests.find(q => q.quest_id === selectedQuestId)?.name}</p>
-                    <p className="text-sm text-muted-foreground">Quest ID: {selectedQuestId}</p>
-                  </div>
-                )}
-
-                {portfolioTokens.map((token, index) => (
-                  <div key={index} className="flex gap-4 items-end">
-                    <div className="flex-1">
-                      <Label htmlFor={`token-${index}`}>Token Address</Label>
-                      <Input
-                        id={`token-${index}`}
-                        placeholder="0x..."
-                        value={token.address}
-                        onChange={(e) => updatePortfolioToken(index, 'address', e.target.value)}
-                      />
-                    </div>
-                    <div className="flex-1">
-                      <Label htmlFor={`amount-${index}`}>Amount (USDC)</Label>
-                      <Input
-                        id={`amount-${index}`}
-                        placeholder="100"
-                        type="number"
-                        step="0.01"
-                        value={token.amount}
-                        onChange={(e) => updatePortfolioToken(index, 'amount', e.target.value)}
-                      />
-                    </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removePortfolioToken(index)}
-                    >
-                      Remove
-                    </Button>
-                  </div>
-                ))}
-
-                {portfolioTokens.length < 5 && (
-                  <Button variant="outline" onClick={addPortfolioToken}>
-                    Add Token
-                  </Button>
-                )}
-
-                <Separator />
-
-                <ConfirmButton
-                  title="Submit Portfolio"
+                <PortfolioBuilder
+                  quest={quests.find((q) => q.questId === selectedQuestId)}
+                  disabled={!account}
                   onSubmit={handleSelectPortfolio}
-                  disabled={!selectedQuestId || portfolioTokens.length === 0 || !account}
-                  confirmMessage="Are you sure you want to submit this portfolio?"
                 />
               </CardContent>
             </Card>
@@ -501,17 +441,82 @@ export function QuestManagement() {
               <CardHeader>
                 <CardTitle>Admin Actions</CardTitle>
                 <CardDescription>
-                  Declare winners for completed quests
+                  Rank participants by portfolio return and declare winners for completed quests
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
                 {selectedQuestId && (
                   <div className="p-4 bg-muted rounded-lg">
-                    <p className="font-medium">Selected Quest: {quests.find(q => q.quest_id === selectedQuestId)?.name}</p>
+                    <p className="font-medium">Selected Quest: {quests.find(q => q.questId === selectedQuestId)?.name}</p>
                     <p className="text-sm text-muted-foreground">Quest ID: {selectedQuestId}</p>
                   </div>
                 )}
 
+                <div className="space-y-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => (rankingRequested ? leaderboard.refetch() : setRankingRequested(true))}
+                    disabled={!selectedQuestId || leaderboard.isFetching}
+                  >
+                    {leaderboard.isFetching ? "Ranking..." : "Rank Participants"}
+                  </Button>
+
+                  {leaderboard.error && (
+                    <p className="text-sm text-destructive">
+                      Failed to rank participants: {getErrorMessage(leaderboard.error)}
+                    </p>
+                  )}
+
+                  {rankingRequested && leaderboard.data && (
+                    <>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Rank</TableHead>
+                            <TableHead>Participant</TableHead>
+                            <TableHead>Return</TableHead>
+                            <TableHead>Value (USDC)</TableHead>
+                            <TableHead></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {leaderboard.data.entries.map((entry) => (
+                            <TableRow key={entry.user}>
+                              <TableCell className="font-medium">{entry.rank}</TableCell>
+                              <TableCell className="font-mono text-xs">{entry.user}</TableCell>
+                              <TableCell>{(Number(entry.returnBps) / 100).toFixed(2)}%</TableCell>
+                              <TableCell>
+                                {convertAmountFromOnChainToHumanReadable(entry.startValueUsdc, 6)} →{" "}
+                                {convertAmountFromOnChainToHumanReadable(entry.endValueUsdc, 6)}
+                              </TableCell>
+                              <TableCell>
+                                <Button size="sm" variant="outline" onClick={() => setWinnerAddress(entry.user)}>
+                                  Use as Winner
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+
+                      {leaderboard.data.entries.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No participant has selected a portfolio.</p>
+                      )}
+                      {leaderboard.data.unscored.length > 0 && (
+                        <p className="text-sm text-muted-foreground">
+                          {leaderboard.data.unscored.length} participant(s) without a portfolio are not ranked.
+                        </p>
+                      )}
+                      {leaderboard.data.unpricedTokens.length > 0 && (
+                        <p className="text-sm text-muted-foreground">
+                          No trade history around the quest window for {leaderboard.data.unpricedTokens.length}{" "}
+                          token(s); their allocations are held flat.
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+
                 <LabeledInput
                   id="winner-address"
                   label="Winner Address"
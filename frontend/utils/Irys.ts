@@ -1,12 +1,14 @@
 import { WebIrys } from "@irys/sdk";
 import { WalletContextState } from "@aptos-labs/wallet-adapter-react";
 import { accountAPTBalance } from "@/view-functions/accountBalance";
+import { NETWORK } from "@/constants";
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const getWebIrys = async (aptosWallet: any) => {
-  const network = "devnet"; // Irys network
+  // Irys only runs a mainnet and a devnet; the devnet accepts testnet/devnet APT
+  const network = NETWORK === "mainnet" ? "mainnet" : "devnet";
   const token = "aptos";
-  const rpcUrl = "devnet"; // Aptos network "mainnet" || "testnet" || "devnet"
+  const rpcUrl = NETWORK; // Aptos network the funding transactions are sent to
   
   // Ensure we have the proper wallet structure
   if (!aptosWallet.account?.address) {
@@ -26,6 +28,16 @@ const getWebIrys = async (aptosWallet: any) => {
   return webIrys;
 };
 
+/**
+ * Cost of uploading `fileSize` bytes and what the wallet already has loaded
+ * on the Irys node, both in octas
+ */
+export const getUploadPrice = async (aptosWallet: WalletContextState, fileSize: number) => {
+  const webIrys = await getWebIrys(aptosWallet);
+  const [price, loadedBalance] = await Promise.all([webIrys.getPrice(fileSize), webIrys.getLoadedBalance()]);
+  return { price: BigInt(price.toFixed(0)), loadedBalance: BigInt(loadedBalance.toFixed(0)) };
+};
+
 /* TODO, the steps would be:
 1. estimate the gas cost based on the data size https://docs.irys.xyz/developer-docs/irys-sdk/api/getPrice
 2. check the wallet balance on the irys node: irys.getLoadedBalance()
@@ -1,9 +1,32 @@
-import { NETWORK } from "@/constants";
+import { FULLNODE_URLS, INDEXER_URLS, NETWORK } from "@/constants";
 import { Aptos, AptosConfig } from "@aptos-labs/ts-sdk";
+import { ResilientTransport, defaultEndpoints, parseEndpointList } from "@sdk/transport";
 
-const aptos = new Aptos(new AptosConfig({ network: NETWORK }));
+const endpoints = defaultEndpoints(NETWORK);
+
+// Every request from the app shares one rate limit, retry policy and endpoint health
+const transport = new ResilientTransport({
+  endpoints: {
+    fullnode: parseEndpointList(FULLNODE_URLS, endpoints.fullnode),
+    indexer: parseEndpointList(INDEXER_URLS, endpoints.indexer),
+  },
+});
+
+const aptos = new Aptos(
+  new AptosConfig({
+    network: NETWORK,
+    fullnode: transport.primaryUrl("fullnode"),
+    indexer: transport.primaryUrl("indexer"),
+    client: transport,
+  }),
+);
 
 // Reuse same Aptos instance to utilize cookie based sticky routing
 export function aptosClient() {
   return aptos;
 }
+
+// Metrics and events of the shared transport, e.g. `rpcTransport().subscribe(console.debug)`
+export function rpcTransport() {
+  return transport;
+}
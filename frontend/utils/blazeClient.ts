@@ -0,0 +1,23 @@
+import { MODULE_ADDRESS, NETWORK, QUEST_MODULE_ADDRESS } from "@/constants";
+import { rpcTransport } from "@/utils/aptosClient";
+import { BlazeClient, BlazeClientConfig } from "@sdk/client";
+import { PoolReader } from "@sdk/pool-reader";
+
+const blaze = new BlazeClient({
+  network: NETWORK as BlazeClientConfig["network"],
+  contractAddress: MODULE_ADDRESS,
+  questAddress: QUEST_MODULE_ADDRESS,
+  transport: rpcTransport(),
+});
+
+const reader = new PoolReader(blaze);
+
+// Reuse same client (and its Aptos instance) across view functions
+export function blazeClient() {
+  return blaze;
+}
+
+// One reader so every page shares its request de-duplication and snapshot cache
+export function poolReader() {
+  return reader;
+}
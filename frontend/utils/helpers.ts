@@ -1,9 +1,47 @@
-export const APT_DECIMALS = 8;
+// Shared SDK modules
+import { APT_DECIMALS, Amount, AmountInput } from "@sdk/amount";
 
-export const convertAmountFromHumanReadableToOnChain = (value: number, decimal: number) => {
-  return value * Math.pow(10, decimal);
+export { APT_DECIMALS };
+
+/**
+ * Human amount (e.g. 0.29 or "0.29") to on-chain base units, exactly;
+ * digits past `decimal` are dropped
+ */
+export const convertAmountFromHumanReadableToOnChain = (value: AmountInput, decimal: number) => {
+  return Amount.parse(value, decimal, "floor").raw;
+};
+
+/**
+ * On-chain base units to the nearest JS number, for display and charts
+ */
+export const convertAmountFromOnChainToHumanReadable = (value: bigint | number | string, decimal: number) => {
+  return Amount.fromRaw(value, decimal).toNumber();
+};
+
+/**
+ * Octas as an APT amount for display, e.g. "1,234.5 APT"
+ */
+export const formatApt = (octas: bigint | number | string, maxDecimals: number = APT_DECIMALS) => {
+  return `${Amount.octas(octas).format({ maxDecimals, grouping: true })} APT`;
 };
 
-export const convertAmountFromOnChainToHumanReadable = (value: number, decimal: number) => {
-  return value / Math.pow(10, decimal);
+/**
+ * A price per token in APT, scaled by 1e8, with tiny prices written as "0.0₅12"
+ */
+export const formatAptPrice = (price: bigint | number | string) => {
+  return `${Amount.octas(price).format({ tiny: true })} APT`;
+};
+
+/**
+ * USD cents as a dollar amount for display, e.g. "$75,000"
+ */
+export const formatUsdCents = (cents: bigint | number | string) => {
+  return `$${Amount.usdCents(cents).format({ grouping: true })}`;
+};
+
+/** Default validity window for launchpad_v2 trades, in seconds */
+export const DEFAULT_DEADLINE_SECONDS = 5 * 60;
+
+export const getDeadline = (secondsFromNow: number = DEFAULT_DEADLINE_SECONDS) => {
+  return Math.floor(Date.now() / 1000) + secondsFromNow;
 };
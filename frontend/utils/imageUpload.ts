@@ -0,0 +1,292 @@
+import { WalletContextState } from "@aptos-labs/wallet-adapter-react";
+// Internal utils
+import { checkIfFund, getUploadPrice, uploadFile } from "@/utils/Irys";
+import { getErrorMessage } from "@sdk/errors";
+
+/** Image types accepted for token icons */
+export const ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+/** Largest file accepted before resizing, in bytes */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Smallest and largest accepted width/height, in pixels */
+export const MIN_IMAGE_DIMENSION = 64;
+export const MAX_IMAGE_DIMENSION = 4096;
+
+/** Width and height of the uploaded icon, in pixels */
+export const ICON_SIZE = 512;
+
+/** Icon size used by the local stand-in, which inlines the image in the URI */
+const LOCAL_ICON_SIZE = 64;
+
+export class ImageValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImageValidationError";
+  }
+}
+
+export class ImageUploadError extends Error {
+  /** Last error of each provider tried, by provider name */
+  readonly failures: Array<{ provider: string; error: string }>;
+
+  constructor(failures: Array<{ provider: string; error: string }>) {
+    super(`Image upload failed: ${failures.map(({ provider, error }) => `${provider}: ${error}`).join("; ")}`);
+    this.name = "ImageUploadError";
+    this.failures = failures;
+  }
+}
+
+export interface UploadEstimate {
+  /** What the upload costs, in the token's base units */
+  cost: bigint;
+
+  /** Of which still has to be funded before uploading */
+  funding: bigint;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Somewhere an image can be stored at a public URL
+ */
+export interface UploadProvider {
+  readonly name: string;
+  estimate(bytes: number): Promise<UploadEstimate>;
+
+  /** @returns Public URL of the stored file */
+  upload(file: File): Promise<string>;
+}
+
+export interface PreparedImage {
+  /** Canonical square PNG icon */
+  file: File;
+  width: number;
+  height: number;
+}
+
+// ============================================================================
+// VALIDATION AND RESIZING
+// ============================================================================
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new ImageValidationError("File is not a readable image"));
+    };
+    image.src = url;
+  });
+};
+
+const drawSquare = (image: HTMLImageElement, size: number): HTMLCanvasElement => {
+  // Center-crop to a square, then scale
+  const side = Math.min(image.naturalWidth, image.naturalHeight);
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+  context.imageSmoothingQuality = "high";
+  context.drawImage(
+    image,
+    (image.naturalWidth - side) / 2,
+    (image.naturalHeight - side) / 2,
+    side,
+    side,
+    0,
+    0,
+    size,
+    size,
+  );
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the icon"))), "image/png");
+  });
+};
+
+/**
+ * Check an image's type, size and dimensions, then center-crop and scale it
+ * to a `size` x `size` PNG
+ *
+ * @throws ImageValidationError when the image is not acceptable
+ */
+export const prepareImage = async (file: File, size: number = ICON_SIZE): Promise<PreparedImage> => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new ImageValidationError(`Unsupported image type ${file.type || "unknown"}; use PNG, JPEG, GIF or WebP`);
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new ImageValidationError(`Image is ${(file.size / 1024 / 1024).toFixed(1)} MB; the limit is 5 MB`);
+  }
+
+  const image = await loadImage(file);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  if (Math.min(width, height) < MIN_IMAGE_DIMENSION) {
+    throw new ImageValidationError(
+      `Image is ${width}x${height}; it must be at least ${MIN_IMAGE_DIMENSION}px on each side`,
+    );
+  }
+  if (Math.max(width, height) > MAX_IMAGE_DIMENSION) {
+    throw new ImageValidationError(
+      `Image is ${width}x${height}; it must be at most ${MAX_IMAGE_DIMENSION}px on each side`,
+    );
+  }
+
+  const blob = await canvasToBlob(drawSquare(image, size));
+  const name = `${file.name.replace(/\.[^.]+$/, "") || "icon"}.png`;
+  return { file: new File([blob], name, { type: "image/png" }), width, height };
+};
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+/**
+ * Permanent storage on Irys, paid in APT by the connected wallet
+ */
+export class IrysUploadProvider implements UploadProvider {
+  readonly name = "Irys";
+
+  constructor(private readonly wallet: WalletContextState) {}
+
+  async estimate(bytes: number): Promise<UploadEstimate> {
+    const { price, loadedBalance } = await getUploadPrice(this.wallet, bytes);
+    return { cost: price, funding: loadedBalance >= price ? 0n : price - loadedBalance, symbol: "APT", decimals: 8 };
+  }
+
+  async upload(file: File): Promise<string> {
+    const funded = await checkIfFund(this.wallet, file.size);
+    if (!funded) throw new Error("Current account balance is not enough to fund the Irys node");
+    return uploadFile(this.wallet, file);
+  }
+}
+
+/**
+ * Any IPFS pinning endpoint that takes a multipart `file` field and answers
+ * with the CID as `IpfsHash` (Pinata), `cid` or `Hash` (Kubo). The browser
+ * sends no credential, so point it at a proxy that adds one (`/api/pin`)
+ * or at a node that accepts public uploads.
+ */
+export class HttpPinningProvider implements UploadProvider {
+  readonly name = "IPFS";
+
+  constructor(
+    private readonly endpoint: string,
+    private readonly gatewayUrl: string = "https://ipfs.io/ipfs",
+  ) {}
+
+  async estimate(): Promise<UploadEstimate> {
+    // Pinning is billed to the service account, not the user
+    return { cost: 0n, funding: 0n, symbol: "APT", decimals: 8 };
+  }
+
+  async upload(file: File): Promise<string> {
+    const body = new FormData();
+    body.append("file", file);
+    const response = await fetch(this.endpoint, { method: "POST", body });
+    if (!response.ok) {
+      throw new Error(`${this.endpoint} responded ${response.status}`);
+    }
+    const result = await response.json();
+    const cid = result.IpfsHash ?? result.cid ?? result.Hash;
+    if (typeof cid !== "string") {
+      throw new Error(`${this.endpoint} did not return a CID`);
+    }
+    return `${this.gatewayUrl.replace(/\/$/, "")}/${cid}`;
+  }
+}
+
+/**
+ * Development stand-in: inlines a small copy of the icon as a data URI,
+ * so local testing needs no storage account
+ */
+export class LocalUploadProvider implements UploadProvider {
+  readonly name = "Local";
+
+  async estimate(): Promise<UploadEstimate> {
+    return { cost: 0n, funding: 0n, symbol: "APT", decimals: 8 };
+  }
+
+  async upload(file: File): Promise<string> {
+    const canvas = drawSquare(await loadImage(file), LOCAL_ICON_SIZE);
+    return canvas.toDataURL("image/png");
+  }
+}
+
+/**
+ * Providers configured for this deployment, in the order to try them
+ *
+ * VITE_UPLOAD_PROVIDERS lists them (default: "irys,local" in development,
+ * "irys" otherwise); `ipfs` needs VITE_PINNING_URL, normally the `/api/pin`
+ * proxy holding the pinning credential server-side, and optionally
+ * VITE_IPFS_GATEWAY.
+ */
+export const getUploadProviders = (wallet: WalletContextState): UploadProvider[] => {
+  const configured = import.meta.env.VITE_UPLOAD_PROVIDERS ?? (import.meta.env.DEV ? "irys,local" : "irys");
+  const providers: UploadProvider[] = [];
+  for (const name of configured.split(",").map((entry: string) => entry.trim().toLowerCase())) {
+    if (name === "irys") providers.push(new IrysUploadProvider(wallet));
+    if (name === "ipfs" && import.meta.env.VITE_PINNING_URL) {
+      providers.push(new HttpPinningProvider(import.meta.env.VITE_PINNING_URL, import.meta.env.VITE_IPFS_GATEWAY));
+    }
+    if (name === "local") providers.push(new LocalUploadProvider());
+  }
+  return providers;
+};
+
+// ============================================================================
+// UPLOAD
+// ============================================================================
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export interface UploadOptions {
+  /** Attempts per provider before falling back to the next (default: 2) */
+  attempts?: number;
+
+  /** Called before each attempt */
+  onAttempt?: (provider: UploadProvider, attempt: number) => void;
+}
+
+/**
+ * Upload a prepared image, retrying each provider with backoff and falling
+ * back to the next one when it keeps failing
+ *
+ * @returns The URL and the provider that stored the image
+ * @throws ImageUploadError when every provider failed
+ */
+export const uploadImage = async (
+  image: PreparedImage,
+  providers: UploadProvider[],
+  options: UploadOptions = {},
+): Promise<{ url: string; provider: UploadProvider }> => {
+  const attempts = Math.max(1, options.attempts ?? 2);
+  const failures: Array<{ provider: string; error: string }> = [];
+
+  for (const provider of providers) {
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      options.onAttempt?.(provider, attempt);
+      try {
+        return { url: await provider.upload(image.file), provider };
+      } catch (error) {
+        lastError = error;
+        if (attempt < attempts) await sleep(1000 * 2 ** (attempt - 1));
+      }
+    }
+    failures.push({ provider: provider.name, error: getErrorMessage(lastError) });
+  }
+
+  throw new ImageUploadError(
+    failures.length > 0 ? failures : [{ provider: "none", error: "no upload provider configured" }],
+  );
+};
@@ -1,4 +1,5 @@
 import { aptosClient } from "@/utils/aptosClient";
+import { MODULE_ADDRESS } from "@/constants";
 
 export type BondingCurveArguments = {
   faObj: string;
@@ -15,7 +16,7 @@ export const getBondingCurve = async (args: BondingCurveArguments): Promise<Bond
   const { faObj } = args;
   const result = await aptosClient().view<[boolean, number, number, number]>({
     payload: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::get_bonding_curve`,
+      function: `${MODULE_ADDRESS}::launchpad::get_bonding_curve`,
       functionArguments: [faObj],
     },
   });
@@ -32,7 +33,7 @@ export const getBondingCurvePrice = async (args: BondingCurveArguments & { amoun
   const { faObj, amount } = args;
   const result = await aptosClient().view<[number]>({
     payload: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::get_bonding_curve_price`,
+      function: `${MODULE_ADDRESS}::launchpad::get_bonding_curve_price`,
       functionArguments: [faObj, amount],
     },
   });
@@ -44,7 +45,7 @@ export const getBondingCurveMintCost = async (args: BondingCurveArguments & { am
   const { faObj, amount } = args;
   const result = await aptosClient().view<[number]>({
     payload: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::get_bonding_curve_mint_cost`,
+      function: `${MODULE_ADDRESS}::launchpad::get_bonding_curve_mint_cost`,
       functionArguments: [faObj, amount],
     },
   });
@@ -56,7 +57,7 @@ export const getBondingCurveSellPayout = async (args: BondingCurveArguments & {
   const { faObj, amount } = args;
   const result = await aptosClient().view<[number]>({
     payload: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::get_bonding_curve_sell_payout`,
+      function: `${MODULE_ADDRESS}::launchpad::get_bonding_curve_sell_payout`,
       functionArguments: [faObj, amount],
     },
   });
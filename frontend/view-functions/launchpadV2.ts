@@ -0,0 +1,60 @@
+import { blazeClient } from "@/utils/blazeClient";
+import { BancorCurve, FeeConfig } from "@sdk/bancor";
+import { PoolInfo, TokenMetadata } from "@sdk/resources";
+
+export type { PoolInfo, PoolSettings, SocialLinks, TokenMetadata } from "@sdk/resources";
+
+export type PoolArguments = {
+  poolId: string;
+};
+
+export const getPools = async (): Promise<string[]> => {
+  return blazeClient().getPools();
+};
+
+export const getPool = async (args: PoolArguments): Promise<PoolInfo> => {
+  const { poolId } = args;
+  return blazeClient().getPool(poolId);
+};
+
+export const getTokens = async (): Promise<TokenMetadata[]> => {
+  return blazeClient().getTokens();
+};
+
+export const getCurveData = async (args: PoolArguments): Promise<BancorCurve> => {
+  const { poolId } = args;
+  return blazeClient().getCurveData(poolId);
+};
+
+/** APT reserve of a pool, in octas */
+export const getPoolBalance = async (args: PoolArguments): Promise<bigint> => {
+  const { poolId } = args;
+  return blazeClient().getPoolBalance(poolId);
+};
+
+/** Token supply of a pool, in base units */
+export const getCurrentSupply = async (args: PoolArguments): Promise<bigint> => {
+  const { poolId } = args;
+  return blazeClient().getCurrentSupply(poolId);
+};
+
+/** Price per token in APT, scaled by 1e8 */
+export const getCurrentPrice = async (args: PoolArguments): Promise<bigint> => {
+  const { poolId } = args;
+  return blazeClient().getCurrentPrice(poolId);
+};
+
+/** Market cap in USD cents */
+export const calculateMarketCapUsd = async (args: PoolArguments): Promise<bigint> => {
+  const { poolId } = args;
+  return blazeClient().getMarketCapUsd(poolId);
+};
+
+export const getFees = async (): Promise<FeeConfig> => {
+  return blazeClient().getFees();
+};
+
+/** APT/USD oracle price in USD cents */
+export const getAptUsdPrice = async (): Promise<bigint> => {
+  return blazeClient().getAptUsdPrice();
+};
@@ -1,4 +1,5 @@
 import { aptosClient } from "@/utils/aptosClient";
+import { MODULE_ADDRESS } from "@/constants";
 
 export interface LiquidityPoolData {
   total_apt_collected: number;
@@ -8,7 +9,7 @@ export interface LiquidityPoolData {
 export const getLiquidityPool = async (): Promise<LiquidityPoolData> => {
   const result = await aptosClient().view<[number, number]>({
     payload: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::get_liquidity_pool`,
+      function: `${MODULE_ADDRESS}::launchpad::get_liquidity_pool`,
       functionArguments: [],
     },
   });
@@ -22,7 +23,7 @@ export const getLiquidityPool = async (): Promise<LiquidityPoolData> => {
 export const getAvailableLiquidity = async (): Promise<number> => {
   const result = await aptosClient().view<[number]>({
     payload: {
-      function: `${import.meta.env.VITE_MODULE_ADDRESS}::launchpad::get_available_liquidity`,
+      function: `${MODULE_ADDRESS}::launchpad::get_available_liquidity`,
       functionArguments: [],
     },
   });
@@ -0,0 +1,363 @@
+/**
+ * Blaze Amounts
+ *
+ * Fixed point amounts backed by bigint, for APT / octas, token base units
+ * and USD cents. Parsing, arithmetic and formatting never go through a JS
+ * number, so u64/u128 values above 2^53 and inputs like 0.29 APT stay exact.
+ * Has no SDK dependency so the scripts and the React pages can share it.
+ *
+ * @example
+ * ```typescript
+ * import { Amount } from './amount';
+ *
+ * Amount.apt("0.29").raw;                              // 29_000_000n octas
+ * Amount.fromRaw(120n, 8).format({ tiny: true });      // "0.0₅12"
+ * Amount.apt("2").valueAt(Amount.usdCents(850n));      // $17.00
+ * ```
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Decimals of APT (1 APT = 100,000,000 octas) */
+export const APT_DECIMALS = 8;
+
+/** Decimals of a USD amount held in cents, like the contract's market caps */
+export const USD_CENTS_DECIMALS = 2;
+
+/** Zeros after the decimal point from which `tiny` formatting kicks in */
+const TINY_MIN_ZEROS = 4;
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/** Largest exponent accepted in "1e-7" notation; u128 needs 39 digits */
+const MAX_EXPONENT = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A human decimal amount as typed or computed, e.g. `0.29` or `"0.29"` */
+export type AmountInput = number | string;
+
+/**
+ * How to drop digits past an amount's precision
+ *
+ * `floor` and `ceil` round towards -∞ / +∞ (the contract's integer math
+ * floors), `round` goes half away from zero, and `exact` throws instead.
+ */
+export type Rounding = "floor" | "ceil" | "round" | "exact";
+
+export interface FormatOptions {
+  /** Most fraction digits to show (default: all of them) */
+  maxDecimals?: number;
+
+  /** Fewest fraction digits to show, padding with zeros (default: 0) */
+  minDecimals?: number;
+
+  /** How to drop digits past `maxDecimals` (default: "round") */
+  rounding?: Rounding;
+
+  /** Group the integer part in thousands with commas (default: false) */
+  grouping?: boolean;
+
+  /**
+   * Write amounts below 1 with 4+ leading fraction zeros as "0.0₅12",
+   * the subscript counting the zeros (default: false)
+   */
+  tiny?: boolean;
+
+  /** Significant digits kept in `tiny` notation (default: 4) */
+  significantDigits?: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const pow10 = (exponent: number) => 10n ** BigInt(exponent);
+
+function checkDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(`Invalid decimals ${decimals}`);
+  }
+}
+
+/**
+ * Divide with explicit rounding; bigint division alone truncates towards zero
+ */
+function divide(numerator: bigint, denominator: bigint, rounding: Rounding): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const negative = numerator < 0n !== denominator < 0n;
+  switch (rounding) {
+    case "exact":
+      throw new Error("Amount does not fit the requested precision");
+    case "floor":
+      return negative ? quotient - 1n : quotient;
+    case "ceil":
+      return negative ? quotient : quotient + 1n;
+    case "round": {
+      const twice = 2n * (remainder < 0n ? -remainder : remainder);
+      const half = denominator < 0n ? -denominator : denominator;
+      return twice >= half ? quotient + (negative ? -1n : 1n) : quotient;
+    }
+  }
+}
+
+const groupThousands = (digits: string) => digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+
+const subscript = (value: number) =>
+  value
+    .toString()
+    .split("")
+    .map((digit) => SUBSCRIPT_DIGITS[Number(digit)])
+    .join("");
+
+// ============================================================================
+// AMOUNT
+// ============================================================================
+
+/**
+ * An immutable fixed point amount: `raw` base units at `decimals` decimals
+ */
+export class Amount {
+  private constructor(
+    /** Value in base units, e.g. octas for APT */
+    readonly raw: bigint,
+    readonly decimals: number
+  ) {}
+
+  /**
+   * Wrap base units as read from chain, e.g. `Amount.fromRaw(octas, 8)`
+   *
+   * @param raw - Integer base units; numbers must be integers
+   */
+  static fromRaw(raw: bigint | number | string, decimals: number): Amount {
+    checkDecimals(decimals);
+    if (typeof raw === "number" && !Number.isInteger(raw)) {
+      throw new Error(`Base units must be an integer, got ${raw}`);
+    }
+    return new Amount(BigInt(raw), decimals);
+  }
+
+  /**
+   * Parse a human decimal ("0.29", "-1.5", "1e-7") into `decimals` decimals
+   *
+   * Numbers go through their shortest string form, so `0.29` parses the same
+   * as `"0.29"`.
+   *
+   * @param rounding - What to do with digits past `decimals` (default: "exact", which throws)
+   */
+  static parse(value: AmountInput, decimals: number, rounding: Rounding = "exact"): Amount {
+    checkDecimals(decimals);
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new Error(`Invalid amount ${value}`);
+    }
+
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Invalid amount "${text}"`);
+    }
+
+    const [, sign, integer, fraction = "", exponent = "0"] = match;
+    // Signed before rounding, so "floor" and "ceil" go towards -∞ / +∞ for negatives too
+    const magnitude = BigInt(`${integer}${fraction}` || "0");
+    const digits = sign === "-" ? -magnitude : magnitude;
+    if (Math.abs(Number(exponent)) > MAX_EXPONENT) {
+      throw new Error(`Amount "${text}" is out of range`);
+    }
+    // digits * 10^(exponent - fraction digits) is the value; shift it to `decimals` decimals
+    const shift = decimals - fraction.length + Number(exponent);
+    let raw: bigint;
+    try {
+      raw = shift >= 0 ? digits * pow10(shift) : divide(digits, pow10(-shift), rounding);
+    } catch {
+      throw new Error(`Amount "${text}" has more than ${decimals} decimals`);
+    }
+    return new Amount(raw, decimals);
+  }
+
+  /**
+   * Like `parse`, but returns undefined instead of throwing
+   */
+  static tryParse(value: AmountInput, decimals: number, rounding: Rounding = "exact"): Amount | undefined {
+    try {
+      return Amount.parse(value, decimals, rounding);
+    } catch {
+      return undefined;
+    }
+  }
+
+  static zero(decimals: number): Amount {
+    return Amount.fromRaw(0n, decimals);
+  }
+
+  /**
+   * APT from a human amount; digits past 8 decimals are dropped
+   */
+  static apt(value: AmountInput, rounding: Rounding = "floor"): Amount {
+    return Amount.parse(value, APT_DECIMALS, rounding);
+  }
+
+  /**
+   * APT from octas
+   */
+  static octas(octas: bigint | number | string): Amount {
+    return Amount.fromRaw(octas, APT_DECIMALS);
+  }
+
+  /**
+   * USD from cents, e.g. a market cap or the APT/USD oracle price
+   */
+  static usdCents(cents: bigint | number | string): Amount {
+    return Amount.fromRaw(cents, USD_CENTS_DECIMALS);
+  }
+
+  // --------------------------------------------------------------------------
+  // Arithmetic
+  // --------------------------------------------------------------------------
+
+  private same(other: Amount): void {
+    if (other.decimals !== this.decimals) {
+      throw new Error(`Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals`);
+    }
+  }
+
+  add(other: Amount): Amount {
+    this.same(other);
+    return new Amount(this.raw + other.raw, this.decimals);
+  }
+
+  sub(other: Amount): Amount {
+    this.same(other);
+    return new Amount(this.raw - other.raw, this.decimals);
+  }
+
+  /**
+   * Scale by `numerator / denominator`, e.g. `mulDiv(9_950n, 10_000n)` for a
+   * 0.5% haircut
+   */
+  mulDiv(numerator: bigint, denominator: bigint, rounding: Rounding = "floor"): Amount {
+    if (denominator === 0n) {
+      throw new Error("Division by zero");
+    }
+    return new Amount(divide(this.raw * numerator, denominator, rounding), this.decimals);
+  }
+
+  /**
+   * Value of this many units at `unitPrice` per whole unit, in the price's
+   * decimals: tokens at an APT price give APT, APT at a USD price gives USD
+   */
+  valueAt(unitPrice: Amount, rounding: Rounding = "floor"): Amount {
+    return new Amount(divide(this.raw * unitPrice.raw, pow10(this.decimals), rounding), unitPrice.decimals);
+  }
+
+  /**
+   * Same value at another precision, e.g. token base units of another decimals
+   */
+  withDecimals(decimals: number, rounding: Rounding = "floor"): Amount {
+    checkDecimals(decimals);
+    const raw =
+      decimals >= this.decimals
+        ? this.raw * pow10(decimals - this.decimals)
+        : divide(this.raw, pow10(this.decimals - decimals), rounding);
+    return new Amount(raw, decimals);
+  }
+
+  neg(): Amount {
+    return new Amount(-this.raw, this.decimals);
+  }
+
+  abs(): Amount {
+    return this.raw < 0n ? this.neg() : this;
+  }
+
+  // --------------------------------------------------------------------------
+  // Comparison
+  // --------------------------------------------------------------------------
+
+  /** -1, 0 or 1 as this is below, equal to or above `other` */
+  cmp(other: Amount): number {
+    this.same(other);
+    return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0;
+  }
+
+  eq(other: Amount): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: Amount): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  gt(other: Amount): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  // --------------------------------------------------------------------------
+  // Output
+  // --------------------------------------------------------------------------
+
+  /**
+   * Exact decimal string without trailing zeros, e.g. "0.29"
+   */
+  toString(): string {
+    return this.format();
+  }
+
+  /**
+   * Nearest JS number, for charts and other lossy consumers
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  format(options: FormatOptions = {}): string {
+    const {
+      maxDecimals = this.decimals,
+      minDecimals = 0,
+      rounding = "round",
+      grouping = false,
+      tiny = false,
+      significantDigits = 4
+    } = options;
+    const sign = this.raw < 0n ? "-" : "";
+    const magnitude = this.raw < 0n ? -this.raw : this.raw;
+    const unit = pow10(this.decimals);
+
+    if (tiny && magnitude > 0n && magnitude < unit) {
+      const fraction = magnitude.toString().padStart(this.decimals, "0");
+      const zeros = fraction.length - fraction.replace(/^0+/, "").length;
+      if (zeros >= TINY_MIN_ZEROS) {
+        const significant = fraction.slice(zeros, zeros + significantDigits).replace(/0+$/, "");
+        return `${sign}0.0${subscript(zeros)}${significant}`;
+      }
+    }
+
+    const shown = Math.min(maxDecimals, this.decimals);
+    const scaled = divide(magnitude, pow10(this.decimals - shown), rounding);
+    const shownUnit = pow10(shown);
+    const integer = (scaled / shownUnit).toString();
+    const fraction = shown > 0 ? (scaled % shownUnit).toString().padStart(shown, "0").replace(/0+$/, "") : "";
+    const padded = fraction.padEnd(minDecimals, "0");
+    const body = `${grouping ? groupThousands(integer) : integer}${padded ? `.${padded}` : ""}`;
+    return scaled === 0n ? body : `${sign}${body}`;
+  }
+}
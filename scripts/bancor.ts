@@ -0,0 +1,365 @@
+/**
+ * Blaze Launchpad V2 - Bancor Curve Simulator
+ *
+ * Pure bigint port of the bonding curve math in `launchpad_v2.move`.
+ * Every division truncates and every `as u64` / u128 operation is range
+ * checked exactly like the Move VM, so a quote computed here matches what
+ * `buy` / `sell` will do on-chain for the same curve snapshot and supply.
+ *
+ * @example
+ * ```typescript
+ * import { simulateBuy } from './bancor';
+ *
+ * const quote = simulateBuy(
+ *   { reserveRatio: 50n, reserveBalance: 100_000_000n, isActive: true },
+ *   1_000_000_000n,          // current supply (base units)
+ *   10_000_000n,             // 0.1 APT in octas
+ *   { buyFeeBps: 100n, sellFeeBps: 100n }
+ * );
+ *
+ * console.log(`You receive ${quote.tokensOut} base units`);
+ * ```
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fixed point precision used by the contract (1e8) */
+export const PRECISION = 100_000_000n;
+
+/** Basis points divisor (10000 = 100%) */
+export const BPS_DIVISOR = 10_000n;
+
+/** Largest value representable as a Move u64 */
+export const MAX_U64 = (1n << 64n) - 1n;
+
+/** Largest value representable as a Move u128 */
+export const MAX_U128 = (1n << 128n) - 1n;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Snapshot of a pool's `BancorCurve` resource */
+export interface BancorCurve {
+  /** Connector weight as a percentage, 1-100 */
+  reserveRatio: bigint;
+
+  /** APT held in the pool reserve (octas) */
+  reserveBalance: bigint;
+
+  /** Whether the curve still accepts trades */
+  isActive: boolean;
+}
+
+/** Snapshot of the global `FeeConfig` resource */
+export interface FeeConfig {
+  /** Buy fee in basis points (100 = 1%) */
+  buyFeeBps: bigint;
+
+  /** Sell fee in basis points (100 = 1%) */
+  sellFeeBps: bigint;
+}
+
+export interface BuySimulation {
+  /** Tokens minted to the buyer (base units) */
+  tokensOut: bigint;
+
+  /** Fee sent to the treasury (octas) */
+  fee: bigint;
+
+  /** APT added to the reserve after the fee (octas) */
+  aptToReserve: bigint;
+
+  /** Price per token after the trade, scaled by PRECISION */
+  newPrice: bigint;
+
+  /** Token supply after the trade (base units) */
+  newSupply: bigint;
+
+  /** Reserve balance after the trade (octas) */
+  newReserveBalance: bigint;
+}
+
+export interface SellSimulation {
+  /** APT paid out to the seller after the fee (octas) */
+  aptOut: bigint;
+
+  /** Fee sent to the treasury (octas) */
+  fee: bigint;
+
+  /** APT removed from the reserve before the fee (octas) */
+  aptFromReserve: bigint;
+
+  /** Price per token after the trade, scaled by PRECISION */
+  newPrice: bigint;
+
+  /** Token supply after the trade (base units) */
+  newSupply: bigint;
+
+  /** Reserve balance after the trade (octas) */
+  newReserveBalance: bigint;
+}
+
+/**
+ * Raised where the Move implementation would abort: u64/u128 overflow,
+ * subtraction underflow, division by zero or a zero trade amount.
+ */
+export class BancorArithmeticError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BancorArithmeticError";
+  }
+}
+
+// ============================================================================
+// CHECKED ARITHMETIC
+// ============================================================================
+
+function checkU128(value: bigint): bigint {
+  if (value < 0n || value > MAX_U128) {
+    throw new BancorArithmeticError(`u128 overflow: ${value}`);
+  }
+  return value;
+}
+
+/** Mirror of Move's `(x as u64)` cast, which aborts when x does not fit */
+function asU64(value: bigint): bigint {
+  if (value < 0n || value > MAX_U64) {
+    throw new BancorArithmeticError(`u64 cast overflow: ${value}`);
+  }
+  return value;
+}
+
+function sub(a: bigint, b: bigint): bigint {
+  if (b > a) {
+    throw new BancorArithmeticError(`arithmetic underflow: ${a} - ${b}`);
+  }
+  return a - b;
+}
+
+function mul(a: bigint, b: bigint): bigint {
+  return checkU128(a * b);
+}
+
+function div(a: bigint, b: bigint): bigint {
+  if (b === 0n) {
+    throw new BancorArithmeticError("division by zero");
+  }
+  // Operands are never negative, so bigint truncation matches Move
+  return a / b;
+}
+
+// ============================================================================
+// CURVE MATH
+// ============================================================================
+
+/**
+ * Calculate fee amount
+ *
+ * Mirrors `calculate_fee`: amount * fee_bps / 10000, truncated.
+ */
+export function calculateFee(amount: bigint, feeBps: bigint): bigint {
+  return asU64(div(mul(amount, feeBps), BPS_DIVISOR));
+}
+
+/**
+ * Linear approximation of base^(numerator/denominator)
+ *
+ * Mirrors `power_fraction`, including its early returns.
+ */
+export function powerFraction(base: bigint, numerator: bigint, denominator: bigint): bigint {
+  if (numerator === denominator) {
+    return base;
+  }
+
+  if (numerator === 0n) {
+    return PRECISION;
+  }
+
+  if (base >= PRECISION) {
+    const diff = base - PRECISION;
+    return checkU128(PRECISION + div(mul(diff, numerator), denominator));
+  } else {
+    const diff = PRECISION - base;
+    return sub(PRECISION, div(mul(diff, numerator), denominator));
+  }
+}
+
+/**
+ * Tokens received for an APT deposit (before fees)
+ *
+ * Mirrors `calculate_bancor_purchase_return`, including the bootstrap case
+ * where an empty pool mints deposit * reserve_ratio / 100.
+ */
+export function calculatePurchaseReturn(
+  supply: bigint,
+  reserveBalance: bigint,
+  reserveRatio: bigint,
+  depositAmount: bigint
+): bigint {
+  if (depositAmount === 0n) {
+    return 0n;
+  }
+
+  if (supply === 0n || reserveBalance === 0n) {
+    return asU64(div(mul(depositAmount, reserveRatio), 100n));
+  }
+
+  const base = checkU128(PRECISION + div(mul(depositAmount, PRECISION), reserveBalance));
+  const powered = powerFraction(base, reserveRatio, 100n);
+
+  if (powered > PRECISION) {
+    const multiplier = powered - PRECISION;
+    return asU64(div(mul(supply, multiplier), PRECISION));
+  }
+  return 0n;
+}
+
+/**
+ * APT received for a token sale (before fees)
+ *
+ * Mirrors `calculate_bancor_sale_return`.
+ */
+export function calculateSaleReturn(
+  supply: bigint,
+  reserveBalance: bigint,
+  reserveRatio: bigint,
+  sellAmount: bigint
+): bigint {
+  if (sellAmount === 0n || supply === 0n) {
+    return 0n;
+  }
+
+  if (supply < sellAmount) {
+    throw new BancorArithmeticError(`sell amount ${sellAmount} exceeds supply ${supply}`);
+  }
+
+  const base = sub(PRECISION, div(mul(sellAmount, PRECISION), supply));
+  const powered = powerFraction(base, 100n, reserveRatio);
+
+  if (powered < PRECISION) {
+    const multiplier = PRECISION - powered;
+    return asU64(div(mul(reserveBalance, multiplier), PRECISION));
+  }
+  return 0n;
+}
+
+/**
+ * Current price per token in APT, scaled by PRECISION
+ *
+ * Mirrors `calculate_current_price`: R * PRECISION * 100 / (S * CRR).
+ */
+export function calculateCurrentPrice(supply: bigint, reserveBalance: bigint, reserveRatio: bigint): bigint {
+  if (supply === 0n) {
+    return 0n;
+  }
+  return asU64(div(mul(mul(reserveBalance, PRECISION), 100n), mul(supply, reserveRatio)));
+}
+
+/**
+ * Market cap in USD cents
+ *
+ * Mirrors `calculate_market_cap_internal`.
+ */
+export function calculateMarketCap(
+  supply: bigint,
+  reserveBalance: bigint,
+  reserveRatio: bigint,
+  aptUsdPrice: bigint
+): bigint {
+  if (supply === 0n) {
+    return 0n;
+  }
+  const pricePerToken = calculateCurrentPrice(supply, reserveBalance, reserveRatio);
+  return calculateMarketCapFromPrice(supply, pricePerToken, aptUsdPrice);
+}
+
+/**
+ * Market cap in USD cents from a supply and the price at that supply, e.g.
+ * the `new_supply` / `new_price` of the pool's latest trade
+ */
+export function calculateMarketCapFromPrice(supply: bigint, pricePerToken: bigint, aptUsdPrice: bigint): bigint {
+  return asU64(div(mul(mul(supply, pricePerToken), aptUsdPrice), PRECISION * PRECISION));
+}
+
+// ============================================================================
+// TRADE SIMULATION
+// ============================================================================
+
+/**
+ * Simulate `launchpad_v2::buy` against a curve snapshot
+ *
+ * @param curve - Pool curve snapshot
+ * @param supply - Current token supply (base units)
+ * @param aptAmount - APT spent including fee (octas)
+ * @param fees - Global fee configuration
+ * @returns Tokens out, fee, and the post-trade price, supply and reserve
+ */
+export function simulateBuy(curve: BancorCurve, supply: bigint, aptAmount: bigint, fees: FeeConfig): BuySimulation {
+  // `buy` aborts with EINVALID_AMOUNT instead of returning 0 tokens
+  if (aptAmount === 0n) {
+    throw new BancorArithmeticError("buy amount must be greater than 0");
+  }
+
+  const fee = calculateFee(aptAmount, fees.buyFeeBps);
+  const aptToReserve = sub(aptAmount, fee);
+
+  const tokensOut = calculatePurchaseReturn(supply, curve.reserveBalance, curve.reserveRatio, aptToReserve);
+
+  const newReserveBalance = asU64(curve.reserveBalance + aptToReserve);
+  const newSupply = checkU128(supply + tokensOut);
+  const newPrice = calculateCurrentPrice(newSupply, newReserveBalance, curve.reserveRatio);
+
+  return { tokensOut, fee, aptToReserve, newPrice, newSupply, newReserveBalance };
+}
+
+/**
+ * Simulate `launchpad_v2::sell` against a curve snapshot
+ *
+ * @param curve - Pool curve snapshot
+ * @param supply - Current token supply (base units)
+ * @param tokenAmount - Tokens sold (base units)
+ * @param fees - Global fee configuration
+ * @returns APT out, fee, and the post-trade price, supply and reserve
+ */
+export function simulateSell(
+  curve: BancorCurve,
+  supply: bigint,
+  tokenAmount: bigint,
+  fees: FeeConfig
+): SellSimulation {
+  // `sell` aborts with EINVALID_AMOUNT before the curve would return 0
+  if (tokenAmount === 0n) {
+    throw new BancorArithmeticError("sell amount must be greater than 0");
+  }
+
+  const aptFromReserve = calculateSaleReturn(supply, curve.reserveBalance, curve.reserveRatio, tokenAmount);
+  const fee = calculateFee(aptFromReserve, fees.sellFeeBps);
+  const aptOut = aptFromReserve - fee;
+
+  if (curve.reserveBalance < aptFromReserve) {
+    throw new BancorArithmeticError(`reserve ${curve.reserveBalance} cannot cover payout ${aptFromReserve}`);
+  }
+
+  const newReserveBalance = curve.reserveBalance - aptFromReserve;
+  const newSupply = sub(supply, tokenAmount);
+  const newPrice = calculateCurrentPrice(newSupply, newReserveBalance, curve.reserveRatio);
+
+  return { aptOut, fee, aptFromReserve, newPrice, newSupply, newReserveBalance };
+}
+
+/**
+ * Reduce an expected output by a slippage tolerance
+ *
+ * @param expected - Quoted output amount
+ * @param slippageBps - Tolerance in basis points (0-10000)
+ * @returns Minimum acceptable output, rounded down
+ */
+export function applySlippage(expected: bigint, slippageBps: number): bigint {
+  if (!Number.isInteger(slippageBps) || slippageBps < 0 || slippageBps > 10_000) {
+    throw new Error("Slippage must be an integer between 0 and 10000 bps");
+  }
+  return (expected * (BPS_DIVISOR - BigInt(slippageBps))) / BPS_DIVISOR;
+}
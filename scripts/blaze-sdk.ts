@@ -3,6 +3,11 @@
  * 
  * Simple SDK for frontend integration with Blaze Launchpad V2
  * 
+ * Function-style wrappers over `BlazeClient` bound to the deployments
+ * recorded in deployments.json, testnet by default. Use `BlazeClient`
+ * directly for other deployments, quests, admin/oracle calls or wallet
+ * signing.
+ * 
  * @example
  * ```typescript
  * import { createPool, buyTokens, sellTokens } from './blaze-sdk';
@@ -28,77 +33,63 @@
 import { 
   Aptos, 
   AptosConfig, 
-  Network, 
-  Account,
-  AccountAddress
+  Network
 } from "@aptos-labs/ts-sdk";
+import {
+  BancorCurve,
+  FeeConfig,
+  BuySimulation,
+  SellSimulation,
+  simulateBuy,
+  simulateSell,
+  applySlippage
+} from "./bancor";
+import {
+  BlazeClient,
+  CreatePoolParams,
+  CreatePoolResult,
+  SlippageOptions,
+  BuyResult,
+  SellResult,
+  getExplorerUrl,
+  aptToOctas,
+  octasToApt,
+  tokensToBaseUnits,
+  baseUnitsToTokens,
+  usdToCents
+} from "./client";
+import { AmountInput } from "./amount";
+import { TransactionSigner } from "./signer";
+import { findAddress, getDeployment, resolveAddress } from "./deployments";
+
+export * from "./amount";
+export * from "./bancor";
+export * from "./events";
+export * from "./trades";
+export * from "./errors";
+export * from "./resources";
+export * from "./client";
+export * from "./signer";
+export * from "./quest-scoring";
+export * from "./portfolio";
+export * from "./discovery";
+export * from "./migration";
+export * from "./pool-draft";
+export * from "./preflight";
+export * from "./pool-reader";
+export * from "./transport";
+export * from "./deployments";
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-/** Blaze Launchpad V2 contract address on testnet */
-export const CONTRACT_ADDRESS = "0xf2ca7e5f4e8fb07ea86f701ca1fd1da98d5c41d2f87979be0723a13da3bca125";
+/** Blaze Launchpad V2 contract address on testnet, from deployments.json */
+export const CONTRACT_ADDRESS = getDeployment(Network.TESTNET, "launchpad_v2").address;
 
 /** Default network configuration */
 export const NETWORK = Network.TESTNET;
 
-// ============================================================================
-// TYPES
-// ============================================================================
-
-export interface CreatePoolParams {
-  /** Token name (e.g., "My Token") */
-  name: string;
-  
-  /** Token ticker symbol, 1-10 characters (e.g., "MTK") */
-  ticker: string;
-  
-  /** Token image URI */
-  imageUri: string;
-  
-  /** Token description (optional) */
-  description?: string;
-  
-  /** Website URL (optional) */
-  website?: string;
-  
-  /** Twitter handle (optional) */
-  twitter?: string;
-  
-  /** Telegram link (optional) */
-  telegram?: string;
-  
-  /** Discord link (optional) */
-  discord?: string;
-  
-  /** Maximum token supply (optional, undefined = unlimited) */
-  maxSupply?: bigint;
-  
-  /** Number of decimals (default: 8) */
-  decimals?: number;
-  
-  /** Reserve ratio percentage 1-100 (default: 50) */
-  reserveRatio?: number;
-  
-  /** Initial APT reserve amount in APT (e.g., 1 for 1 APT) */
-  initialReserveApt: number;
-  
-  /** Market cap threshold in USD (optional) */
-  thresholdUsd?: number;
-}
-
-export interface TransactionResult {
-  /** Transaction hash */
-  hash: string;
-  
-  /** Explorer URL */
-  explorerUrl: string;
-  
-  /** Success status */
-  success: boolean;
-}
-
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -112,40 +103,14 @@ export function getAptosClient(network: Network = NETWORK): Aptos {
 }
 
 /**
- * Get explorer URL for a transaction
- */
-export function getExplorerUrl(txHash: string, network: Network = NETWORK): string {
-  const networkName = network === Network.TESTNET ? "testnet" : 
-                      network === Network.MAINNET ? "mainnet" : "devnet";
-  return `https://explorer.aptoslabs.com/txn/${txHash}?network=${networkName}`;
-}
-
-/**
- * Convert APT to octas (1 APT = 100,000,000 octas)
- */
-export function aptToOctas(apt: number): number {
-  return Math.floor(apt * 100_000_000);
-}
-
-/**
- * Convert octas to APT
+ * Get a BlazeClient for the deployments recorded for `network`
  */
-export function octasToApt(octas: number): number {
-  return octas / 100_000_000;
-}
-
-/**
- * Convert tokens to base units (with decimals)
- */
-export function tokensToBaseUnits(tokens: number, decimals: number = 8): number {
-  return Math.floor(tokens * Math.pow(10, decimals));
-}
-
-/**
- * Convert base units to tokens
- */
-export function baseUnitsToTokens(baseUnits: number, decimals: number = 8): number {
-  return baseUnits / Math.pow(10, decimals);
+export function getBlazeClient(network: Network = NETWORK): BlazeClient {
+  return new BlazeClient({
+    network,
+    contractAddress: resolveAddress(network, "launchpad_v2"),
+    questAddress: findAddress(network, "quest_staking")
+  });
 }
 
 // ============================================================================
@@ -155,10 +120,10 @@ export function baseUnitsToTokens(baseUnits: number, decimals: number = 8): numb
 /**
  * Create a new token pool
  * 
- * @param account - Signer account
+ * @param account - Signer (AccountSigner, wallet, or a bare Account)
  * @param params - Pool creation parameters
  * @param network - Network to use (default: TESTNET)
- * @returns Transaction result
+ * @returns Transaction result with the new pool's object address
  * 
  * @example
  * ```typescript
@@ -173,220 +138,93 @@ export function baseUnitsToTokens(baseUnits: number, decimals: number = 8): numb
  *   thresholdUsd: 75000
  * });
  * 
- * console.log(`Pool created! Tx: ${result.hash}`);
+ * console.log(`Pool ${result.poolId} created! Tx: ${result.hash}`);
  * ```
  */
 export async function createPool(
-  account: Account,
+  account: TransactionSigner,
   params: CreatePoolParams,
   network: Network = NETWORK
-): Promise<TransactionResult> {
-  const aptos = getAptosClient(network);
-  
-  // Validate parameters
-  if (!params.name || params.name.trim().length === 0) {
-    throw new Error("Token name is required");
-  }
-  if (!params.ticker || params.ticker.length < 1 || params.ticker.length > 10) {
-    throw new Error("Token ticker must be 1-10 characters");
-  }
-  if (!params.imageUri) {
-    throw new Error("Image URI is required");
-  }
-  if (params.reserveRatio && (params.reserveRatio < 1 || params.reserveRatio > 100)) {
-    throw new Error("Reserve ratio must be between 1 and 100");
-  }
-  
-  // Set defaults
-  const decimals = params.decimals ?? 8;
-  const reserveRatio = params.reserveRatio ?? 50;
-  const initialReserveOctas = aptToOctas(params.initialReserveApt);
-  
-  // Build function arguments
-  const functionArguments = [
-    params.name,
-    params.ticker,
-    params.imageUri,
-    params.description || undefined,
-    params.website || undefined,
-    params.twitter || undefined,
-    params.telegram || undefined,
-    params.discord || undefined,
-    params.maxSupply || undefined,
-    decimals,
-    reserveRatio,
-    initialReserveOctas,
-    params.thresholdUsd ? params.thresholdUsd * 100 : undefined // Convert to cents
-  ];
-  
-  // Build and submit transaction
-  const transaction = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::create_pool`,
-      functionArguments,
-    },
-  });
-  
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: account,
-    transaction,
-  });
-  
-  // Wait for confirmation
-  await aptos.waitForTransaction({ 
-    transactionHash: committedTxn.hash 
-  });
-  
-  return {
-    hash: committedTxn.hash,
-    explorerUrl: getExplorerUrl(committedTxn.hash, network),
-    success: true
-  };
+): Promise<CreatePoolResult> {
+  return getBlazeClient(network).createPool(account, params);
 }
 
 /**
  * Buy tokens from a pool using APT
  * 
- * @param account - Signer account
+ * @param account - Signer (AccountSigner, wallet, or a bare Account)
  * @param poolId - Pool object address
  * @param aptAmount - Amount of APT to spend
- * @param minTokensOut - Minimum tokens to receive (slippage protection, default: 0)
+ * @param minTokensOut - Minimum tokens to receive (in token units, not base units), or
+ *                       `{ slippageBps }` to derive it from a fresh quote (default: 0)
+ * @param decimals - Token decimals (default: 8)
  * @param deadlineMinutes - Transaction deadline in minutes from now (default: 5)
  * @param network - Network to use (default: TESTNET)
- * @returns Transaction result
+ * @returns Transaction result with the minimum sent, the BuyEvent and, with slippageBps, the quote
  * 
  * @example
  * ```typescript
  * const result = await buyTokens(
  *   account,
  *   "0x1234...",
- *   0.1,  // Buy with 0.1 APT
- *   0,    // No slippage protection
- *   5     // 5 minute deadline
+ *   0.1,                    // Buy with 0.1 APT
+ *   { slippageBps: 100 },   // Accept up to 1% less than quoted
+ *   8,                      // 8 decimals
+ *   5                       // 5 minute deadline
  * );
  * 
- * console.log(`Tokens purchased! Tx: ${result.hash}`);
+ * console.log(`Expected ${result.quote?.tokensOut}, got ${result.buyEvent?.tokensReceived}`);
  * ```
  */
 export async function buyTokens(
-  account: Account,
+  account: TransactionSigner,
   poolId: string,
-  aptAmount: number,
-  minTokensOut: number = 0,
+  aptAmount: AmountInput,
+  minTokensOut: AmountInput | SlippageOptions = 0,
+  decimals: number = 8,
   deadlineMinutes: number = 5,
   network: Network = NETWORK
-): Promise<TransactionResult> {
-  const aptos = getAptosClient(network);
-  
-  if (aptAmount <= 0) {
-    throw new Error("APT amount must be greater than 0");
-  }
-  
-  const aptAmountOctas = aptToOctas(aptAmount);
-  const deadline = Math.floor(Date.now() / 1000) + (deadlineMinutes * 60);
-  
-  const transaction = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::buy`,
-      functionArguments: [
-        poolId,
-        aptAmountOctas,
-        minTokensOut,
-        deadline
-      ],
-    },
-  });
-  
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: account,
-    transaction,
-  });
-  
-  await aptos.waitForTransaction({ 
-    transactionHash: committedTxn.hash 
-  });
-  
-  return {
-    hash: committedTxn.hash,
-    explorerUrl: getExplorerUrl(committedTxn.hash, network),
-    success: true
-  };
+): Promise<BuyResult> {
+  return getBlazeClient(network).buy(account, poolId, aptAmount, minTokensOut, decimals, deadlineMinutes);
 }
 
 /**
  * Sell tokens to a pool for APT
  * 
- * @param account - Signer account
+ * @param account - Signer (AccountSigner, wallet, or a bare Account)
  * @param poolId - Pool object address
  * @param tokenAmount - Amount of tokens to sell (in token units, not base units)
- * @param minAptOut - Minimum APT to receive (slippage protection, default: 0)
+ * @param minAptOut - Minimum APT to receive, or `{ slippageBps }` to derive it
+ *                    from a fresh quote (default: 0)
  * @param decimals - Token decimals (default: 8)
  * @param deadlineMinutes - Transaction deadline in minutes from now (default: 5)
  * @param network - Network to use (default: TESTNET)
- * @returns Transaction result
+ * @returns Transaction result with the minimum sent, the SellEvent and, with slippageBps, the quote
  * 
  * @example
  * ```typescript
  * const result = await sellTokens(
  *   account,
  *   "0x1234...",
- *   100,  // Sell 100 tokens
- *   0,    // No slippage protection
- *   8,    // 8 decimals
- *   5     // 5 minute deadline
+ *   100,                    // Sell 100 tokens
+ *   { slippageBps: 50 },    // Accept up to 0.5% less than quoted
+ *   8,                      // 8 decimals
+ *   5                       // 5 minute deadline
  * );
  * 
- * console.log(`Tokens sold! Tx: ${result.hash}`);
+ * console.log(`Expected ${result.quote?.aptOut} octas, got ${result.sellEvent?.aptReceived}`);
  * ```
  */
 export async function sellTokens(
-  account: Account,
+  account: TransactionSigner,
   poolId: string,
-  tokenAmount: number,
-  minAptOut: number = 0,
+  tokenAmount: AmountInput,
+  minAptOut: AmountInput | SlippageOptions = 0,
   decimals: number = 8,
   deadlineMinutes: number = 5,
   network: Network = NETWORK
-): Promise<TransactionResult> {
-  const aptos = getAptosClient(network);
-  
-  if (tokenAmount <= 0) {
-    throw new Error("Token amount must be greater than 0");
-  }
-  
-  const tokenAmountBase = tokensToBaseUnits(tokenAmount, decimals);
-  const minAptOutOctas = aptToOctas(minAptOut);
-  const deadline = Math.floor(Date.now() / 1000) + (deadlineMinutes * 60);
-  
-  const transaction = await aptos.transaction.build.simple({
-    sender: account.accountAddress,
-    data: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::sell`,
-      functionArguments: [
-        poolId,
-        tokenAmountBase,
-        minAptOutOctas,
-        deadline
-      ],
-    },
-  });
-  
-  const committedTxn = await aptos.signAndSubmitTransaction({
-    signer: account,
-    transaction,
-  });
-  
-  await aptos.waitForTransaction({ 
-    transactionHash: committedTxn.hash 
-  });
-  
-  return {
-    hash: committedTxn.hash,
-    explorerUrl: getExplorerUrl(committedTxn.hash, network),
-    success: true
-  };
+): Promise<SellResult> {
+  return getBlazeClient(network).sell(account, poolId, tokenAmount, minAptOut, decimals, deadlineMinutes);
 }
 
 // ============================================================================
@@ -406,18 +244,7 @@ export async function sellTokens(
  * ```
  */
 export async function getPools(network: Network = NETWORK): Promise<string[]> {
-  const aptos = getAptosClient(network);
-  
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_pools`,
-      functionArguments: [],
-    }
-  });
-  
-  // Result is an array of {inner: "0x..."} objects
-  const pools = result[0] as Array<{inner: string}>;
-  return pools.map(p => p.inner);
+  return getBlazeClient(network).getPools();
 }
 
 /**
@@ -436,17 +263,93 @@ export async function getPools(network: Network = NETWORK): Promise<string[]> {
 export async function getPoolBalance(
   poolId: string,
   network: Network = NETWORK
-): Promise<number> {
-  const aptos = getAptosClient(network);
-  
-  const result = await aptos.view({
-    payload: {
-      function: `${CONTRACT_ADDRESS}::launchpad_v2::get_pool_balance`,
-      functionArguments: [poolId],
-    }
-  });
-  
-  return parseInt(result[0] as string);
+): Promise<bigint> {
+  return getBlazeClient(network).getPoolBalance(poolId);
+}
+
+/**
+ * Get the Bancor curve snapshot for a pool
+ * 
+ * @param poolId - Pool object address
+ * @param network - Network to use (default: TESTNET)
+ * @returns Curve parameters with bigint amounts
+ */
+export async function getCurveData(
+  poolId: string,
+  network: Network = NETWORK
+): Promise<BancorCurve> {
+  return getBlazeClient(network).getCurveData(poolId);
+}
+
+/**
+ * Get current token supply of a pool
+ * 
+ * @param poolId - Pool object address
+ * @param network - Network to use (default: TESTNET)
+ * @returns Supply in base units
+ */
+export async function getCurrentSupply(
+  poolId: string,
+  network: Network = NETWORK
+): Promise<bigint> {
+  return getBlazeClient(network).getCurrentSupply(poolId);
+}
+
+/**
+ * Get global trading fees
+ * 
+ * @param network - Network to use (default: TESTNET)
+ * @returns Buy and sell fees in basis points
+ */
+export async function getFees(network: Network = NETWORK): Promise<FeeConfig> {
+  return getBlazeClient(network).getFees();
+}
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+/**
+ * Quote a buy locally from a fresh curve snapshot
+ * 
+ * Fetches the curve, supply and fees once and runs the Bancor simulator,
+ * instead of calling `calculate_curved_mint_return` (which ignores fees).
+ * 
+ * @param poolId - Pool object address
+ * @param aptAmount - Amount of APT to spend
+ * @param network - Network to use (default: TESTNET)
+ * @returns Simulated trade outcome
+ * 
+ * @example
+ * ```typescript
+ * const quote = await quoteBuy("0x1234...", 0.1);
+ * console.log(`Expect ${quote.tokensOut} base units, fee ${quote.fee} octas`);
+ * ```
+ */
+export async function quoteBuy(
+  poolId: string,
+  aptAmount: AmountInput,
+  network: Network = NETWORK
+): Promise<BuySimulation> {
+  return getBlazeClient(network).quoteBuy(poolId, aptAmount);
+}
+
+/**
+ * Quote a sell locally from a fresh curve snapshot
+ * 
+ * @param poolId - Pool object address
+ * @param tokenAmount - Amount of tokens to sell (in token units, not base units)
+ * @param decimals - Token decimals (default: 8)
+ * @param network - Network to use (default: TESTNET)
+ * @returns Simulated trade outcome
+ */
+export async function quoteSell(
+  poolId: string,
+  tokenAmount: AmountInput,
+  decimals: number = 8,
+  network: Network = NETWORK
+): Promise<SellSimulation> {
+  return getBlazeClient(network).quoteSell(poolId, tokenAmount, decimals);
 }
 
 // ============================================================================
@@ -466,12 +369,24 @@ export default {
   // View functions
   getPools,
   getPoolBalance,
+  getCurveData,
+  getCurrentSupply,
+  getFees,
+  
+  // Quotes
+  quoteBuy,
+  quoteSell,
+  simulateBuy,
+  simulateSell,
   
   // Helper functions
   getAptosClient,
+  getBlazeClient,
   getExplorerUrl,
   aptToOctas,
   octasToApt,
   tokensToBaseUnits,
   baseUnitsToTokens,
+  usdToCents,
+  applySlippage,
 };
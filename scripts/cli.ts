@@ -0,0 +1,800 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Blaze CLI
+ *
+ * Usage:
+ *   npm run blaze -- <command> [arguments] [options]
+ *   npm run blaze -- help
+ *
+ * Global options:
+ *   --profile <name>    Aptos CLI profile to sign with (PRIVATE_KEY wins if set)
+ *   --network <name>    testnet | mainnet | devnet | local (default: testnet)
+ *   --contract <addr>   launchpad_v2 address (default: $CONTRACT_ADDRESS or deployments.json)
+ *   --quest <addr>      quest_staking address (default: $QUEST_ADDRESS or deployments.json)
+ *   --json              Print machine-readable JSON instead of text
+ *   --force             Submit even if the preflight simulation fails
+ *
+ * Environment: PRIVATE_KEY, CONTRACT_ADDRESS, QUEST_ADDRESS, and FULLNODE_URLS /
+ * INDEXER_URLS (comma separated endpoints to fail over between).
+ *
+ * Exit codes: 0 success, 1 error, 2 usage error, 3 contract abort.
+ */
+
+import { parseArgs } from 'util';
+import { Network } from "@aptos-labs/ts-sdk";
+import {
+  AddressOverride,
+  Amount,
+  BlazeClient,
+  BlazeError,
+  HistoricalPriceSource,
+  Leaderboard,
+  PreflightError,
+  ResilientTransport,
+  Quest,
+  Signer,
+  TokenSelection,
+  TransactionResult,
+  defaultEndpoints,
+  findAddress,
+  getErrorMessage,
+  octasToApt,
+  parseEndpointList,
+  parseUsdc as parseUsdcAmount,
+  resolveAddress,
+  scoreQuest,
+  validatePortfolio
+} from './blaze-sdk';
+import { AptosEventSource, JsonlTradeStore, PoolIndexer } from './indexer';
+import { resolveSigner } from './profiles';
+
+// ============================================================================
+// EXIT CODES
+// ============================================================================
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_ABORTED = 3;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type OptionSpec = { type: 'string' | 'boolean'; short?: string };
+
+type Flags = Record<string, string | boolean | undefined>;
+
+interface Context {
+  client: BlazeClient;
+
+  /** Signer for write commands, resolved on first use */
+  signer(): Signer;
+}
+
+interface Output {
+  /** Printed with --json */
+  json: unknown;
+
+  /** Printed otherwise */
+  lines: string[];
+}
+
+interface Command {
+  /** Words that select the command, e.g. ["pool", "create"] */
+  path: string[];
+
+  /** Positional arguments, e.g. "<poolId> <aptAmount>" */
+  args?: string;
+  summary: string;
+  options?: Record<string, OptionSpec & { description: string }>;
+  run(ctx: Context, args: string[], flags: Flags): Promise<Output>;
+}
+
+class UsageError extends Error {}
+
+const GLOBAL_OPTIONS: Record<string, OptionSpec> = {
+  profile: { type: 'string' },
+  network: { type: 'string' },
+  contract: { type: 'string' },
+  quest: { type: 'string' },
+  json: { type: 'boolean' },
+  force: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+};
+
+// ============================================================================
+// ARGUMENT HELPERS
+// ============================================================================
+
+function requireString(flags: Flags, name: string): string {
+  const value = flags[name];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+function optionalString(flags: Flags, name: string): string | undefined {
+  const value = flags[name];
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
+/**
+ * Address given by `--<flag>`, else by the environment variable, to use
+ * over the one in deployments.json
+ */
+function addressOverride(flags: Flags, flag: string, variable: string): AddressOverride {
+  const value = optionalString(flags, flag);
+  return value ? { value, name: `--${flag}` } : { value: process.env[variable], name: variable };
+}
+
+function parseNumber(value: string, label: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new UsageError(`${label} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseInteger(value: string, label: string): number {
+  const parsed = parseNumber(value, label);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new UsageError(`${label} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+function optionalNumber(flags: Flags, name: string): number | undefined {
+  const value = optionalString(flags, name);
+  return value === undefined ? undefined : parseNumber(value, `--${name}`);
+}
+
+/**
+ * Check a non-negative decimal amount and keep it as typed, so the client
+ * converts it to base units without going through floating point
+ */
+function parseAmount(value: string, label: string): string {
+  const amount = Amount.tryParse(value, 0, 'floor');
+  if (!amount || amount.isNegative()) {
+    throw new UsageError(`${label} must be a non-negative amount, got "${value}"`);
+  }
+  return value.trim();
+}
+
+function optionalAmount(flags: Flags, name: string): string | undefined {
+  const value = optionalString(flags, name);
+  return value === undefined ? undefined : parseAmount(value, `--${name}`);
+}
+
+function optionalInteger(flags: Flags, name: string): number | undefined {
+  const value = optionalString(flags, name);
+  return value === undefined ? undefined : parseInteger(value, `--${name}`);
+}
+
+/**
+ * Parse a decimal USDC amount into base units (6 decimals) without going
+ * through floating point
+ */
+function parseUsdc(value: string): bigint {
+  const amount = parseUsdcAmount(value);
+  if (amount === undefined) {
+    throw new UsageError(`USDC amount must have at most 6 decimals, got "${value}"`);
+  }
+  return amount;
+}
+
+function parseNetwork(value: string | undefined): Network {
+  if (value === undefined) return Network.TESTNET;
+  const network = Object.values(Network).find((candidate) => candidate === value);
+  if (!network) {
+    throw new UsageError(`--network must be one of testnet, mainnet, devnet, local; got "${value}"`);
+  }
+  return network;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatApt(octas: bigint): string {
+  return `${octasToApt(octas)} APT`;
+}
+
+function formatUsdCents(cents: bigint): string {
+  return `$${Amount.usdCents(cents).format({ minDecimals: 2 })}`;
+}
+
+function formatTime(seconds: number): string {
+  return new Date(seconds * 1000).toISOString();
+}
+
+function transactionLines(result: TransactionResult): string[] {
+  return [
+    `📝 Transaction: ${result.hash}`,
+    `🔗 Explorer: ${result.explorerUrl}`,
+    ...(result.preflight ? [`⛽ Estimated gas: ${formatApt(result.preflight.gasFee)}`] : [])
+  ];
+}
+
+function transactionJson(result: TransactionResult) {
+  return {
+    hash: result.hash,
+    explorerUrl: result.explorerUrl,
+    success: result.success,
+    estimatedGasOctas: result.preflight?.gasFee
+  };
+}
+
+function questLines(quest: Quest): string[] {
+  return [
+    `Quest #${quest.questId}: ${quest.name}`,
+    `  Status: ${quest.status}`,
+    `  Entry fee: ${formatApt(quest.entryFee)}`,
+    `  Prize pool: ${formatApt(quest.totalPool)}`,
+    `  Participants: ${quest.participants.length}`,
+    `  Buy-in closes: ${formatTime(quest.buyInTime)}`,
+    `  Results at: ${formatTime(quest.resultTime)}`,
+    `  Winner: ${quest.winner ?? '(none)'}`
+  ];
+}
+
+function leaderboardLines(leaderboard: Leaderboard): string[] {
+  const lines = [
+    `Quest #${leaderboard.questId}: ${formatTime(leaderboard.startTime)} → ${formatTime(leaderboard.endTime)}`
+  ];
+  for (const entry of leaderboard.entries) {
+    const percent = (Number(entry.returnBps) / 100).toFixed(2);
+    lines.push(`  ${String(entry.rank).padStart(3)}. ${entry.user}  ${percent}%  (${entry.endValueUsdc} / ${entry.startValueUsdc} USDC base units)`);
+  }
+  if (leaderboard.entries.length === 0) lines.push('  No scored portfolios');
+  if (leaderboard.unscored.length > 0) lines.push(`  No portfolio: ${leaderboard.unscored.join(', ')}`);
+  if (leaderboard.unpricedTokens.length > 0) {
+    lines.push(`  ⚠️  No price history (held flat): ${leaderboard.unpricedTokens.join(', ')}`);
+  }
+  lines.push(`🏆 Winner: ${leaderboard.winner ?? '(none)'}`);
+  return lines;
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v), 2);
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+const TRADE_OPTIONS = {
+  'slippage-bps': { type: 'string', description: 'Max shortfall from a fresh quote in bps (default: 100)' },
+  deadline: { type: 'string', description: 'Deadline in minutes from now (default: 5)' },
+  decimals: { type: 'string', description: 'Token decimals (default: 8)' }
+} as const;
+
+const COMMANDS: Command[] = [
+  {
+    path: ['pool', 'list'],
+    summary: 'List all pools',
+    async run(ctx) {
+      const [pools, tokens] = await Promise.all([ctx.client.getPools(), ctx.client.getTokens()]);
+      const rows = pools.map((poolId, index) => ({
+        poolId,
+        name: tokens[index]?.name,
+        ticker: tokens[index]?.ticker,
+        creator: tokens[index]?.creator
+      }));
+      return {
+        json: rows,
+        lines: rows.length === 0
+          ? ['No pools yet']
+          : rows.map((row) => `${row.poolId}  ${(row.ticker ?? '').padEnd(10)} ${row.name ?? ''}`)
+      };
+    }
+  },
+  {
+    path: ['pool', 'show'],
+    args: '<poolId>',
+    summary: 'Show a pool\'s metadata, curve, settings and market data',
+    async run(ctx, [poolId]) {
+      const [pool, supply, price, marketCap, balance] = await Promise.all([
+        ctx.client.getPool(poolId),
+        ctx.client.getCurrentSupply(poolId),
+        ctx.client.getCurrentPrice(poolId),
+        ctx.client.getMarketCapUsd(poolId),
+        ctx.client.getPoolBalance(poolId)
+      ]);
+      const { metadata, curve, settings } = pool;
+      return {
+        json: { poolId, ...pool, supply, price, marketCapUsdCents: marketCap, balance },
+        lines: [
+          `${metadata.name} (${metadata.ticker})  ${poolId}`,
+          `  Creator: ${metadata.creator}`,
+          `  Created: ${formatTime(metadata.createdAt)}`,
+          `  Supply: ${supply} base units`,
+          `  Price: ${formatApt(price)}`,
+          `  Reserve: ${formatApt(balance)} (ratio ${curve.reserveRatio}%)`,
+          `  Market cap: ${formatUsdCents(marketCap)} / ${formatUsdCents(settings.marketCapThresholdUsd)}`,
+          `  Trading: ${settings.tradingEnabled ? 'enabled' : 'disabled'}`,
+          `  Migrated: ${settings.migrationCompleted ? `yes (${settings.hyperionPoolAddress ?? 'unknown pool'})` : 'no'}`
+        ]
+      };
+    }
+  },
+  {
+    path: ['pool', 'create'],
+    summary: 'Create a pool',
+    options: {
+      name: { type: 'string', description: 'Token name (required)' },
+      ticker: { type: 'string', description: 'Ticker, 1-10 characters (required)' },
+      image: { type: 'string', description: 'Token image URI (required)' },
+      description: { type: 'string', description: 'Token description' },
+      website: { type: 'string', description: 'Website URL' },
+      twitter: { type: 'string', description: 'Twitter handle' },
+      telegram: { type: 'string', description: 'Telegram link' },
+      discord: { type: 'string', description: 'Discord link' },
+      'max-supply': { type: 'string', description: 'Max supply in base units (default: unlimited)' },
+      decimals: { type: 'string', description: 'Token decimals (default: 8)' },
+      'reserve-ratio': { type: 'string', description: 'Reserve ratio 1-100 (default: 50)' },
+      'initial-reserve': { type: 'string', description: 'Initial APT reserve (default: 0.05)' },
+      'threshold-usd': { type: 'string', description: 'Migration market cap in USD' }
+    },
+    async run(ctx, _args, flags) {
+      const maxSupply = optionalString(flags, 'max-supply');
+      const result = await ctx.client.createPool(ctx.signer(), {
+        name: requireString(flags, 'name'),
+        ticker: requireString(flags, 'ticker'),
+        imageUri: requireString(flags, 'image'),
+        description: optionalString(flags, 'description'),
+        website: optionalString(flags, 'website'),
+        twitter: optionalString(flags, 'twitter'),
+        telegram: optionalString(flags, 'telegram'),
+        discord: optionalString(flags, 'discord'),
+        maxSupply: maxSupply === undefined ? undefined : BigInt(parseInteger(maxSupply, '--max-supply')),
+        decimals: optionalInteger(flags, 'decimals'),
+        reserveRatio: optionalInteger(flags, 'reserve-ratio'),
+        initialReserveApt: optionalAmount(flags, 'initial-reserve') ?? '0.05',
+        thresholdUsd: optionalAmount(flags, 'threshold-usd')
+      });
+      return {
+        json: { ...transactionJson(result), poolId: result.poolId },
+        lines: ['✅ Pool created', `🏊 Pool ID: ${result.poolId}`, ...transactionLines(result)]
+      };
+    }
+  },
+  {
+    path: ['buy'],
+    args: '<poolId> <aptAmount>',
+    summary: 'Buy tokens with APT',
+    options: {
+      ...TRADE_OPTIONS,
+      'min-out': { type: 'string', description: 'Explicit minimum tokens out instead of --slippage-bps' }
+    },
+    async run(ctx, [poolId, aptAmount], flags) {
+      const minOut = optionalAmount(flags, 'min-out');
+      const result = await ctx.client.buy(
+        ctx.signer(),
+        poolId,
+        parseAmount(aptAmount, 'aptAmount'),
+        minOut ?? { slippageBps: optionalInteger(flags, 'slippage-bps') ?? 100 },
+        optionalInteger(flags, 'decimals') ?? 8,
+        optionalNumber(flags, 'deadline') ?? 5
+      );
+      return {
+        json: { ...transactionJson(result), minTokensOut: result.minTokensOut, buyEvent: result.buyEvent },
+        lines: [
+          '✅ Tokens purchased',
+          `🪙 Received: ${result.buyEvent?.tokensReceived ?? '?'} base units (min ${result.minTokensOut})`,
+          ...transactionLines(result)
+        ]
+      };
+    }
+  },
+  {
+    path: ['sell'],
+    args: '<poolId> <tokenAmount>',
+    summary: 'Sell tokens for APT',
+    options: {
+      ...TRADE_OPTIONS,
+      'min-out': { type: 'string', description: 'Explicit minimum APT out instead of --slippage-bps' }
+    },
+    async run(ctx, [poolId, tokenAmount], flags) {
+      const minOut = optionalAmount(flags, 'min-out');
+      const result = await ctx.client.sell(
+        ctx.signer(),
+        poolId,
+        parseAmount(tokenAmount, 'tokenAmount'),
+        minOut ?? { slippageBps: optionalInteger(flags, 'slippage-bps') ?? 100 },
+        optionalInteger(flags, 'decimals') ?? 8,
+        optionalNumber(flags, 'deadline') ?? 5
+      );
+      return {
+        json: { ...transactionJson(result), minAptOut: result.minAptOut, sellEvent: result.sellEvent },
+        lines: [
+          '✅ Tokens sold',
+          `💵 Received: ${result.sellEvent ? formatApt(result.sellEvent.aptReceived) : '?'} (min ${formatApt(result.minAptOut)})`,
+          ...transactionLines(result)
+        ]
+      };
+    }
+  },
+  {
+    path: ['quote', 'buy'],
+    args: '<poolId> <aptAmount>',
+    summary: 'Quote a buy, fees included',
+    async run(ctx, [poolId, aptAmount]) {
+      const quote = await ctx.client.quoteBuy(poolId, parseAmount(aptAmount, 'aptAmount'));
+      return {
+        json: quote,
+        lines: [
+          `Tokens out: ${quote.tokensOut} base units`,
+          `Fee: ${formatApt(quote.fee)}`,
+          `Price after: ${formatApt(quote.newPrice)}`
+        ]
+      };
+    }
+  },
+  {
+    path: ['quote', 'sell'],
+    args: '<poolId> <tokenAmount>',
+    summary: 'Quote a sell, fees included',
+    options: {
+      decimals: { type: 'string', description: 'Token decimals (default: 8)' }
+    },
+    async run(ctx, [poolId, tokenAmount], flags) {
+      const quote = await ctx.client.quoteSell(
+        poolId,
+        parseAmount(tokenAmount, 'tokenAmount'),
+        optionalInteger(flags, 'decimals') ?? 8
+      );
+      return {
+        json: quote,
+        lines: [
+          `APT out: ${formatApt(quote.aptOut)}`,
+          `Fee: ${formatApt(quote.fee)}`,
+          `Price after: ${formatApt(quote.newPrice)}`
+        ]
+      };
+    }
+  },
+  {
+    path: ['admin', 'fees'],
+    summary: 'Show trading fees, or update them with --buy-bps and --sell-bps',
+    options: {
+      'buy-bps': { type: 'string', description: 'New buy fee in basis points' },
+      'sell-bps': { type: 'string', description: 'New sell fee in basis points' }
+    },
+    async run(ctx, _args, flags) {
+      const buyBps = optionalInteger(flags, 'buy-bps');
+      const sellBps = optionalInteger(flags, 'sell-bps');
+      if (buyBps === undefined && sellBps === undefined) {
+        const fees = await ctx.client.getFees();
+        return {
+          json: fees,
+          lines: [`Buy fee: ${fees.buyFeeBps} bps`, `Sell fee: ${fees.sellFeeBps} bps`]
+        };
+      }
+      if (buyBps === undefined || sellBps === undefined) {
+        throw new UsageError('--buy-bps and --sell-bps must be given together');
+      }
+      const result = await ctx.client.updateFees(ctx.signer(), buyBps, sellBps);
+      return {
+        json: { ...transactionJson(result), buyFeeBps: buyBps, sellFeeBps: sellBps },
+        lines: [`✅ Fees set to ${buyBps} / ${sellBps} bps`, ...transactionLines(result)]
+      };
+    }
+  },
+  {
+    path: ['oracle', 'show'],
+    summary: 'Show the APT/USD oracle price',
+    async run(ctx) {
+      const oracle = await ctx.client.getOracleData();
+      return {
+        json: oracle,
+        lines: [
+          `APT price: ${formatUsdCents(oracle.aptUsdPrice)}`,
+          `Updated: ${formatTime(oracle.lastUpdate)}`,
+          `Oracle: ${oracle.oracleAddress}`
+        ]
+      };
+    }
+  },
+  {
+    path: ['oracle', 'set'],
+    args: '<priceUsd>',
+    summary: 'Set the APT/USD price (admin only)',
+    options: {
+      'oracle-address': { type: 'string', description: 'Recorded price source (default: signer address)' }
+    },
+    async run(ctx, [priceUsd], flags) {
+      const signer = ctx.signer();
+      const price = parseAmount(priceUsd, 'priceUsd');
+      const result = await ctx.client.updateOraclePrice(
+        signer,
+        price,
+        optionalString(flags, 'oracle-address') ?? signer.accountAddress
+      );
+      return {
+        json: { ...transactionJson(result), aptUsdPrice: price },
+        lines: [`✅ APT price set to $${price}`, ...transactionLines(result)]
+      };
+    }
+  },
+  {
+    path: ['quest', 'list'],
+    summary: 'List all quests',
+    async run(ctx) {
+      const quests = await ctx.client.getAllQuests();
+      return {
+        json: quests,
+        lines: quests.length === 0
+          ? ['No quests yet']
+          : quests.map((quest) =>
+              `#${quest.questId}  ${quest.status.padEnd(9)} ${quest.name} (${quest.participants.length} participants, ${formatApt(quest.totalPool)})`
+            )
+      };
+    }
+  },
+  {
+    path: ['quest', 'show'],
+    args: '<questId>',
+    summary: 'Show a quest',
+    async run(ctx, [questId]) {
+      const quest = await ctx.client.getQuest(parseInteger(questId, 'questId'));
+      return { json: quest, lines: questLines(quest) };
+    }
+  },
+  {
+    path: ['quest', 'create'],
+    summary: 'Create a quest (admin only)',
+    options: {
+      name: { type: 'string', description: 'Quest name (required)' },
+      'entry-fee': { type: 'string', description: 'Entry fee in APT (required)' },
+      'buy-in': { type: 'string', description: 'Minutes from now until buy-in closes (required)' },
+      result: { type: 'string', description: 'Minutes from now until results (required)' }
+    },
+    async run(ctx, _args, flags) {
+      const result = await ctx.client.createQuest(ctx.signer(), {
+        name: requireString(flags, 'name'),
+        entryFeeApt: parseAmount(requireString(flags, 'entry-fee'), '--entry-fee'),
+        buyInSeconds: parseInteger(requireString(flags, 'buy-in'), '--buy-in') * 60,
+        resultSeconds: parseInteger(requireString(flags, 'result'), '--result') * 60
+      });
+      return { json: transactionJson(result), lines: ['✅ Quest created', ...transactionLines(result)] };
+    }
+  },
+  {
+    path: ['quest', 'join'],
+    args: '<questId>',
+    summary: 'Join a quest, paying its entry fee',
+    async run(ctx, [questId]) {
+      const result = await ctx.client.joinQuest(ctx.signer(), parseInteger(questId, 'questId'));
+      return { json: transactionJson(result), lines: ['✅ Joined quest', ...transactionLines(result)] };
+    }
+  },
+  {
+    path: ['quest', 'portfolio'],
+    args: '<questId> <token=usdc>...',
+    summary: 'Select a quest portfolio, e.g. 0xabc=60 0xdef=40',
+    async run(ctx, [questId, ...allocations]) {
+      if (allocations.length === 0) {
+        throw new UsageError('At least one <token=usdc> allocation is required');
+      }
+      const selections: TokenSelection[] = allocations.map((allocation) => {
+        const [tokenAddress, amount] = allocation.split('=');
+        if (!tokenAddress || amount === undefined) {
+          throw new UsageError(`Allocation must look like <token>=<usdc>, got "${allocation}"`);
+        }
+        return { tokenAddress, amountUsdc: parseUsdc(amount) };
+      });
+      const quest = await ctx.client.getQuest(parseInteger(questId, 'questId'));
+      const issues = validatePortfolio(selections, quest);
+      if (issues.length > 0) {
+        throw new UsageError(issues.map((issue) => issue.message).join('; '));
+      }
+      const result = await ctx.client.selectPortfolio(ctx.signer(), quest.questId, selections);
+      return {
+        json: { ...transactionJson(result), selections },
+        lines: [`✅ Portfolio of ${selections.length} tokens selected`, ...transactionLines(result)]
+      };
+    }
+  },
+  {
+    path: ['quest', 'leaderboard'],
+    args: '<questId>',
+    summary: 'Rank participants by portfolio return using indexed trade prices',
+    options: {
+      'index-dir': { type: 'string', description: 'Trade index directory (default: .blaze-index)' },
+      sync: { type: 'boolean', description: 'Sync the trade index before scoring' },
+      declare: { type: 'boolean', description: 'Submit the top entry with declare_winner (admin only)' }
+    },
+    async run(ctx, [questId], flags) {
+      const id = parseInteger(questId, 'questId');
+      const store = new JsonlTradeStore(optionalString(flags, 'index-dir') ?? '.blaze-index');
+      if (flags.sync) {
+        const indexer = new PoolIndexer({
+          contractAddress: ctx.client.contractAddress,
+          source: new AptosEventSource(ctx.client.aptos),
+          store
+        });
+        await indexer.sync();
+      }
+
+      const [quest, participations] = await Promise.all([
+        ctx.client.getQuest(id),
+        ctx.client.getParticipations(id)
+      ]);
+      const leaderboard = await scoreQuest(quest, participations, HistoricalPriceSource.fromTrades(store.readTrades()));
+      const lines = leaderboardLines(leaderboard);
+
+      if (!flags.declare) {
+        return { json: leaderboard, lines };
+      }
+      if (!leaderboard.winner) {
+        throw new Error('No participant has a portfolio; nothing to declare');
+      }
+      const result = await ctx.client.declareWinner(ctx.signer(), id, leaderboard.winner);
+      return {
+        json: { ...leaderboard, transaction: transactionJson(result) },
+        lines: [...lines, `✅ Winner declared`, ...transactionLines(result)]
+      };
+    }
+  },
+  {
+    path: ['quest', 'declare-winner'],
+    args: '<questId> <winner>',
+    summary: 'Declare a quest winner (admin only)',
+    async run(ctx, [questId, winner]) {
+      const result = await ctx.client.declareWinner(ctx.signer(), parseInteger(questId, 'questId'), winner);
+      return { json: transactionJson(result), lines: [`✅ Winner declared: ${winner}`, ...transactionLines(result)] };
+    }
+  }
+];
+
+// ============================================================================
+// HELP
+// ============================================================================
+
+function commandUsage(command: Command): string {
+  return [...command.path, command.args].filter(Boolean).join(' ');
+}
+
+function helpText(command?: Command): string {
+  if (command) {
+    const lines = [`Usage: blaze ${commandUsage(command)} [options]`, '', command.summary];
+    const options = Object.entries(command.options ?? {});
+    if (options.length > 0) {
+      lines.push('', 'Options:');
+      for (const [name, option] of options) {
+        const flag = option.type === 'string' ? `--${name} <value>` : `--${name}`;
+        lines.push(`  ${flag.padEnd(28)} ${option.description}`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  const width = Math.max(...COMMANDS.map((candidate) => commandUsage(candidate).length));
+  return [
+    'Usage: blaze <command> [arguments] [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map((candidate) => `  ${commandUsage(candidate).padEnd(width)}  ${candidate.summary}`),
+    '',
+    'Global options:',
+    '  --profile <name>    Aptos CLI profile to sign with (PRIVATE_KEY wins if set)',
+    '  --network <name>    testnet | mainnet | devnet | local (default: testnet)',
+    '  --contract <addr>   launchpad_v2 address (default: $CONTRACT_ADDRESS or deployments.json)',
+    '  --quest <addr>      quest_staking address (default: $QUEST_ADDRESS or deployments.json)',
+    '  --json              Print JSON instead of text',
+    '  --force             Submit even if the preflight simulation fails',
+    '',
+    'Run `blaze <command> --help` for command options.'
+  ].join('\n');
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+function findCommand(positionals: string[]): Command | undefined {
+  return COMMANDS.find((command) => command.path.every((word, index) => positionals[index] === word));
+}
+
+function requiredArgCount(command: Command): number {
+  return (command.args ?? '').split(' ').filter((arg) => arg.startsWith('<') && !arg.endsWith('...')).length;
+}
+
+/**
+ * Run the CLI and return its exit code
+ */
+async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+  // First pass only locates the command; every option is known so values
+  // are not mistaken for positionals.
+  const allOptions: Record<string, OptionSpec> = { ...GLOBAL_OPTIONS };
+  for (const command of COMMANDS) {
+    for (const [name, option] of Object.entries(command.options ?? {})) {
+      allOptions[name] = { type: option.type };
+    }
+  }
+  const probe = parseArgs({ args: argv, options: allOptions, allowPositionals: true, strict: false });
+  const command = findCommand(probe.positionals);
+  const json = probe.values.json === true;
+
+  if (!command) {
+    if (probe.positionals.length > 0 && probe.positionals[0] !== 'help') {
+      console.error(`❌ Unknown command: ${probe.positionals.join(' ')}\n`);
+      console.error(helpText());
+      return EXIT_USAGE;
+    }
+    console.log(helpText());
+    return EXIT_OK;
+  }
+
+  try {
+    const options: Record<string, OptionSpec> = { ...GLOBAL_OPTIONS };
+    for (const [name, option] of Object.entries(command.options ?? {})) {
+      options[name] = { type: option.type };
+    }
+    const { values, positionals } = parseArgs({ args: argv, options, allowPositionals: true, strict: true });
+    if (values.help) {
+      console.log(helpText(command));
+      return EXIT_OK;
+    }
+
+    const args = positionals.slice(command.path.length);
+    if (args.length < requiredArgCount(command)) {
+      throw new UsageError(`Usage: blaze ${commandUsage(command)}`);
+    }
+
+    const flags = values as Flags;
+    const network = parseNetwork(optionalString(flags, 'network'));
+    const endpoints = defaultEndpoints(network);
+    const transport = new ResilientTransport({
+      endpoints: {
+        fullnode: parseEndpointList(process.env.FULLNODE_URLS, endpoints.fullnode),
+        indexer: parseEndpointList(process.env.INDEXER_URLS, endpoints.indexer)
+      }
+    });
+    // Keep stdout clean for --json; retries only show up on stderr
+    transport.subscribe((event) => {
+      if (event.type === 'retry') {
+        console.error(`⏳ ${event.reason} from ${event.url}, retrying in ${Math.round(event.delayMs)}ms`);
+      } else if (event.type === 'failover') {
+        console.error(`🔀 Switching from ${event.from} to ${event.to}`);
+      }
+    });
+    const client = new BlazeClient({
+      network,
+      transport,
+      contractAddress: resolveAddress(network, 'launchpad_v2', addressOverride(flags, 'contract', 'CONTRACT_ADDRESS')),
+      questAddress: findAddress(network, 'quest_staking', addressOverride(flags, 'quest', 'QUEST_ADDRESS')),
+      preflight: flags.force === true ? 'report' : 'enforce'
+    });
+    let signer: Signer | undefined;
+    const ctx: Context = {
+      client,
+      signer: () => (signer ??= resolveSigner({ profile: optionalString(flags, 'profile') }))
+    };
+
+    const output = await command.run(ctx, args, flags);
+    console.log(json ? toJson(output.json) : output.lines.join('\n'));
+    return EXIT_OK;
+  } catch (error) {
+    const usage = error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS');
+    // A call refused by preflight exits like the abort it would have hit
+    const abort = error instanceof PreflightError ? error.preflight.error : error;
+    const exitCode = usage ? EXIT_USAGE : abort instanceof BlazeError ? EXIT_ABORTED : EXIT_ERROR;
+    const message = usage ? (error as Error).message : getErrorMessage(error);
+    if (json) {
+      console.error(toJson({
+        error: message,
+        exitCode,
+        ...(abort instanceof BlazeError ? { module: abort.module, code: abort.code, abortName: abort.abortName } : {})
+      }));
+    } else {
+      console.error(`❌ ${message}`);
+    }
+    return exitCode;
+  }
+}
+
+main().then((code) => process.exit(code));
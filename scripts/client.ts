@@ -0,0 +1,938 @@
+/**
+ * Blaze Launchpad V2 - Client
+ *
+ * One client for every launchpad_v2 and quest_staking call, configured once
+ * with the network and deployment addresses instead of per call. Write
+ * methods take any `Signer` from ./signer: a private key or CLI profile in
+ * Node, the wallet adapter in the browser.
+ *
+ * @example
+ * ```typescript
+ * import { BlazeClient } from './client';
+ *
+ * const blaze = new BlazeClient({
+ *   network: Network.TESTNET,
+ *   contractAddress: "0xf2ca...",
+ *   questAddress: "0x9a1b...",
+ * });
+ *
+ * const pools = await blaze.getPools();
+ * const result = await blaze.buy(account, pools[0], 0.1, { slippageBps: 100 });
+ * ```
+ */
+
+import {
+  Aptos,
+  AptosConfig,
+  InputEntryFunctionData,
+  InputGenerateTransactionPayloadData,
+  MoveValue,
+  Network
+} from "@aptos-labs/ts-sdk";
+import {
+  BuySimulation,
+  BancorCurve,
+  FeeConfig,
+  SellSimulation,
+  applySlippage,
+  simulateBuy,
+  simulateSell
+} from "./bancor";
+import { Amount, AmountInput, USD_CENTS_DECIMALS } from "./amount";
+import { BuyEvent, LaunchpadEvent, SellEvent, decodeLaunchpadEvents, findEvent } from "./events";
+import { BlazeModuleAddresses, abortError, toBlazeError } from "./errors";
+import { Preflight, PreflightError, PreflightMode, decodeSimulation } from "./preflight";
+import { TransactionSigner, toSigner } from "./signer";
+import { ResilientTransport } from "./transport";
+import {
+  MoveBancorCurve,
+  MoveParticipation,
+  MovePoolSettings,
+  MoveQuest,
+  MoveTokenMetadata,
+  OracleData,
+  Participation,
+  PoolInfo,
+  Quest,
+  TokenMetadata,
+  TokenSelection,
+  decodeAddresses,
+  decodeBancorCurve,
+  decodeParticipation,
+  decodePoolSettings,
+  decodeQuest,
+  decodeQuests,
+  decodeTokenMetadata
+} from "./resources";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BlazeClientConfig {
+  /** Network the deployment lives on */
+  network: Network;
+
+  /** Address the launchpad_v2 module is published at */
+  contractAddress: string;
+
+  /** Address the quest_staking module is published at (required for quest calls) */
+  questAddress?: string;
+
+  /** Existing Aptos instance to reuse (default: a new one for `network`) */
+  aptos?: Aptos;
+
+  /**
+   * Rate limited, retrying transport with endpoint failover for the new
+   * Aptos instance (ignored with `aptos`; default: the SDK's own client)
+   */
+  transport?: ResilientTransport;
+
+  /**
+   * Simulate write calls before signing them (default: "enforce", which
+   * throws PreflightError instead of submitting a call that would fail)
+   */
+  preflight?: PreflightMode;
+}
+
+export interface ViewOptions {
+  /** Ledger version to read at (default: latest), so several reads see the same state */
+  ledgerVersion?: bigint;
+}
+
+export interface CreatePoolParams {
+  /** Token name (e.g., "My Token") */
+  name: string;
+
+  /** Token ticker symbol, 1-10 characters (e.g., "MTK") */
+  ticker: string;
+
+  /** Token image URI */
+  imageUri: string;
+
+  /** Token description (optional) */
+  description?: string;
+
+  /** Website URL (optional) */
+  website?: string;
+
+  /** Twitter handle (optional) */
+  twitter?: string;
+
+  /** Telegram link (optional) */
+  telegram?: string;
+
+  /** Discord link (optional) */
+  discord?: string;
+
+  /** Maximum token supply (optional, undefined = unlimited) */
+  maxSupply?: bigint;
+
+  /** Number of decimals (default: 8) */
+  decimals?: number;
+
+  /** Reserve ratio percentage 1-100 (default: 50) */
+  reserveRatio?: number;
+
+  /** Initial APT reserve amount in APT (e.g., 1 or "0.05") */
+  initialReserveApt: AmountInput;
+
+  /** Market cap threshold in USD (optional) */
+  thresholdUsd?: AmountInput;
+}
+
+export interface PoolSettingsUpdate {
+  /** New migration threshold in USD (unchanged when omitted) */
+  marketCapThresholdUsd?: AmountInput;
+
+  /** Enable or pause trading (unchanged when omitted) */
+  tradingEnabled?: boolean;
+}
+
+export interface CreateQuestParams {
+  name: string;
+
+  /** Entry fee in APT */
+  entryFeeApt: AmountInput;
+
+  /** Seconds from now until the quest stops accepting participants */
+  buyInSeconds: number;
+
+  /** Seconds from now until results can be declared */
+  resultSeconds: number;
+}
+
+export interface TransactionResult {
+  /** Transaction hash */
+  hash: string;
+
+  /** Explorer URL */
+  explorerUrl: string;
+
+  /** Success status reported by the VM */
+  success: boolean;
+
+  /** launchpad_v2 events emitted by the transaction */
+  events: LaunchpadEvent[];
+
+  /** Simulation run before signing (unset when preflight is "off") */
+  preflight?: Preflight;
+}
+
+export interface CreatePoolResult extends TransactionResult {
+  /** Object address of the new pool, taken from CreatePoolEvent */
+  poolId: string;
+}
+
+export interface SlippageOptions {
+  /**
+   * Maximum accepted shortfall from a fresh quote, in basis points
+   * (50 = 0.5%). The minimum output is derived from this instead of
+   * being passed explicitly.
+   */
+  slippageBps: number;
+}
+
+export interface BuyResult extends TransactionResult {
+  /** Quote the minimum was derived from (only set when using slippageBps) */
+  quote?: BuySimulation;
+
+  /** Minimum tokens out sent on-chain (base units) */
+  minTokensOut: bigint;
+
+  /** Actual fill, taken from BuyEvent */
+  buyEvent?: BuyEvent;
+}
+
+export interface SellResult extends TransactionResult {
+  /** Quote the minimum was derived from (only set when using slippageBps) */
+  quote?: SellSimulation;
+
+  /** Minimum APT out sent on-chain (octas) */
+  minAptOut: bigint;
+
+  /** Actual fill, taken from SellEvent */
+  sellEvent?: SellEvent;
+}
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+/**
+ * Get explorer URL for a transaction
+ */
+export function getExplorerUrl(txHash: string, network: Network = Network.TESTNET): string {
+  const networkName = network === Network.TESTNET ? "testnet" :
+                      network === Network.MAINNET ? "mainnet" : "devnet";
+  return `https://explorer.aptoslabs.com/txn/${txHash}?network=${networkName}`;
+}
+
+/**
+ * Convert APT to octas (1 APT = 100,000,000 octas), dropping digits past 8 decimals
+ */
+export function aptToOctas(apt: AmountInput): bigint {
+  return Amount.apt(apt).raw;
+}
+
+/**
+ * Convert octas to an exact APT decimal string
+ */
+export function octasToApt(octas: bigint | number | string): string {
+  return Amount.octas(octas).toString();
+}
+
+/**
+ * Convert tokens to base units (with decimals), dropping digits past `decimals`
+ */
+export function tokensToBaseUnits(tokens: AmountInput, decimals: number = 8): bigint {
+  return Amount.parse(tokens, decimals, "floor").raw;
+}
+
+/**
+ * Convert base units to an exact token decimal string
+ */
+export function baseUnitsToTokens(baseUnits: bigint | number | string, decimals: number = 8): string {
+  return Amount.fromRaw(baseUnits, decimals).toString();
+}
+
+/**
+ * Convert USD to cents, rounding to the nearest cent
+ */
+export function usdToCents(usd: AmountInput): bigint {
+  return Amount.parse(usd, USD_CENTS_DECIMALS, "round").raw;
+}
+
+/**
+ * AptosConfig for a network, routed through `transport` when given
+ */
+export function aptosConfigFor(network: Network, transport?: ResilientTransport): AptosConfig {
+  if (!transport) {
+    return new AptosConfig({ network });
+  }
+  return new AptosConfig({
+    network,
+    fullnode: transport.primaryUrl("fullnode"),
+    indexer: transport.primaryUrl("indexer"),
+    client: transport
+  });
+}
+
+function deadlineFromNow(minutes: number): number {
+  return Math.floor(Date.now() / 1000) + minutes * 60;
+}
+
+// ============================================================================
+// CLIENT
+// ============================================================================
+
+export class BlazeClient {
+  readonly network: Network;
+  readonly contractAddress: string;
+  readonly questAddress?: string;
+  readonly aptos: Aptos;
+  readonly preflightMode: PreflightMode;
+
+  /** Only aborts from these addresses are decoded as BlazeErrors */
+  private readonly moduleAddresses: BlazeModuleAddresses;
+
+  constructor(config: BlazeClientConfig) {
+    this.network = config.network;
+    this.contractAddress = config.contractAddress;
+    this.questAddress = config.questAddress;
+    this.moduleAddresses = {
+      launchpad: config.contractAddress,
+      launchpad_v2: config.contractAddress,
+      quest_staking: config.questAddress
+    };
+    this.aptos = config.aptos ?? new Aptos(aptosConfigFor(config.network, config.transport));
+    this.preflightMode = config.preflight ?? "enforce";
+  }
+
+  /**
+   * Explorer URL for a transaction on this client's network
+   */
+  explorerUrl(txHash: string): string {
+    return getExplorerUrl(txHash, this.network);
+  }
+
+  // --------------------------------------------------------------------------
+  // Transport
+  // --------------------------------------------------------------------------
+
+  private launchpadFunction(name: string): `${string}::${string}::${string}` {
+    return `${this.contractAddress}::launchpad_v2::${name}`;
+  }
+
+  private questFunction(name: string): `${string}::${string}::${string}` {
+    if (!this.questAddress) {
+      throw new Error("questAddress is not configured on this BlazeClient");
+    }
+    return `${this.questAddress}::quest_staking::${name}`;
+  }
+
+  private async view<T extends MoveValue[]>(
+    fn: `${string}::${string}::${string}`,
+    functionArguments: Array<string | number | bigint | boolean> = [],
+    { ledgerVersion }: ViewOptions = {}
+  ): Promise<T> {
+    try {
+      return await this.aptos.view<T>({
+        payload: { function: fn, functionArguments },
+        options: ledgerVersion !== undefined ? { ledgerVersion } : undefined
+      });
+    } catch (error) {
+      throw toBlazeError(error, this.moduleAddresses);
+    }
+  }
+
+  /**
+   * Latest ledger version of the fullnode, to pin several reads to with `ViewOptions`
+   */
+  async getLedgerVersion(): Promise<bigint> {
+    try {
+      const { ledger_version } = await this.aptos.getLedgerInfo();
+      return BigInt(ledger_version);
+    } catch (error) {
+      throw toBlazeError(error, this.moduleAddresses);
+    }
+  }
+
+  /**
+   * Simulate a transaction payload for `sender` without signing it
+   *
+   * Takes the same payload data as the wallet adapter's `InputTransactionData`,
+   * so a dapp can preflight exactly what it will ask the wallet to sign.
+   *
+   * Reports whether it would succeed, the decoded abort if not, the
+   * estimated gas and the sender's expected APT and pool token changes.
+   */
+  async preflight(sender: string, data: InputGenerateTransactionPayloadData): Promise<Preflight> {
+    try {
+      const transaction = await this.aptos.transaction.build.simple({ sender, data });
+      const [simulation] = await this.aptos.transaction.simulate.simple({
+        transaction,
+        options: { estimateGasUnitPrice: true, estimateMaxGasAmount: true }
+      });
+      return decodeSimulation(simulation, sender, this.contractAddress, this.moduleAddresses);
+    } catch (error) {
+      throw toBlazeError(error, this.moduleAddresses);
+    }
+  }
+
+  /**
+   * Sign, submit and wait for an entry function call, then decode its
+   * launchpad_v2 events
+   *
+   * The call is simulated first unless preflight is "off"; in "enforce" mode
+   * a failing simulation throws PreflightError before anything is signed.
+   * Move aborts are re-thrown as typed BlazeErrors (e.g. SlippageExceededError).
+   *
+   * @param mode - Overrides the client's preflight mode for this call
+   */
+  async submit(
+    signer: TransactionSigner,
+    data: InputEntryFunctionData,
+    mode: PreflightMode = this.preflightMode
+  ): Promise<TransactionResult> {
+    const resolved = toSigner(signer);
+    let preflight: Preflight | undefined;
+    if (mode !== "off") {
+      preflight = await this.preflight(resolved.accountAddress, data);
+      if (!preflight.success && mode === "enforce") {
+        throw new PreflightError(preflight);
+      }
+    }
+
+    let hash: string;
+    let result;
+    try {
+      hash = await resolved.signAndSubmit(this.aptos, data);
+
+      result = await this.aptos.waitForTransaction({ transactionHash: hash });
+    } catch (error) {
+      throw toBlazeError(error, this.moduleAddresses);
+    }
+
+    return {
+      hash,
+      explorerUrl: this.explorerUrl(hash),
+      success: result.success,
+      events: decodeLaunchpadEvents(result, this.contractAddress),
+      preflight
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Pools
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get all pool IDs
+   */
+  async getPools(): Promise<string[]> {
+    const [pools] = await this.view<[Array<{ inner: string }>]>(this.launchpadFunction("get_pools"));
+    return pools.map((pool) => pool.inner);
+  }
+
+  /**
+   * Get a pool's metadata, curve and settings
+   */
+  async getPool(poolId: string, options?: ViewOptions): Promise<PoolInfo> {
+    const [metadata, curve, settings] = await this.view<[MoveTokenMetadata, MoveBancorCurve, MovePoolSettings]>(
+      this.launchpadFunction("get_pool"),
+      [poolId],
+      options
+    );
+    return {
+      metadata: decodeTokenMetadata(metadata),
+      curve: decodeBancorCurve(curve),
+      settings: decodePoolSettings(settings)
+    };
+  }
+
+  /**
+   * Get metadata of every pool, in registry order
+   */
+  async getTokens(): Promise<TokenMetadata[]> {
+    const [tokens] = await this.view<[MoveTokenMetadata[]]>(this.launchpadFunction("get_tokens"));
+    return tokens.map(decodeTokenMetadata);
+  }
+
+  /**
+   * Get pool balance (APT reserve), in octas
+   */
+  async getPoolBalance(poolId: string): Promise<bigint> {
+    const [balance] = await this.view<[string]>(this.launchpadFunction("get_pool_balance"), [poolId]);
+    return BigInt(balance);
+  }
+
+  /**
+   * Get the Bancor curve snapshot for a pool
+   */
+  async getCurveData(poolId: string, options?: ViewOptions): Promise<BancorCurve> {
+    const [curve] = await this.view<[MoveBancorCurve]>(this.launchpadFunction("get_curve_data"), [poolId], options);
+    return decodeBancorCurve(curve);
+  }
+
+  /**
+   * Get current token supply of a pool, in base units
+   */
+  async getCurrentSupply(poolId: string, options?: ViewOptions): Promise<bigint> {
+    const [supply] = await this.view<[string]>(this.launchpadFunction("get_current_supply"), [poolId], options);
+    return BigInt(supply);
+  }
+
+  /**
+   * Get current price per token in APT, scaled by 1e8
+   */
+  async getCurrentPrice(poolId: string, options?: ViewOptions): Promise<bigint> {
+    const [price] = await this.view<[string]>(this.launchpadFunction("get_current_price"), [poolId], options);
+    return BigInt(price);
+  }
+
+  /**
+   * Get a pool's market cap in USD cents
+   */
+  async getMarketCapUsd(poolId: string, options?: ViewOptions): Promise<bigint> {
+    const [marketCap] = await this.view<[string]>(this.launchpadFunction("calculate_market_cap_usd"), [poolId], options);
+    return BigInt(marketCap);
+  }
+
+  /**
+   * Whether a pool's market cap has reached its migration threshold
+   */
+  async isMigrationThresholdReached(poolId: string): Promise<boolean> {
+    const [reached] = await this.view<[boolean]>(this.launchpadFunction("is_migration_threshold_reached"), [poolId]);
+    return reached;
+  }
+
+  /**
+   * APT the pool would pay out if its entire supply were sold at once, in
+   * octas, before the sell fee (`get_max_left_apt_in_pool`). With no supply
+   * this is the whole reserve.
+   */
+  async getFullSellAptOut(poolId: string, options?: ViewOptions): Promise<bigint> {
+    const [aptOut] = await this.view<[string]>(this.launchpadFunction("get_max_left_apt_in_pool"), [poolId], options);
+    return BigInt(aptOut);
+  }
+
+  /**
+   * Get global trading fees in basis points
+   */
+  async getFees(options?: ViewOptions): Promise<FeeConfig> {
+    const [buyFeeBps, sellFeeBps] = await this.view<[string, string]>(this.launchpadFunction("get_fees"), [], options);
+    return {
+      buyFeeBps: BigInt(buyFeeBps),
+      sellFeeBps: BigInt(sellFeeBps)
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Quotes
+  // --------------------------------------------------------------------------
+
+  /**
+   * Curve, supply and fees read at one ledger version, so a trade landing
+   * between the reads cannot mix two states (default: the latest version)
+   */
+  private async quoteState(poolId: string, { ledgerVersion }: ViewOptions): Promise<[BancorCurve, bigint, FeeConfig]> {
+    const options = { ledgerVersion: ledgerVersion ?? (await this.getLedgerVersion()) };
+    return Promise.all([
+      this.getCurveData(poolId, options),
+      this.getCurrentSupply(poolId, options),
+      this.getFees(options)
+    ]);
+  }
+
+  /**
+   * Quote a buy locally from a fresh curve snapshot
+   *
+   * Fetches the curve, supply and fees once and runs the Bancor simulator,
+   * instead of calling `calculate_curved_mint_return` (which ignores fees).
+   *
+   * @param poolId - Pool object address
+   * @param aptAmount - Amount of APT to spend
+   * @param options - Ledger version to quote at (default: the latest)
+   */
+  async quoteBuy(poolId: string, aptAmount: AmountInput, options: ViewOptions = {}): Promise<BuySimulation> {
+    const [curve, supply, fees] = await this.quoteState(poolId, options);
+    return simulateBuy(curve, supply, aptToOctas(aptAmount), fees);
+  }
+
+  /**
+   * Quote a sell locally from a fresh curve snapshot
+   *
+   * @param poolId - Pool object address
+   * @param tokenAmount - Amount of tokens to sell (in token units, not base units)
+   * @param decimals - Token decimals (default: 8)
+   * @param options - Ledger version to quote at (default: the latest)
+   */
+  async quoteSell(
+    poolId: string,
+    tokenAmount: AmountInput,
+    decimals: number = 8,
+    options: ViewOptions = {}
+  ): Promise<SellSimulation> {
+    const [curve, supply, fees] = await this.quoteState(poolId, options);
+    return simulateSell(curve, supply, tokensToBaseUnits(tokenAmount, decimals), fees);
+  }
+
+  // --------------------------------------------------------------------------
+  // Trading
+  // --------------------------------------------------------------------------
+
+  /**
+   * Create a new token pool
+   *
+   * @returns Transaction result with the new pool's object address
+   */
+  async createPool(signer: TransactionSigner, params: CreatePoolParams): Promise<CreatePoolResult> {
+    if (!params.name || params.name.trim().length === 0) {
+      throw new Error("Token name is required");
+    }
+    if (!params.ticker || params.ticker.length < 1 || params.ticker.length > 10) {
+      throw new Error("Token ticker must be 1-10 characters");
+    }
+    if (!params.imageUri) {
+      throw new Error("Image URI is required");
+    }
+    if (params.reserveRatio && (params.reserveRatio < 1 || params.reserveRatio > 100)) {
+      throw new Error("Reserve ratio must be between 1 and 100");
+    }
+
+    const result = await this.submit(signer, {
+      function: this.launchpadFunction("create_pool"),
+      functionArguments: [
+        params.name,
+        params.ticker,
+        params.imageUri,
+        params.description || undefined,
+        params.website || undefined,
+        params.twitter || undefined,
+        params.telegram || undefined,
+        params.discord || undefined,
+        params.maxSupply || undefined,
+        params.decimals ?? 8,
+        params.reserveRatio ?? 50,
+        aptToOctas(params.initialReserveApt),
+        params.thresholdUsd !== undefined ? usdToCents(params.thresholdUsd) : undefined
+      ],
+    });
+
+    const created = findEvent(result.events, "CreatePoolEvent");
+    if (!created) {
+      throw new Error(`CreatePoolEvent not found in transaction ${result.hash}`);
+    }
+
+    return {
+      ...result,
+      poolId: created.poolId
+    };
+  }
+
+  /**
+   * Buy tokens from a pool using APT
+   *
+   * @param signer - Signer paying for the trade
+   * @param poolId - Pool object address
+   * @param aptAmount - Amount of APT to spend
+   * @param minTokensOut - Minimum tokens to receive (in token units, not base units), or
+   *                       `{ slippageBps }` to derive it from a fresh quote (default: 0)
+   * @param decimals - Token decimals (default: 8)
+   * @param deadlineMinutes - Transaction deadline in minutes from now (default: 5)
+   */
+  async buy(
+    signer: TransactionSigner,
+    poolId: string,
+    aptAmount: AmountInput,
+    minTokensOut: AmountInput | SlippageOptions = 0,
+    decimals: number = 8,
+    deadlineMinutes: number = 5
+  ): Promise<BuyResult> {
+    const aptOctas = aptToOctas(aptAmount);
+    if (aptOctas <= 0n) {
+      throw new Error("APT amount must be greater than 0");
+    }
+
+    let quote: BuySimulation | undefined;
+    let minTokensOutBase: bigint;
+    if (typeof minTokensOut !== "object") {
+      minTokensOutBase = tokensToBaseUnits(minTokensOut, decimals);
+    } else {
+      quote = await this.quoteBuy(poolId, aptAmount);
+      minTokensOutBase = applySlippage(quote.tokensOut, minTokensOut.slippageBps);
+    }
+
+    const result = await this.submit(signer, {
+      function: this.launchpadFunction("buy"),
+      functionArguments: [poolId, aptOctas, minTokensOutBase, deadlineFromNow(deadlineMinutes)],
+    });
+
+    return {
+      ...result,
+      quote,
+      minTokensOut: minTokensOutBase,
+      buyEvent: findEvent(result.events, "BuyEvent")
+    };
+  }
+
+  /**
+   * Sell tokens to a pool for APT
+   *
+   * @param signer - Signer selling
+   * @param poolId - Pool object address
+   * @param tokenAmount - Amount of tokens to sell (in token units, not base units)
+   * @param minAptOut - Minimum APT to receive, or `{ slippageBps }` to derive it
+   *                    from a fresh quote (default: 0)
+   * @param decimals - Token decimals (default: 8)
+   * @param deadlineMinutes - Transaction deadline in minutes from now (default: 5)
+   */
+  async sell(
+    signer: TransactionSigner,
+    poolId: string,
+    tokenAmount: AmountInput,
+    minAptOut: AmountInput | SlippageOptions = 0,
+    decimals: number = 8,
+    deadlineMinutes: number = 5
+  ): Promise<SellResult> {
+    const tokenBaseUnits = tokensToBaseUnits(tokenAmount, decimals);
+    if (tokenBaseUnits <= 0n) {
+      throw new Error("Token amount must be greater than 0");
+    }
+
+    let quote: SellSimulation | undefined;
+    let minAptOutOctas: bigint;
+    if (typeof minAptOut !== "object") {
+      minAptOutOctas = aptToOctas(minAptOut);
+    } else {
+      quote = await this.quoteSell(poolId, tokenAmount, decimals);
+      minAptOutOctas = applySlippage(quote.aptOut, minAptOut.slippageBps);
+    }
+
+    const result = await this.submit(signer, {
+      function: this.launchpadFunction("sell"),
+      functionArguments: [
+        poolId,
+        tokenBaseUnits,
+        minAptOutOctas,
+        deadlineFromNow(deadlineMinutes)
+      ],
+    });
+
+    return {
+      ...result,
+      quote,
+      minAptOut: minAptOutOctas,
+      sellEvent: findEvent(result.events, "SellEvent")
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Admin
+  // --------------------------------------------------------------------------
+
+  async getAdmin(): Promise<string> {
+    const [admin] = await this.view<[string]>(this.launchpadFunction("get_admin"));
+    return admin;
+  }
+
+  async getTreasury(): Promise<string> {
+    const [treasury] = await this.view<[string]>(this.launchpadFunction("get_treasury"));
+    return treasury;
+  }
+
+  async setAdmin(signer: TransactionSigner, newAdmin: string): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.launchpadFunction("set_admin"),
+      functionArguments: [newAdmin],
+    });
+  }
+
+  async setTreasury(signer: TransactionSigner, newTreasury: string): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.launchpadFunction("set_treasury"),
+      functionArguments: [newTreasury],
+    });
+  }
+
+  /**
+   * Update global trading fees (basis points, 100 = 1%)
+   */
+  async updateFees(signer: TransactionSigner, buyFeeBps: number, sellFeeBps: number): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.launchpadFunction("update_fee"),
+      functionArguments: [buyFeeBps, sellFeeBps],
+    });
+  }
+
+  async updatePoolSettings(
+    signer: TransactionSigner,
+    poolId: string,
+    update: PoolSettingsUpdate
+  ): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.launchpadFunction("update_pool_settings"),
+      functionArguments: [
+        poolId,
+        update.marketCapThresholdUsd !== undefined ? usdToCents(update.marketCapThresholdUsd) : undefined,
+        update.tradingEnabled
+      ],
+    });
+  }
+
+  /**
+   * Withdraw APT from a pool reserve to the admin (emergency use)
+   */
+  async transferToAdmin(signer: TransactionSigner, poolId: string, aptAmount: AmountInput): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.launchpadFunction("transfer_to_admin"),
+      functionArguments: [poolId, aptToOctas(aptAmount)],
+    });
+  }
+
+  async forceMigrateToHyperion(signer: TransactionSigner, poolId: string): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.launchpadFunction("force_migrate_to_hyperion"),
+      functionArguments: [poolId],
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Oracle
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get the APT/USD price in USD cents
+   */
+  async getAptUsdPrice(options?: ViewOptions): Promise<bigint> {
+    const [price] = await this.view<[string]>(this.launchpadFunction("get_apt_usd_price"), [], options);
+    return BigInt(price);
+  }
+
+  async getOracleData(): Promise<OracleData> {
+    const [price, lastUpdate, oracleAddress] = await this.view<[string, string, string]>(
+      this.launchpadFunction("get_oracle_data")
+    );
+    return {
+      aptUsdPrice: BigInt(price),
+      lastUpdate: Number(lastUpdate),
+      oracleAddress
+    };
+  }
+
+  /**
+   * Set the APT/USD price (admin only)
+   *
+   * @param aptUsdPrice - Price in USD (e.g. 8.5 or "8.50" = $8.50)
+   * @param oracleAddress - Address recorded as the price source
+   */
+  async updateOraclePrice(
+    signer: TransactionSigner,
+    aptUsdPrice: AmountInput,
+    oracleAddress: string
+  ): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.launchpadFunction("update_oracle_price"),
+      functionArguments: [usdToCents(aptUsdPrice), oracleAddress],
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // Quests
+  // --------------------------------------------------------------------------
+
+  async getQuest(questId: number): Promise<Quest> {
+    const [quest] = await this.view<[MoveQuest]>(this.questFunction("get_quest_info"), [questId]);
+    return decodeQuest(quest);
+  }
+
+  async getAllQuests(): Promise<Quest[]> {
+    const [quests] = await this.view<[MoveQuest[]]>(this.questFunction("get_all_quests"));
+    return decodeQuests(quests);
+  }
+
+  async getQuestParticipants(questId: number): Promise<string[]> {
+    const [participants] = await this.view<[string[]]>(this.questFunction("get_quest_participants"), [questId]);
+    return decodeAddresses(participants, "participants");
+  }
+
+  /**
+   * A user's participation in a quest, or undefined if they have not joined it
+   *
+   * quest_staking keeps one Participation per user, at the user's address,
+   * whatever `quest_id` is passed; it only counts when its questId matches.
+   */
+  async findParticipation(user: string, questId: number): Promise<Participation | undefined> {
+    const [participated] = await this.view<[boolean]>(this.questFunction("has_user_participated"), [user, questId]);
+    if (!participated) return undefined;
+
+    const [participation] = await this.view<[MoveParticipation]>(
+      this.questFunction("get_user_participation"),
+      [user, questId]
+    );
+    const decoded = decodeParticipation(participation);
+    return decoded.questId === questId ? decoded : undefined;
+  }
+
+  async hasParticipated(user: string, questId: number): Promise<boolean> {
+    return (await this.findParticipation(user, questId)) !== undefined;
+  }
+
+  /**
+   * @throws ParticipationError when the user has not joined this quest
+   */
+  async getParticipation(user: string, questId: number): Promise<Participation> {
+    const participation = await this.findParticipation(user, questId);
+    if (!participation) {
+      // ERR_USER_NOT_PARTICIPATED, as get_user_participation aborts for a user that never joined
+      throw abortError("quest_staking", 10, `${user} has no participation in quest ${questId}`);
+    }
+    return participation;
+  }
+
+  /**
+   * Participation of every quest participant, in join order
+   */
+  async getParticipations(questId: number): Promise<Participation[]> {
+    const participants = await this.getQuestParticipants(questId);
+    const participations = await Promise.all(participants.map((user) => this.findParticipation(user, questId)));
+    return participations.filter((participation): participation is Participation => participation !== undefined);
+  }
+
+  async createQuest(signer: TransactionSigner, params: CreateQuestParams): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.questFunction("create_quest"),
+      functionArguments: [params.name, aptToOctas(params.entryFeeApt), params.buyInSeconds, params.resultSeconds],
+    });
+  }
+
+  async joinQuest(signer: TransactionSigner, questId: number): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.questFunction("join_quest"),
+      functionArguments: [questId],
+    });
+  }
+
+  async selectPortfolio(
+    signer: TransactionSigner,
+    questId: number,
+    selections: TokenSelection[]
+  ): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.questFunction("select_portfolio"),
+      functionArguments: [
+        questId,
+        selections.map((selection) => selection.tokenAddress),
+        selections.map((selection) => selection.amountUsdc)
+      ],
+    });
+  }
+
+  async declareWinner(signer: TransactionSigner, questId: number, winner: string): Promise<TransactionResult> {
+    return this.submit(signer, {
+      function: this.questFunction("declare_winner"),
+      functionArguments: [questId, winner],
+    });
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Blaze Launchpad V2 - Deployments Manifest
+ *
+ * Where each Move package is published, per network. `deployments.json` is
+ * written by the publish scripts in scripts/move and is the one source of
+ * contract addresses for the SDK, the CLI and the frontend. It is validated
+ * when this module loads, so a malformed manifest fails at startup with
+ * every problem listed instead of as a bad view call later on. Nothing is
+ * imported from the SDK, so the frontend can share this module.
+ *
+ * @example
+ * ```typescript
+ * import { resolveAddress } from './deployments';
+ *
+ * // $CONTRACT_ADDRESS if set, otherwise the manifest's testnet entry
+ * const contractAddress = resolveAddress("testnet", "launchpad_v2", {
+ *   value: process.env.CONTRACT_ADDRESS,
+ *   name: "CONTRACT_ADDRESS"
+ * });
+ * ```
+ */
+
+import manifest from "./deployments.json" with { type: "json" };
+import { normalizeAddress } from "./events";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Manifest format this module reads and the publish scripts write */
+export const DEPLOYMENTS_VERSION = 1;
+
+/** Modules the manifest records; launchpad and launchpad_v2 ship in one package */
+export const DEPLOYMENT_MODULES = ["launchpad", "launchpad_v2", "quest_staking"] as const;
+
+/** Command that publishes each module and records it in the manifest */
+const PUBLISH_COMMANDS: Record<DeploymentModule, string> = {
+  launchpad: "npm run move:publish",
+  launchpad_v2: "npm run move:publish",
+  quest_staking: "npm run move:publish-quest"
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DeploymentModule = (typeof DEPLOYMENT_MODULES)[number];
+
+export interface ModuleDeployment {
+  /** Object address the package is published at */
+  address: string;
+
+  /** Move package name, from Move.toml */
+  package: string;
+
+  /** Move package version, from Move.toml */
+  packageVersion: string;
+
+  /** Hash of the publish (or latest upgrade) transaction */
+  publishTx?: string;
+
+  /** When the package was last published or upgraded, as an ISO 8601 timestamp */
+  publishedAt?: string;
+}
+
+export type NetworkDeployments = Partial<Record<DeploymentModule, ModuleDeployment>>;
+
+export interface DeploymentManifest {
+  version: number;
+
+  /** Deployments by network name, e.g. "testnet" */
+  networks: Record<string, NetworkDeployments>;
+}
+
+/** Address taken over the manifest, e.g. from an environment variable */
+export interface AddressOverride {
+  value?: string;
+
+  /** Name shown in errors, e.g. "VITE_MODULE_ADDRESS" */
+  name: string;
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Thrown for a malformed manifest, a bad override or a missing deployment
+ */
+export class DeploymentError extends Error {
+  /** Every problem found, one per entry */
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}` : message);
+    this.name = "DeploymentError";
+    this.issues = issues;
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const TRANSACTION_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isModule(name: string): name is DeploymentModule {
+  return (DEPLOYMENT_MODULES as readonly string[]).includes(name);
+}
+
+function parseModule(value: unknown, path: string, issues: string[]): ModuleDeployment | undefined {
+  if (!isRecord(value)) {
+    issues.push(`${path}: expected an object`);
+    return undefined;
+  }
+
+  const { address, package: packageName, packageVersion, publishTx, publishedAt } = value;
+  const start = issues.length;
+  if (typeof address !== "string" || !ADDRESS_PATTERN.test(address)) {
+    issues.push(`${path}.address: expected a 0x-prefixed account address, got ${JSON.stringify(address)}`);
+  }
+  if (typeof packageName !== "string" || packageName === "") {
+    issues.push(`${path}.package: expected the Move package name`);
+  }
+  if (typeof packageVersion !== "string" || packageVersion === "") {
+    issues.push(`${path}.packageVersion: expected the Move package version`);
+  }
+  if (publishTx !== undefined && (typeof publishTx !== "string" || !TRANSACTION_HASH_PATTERN.test(publishTx))) {
+    issues.push(`${path}.publishTx: expected a 0x-prefixed transaction hash, got ${JSON.stringify(publishTx)}`);
+  }
+  if (publishedAt !== undefined && (typeof publishedAt !== "string" || Number.isNaN(Date.parse(publishedAt)))) {
+    issues.push(`${path}.publishedAt: expected an ISO 8601 timestamp, got ${JSON.stringify(publishedAt)}`);
+  }
+  if (issues.length > start) {
+    return undefined;
+  }
+
+  return {
+    address: normalizeAddress(address as string),
+    package: packageName as string,
+    packageVersion: packageVersion as string,
+    publishTx: publishTx as string | undefined,
+    publishedAt: publishedAt as string | undefined
+  };
+}
+
+/**
+ * Validate a parsed manifest, normalizing every address
+ *
+ * @param value - Parsed JSON
+ * @param source - File name shown in errors
+ * @throws DeploymentError listing every problem found
+ */
+export function parseDeployments(value: unknown, source: string = "deployments.json"): DeploymentManifest {
+  if (!isRecord(value)) {
+    throw new DeploymentError(`${source} must contain a JSON object`);
+  }
+  if (value.version !== DEPLOYMENTS_VERSION) {
+    throw new DeploymentError(
+      `${source} has version ${JSON.stringify(value.version)}, this build reads version ${DEPLOYMENTS_VERSION}`
+    );
+  }
+  if (!isRecord(value.networks)) {
+    throw new DeploymentError(`${source} must have a "networks" object`);
+  }
+
+  const issues: string[] = [];
+  const networks: Record<string, NetworkDeployments> = {};
+  for (const [network, entries] of Object.entries(value.networks)) {
+    if (!isRecord(entries)) {
+      issues.push(`networks.${network}: expected an object`);
+      continue;
+    }
+    const deployments: NetworkDeployments = {};
+    for (const [module, entry] of Object.entries(entries)) {
+      if (!isModule(module)) {
+        issues.push(`networks.${network}.${module}: unknown module, expected one of ${DEPLOYMENT_MODULES.join(", ")}`);
+        continue;
+      }
+      const deployment = parseModule(entry, `networks.${network}.${module}`, issues);
+      if (deployment) deployments[module] = deployment;
+    }
+    networks[network] = deployments;
+  }
+
+  if (issues.length > 0) {
+    throw new DeploymentError(`${source} is invalid`, issues);
+  }
+  return { version: DEPLOYMENTS_VERSION, networks };
+}
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+function missingDeployment(network: string, module: DeploymentModule, overrideName?: string): DeploymentError {
+  const hint = overrideName ? ` or set ${overrideName}` : "";
+  return new DeploymentError(
+    `No ${module} deployment for ${network} in deployments.json; publish it with \`${PUBLISH_COMMANDS[module]}\`${hint}`
+  );
+}
+
+/** The bundled manifest, validated on load */
+export const DEPLOYMENTS: DeploymentManifest = parseDeployments(manifest);
+
+/**
+ * Deployment of `module` on `network`, if the manifest records one
+ */
+export function findDeployment(
+  network: string,
+  module: DeploymentModule,
+  deployments: DeploymentManifest = DEPLOYMENTS
+): ModuleDeployment | undefined {
+  return deployments.networks[network]?.[module];
+}
+
+/**
+ * Deployment of `module` on `network`
+ *
+ * @throws DeploymentError naming the command that publishes it when missing
+ */
+export function getDeployment(
+  network: string,
+  module: DeploymentModule,
+  deployments: DeploymentManifest = DEPLOYMENTS
+): ModuleDeployment {
+  const deployment = findDeployment(network, module, deployments);
+  if (!deployment) {
+    throw missingDeployment(network, module);
+  }
+  return deployment;
+}
+
+/**
+ * Address of `module` on `network`: the override when set, otherwise the
+ * manifest's, otherwise undefined
+ *
+ * @throws DeploymentError when the override is not an address
+ */
+export function findAddress(
+  network: string,
+  module: DeploymentModule,
+  override?: AddressOverride,
+  deployments: DeploymentManifest = DEPLOYMENTS
+): string | undefined {
+  if (override?.value) {
+    if (!ADDRESS_PATTERN.test(override.value)) {
+      throw new DeploymentError(`${override.name} is not an account address: ${JSON.stringify(override.value)}`);
+    }
+    return normalizeAddress(override.value);
+  }
+  return findDeployment(network, module, deployments)?.address;
+}
+
+/**
+ * Manifest deployment that `override` replaces with a different address, if
+ * any. A leftover override otherwise hides every later publish.
+ */
+export function shadowedDeployment(
+  network: string,
+  module: DeploymentModule,
+  override?: AddressOverride,
+  deployments: DeploymentManifest = DEPLOYMENTS
+): ModuleDeployment | undefined {
+  const address = findAddress(network, module, override, deployments);
+  const deployment = findDeployment(network, module, deployments);
+  return deployment && deployment.address !== address ? deployment : undefined;
+}
+
+/**
+ * Address of `module` on `network`: the override when set, otherwise the
+ * manifest's
+ *
+ * @throws DeploymentError when the override is not an address or neither is set
+ */
+export function resolveAddress(
+  network: string,
+  module: DeploymentModule,
+  override?: AddressOverride,
+  deployments: DeploymentManifest = DEPLOYMENTS
+): string {
+  const address = findAddress(network, module, override, deployments);
+  if (!address) {
+    throw missingDeployment(network, module, override?.name);
+  }
+  return address;
+}
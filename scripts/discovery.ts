@@ -0,0 +1,231 @@
+/**
+ * Blaze Launchpad V2 - Pool Discovery
+ *
+ * Builds one summary per pool (price, USD market cap, progress toward the
+ * migration threshold, 24h volume) from data that can be fetched for every
+ * pool at once: `get_pools` / `get_tokens`, the pools' `CreatePoolEvent`s,
+ * `LiquidityMigratedEvent`s and latest trades, and the oracle price. No
+ * per-pool view calls are needed, so a listing can sort, filter and page
+ * through all pools client-side. SDK-free so the frontend can share it.
+ *
+ * @example
+ * ```typescript
+ * import { buildPoolSummaries, queryPools } from './discovery';
+ *
+ * const summaries = buildPoolSummaries({ poolIds, tokens, creates, migrations, latestTrades, recentTrades, aptUsdPrice });
+ * const page = queryPools(summaries, { sort: "market-cap", search: "blaze", page: 0, pageSize: 20 });
+ * ```
+ */
+
+import { BPS_DIVISOR, calculateMarketCapFromPrice } from "./bancor";
+import { CreatePoolEvent, LiquidityMigratedEvent, normalizeAddress } from "./events";
+import { migrationProgressBps } from "./migration";
+import type { TokenMetadata } from "./resources";
+import { Trade, compareCursors } from "./trades";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Window of the volume column, in seconds */
+export const VOLUME_WINDOW_SECONDS = 24 * 60 * 60;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PoolSort = "newest" | "market-cap" | "volume" | "migration";
+
+export type MigrationFilter = "all" | "active" | "migrated";
+
+export interface PoolSummary {
+  poolId: string;
+  metadata: TokenMetadata;
+
+  /** Price per token in APT, scaled by 1e8 (0 before the first buy) */
+  price: bigint;
+
+  /** Token supply in base units */
+  supply: bigint;
+
+  /** Market cap in USD cents */
+  marketCapUsd: bigint;
+
+  /** Migration threshold in USD cents, when the pool's CreatePoolEvent is known */
+  thresholdUsd?: bigint;
+
+  /** Market cap as a share of the threshold, in basis points (capped at 10000) */
+  progressBps: number;
+
+  /** APT traded in the last 24h, in octas */
+  volume24h: bigint;
+  trades24h: number;
+  migrated: boolean;
+  hyperionPoolAddress?: string;
+
+  /** Seconds */
+  createdAt: number;
+
+  /** Seconds */
+  lastTradeAt?: number;
+}
+
+export interface PoolSummaryInputs {
+  /** Pool ids from `get_pools`, in creation order */
+  poolIds: string[];
+
+  /** Token metadata keyed by pool id */
+  tokens: Map<string, TokenMetadata>;
+  creates: CreatePoolEvent[];
+  migrations: LiquidityMigratedEvent[];
+
+  /** Most recent trade of each pool (any order) */
+  latestTrades: Trade[];
+
+  /** Trades covering at least the volume window (any order) */
+  recentTrades: Trade[];
+
+  /** APT price in USD cents */
+  aptUsdPrice: bigint;
+
+  /** Seconds; defaults to the current time */
+  now?: number;
+}
+
+export interface PoolQuery {
+  sort?: PoolSort;
+
+  /** Matched against name, ticker, pool id and creator */
+  search?: string;
+  migration?: MigrationFilter;
+
+  /** 0-based */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface PoolPage {
+  pools: PoolSummary[];
+
+  /** Pools matching the filters, across all pages */
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+/**
+ * Join per-pool inputs into one summary per pool, keeping `poolIds` order
+ */
+export function buildPoolSummaries(inputs: PoolSummaryInputs): PoolSummary[] {
+  const now = inputs.now ?? Math.floor(Date.now() / 1000);
+  const byPool = <T extends { poolId: string }>(items: T[]) =>
+    new Map(items.map((item) => [normalizeAddress(item.poolId), item]));
+
+  const creates = byPool(inputs.creates);
+  const migrations = byPool(inputs.migrations);
+
+  const latest = new Map<string, Trade>();
+  for (const trade of inputs.latestTrades) {
+    const key = normalizeAddress(trade.poolId);
+    const current = latest.get(key);
+    if (!current || compareCursors(trade, current) > 0) {
+      latest.set(key, trade);
+    }
+  }
+
+  const volume = new Map<string, { apt: bigint; trades: number }>();
+  for (const trade of inputs.recentTrades) {
+    if (trade.timestamp < now - VOLUME_WINDOW_SECONDS) continue;
+    const key = normalizeAddress(trade.poolId);
+    const entry = volume.get(key) ?? { apt: 0n, trades: 0 };
+    entry.apt += trade.aptAmount;
+    entry.trades += 1;
+    volume.set(key, entry);
+  }
+
+  const summaries: PoolSummary[] = [];
+  for (const poolId of inputs.poolIds) {
+    const key = normalizeAddress(poolId);
+    const metadata = inputs.tokens.get(key) ?? inputs.tokens.get(poolId);
+    if (!metadata) continue;
+
+    const trade = latest.get(key);
+    const created = creates.get(key);
+    const migration = migrations.get(key);
+    const price = trade?.price ?? 0n;
+    const supply = trade?.supply ?? 0n;
+    const marketCapUsd = calculateMarketCapFromPrice(supply, price, inputs.aptUsdPrice);
+    const thresholdUsd = created?.marketCapThresholdUsd;
+
+    summaries.push({
+      poolId,
+      metadata,
+      price,
+      supply,
+      marketCapUsd,
+      thresholdUsd,
+      progressBps: migration ? Number(BPS_DIVISOR) : migrationProgressBps(marketCapUsd, thresholdUsd),
+      volume24h: volume.get(key)?.apt ?? 0n,
+      trades24h: volume.get(key)?.trades ?? 0,
+      migrated: migration !== undefined,
+      hyperionPoolAddress: migration?.hyperionPoolAddress,
+      createdAt: metadata.createdAt,
+      lastTradeAt: trade?.timestamp
+    });
+  }
+  return summaries;
+}
+
+// ============================================================================
+// QUERYING
+// ============================================================================
+
+function compareBigintDesc(a: bigint, b: bigint): number {
+  return a === b ? 0 : a > b ? -1 : 1;
+}
+
+const COMPARATORS: Record<PoolSort, (a: PoolSummary, b: PoolSummary) => number> = {
+  newest: (a, b) => b.createdAt - a.createdAt,
+  "market-cap": (a, b) => compareBigintDesc(a.marketCapUsd, b.marketCapUsd),
+  volume: (a, b) => compareBigintDesc(a.volume24h, b.volume24h),
+  // Migrated pools have nothing left to reach, so they go last
+  migration: (a, b) => Number(a.migrated) - Number(b.migrated) || b.progressBps - a.progressBps
+};
+
+/**
+ * Filter, sort and page pool summaries
+ *
+ * Ties fall back to newest first so pages are stable between refreshes.
+ */
+export function queryPools(summaries: PoolSummary[], query: PoolQuery = {}): PoolPage {
+  const needle = query.search?.trim().toLowerCase() ?? "";
+  const migration = query.migration ?? "all";
+  const pageSize = Math.max(1, query.pageSize ?? 20);
+
+  const matches = summaries.filter((pool) => {
+    if (migration === "migrated" && !pool.migrated) return false;
+    if (migration === "active" && pool.migrated) return false;
+    if (!needle) return true;
+    return [pool.metadata.name, pool.metadata.ticker, pool.poolId, pool.metadata.creator].some((field) =>
+      field.toLowerCase().includes(needle)
+    );
+  });
+
+  const compare = COMPARATORS[query.sort ?? "newest"];
+  const sorted = [...matches].sort(
+    (a, b) => compare(a, b) || COMPARATORS.newest(a, b) || a.poolId.localeCompare(b.poolId)
+  );
+
+  const pageCount = Math.max(1, Math.ceil(sorted.length / pageSize));
+  const page = Math.min(Math.max(0, query.page ?? 0), pageCount - 1);
+  return {
+    pools: sorted.slice(page * pageSize, (page + 1) * pageSize),
+    total: sorted.length,
+    page,
+    pageCount
+  };
+}
@@ -0,0 +1,425 @@
+/**
+ * Blaze Error Translation
+ *
+ * Maps Move abort codes from `launchpad.move`, `launchpad_v2.move` and
+ * `quest_staking.move` to typed errors with human readable messages.
+ * Has no SDK dependency so the scripts and the React pages can share it.
+ *
+ * @example
+ * ```typescript
+ * import { toBlazeError, SlippageExceededError } from './errors';
+ *
+ * try {
+ *   await buyTokens(account, poolId, 0.1, { slippageBps: 50 });
+ * } catch (error) {
+ *   if (error instanceof SlippageExceededError) {
+ *     // re-quote and retry
+ *   }
+ *   console.error(toBlazeError(error).message);
+ * }
+ * ```
+ */
+
+import { DEPLOYMENTS } from "./deployments";
+import { normalizeAddress } from "./events";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Move modules whose abort codes are recognised */
+export type BlazeModule = "launchpad" | "launchpad_v2" | "quest_staking";
+
+/** Address each module is published at, e.g. a client's configured contracts */
+export type BlazeModuleAddresses = Partial<Record<BlazeModule, string>>;
+
+/** Abort parsed out of a VM status string */
+export interface MoveAbort {
+  /** Address the aborting module is published at */
+  moduleAddress: string;
+
+  /** Module name, e.g. "launchpad_v2" */
+  module: string;
+
+  /** Numeric abort code */
+  code: number;
+
+  /** Constant name when the VM reported it, e.g. "ESLIPPAGE_EXCEEDED" */
+  name?: string;
+}
+
+// ============================================================================
+// ERROR CLASSES
+// ============================================================================
+
+/**
+ * Base class for errors raised by a Blaze contract abort
+ */
+export class BlazeError extends Error {
+  /** Module that aborted */
+  readonly module: BlazeModule;
+
+  /** Numeric abort code */
+  readonly code: number;
+
+  /** Name of the Move error constant */
+  readonly abortName: string;
+
+  /** Original error message from the VM / wallet */
+  readonly rawMessage: string;
+
+  constructor(module: BlazeModule, code: number, abortName: string, message: string, rawMessage: string) {
+    super(message);
+    this.name = new.target.name;
+    this.module = module;
+    this.code = code;
+    this.abortName = abortName;
+    this.rawMessage = rawMessage;
+  }
+}
+
+/** Sender lacks the admin rights the function requires */
+export class UnauthorizedError extends BlazeError {}
+
+/** Arguments were rejected by the contract's validation */
+export class InvalidArgumentError extends BlazeError {}
+
+/** Output fell below `min_tokens_out` / `min_apt_out` */
+export class SlippageExceededError extends BlazeError {}
+
+/** Transaction executed after its deadline */
+export class DeadlinePassedError extends BlazeError {}
+
+/** Pool is paused, its curve is inactive or it has migrated */
+export class TradingDisabledError extends BlazeError {}
+
+/** Sender or pool does not hold enough tokens / APT */
+export class InsufficientBalanceError extends BlazeError {}
+
+/** Pool object address does not hold a launchpad pool */
+export class PoolNotFoundError extends BlazeError {}
+
+/** Quest id does not exist */
+export class QuestNotFoundError extends BlazeError {}
+
+/** Quest is not accepting joins or portfolio selections */
+export class QuestNotActiveError extends BlazeError {}
+
+/** Quest result time has not been reached */
+export class QuestNotReadyError extends BlazeError {}
+
+/** User has, or has not, joined a quest when the opposite is required */
+export class ParticipationError extends BlazeError {}
+
+/** Abort from a Blaze module with no dedicated subclass */
+export class ContractError extends BlazeError {}
+
+type BlazeErrorClass = new (
+  module: BlazeModule,
+  code: number,
+  abortName: string,
+  message: string,
+  rawMessage: string
+) => BlazeError;
+
+interface AbortDefinition {
+  name: string;
+  message: string;
+  errorClass: BlazeErrorClass;
+}
+
+// ============================================================================
+// ABORT CODE TABLES
+// ============================================================================
+
+const LAUNCHPAD_V2_ERRORS: Record<number, AbortDefinition> = {
+  1: { name: "EONLY_ADMIN", message: "Only the launchpad admin can do this.", errorClass: UnauthorizedError },
+  100: { name: "EINVALID_RESERVE_RATIO", message: "Reserve ratio must be between 1 and 100.", errorClass: InvalidArgumentError },
+  101: { name: "EINVALID_TICKER_LENGTH", message: "Ticker must be 1-10 characters.", errorClass: InvalidArgumentError },
+  102: {
+    name: "ESLIPPAGE_EXCEEDED",
+    message: "The price moved beyond your slippage tolerance. Refresh the quote and try again.",
+    errorClass: SlippageExceededError,
+  },
+  103: {
+    name: "EDEADLINE_PASSED",
+    message: "The transaction deadline passed before it was executed. Please try again.",
+    errorClass: DeadlinePassedError,
+  },
+  104: { name: "ETRADING_DISABLED", message: "Trading is disabled for this pool.", errorClass: TradingDisabledError },
+  105: {
+    name: "EMIGRATION_COMPLETED",
+    message: "This pool has already migrated to the DEX.",
+    errorClass: TradingDisabledError,
+  },
+  106: { name: "EFEE_TOO_HIGH", message: "Fees cannot exceed 10%.", errorClass: InvalidArgumentError },
+  107: {
+    name: "EINSUFFICIENT_RESERVE",
+    message: "The pool reserve is too small for this withdrawal.",
+    errorClass: InsufficientBalanceError,
+  },
+  108: { name: "EZERO_SUPPLY", message: "This pool has no token supply yet.", errorClass: ContractError },
+  109: { name: "EINVALID_AMOUNT", message: "Amount must be greater than 0.", errorClass: InvalidArgumentError },
+  110: { name: "EPOOL_NOT_FOUND", message: "Pool not found.", errorClass: PoolNotFoundError },
+  111: {
+    name: "EINSUFFICIENT_BALANCE",
+    message: "You don't have enough tokens for this trade.",
+    errorClass: InsufficientBalanceError,
+  },
+  112: {
+    name: "ERESOURCE_ACCOUNT_NOT_INITIALIZED",
+    message: "The launchpad liquidity account is not initialized.",
+    errorClass: ContractError,
+  },
+  113: {
+    name: "EINSUFFICIENT_LIQUIDITY",
+    message: "The pool does not hold enough APT to pay out this sale.",
+    errorClass: InsufficientBalanceError,
+  },
+  114: {
+    name: "EINVALID_INITIAL_RESERVE",
+    message: "Initial APT reserve must be greater than 0.",
+    errorClass: InvalidArgumentError,
+  },
+  115: { name: "EORACLE_PRICE_STALE", message: "The APT/USD oracle price is stale.", errorClass: ContractError },
+  116: { name: "EINVALID_ORACLE_PRICE", message: "Oracle price must be greater than 0.", errorClass: InvalidArgumentError },
+};
+
+const LAUNCHPAD_ERRORS: Record<number, AbortDefinition> = {
+  1: {
+    name: "EONLY_ADMIN_CAN_UPDATE_CREATOR",
+    message: "Only the launchpad admin can update the creator.",
+    errorClass: UnauthorizedError,
+  },
+  2: {
+    name: "EONLY_ADMIN_CAN_SET_PENDING_ADMIN",
+    message: "Only the launchpad admin can set a pending admin.",
+    errorClass: UnauthorizedError,
+  },
+  3: { name: "ENOT_PENDING_ADMIN", message: "You are not the pending admin.", errorClass: UnauthorizedError },
+  4: {
+    name: "EONLY_ADMIN_CAN_UPDATE_MINT_FEE_COLLECTOR",
+    message: "Only the launchpad admin can update the mint fee collector.",
+    errorClass: UnauthorizedError,
+  },
+  5: { name: "ENO_MINT_LIMIT", message: "This asset has no mint limit.", errorClass: ContractError },
+  6: {
+    name: "EMINT_LIMIT_REACHED",
+    message: "You have reached the mint limit for this asset.",
+    errorClass: InsufficientBalanceError,
+  },
+  7: {
+    name: "ERESOURCE_ACCOUNT_NOT_INITIALIZED",
+    message: "The launchpad liquidity account is not initialized.",
+    errorClass: ContractError,
+  },
+  8: {
+    name: "EINSUFFICIENT_LIQUIDITY",
+    message: "The launchpad does not hold enough APT to pay out this sale.",
+    errorClass: InsufficientBalanceError,
+  },
+  // buy / sell assert these raw codes without declaring a constant
+  100: { name: "E100", message: "The bonding curve for this asset is not active.", errorClass: TradingDisabledError },
+  101: { name: "E101", message: "You don't have enough tokens for this sale.", errorClass: InsufficientBalanceError },
+};
+
+const QUEST_STAKING_ERRORS: Record<number, AbortDefinition> = {
+  1: {
+    name: "ERR_ONLY_ADMIN_CAN_CREATE_QUEST",
+    message: "Only the quest admin can create quests.",
+    errorClass: UnauthorizedError,
+  },
+  2: {
+    name: "ERR_ONLY_ADMIN_CAN_DECLARE_WINNER",
+    message: "Only the quest admin can declare the winner.",
+    errorClass: UnauthorizedError,
+  },
+  3: { name: "ERR_QUEST_DOES_NOT_EXIST", message: "Quest not found.", errorClass: QuestNotFoundError },
+  4: {
+    name: "ERR_USER_ALREADY_PARTICIPATED",
+    message: "You have already joined this quest.",
+    errorClass: ParticipationError,
+  },
+  5: {
+    name: "ERR_QUEST_NOT_ACTIVE",
+    message: "This quest is no longer accepting entries.",
+    errorClass: QuestNotActiveError,
+  },
+  6: {
+    name: "ERR_QUEST_NOT_READY_FOR_RESULT",
+    message: "The quest result time has not been reached yet.",
+    errorClass: QuestNotReadyError,
+  },
+  7: { name: "ERR_INVALID_ENTRY_FEE", message: "Entry fee must be greater than 0.", errorClass: InvalidArgumentError },
+  8: {
+    name: "ERR_INVALID_TIME_PARAMETERS",
+    message: "Buy-in time must be in the future and before the result time.",
+    errorClass: InvalidArgumentError,
+  },
+  9: {
+    name: "ERR_INVALID_PORTFOLIO_SIZE",
+    message: "A portfolio must contain between 1 and 5 tokens.",
+    errorClass: InvalidArgumentError,
+  },
+  10: {
+    name: "ERR_USER_NOT_PARTICIPATED",
+    message: "You need to join this quest first.",
+    errorClass: ParticipationError,
+  },
+  11: {
+    name: "ERR_WINNER_NOT_PARTICIPANT",
+    message: "The winner must be a quest participant.",
+    errorClass: ParticipationError,
+  },
+};
+
+const ABORT_TABLES: Record<BlazeModule, Record<number, AbortDefinition>> = {
+  launchpad: LAUNCHPAD_ERRORS,
+  launchpad_v2: LAUNCHPAD_V2_ERRORS,
+  quest_staking: QUEST_STAKING_ERRORS,
+};
+
+// quest_staking wraps its codes with std::error, e.g. error::invalid_state(5) = 0x30005;
+// the category sits above the low 16 bits the tables are keyed by
+const CATEGORIZED_MODULES: ReadonlySet<BlazeModule> = new Set(["quest_staking"]);
+const REASON_MASK = 0xffff;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+// e.g. "Move abort in 0xf2ca...::launchpad_v2: ESLIPPAGE_EXCEEDED(0x66): Slippage tolerance exceeded"
+//   or "Move abort in 0xf2ca...::launchpad_v2: 0x66"
+const MOVE_ABORT_PATTERN = /Move abort in (0x[0-9a-fA-F]+)::(\w+):\s*(?:(\w+)\()?(0x[0-9a-fA-F]+|\d+)/;
+
+/**
+ * Extract a readable message from anything a wallet, the SDK or the VM throws
+ */
+function rawMessageOf(error: unknown): string {
+  if (typeof error === "string") {
+    return error;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (error && typeof error === "object") {
+    const { message, vm_status } = error as { message?: unknown; vm_status?: unknown };
+    if (typeof vm_status === "string") return vm_status;
+    if (typeof message === "string") return message;
+    try {
+      return JSON.stringify(error);
+    } catch {
+      return String(error);
+    }
+  }
+  return String(error);
+}
+
+/**
+ * Parse a Move abort out of a VM status or error message
+ *
+ * @param message - VM status / error message
+ * @returns Abort details, or undefined if the message is not a Move abort
+ */
+export function parseMoveAbort(message: string): MoveAbort | undefined {
+  const match = MOVE_ABORT_PATTERN.exec(message);
+  if (!match) {
+    return undefined;
+  }
+  const [, moduleAddress, module, name, rawCode] = match;
+  return {
+    moduleAddress,
+    module,
+    code: rawCode.startsWith("0x") ? parseInt(rawCode, 16) : parseInt(rawCode, 10),
+    name,
+  };
+}
+
+/**
+ * Whether the abort came from a Blaze deployment rather than another
+ * package that happens to use the same module name. Without a configured
+ * address, any network's address in the deployments manifest is accepted.
+ */
+function isBlazeDeployment(module: BlazeModule, moduleAddress: string, addresses: BlazeModuleAddresses): boolean {
+  const configured = addresses[module];
+  const known = configured
+    ? [configured]
+    : Object.values(DEPLOYMENTS.networks).flatMap((deployments) => deployments[module]?.address ?? []);
+  return known.some((address) => normalizeAddress(address) === normalizeAddress(moduleAddress));
+}
+
+/**
+ * Translate an error into a typed BlazeError if it is a recognised abort
+ *
+ * @param error - Anything thrown by the SDK, wallet adapter or VM
+ * @param addresses - Where the modules are published (default: the deployments manifest)
+ * @returns Typed error, or undefined if the abort is not from a Blaze deployment
+ */
+export function decodeBlazeError(error: unknown, addresses: BlazeModuleAddresses = {}): BlazeError | undefined {
+  if (error instanceof BlazeError) {
+    return error;
+  }
+
+  const rawMessage = rawMessageOf(error);
+  const abort = parseMoveAbort(rawMessage);
+  if (!abort || !(abort.module in ABORT_TABLES)) {
+    return undefined;
+  }
+
+  const module = abort.module as BlazeModule;
+  if (!isBlazeDeployment(module, abort.moduleAddress, addresses)) {
+    return undefined;
+  }
+
+  const code = CATEGORIZED_MODULES.has(module) ? abort.code & REASON_MASK : abort.code;
+  return abortError(module, code, rawMessage, abort.name);
+}
+
+/**
+ * Typed error for an abort code of a Blaze module, e.g. to report a state
+ * the contract would reject without sending a transaction
+ *
+ * @param code - Abort reason, without any std::error category
+ * @param name - Constant name for codes the tables do not know
+ */
+export function abortError(module: BlazeModule, code: number, rawMessage: string, name?: string): BlazeError {
+  const definition = ABORT_TABLES[module][code];
+  if (!definition) {
+    const abortName = name ?? `E${code}`;
+    return new ContractError(module, code, abortName, `${module} aborted with ${abortName}.`, rawMessage);
+  }
+  return new definition.errorClass(module, code, definition.name, definition.message, rawMessage);
+}
+
+/**
+ * Translate an error for re-throwing
+ *
+ * @param addresses - Where the modules are published (default: the deployments manifest)
+ * @returns The typed BlazeError when recognised, otherwise the original error (as an Error)
+ */
+export function toBlazeError(error: unknown, addresses: BlazeModuleAddresses = {}): Error {
+  const decoded = decodeBlazeError(error, addresses);
+  if (decoded) {
+    return decoded;
+  }
+  return error instanceof Error ? error : new Error(rawMessageOf(error));
+}
+
+/**
+ * Human readable message for display in the UI or CLI
+ *
+ * @param error - Anything thrown
+ * @param fallback - Message used when nothing better is available
+ * @param addresses - Where the modules are published (default: the deployments manifest)
+ */
+export function getErrorMessage(
+  error: unknown,
+  fallback: string = "Transaction failed",
+  addresses: BlazeModuleAddresses = {},
+): string {
+  const decoded = decodeBlazeError(error, addresses);
+  if (decoded) {
+    return decoded.message;
+  }
+  return rawMessageOf(error) || fallback;
+}
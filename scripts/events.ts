@@ -0,0 +1,356 @@
+/**
+ * Blaze Launchpad V2 - Event Decoding
+ *
+ * Turns the raw `{ type, data }` events returned by the fullnode into typed
+ * objects, for both `launchpad_v2` and `quest_staking`. u64/u128 fields
+ * arrive as decimal strings and `Object<Metadata>` as `{ inner: "0x..." }`;
+ * both are normalised here. Nothing is imported from the SDK, so the
+ * frontend can share this module.
+ *
+ * @example
+ * ```typescript
+ * import { decodeLaunchpadEvents } from './events';
+ *
+ * const txn = await aptos.waitForTransaction({ transactionHash });
+ * const events = decodeLaunchpadEvents(txn, CONTRACT_ADDRESS);
+ * const buy = events.find((e) => e.type === "BuyEvent");
+ * ```
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CreatePoolEvent {
+  type: "CreatePoolEvent";
+  poolId: string;
+  creator: string;
+  name: string;
+  ticker: string;
+  reserveRatio: bigint;
+  initialReserve: bigint;
+  marketCapThresholdUsd: bigint;
+  timestamp: bigint;
+}
+
+export interface BuyEvent {
+  type: "BuyEvent";
+  poolId: string;
+  buyer: string;
+  aptSpent: bigint;
+  tokensReceived: bigint;
+  feeCollected: bigint;
+  newPrice: bigint;
+  newSupply: bigint;
+  timestamp: bigint;
+}
+
+export interface SellEvent {
+  type: "SellEvent";
+  poolId: string;
+  seller: string;
+  tokensSold: bigint;
+  aptReceived: bigint;
+  feeCollected: bigint;
+  newPrice: bigint;
+  newSupply: bigint;
+  timestamp: bigint;
+}
+
+export interface LiquidityMigratedEvent {
+  type: "LiquidityMigratedEvent";
+  poolId: string;
+  hyperionPoolAddress: string;
+  aptLiquidity: bigint;
+  tokenLiquidity: bigint;
+  marketCapUsd: bigint;
+  timestamp: bigint;
+}
+
+export type LaunchpadEvent = CreatePoolEvent | BuyEvent | SellEvent | LiquidityMigratedEvent;
+
+export type LaunchpadEventType = LaunchpadEvent["type"];
+
+export interface QuestCreatedEvent {
+  type: "QuestCreatedEvent";
+  questId: number;
+  name: string;
+  admin: string;
+  entryFee: bigint;
+  buyInTime: number;
+  resultTime: number;
+}
+
+export interface QuestJoinedEvent {
+  type: "QuestJoinedEvent";
+  questId: number;
+  user: string;
+  entryFee: bigint;
+}
+
+export interface PortfolioSelectedEvent {
+  type: "PortfolioSelectedEvent";
+  questId: number;
+  user: string;
+  portfolioSize: number;
+  totalValueUsdc: bigint;
+}
+
+export interface WinnerDeclaredEvent {
+  type: "WinnerDeclaredEvent";
+  questId: number;
+  winner: string;
+
+  /** Prize paid to the winner, in octas */
+  totalReward: bigint;
+}
+
+export type QuestEvent = QuestCreatedEvent | QuestJoinedEvent | PortfolioSelectedEvent | WinnerDeclaredEvent;
+
+export type QuestEventType = QuestEvent["type"];
+
+/** Minimal shape shared by fullnode transaction events and the events API */
+export interface RawEvent {
+  type: string;
+
+  /** Move struct as JSON: u64/u128 as strings, objects as `{ inner }` */
+  data: Record<string, unknown>;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Fully qualified Move type of a launchpad_v2 event
+ *
+ * @example
+ * ```typescript
+ * eventTypeOf(CONTRACT_ADDRESS, "BuyEvent"); // "0xf2ca...::launchpad_v2::BuyEvent"
+ * ```
+ */
+export function eventTypeOf(contractAddress: string, type: LaunchpadEventType): string {
+  return `${normalizeAddress(contractAddress)}::launchpad_v2::${type}`;
+}
+
+/**
+ * Fully qualified Move type of a quest_staking event
+ */
+export function questEventTypeOf(questAddress: string, type: QuestEventType): string {
+  return `${normalizeAddress(questAddress)}::quest_staking::${type}`;
+}
+
+/**
+ * Canonical long form of an address (lowercase, 0x + 64 hex chars)
+ *
+ * The API prints event type addresses in long form, while users often paste
+ * short ones, so both sides are normalised before comparing.
+ */
+export function normalizeAddress(address: string): string {
+  const hex = address.toLowerCase().replace(/^0x/, "");
+  return `0x${hex.padStart(64, "0")}`;
+}
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+function malformed(data: Record<string, unknown>, field: string, expected: string): Error {
+  return new Error(`Event field "${field}" should be ${expected}, got ${JSON.stringify(data[field])}`);
+}
+
+function stringField(data: Record<string, unknown>, field: string): string {
+  const value = data[field];
+  if (typeof value !== "string") {
+    throw malformed(data, field, "a string");
+  }
+  return value;
+}
+
+/** u64 / u128 field; the API prints them as strings */
+function integerField(data: Record<string, unknown>, field: string): bigint {
+  const value = data[field];
+  if (typeof value === "bigint") return value;
+  if ((typeof value === "string" && /^\d+$/.test(value)) || (typeof value === "number" && Number.isInteger(value))) {
+    return BigInt(value);
+  }
+  throw malformed(data, field, "an integer");
+}
+
+/** `Object<T>` field, printed as `{ inner: address }` (or a bare address) */
+function objectField(data: Record<string, unknown>, field: string): string {
+  const value = data[field];
+  if (typeof value === "string") return value;
+  if (typeof value === "object" && value !== null && typeof (value as { inner?: unknown }).inner === "string") {
+    return (value as { inner: string }).inner;
+  }
+  throw malformed(data, field, "an object address");
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/**
+ * Decode a single event emitted by `launchpad_v2`
+ *
+ * @param event - Raw event with Move type string and JSON data
+ * @param contractAddress - Address the launchpad_v2 module is published at
+ * @returns Typed event, or undefined for events from other modules
+ */
+export function decodeLaunchpadEvent(event: RawEvent, contractAddress: string): LaunchpadEvent | undefined {
+  const [address, module, name] = event.type.split("::");
+  if (module !== "launchpad_v2" || !address || !name) {
+    return undefined;
+  }
+  if (normalizeAddress(address) !== normalizeAddress(contractAddress)) {
+    return undefined;
+  }
+
+  const data = event.data;
+  switch (name) {
+    case "CreatePoolEvent":
+      return {
+        type: "CreatePoolEvent",
+        poolId: objectField(data, "pool_id"),
+        creator: stringField(data, "creator"),
+        name: stringField(data, "name"),
+        ticker: stringField(data, "ticker"),
+        reserveRatio: integerField(data, "reserve_ratio"),
+        initialReserve: integerField(data, "initial_reserve"),
+        marketCapThresholdUsd: integerField(data, "market_cap_threshold_usd"),
+        timestamp: integerField(data, "timestamp")
+      };
+    case "BuyEvent":
+      return {
+        type: "BuyEvent",
+        poolId: objectField(data, "pool_id"),
+        buyer: stringField(data, "buyer"),
+        aptSpent: integerField(data, "apt_spent"),
+        tokensReceived: integerField(data, "tokens_received"),
+        feeCollected: integerField(data, "fee_collected"),
+        newPrice: integerField(data, "new_price"),
+        newSupply: integerField(data, "new_supply"),
+        timestamp: integerField(data, "timestamp")
+      };
+    case "SellEvent":
+      return {
+        type: "SellEvent",
+        poolId: objectField(data, "pool_id"),
+        seller: stringField(data, "seller"),
+        tokensSold: integerField(data, "tokens_sold"),
+        aptReceived: integerField(data, "apt_received"),
+        feeCollected: integerField(data, "fee_collected"),
+        newPrice: integerField(data, "new_price"),
+        newSupply: integerField(data, "new_supply"),
+        timestamp: integerField(data, "timestamp")
+      };
+    case "LiquidityMigratedEvent":
+      return {
+        type: "LiquidityMigratedEvent",
+        poolId: objectField(data, "pool_id"),
+        hyperionPoolAddress: stringField(data, "hyperion_pool_address"),
+        aptLiquidity: integerField(data, "apt_liquidity"),
+        tokenLiquidity: integerField(data, "token_liquidity"),
+        marketCapUsd: integerField(data, "market_cap_usd"),
+        timestamp: integerField(data, "timestamp")
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Decode a single event emitted by `quest_staking`
+ *
+ * @param event - Raw event with Move type string and JSON data
+ * @param questAddress - Address the quest_staking module is published at
+ * @returns Typed event, or undefined for events from other modules
+ */
+export function decodeQuestEvent(event: RawEvent, questAddress: string): QuestEvent | undefined {
+  const [address, module, name] = event.type.split("::");
+  if (module !== "quest_staking" || !address || !name) {
+    return undefined;
+  }
+  if (normalizeAddress(address) !== normalizeAddress(questAddress)) {
+    return undefined;
+  }
+
+  const data = event.data;
+  switch (name) {
+    case "QuestCreatedEvent":
+      return {
+        type: "QuestCreatedEvent",
+        questId: Number(integerField(data, "quest_id")),
+        name: stringField(data, "name"),
+        admin: stringField(data, "admin"),
+        entryFee: integerField(data, "entry_fee"),
+        buyInTime: Number(integerField(data, "buy_in_time")),
+        resultTime: Number(integerField(data, "result_time"))
+      };
+    case "QuestJoinedEvent":
+      return {
+        type: "QuestJoinedEvent",
+        questId: Number(integerField(data, "quest_id")),
+        user: stringField(data, "user"),
+        entryFee: integerField(data, "entry_fee")
+      };
+    case "PortfolioSelectedEvent":
+      return {
+        type: "PortfolioSelectedEvent",
+        questId: Number(integerField(data, "quest_id")),
+        user: stringField(data, "user"),
+        portfolioSize: Number(integerField(data, "portfolio_size")),
+        totalValueUsdc: integerField(data, "total_value_usdc")
+      };
+    case "WinnerDeclaredEvent":
+      return {
+        type: "WinnerDeclaredEvent",
+        questId: Number(integerField(data, "quest_id")),
+        winner: stringField(data, "winner"),
+        totalReward: integerField(data, "total_reward")
+      };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Decode all launchpad_v2 events from a committed transaction
+ *
+ * @param transaction - Response from `waitForTransaction` (any SDK version)
+ * @param contractAddress - Address the launchpad_v2 module is published at
+ * @returns Typed events in emission order (empty for non-user transactions)
+ */
+export function decodeLaunchpadEvents(
+  transaction: object,
+  contractAddress: string
+): LaunchpadEvent[] {
+  // Non-user transactions (e.g. state checkpoints) carry no events
+  const raw = "events" in transaction ? (transaction.events as RawEvent[]) : [];
+
+  const events: LaunchpadEvent[] = [];
+  for (const event of raw) {
+    const decoded = decodeLaunchpadEvent(event, contractAddress);
+    if (decoded) {
+      events.push(decoded);
+    }
+  }
+  return events;
+}
+
+/**
+ * Find the first event of a given type
+ *
+ * @example
+ * ```typescript
+ * const created = findEvent(events, "CreatePoolEvent");
+ * console.log(created?.poolId);
+ * ```
+ */
+export function findEvent<T extends LaunchpadEventType>(
+  events: LaunchpadEvent[],
+  type: T
+): Extract<LaunchpadEvent, { type: T }> | undefined {
+  return events.find((event): event is Extract<LaunchpadEvent, { type: T }> => event.type === type);
+}
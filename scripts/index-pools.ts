@@ -0,0 +1,76 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Index Pools Script
+ *
+ * Syncs buy/sell events into a local JSON-lines store and prints candles
+ * for a pool. Re-running resumes from the saved cursors.
+ *
+ * Usage:
+ *   npm run index
+ *   POOL_ID=0x... TIMEFRAME=1h npm run index
+ *   FIXTURE=./test/fixtures/events.json POOL_ID=0x... npm run index
+ */
+
+import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
+import { resolveAddress } from './deployments';
+import { getErrorMessage } from './errors';
+import { Amount } from './amount';
+import { AptosEventSource, JsonlTradeStore, PoolIndexer, StaticEventSource } from './indexer';
+import { TIMEFRAME_SECONDS, Timeframe } from './trades';
+
+async function main() {
+  console.log("📈 Index Pools\n");
+
+  const contractAddress = resolveAddress(Network.TESTNET, "launchpad_v2", {
+    value: process.env.CONTRACT_ADDRESS,
+    name: "CONTRACT_ADDRESS"
+  });
+  const dataDir = process.env.INDEX_DIR || ".blaze-index";
+  const poolId = process.env.POOL_ID;
+  const timeframe = (process.env.TIMEFRAME || "1h") as Timeframe;
+
+  if (!(timeframe in TIMEFRAME_SECONDS)) {
+    console.log(`❌ Error: TIMEFRAME must be one of ${Object.keys(TIMEFRAME_SECONDS).join(", ")}`);
+    process.exit(1);
+  }
+
+  const source = process.env.FIXTURE
+    ? StaticEventSource.fromFile(process.env.FIXTURE)
+    : new AptosEventSource(new Aptos(new AptosConfig({ network: Network.TESTNET })));
+
+  const indexer = new PoolIndexer({
+    contractAddress,
+    source,
+    store: new JsonlTradeStore(dataDir),
+  });
+
+  console.log(`📍 Contract: ${contractAddress}`);
+  console.log(`💾 Store: ${dataDir}\n`);
+
+  try {
+    const indexed = await indexer.sync();
+    console.log(`✅ Indexed ${indexed} new trades\n`);
+  } catch (error) {
+    console.error("❌ Error indexing events:", getErrorMessage(error));
+    process.exit(1);
+  }
+
+  if (!poolId) return;
+
+  const trades = indexer.getTrades(poolId);
+  const candles = indexer.getCandles(poolId, timeframe);
+  console.log(`🏊 Pool ${poolId}: ${trades.length} trades, ${candles.length} ${timeframe} candles\n`);
+
+  // Prices are APT per token scaled by 1e8, so they format like octas
+  const toApt = (value: bigint) => Amount.octas(value).format({ minDecimals: 8 });
+  for (const candle of candles) {
+    console.log(
+      `${new Date(candle.time * 1000).toISOString()}  ` +
+      `O ${toApt(candle.open)}  H ${toApt(candle.high)}  L ${toApt(candle.low)}  C ${toApt(candle.close)}  ` +
+      `Vol ${toApt(candle.volumeApt)} APT (${candle.trades} trades)`
+    );
+  }
+}
+
+main().catch(console.error);
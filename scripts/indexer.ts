@@ -0,0 +1,293 @@
+/**
+ * Blaze Launchpad V2 - Pool Indexer
+ *
+ * Pages through every `BuyEvent` / `SellEvent` emitted by a launchpad_v2
+ * deployment, appends them to a local JSON-lines store and keeps a cursor
+ * per event type so the next run resumes where the last one stopped.
+ *
+ * The event source is an interface: `AptosEventSource` reads the indexer
+ * API, `StaticEventSource` replays recorded events with no network.
+ *
+ * @example
+ * ```typescript
+ * import { PoolIndexer, AptosEventSource, JsonlTradeStore } from './indexer';
+ *
+ * const indexer = new PoolIndexer({
+ *   contractAddress: CONTRACT_ADDRESS,
+ *   source: new AptosEventSource(getAptosClient()),
+ *   store: new JsonlTradeStore("./.blaze-index"),
+ * });
+ *
+ * await indexer.sync();
+ * const candles = indexer.getCandles(poolId, "1h");
+ * ```
+ */
+
+import { Aptos } from "@aptos-labs/ts-sdk";
+import * as fs from 'fs';
+import * as path from 'path';
+import { BuyEvent, SellEvent, RawEvent, decodeLaunchpadEvent, eventTypeOf } from "./events";
+import { Candle, EventCursor, Timeframe, Trade, buildCandles, compareCursors, sortTrades, tradeFromEvent } from "./trades";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Event types the indexer follows */
+export type IndexedEventType = "BuyEvent" | "SellEvent";
+
+export const INDEXED_EVENT_TYPES: IndexedEventType[] = ["BuyEvent", "SellEvent"];
+
+/** Raw event together with its position on chain */
+export interface IndexedEvent extends RawEvent, EventCursor {}
+
+/**
+ * Where events come from
+ */
+export interface EventSource {
+  /**
+   * Fetch the next page of events of a type, strictly after a cursor
+   *
+   * @param eventType - Fully qualified Move event type
+   * @param after - Last event already seen (undefined = from the beginning)
+   * @param limit - Maximum number of events to return
+   * @returns Events in chain order
+   */
+  fetchEvents(eventType: string, after: EventCursor | undefined, limit: number): Promise<IndexedEvent[]>;
+}
+
+/**
+ * Where trades and cursors are persisted
+ */
+export interface TradeStore {
+  loadCursors(): Partial<Record<IndexedEventType, EventCursor>>;
+  saveCursors(cursors: Partial<Record<IndexedEventType, EventCursor>>): void;
+  append(trades: Trade[]): void;
+  readTrades(): Trade[];
+}
+
+export interface PoolIndexerOptions {
+  /** Address the launchpad_v2 module is published at */
+  contractAddress: string;
+
+  source: EventSource;
+  store: TradeStore;
+
+  /** Events requested per page (default: 100) */
+  pageSize?: number;
+}
+
+// ============================================================================
+// EVENT SOURCES
+// ============================================================================
+
+/**
+ * Reads module events from the Aptos indexer API
+ */
+export class AptosEventSource implements EventSource {
+  constructor(private readonly aptos: Aptos) {}
+
+  async fetchEvents(eventType: string, after: EventCursor | undefined, limit: number): Promise<IndexedEvent[]> {
+    const where = after
+      ? {
+          indexed_type: { _eq: eventType },
+          _or: [
+            { transaction_version: { _gt: after.version.toString() } },
+            {
+              transaction_version: { _eq: after.version.toString() },
+              event_index: { _gt: after.eventIndex },
+            },
+          ],
+        }
+      : { indexed_type: { _eq: eventType } };
+
+    const events = await this.aptos.getEvents({
+      options: {
+        where,
+        limit,
+        orderBy: [{ transaction_version: "asc" }, { event_index: "asc" }],
+      },
+    });
+
+    return events.map((event) => ({
+      type: event.type,
+      data: event.data,
+      version: BigInt(event.transaction_version),
+      eventIndex: Number(event.event_index),
+    }));
+  }
+}
+
+/**
+ * Replays a fixed list of events, e.g. fixtures recorded from the API
+ */
+export class StaticEventSource implements EventSource {
+  constructor(private readonly events: IndexedEvent[]) {}
+
+  /**
+   * Load recorded events from a JSON array of `{ type, data, version, eventIndex }`;
+   * `version` may be a string or number in the file
+   */
+  static fromFile(file: string): StaticEventSource {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf8')) as Array<IndexedEvent & { version: string | number }>;
+    return new StaticEventSource(raw.map((event) => ({ ...event, version: BigInt(event.version) })));
+  }
+
+  async fetchEvents(eventType: string, after: EventCursor | undefined, limit: number): Promise<IndexedEvent[]> {
+    return this.events
+      .filter((event) => event.type === eventType)
+      .filter((event) => !after || compareCursors(event, after) > 0)
+      .sort(compareCursors)
+      .slice(0, limit);
+  }
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+type SerializedCursor = { version: string; eventIndex: number };
+
+/**
+ * Persists trades as one JSON object per line plus a small cursor file
+ *
+ * Trades are appended before the cursor is saved, so a crash can only
+ * duplicate a page, never lose one; duplicates are dropped on read.
+ */
+export class JsonlTradeStore implements TradeStore {
+  private readonly tradesPath: string;
+  private readonly cursorsPath: string;
+
+  constructor(directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+    this.tradesPath = path.join(directory, 'trades.jsonl');
+    this.cursorsPath = path.join(directory, 'cursors.json');
+  }
+
+  loadCursors(): Partial<Record<IndexedEventType, EventCursor>> {
+    if (!fs.existsSync(this.cursorsPath)) return {};
+
+    const raw = JSON.parse(fs.readFileSync(this.cursorsPath, 'utf8')) as Record<string, SerializedCursor>;
+    const cursors: Partial<Record<IndexedEventType, EventCursor>> = {};
+    for (const type of INDEXED_EVENT_TYPES) {
+      if (raw[type]) {
+        cursors[type] = { version: BigInt(raw[type].version), eventIndex: raw[type].eventIndex };
+      }
+    }
+    return cursors;
+  }
+
+  saveCursors(cursors: Partial<Record<IndexedEventType, EventCursor>>): void {
+    const raw: Record<string, SerializedCursor> = {};
+    for (const [type, cursor] of Object.entries(cursors)) {
+      if (cursor) raw[type] = { version: cursor.version.toString(), eventIndex: cursor.eventIndex };
+    }
+    fs.writeFileSync(this.cursorsPath, JSON.stringify(raw, null, 2));
+  }
+
+  append(trades: Trade[]): void {
+    if (trades.length === 0) return;
+    const lines = trades.map((trade) =>
+      JSON.stringify(trade, (_key, value) => (typeof value === 'bigint' ? value.toString() : value))
+    );
+    fs.appendFileSync(this.tradesPath, lines.join('\n') + '\n');
+  }
+
+  readTrades(): Trade[] {
+    if (!fs.existsSync(this.tradesPath)) return [];
+
+    const seen = new Set<string>();
+    const trades: Trade[] = [];
+    for (const line of fs.readFileSync(this.tradesPath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      const raw = JSON.parse(line);
+      const key = `${raw.version}:${raw.eventIndex}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      trades.push({
+        ...raw,
+        version: BigInt(raw.version),
+        aptAmount: BigInt(raw.aptAmount),
+        tokenAmount: BigInt(raw.tokenAmount),
+        fee: BigInt(raw.fee),
+        price: BigInt(raw.price),
+        supply: BigInt(raw.supply),
+      });
+    }
+    return sortTrades(trades);
+  }
+}
+
+// ============================================================================
+// INDEXER
+// ============================================================================
+
+export class PoolIndexer {
+  private readonly contractAddress: string;
+  private readonly source: EventSource;
+  private readonly store: TradeStore;
+  private readonly pageSize: number;
+  private trades: Trade[] | undefined;
+
+  constructor(options: PoolIndexerOptions) {
+    this.contractAddress = options.contractAddress;
+    this.source = options.source;
+    this.store = options.store;
+    this.pageSize = options.pageSize ?? 100;
+  }
+
+  /**
+   * Fetch every event newer than the stored cursors and persist them
+   *
+   * @returns Number of new trades indexed
+   */
+  async sync(): Promise<number> {
+    const cursors = this.store.loadCursors();
+    let indexed = 0;
+
+    for (const type of INDEXED_EVENT_TYPES) {
+      const eventType = eventTypeOf(this.contractAddress, type);
+
+      for (;;) {
+        const page = await this.source.fetchEvents(eventType, cursors[type], this.pageSize);
+        if (page.length === 0) break;
+
+        const trades: Trade[] = [];
+        for (const event of page) {
+          const decoded = decodeLaunchpadEvent(event, this.contractAddress);
+          if (decoded?.type === "BuyEvent" || decoded?.type === "SellEvent") {
+            trades.push(tradeFromEvent(decoded as BuyEvent | SellEvent, event));
+          }
+        }
+
+        this.store.append(trades);
+        const last = page[page.length - 1];
+        cursors[type] = { version: last.version, eventIndex: last.eventIndex };
+        this.store.saveCursors(cursors);
+        indexed += trades.length;
+
+        if (page.length < this.pageSize) break;
+      }
+    }
+
+    this.trades = undefined;
+    return indexed;
+  }
+
+  /**
+   * All indexed trades for a pool, in chain order
+   */
+  getTrades(poolId: string): Trade[] {
+    if (!this.trades) {
+      this.trades = this.store.readTrades();
+    }
+    return this.trades.filter((trade) => trade.poolId === poolId);
+  }
+
+  /**
+   * OHLCV candles for a pool
+   */
+  getCandles(poolId: string, timeframe: Timeframe): Candle[] {
+    return buildCandles(this.getTrades(poolId), timeframe);
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Blaze Launchpad V2 - Migration Progress
+ *
+ * A pool migrates to Hyperion inside the `buy` that lifts its market cap to
+ * `market_cap_threshold_usd`. On a Bancor curve the market cap only depends
+ * on the reserve (S * P = R * 100 / CRR), so the APT still needed before
+ * migration follows from the threshold, and an ETA follows from how fast
+ * recent trades have been filling the reserve. SDK-free so the frontend can
+ * share it.
+ *
+ * @example
+ * ```typescript
+ * import { getMigrationProgress } from './migration';
+ *
+ * const progress = getMigrationProgress({ curve, settings, marketCapUsd, aptUsdPrice, trades });
+ * console.log(`${progress.progressBps / 100}% - ETA ${progress.etaSeconds ?? "unknown"}s`);
+ * ```
+ */
+
+import { BPS_DIVISOR, BancorCurve, PRECISION } from "./bancor";
+import type { PoolSettings } from "./resources";
+import type { Trade } from "./trades";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Trades this recent feed the ETA estimate, in seconds */
+export const ETA_WINDOW_SECONDS = 60 * 60;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MigrationProgress {
+  /** Market cap in USD cents */
+  marketCapUsd: bigint;
+
+  /** Migration threshold in USD cents */
+  thresholdUsd: bigint;
+
+  /** Market cap as a share of the threshold, in basis points (capped at 10000) */
+  progressBps: number;
+
+  /** Market cap is at or above the threshold */
+  reached: boolean;
+  migrated: boolean;
+  hyperionPoolAddress?: string;
+
+  /** Migration time in seconds */
+  migratedAt?: number;
+
+  /** Approximate APT the reserve still needs before migration, in octas (fees excluded) */
+  aptToThreshold: bigint;
+
+  /** Net APT added to the reserve per hour over the ETA window, in octas */
+  reserveVelocityPerHour: bigint;
+
+  /** Estimated seconds until migration; undefined when the reserve is not growing */
+  etaSeconds?: number;
+}
+
+export interface MigrationProgressInputs {
+  curve: BancorCurve;
+  settings: PoolSettings;
+
+  /** Market cap in USD cents, e.g. from `calculate_market_cap_usd` */
+  marketCapUsd: bigint;
+
+  /** APT price in USD cents */
+  aptUsdPrice: bigint;
+
+  /** Recent trades of the pool (any order) */
+  trades: Trade[];
+
+  /** Seconds; defaults to the current time */
+  now?: number;
+
+  /** Default: `ETA_WINDOW_SECONDS` */
+  windowSeconds?: number;
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+/**
+ * Market cap as a share of the migration threshold, in basis points
+ * (capped at 10000; 0 when the threshold is unknown)
+ */
+export function migrationProgressBps(marketCapUsd: bigint, thresholdUsd?: bigint): number {
+  if (!thresholdUsd || thresholdUsd <= 0n) return 0;
+  const bps = (marketCapUsd * BPS_DIVISOR) / thresholdUsd;
+  return Number(bps > BPS_DIVISOR ? BPS_DIVISOR : bps);
+}
+
+/**
+ * Reserve at which a curve reaches a market cap, in octas
+ *
+ * Inverts R * 100 * aptUsd / (CRR * PRECISION), rounding up. Approximate by
+ * the contract's truncation in `calculate_current_price`.
+ */
+export function reserveAtMarketCap(marketCapUsd: bigint, reserveRatio: bigint, aptUsdPrice: bigint): bigint {
+  if (aptUsdPrice <= 0n) return 0n;
+  const numerator = marketCapUsd * reserveRatio * PRECISION;
+  const denominator = 100n * aptUsdPrice;
+  return (numerator + denominator - 1n) / denominator;
+}
+
+/**
+ * Net APT that trades in `[now - windowSeconds, now]` added to the reserve
+ *
+ * Buys add what they spent minus the fee; sells remove what they received
+ * plus the fee.
+ */
+export function netReserveInflow(trades: Trade[], now: number, windowSeconds: number): bigint {
+  let inflow = 0n;
+  for (const trade of trades) {
+    if (trade.timestamp < now - windowSeconds || trade.timestamp > now) continue;
+    inflow += trade.side === "buy" ? trade.aptAmount - trade.fee : -(trade.aptAmount + trade.fee);
+  }
+  return inflow;
+}
+
+/**
+ * Progress of a pool toward migration, with an ETA from recent reserve growth
+ */
+export function getMigrationProgress(inputs: MigrationProgressInputs): MigrationProgress {
+  const { curve, settings, marketCapUsd, aptUsdPrice } = inputs;
+  const now = inputs.now ?? Math.floor(Date.now() / 1000);
+  const windowSeconds = inputs.windowSeconds ?? ETA_WINDOW_SECONDS;
+  const thresholdUsd = settings.marketCapThresholdUsd;
+  const migrated = settings.migrationCompleted;
+  const reached = migrated || marketCapUsd >= thresholdUsd;
+
+  const targetReserve = reserveAtMarketCap(thresholdUsd, curve.reserveRatio, aptUsdPrice);
+  const aptToThreshold = reached || targetReserve <= curve.reserveBalance ? 0n : targetReserve - curve.reserveBalance;
+
+  const inflow = netReserveInflow(inputs.trades, now, windowSeconds);
+  const etaSeconds =
+    aptToThreshold > 0n && inflow > 0n ? Number((aptToThreshold * BigInt(windowSeconds)) / inflow) : undefined;
+
+  return {
+    marketCapUsd,
+    thresholdUsd,
+    progressBps: migrated ? Number(BPS_DIVISOR) : migrationProgressBps(marketCapUsd, thresholdUsd),
+    reached,
+    migrated,
+    hyperionPoolAddress: settings.hyperionPoolAddress,
+    migratedAt: settings.migrationTimestamp,
+    aptToThreshold,
+    reserveVelocityPerHour: (inflow * 3600n) / BigInt(Math.max(1, windowSeconds)),
+    etaSeconds
+  };
+}
+
+/**
+ * Human-readable duration, e.g. "3h 20m"
+ */
+export function formatEta(seconds: number): string {
+  if (seconds < 60) return "under a minute";
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
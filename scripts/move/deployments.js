@@ -0,0 +1,121 @@
+const { spawn } = require("node:child_process");
+const fs = require("node:fs");
+const path = require("node:path");
+
+// Read by scripts/deployments.ts, which validates it for the SDK, CLI and frontend
+const MANIFEST_PATH = "scripts/deployments.json";
+const MANIFEST_VERSION = 1;
+
+function readManifest() {
+  if (!fs.existsSync(MANIFEST_PATH)) {
+    return { version: MANIFEST_VERSION, networks: {} };
+  }
+  const manifest = JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"));
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(`${MANIFEST_PATH} has version ${manifest.version}, this script writes version ${MANIFEST_VERSION}`);
+  }
+  return manifest;
+}
+
+// Package name and version from the [package] section of Move.toml
+function readPackage(packageDirectoryPath) {
+  const toml = fs.readFileSync(path.join(packageDirectoryPath, "Move.toml"), "utf8");
+  const section = toml.split(/^\[/m).find((part) => part.startsWith("package]")) ?? "";
+  const field = (name) => section.match(new RegExp(`^${name}\\s*=\\s*"([^"]*)"`, "m"))?.[1];
+  return { name: field("name"), version: field("version") ?? "0.0.0" };
+}
+
+// Transaction hash from the JSON result the Aptos CLI prints once a transaction commits
+function transactionHashFromOutput(output) {
+  return output?.match(/"transaction_hash":\s*"(0x[0-9a-fA-F]{64})"/)?.[1];
+}
+
+/**
+ * Publish a package to a new object, like the SDK's
+ * `Move.createObjectAndPublishPackage`, which only returns the object address
+ *
+ * @returns The object address and the hash of the publish transaction
+ */
+function createObjectAndPublishPackage({ packageDirectoryPath, addressName, namedAddresses, profile }) {
+  const args = [
+    "aptos",
+    "move",
+    "create-object-and-publish-package",
+    "--package-dir",
+    packageDirectoryPath,
+    "--address-name",
+    addressName,
+    `--profile=${profile}`,
+    "--named-addresses",
+    Object.entries(namedAddresses)
+      .map(([name, address]) => `${name}=${address}`)
+      .join(","),
+  ];
+
+  return new Promise((resolve, reject) => {
+    // stdin stays attached for the CLI's confirmation prompts
+    const child = spawn("npx", args, { shell: process.platform === "win32", stdio: ["inherit", "pipe", "inherit"] });
+    let output = "";
+    child.stdout.on("data", (chunk) => {
+      output += chunk;
+      process.stdout.write(chunk);
+    });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`aptos move create-object-and-publish-package exited with code ${code}`));
+        return;
+      }
+      const objectAddress = output.match(/Code was successfully deployed to object address (0x[0-9a-fA-F]+)/)?.[1];
+      if (!objectAddress) {
+        reject(new Error("Could not find the object address in the Aptos CLI output"));
+        return;
+      }
+      resolve({ objectAddress, publishTx: transactionHashFromOutput(output) });
+    });
+  });
+}
+
+/**
+ * Record a published package in the manifest, once per module it ships
+ *
+ * @param network - Network name, e.g. "testnet"
+ * @param modules - Manifest keys the package provides, e.g. ["launchpad", "launchpad_v2"]
+ * @param packageDirectoryPath - Folder with the package's Move.toml
+ * @param objectAddress - Object address the package was published to
+ * @param publishTx - Hash of the publish or upgrade transaction, from the Aptos CLI output
+ */
+function recordDeployment({ network, modules, packageDirectoryPath, objectAddress, publishTx }) {
+  if (!network) {
+    throw new Error("VITE_APP_NETWORK variable is not set, cannot record the deployment");
+  }
+
+  const manifest = readManifest();
+  const { name, version } = readPackage(packageDirectoryPath);
+  if (!publishTx) {
+    console.warn("⚠️  No transaction hash in the Aptos CLI output, recording the deployment without publishTx");
+  }
+
+  const deployments = (manifest.networks[network] ??= {});
+  for (const module of modules) {
+    deployments[module] = {
+      address: objectAddress,
+      package: name,
+      packageVersion: version,
+      ...(publishTx && { publishTx }),
+      publishedAt: new Date().toISOString(),
+    };
+  }
+
+  fs.writeFileSync(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`, "utf8");
+  console.log(`📝 Recorded ${modules.join(", ")} on ${network} in ${MANIFEST_PATH}`);
+}
+
+/**
+ * Address a module is published at on `network`, or undefined
+ */
+function deployedAddress(network, module) {
+  return readManifest().networks[network]?.[module]?.address;
+}
+
+module.exports = { createObjectAndPublishPackage, transactionHashFromOutput, recordDeployment, deployedAddress };
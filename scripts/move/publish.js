@@ -1,48 +1,33 @@
 require("dotenv").config();
 const fs = require("node:fs");
 const yaml = require("js-yaml");
-const cli = require("@aptos-labs/ts-sdk/dist/common/cli/index.js");
+const { createObjectAndPublishPackage, recordDeployment } = require("./deployments");
 
 const config = yaml.load(fs.readFileSync("./.aptos/config.yaml", "utf8"));
 const accountAddress = config["profiles"][`${process.env.PROJECT_NAME}-${process.env.VITE_APP_NETWORK}`]["account"];
 
 async function publish() {
-  const move = new cli.Move();
-
-  move
-    .createObjectAndPublishPackage({
-      packageDirectoryPath: "move",
-      addressName: "blaze_token_launchpad",
-      namedAddresses: {
-        // Publish module to account address
-        blaze_token_launchpad: accountAddress,
-      },
-      profile: `${process.env.PROJECT_NAME}-${process.env.VITE_APP_NETWORK}`,
-    })
-    .then((response) => {
-      const filePath = ".env";
-      let envContent = "";
-
-      // Check .env file exists and read it
-      if (fs.existsSync(filePath)) {
-        envContent = fs.readFileSync(filePath, "utf8");
-      }
-
-      // Regular expression to match the VITE_MODULE_ADDRESS variable
-      const regex = /^VITE_MODULE_ADDRESS=.*$/m;
-      const newEntry = `VITE_MODULE_ADDRESS=${response.objectAddress}`;
-
-      // Check if VITE_MODULE_ADDRESS is already defined
-      if (envContent.match(regex)) {
-        // If the variable exists, replace it with the new value
-        envContent = envContent.replace(regex, newEntry);
-      } else {
-        // If the variable does not exist, append it
-        envContent += `\n${newEntry}`;
-      }
-
-      // Write the updated content back to the .env file
-      fs.writeFileSync(filePath, envContent, "utf8");
+  createObjectAndPublishPackage({
+    packageDirectoryPath: "move",
+    addressName: "blaze_token_launchpad",
+    namedAddresses: {
+      // Publish module to account address
+      blaze_token_launchpad: accountAddress,
+    },
+    profile: `${process.env.PROJECT_NAME}-${process.env.VITE_APP_NETWORK}`,
+  })
+    .then((response) =>
+      recordDeployment({
+        network: process.env.VITE_APP_NETWORK,
+        modules: ["launchpad", "launchpad_v2"],
+        packageDirectoryPath: "move",
+        objectAddress: response.objectAddress,
+        publishTx: response.publishTx,
+      }),
+    )
+    .catch((error) => {
+      console.error("❌ Publish failed:", error.message);
+      process.exit(1);
     });
 }
 publish();
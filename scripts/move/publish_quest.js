@@ -1,19 +1,17 @@
 require("dotenv").config();
 const fs = require("node:fs");
 const yaml = require("js-yaml");
-const cli = require("@aptos-labs/ts-sdk/dist/common/cli/index.js");
+const { createObjectAndPublishPackage, recordDeployment } = require("./deployments");
 
 const config = yaml.load(fs.readFileSync("./.aptos/config.yaml", "utf8"));
 const accountAddress = config["profiles"]["quest_staking"]["account"];
 
 async function publishQuestStaking() {
-  const move = new cli.Move();
-
   try {
-    console.log("🚀 Publishing Quest Staking contract to devnet...");
+    console.log(`🚀 Publishing Quest Staking contract to ${process.env.VITE_APP_NETWORK}...`);
     console.log(`📝 Account: ${accountAddress}`);
     
-    const response = await move.createObjectAndPublishPackage({
+    const response = await createObjectAndPublishPackage({
       packageDirectoryPath: "quest-staking/move",
       addressName: "quest_staking_addr",
       namedAddresses: {
@@ -25,34 +23,14 @@ async function publishQuestStaking() {
 
     console.log("✅ Contract published successfully!");
     console.log(`📦 Object Address: ${response.objectAddress}`);
-    console.log(`🔗 Transaction Hash: ${response.transactionHash}`);
-
-    // Update .env file with the new module address
-    const filePath = "frontend/.env";
-    let envContent = "";
-
-    // Check .env file exists and read it
-    if (fs.existsSync(filePath)) {
-      envContent = fs.readFileSync(filePath, "utf8");
-    }
-
-    // Regular expression to match the VITE_QUEST_MODULE_ADDRESS variable
-    const regex = /^VITE_QUEST_MODULE_ADDRESS=.*$/m;
-    const newEntry = `VITE_QUEST_MODULE_ADDRESS=${response.objectAddress}`;
 
-    // Check if VITE_QUEST_MODULE_ADDRESS is already defined
-    if (envContent.match(regex)) {
-      // If the variable exists, replace it with the new value
-      envContent = envContent.replace(regex, newEntry);
-    } else {
-      // If the variable does not exist, append it
-      envContent += `\n${newEntry}`;
-    }
-
-    // Write the updated content back to the .env file
-    fs.writeFileSync(filePath, envContent, "utf8");
-    
-    console.log("📝 Updated frontend/.env with new module address");
+    await recordDeployment({
+      network: process.env.VITE_APP_NETWORK,
+      modules: ["quest_staking"],
+      packageDirectoryPath: "quest-staking/move",
+      objectAddress: response.objectAddress,
+      publishTx: response.publishTx,
+    });
     console.log("\n🎉 Deployment complete! You can now use the quest management page.");
     
   } catch (error) {
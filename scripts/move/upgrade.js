@@ -1,24 +1,44 @@
 require("dotenv").config();
 const cli = require("@aptos-labs/ts-sdk/dist/common/cli/index.js");
+const { deployedAddress, recordDeployment, transactionHashFromOutput } = require("./deployments");
+
+const profile = `${process.env.PROJECT_NAME}-${process.env.VITE_APP_NETWORK}`;
 
 async function publish() {
-  // Check VITE_MODULE_ADDRESS is set
-  if (!process.env.VITE_MODULE_ADDRESS) {
+  // VITE_MODULE_ADDRESS stands in for a deployment missing from the manifest. One that
+  // disagrees with the manifest is usually left over in .env and would upgrade a stale object.
+  const recorded = deployedAddress(process.env.VITE_APP_NETWORK, "launchpad_v2");
+  const override = process.env.VITE_MODULE_ADDRESS;
+  if (override && recorded && override.toLowerCase() !== recorded.toLowerCase()) {
+    throw new Error(
+      `VITE_MODULE_ADDRESS=${override} differs from the launchpad_v2 deployment at ${recorded} recorded for ${process.env.VITE_APP_NETWORK} in scripts/deployments.json; unset it to upgrade the recorded deployment`,
+    );
+  }
+  const objectAddress = recorded || override;
+  if (!objectAddress) {
     throw new Error(
-      "VITE_MODULE_ADDRESS variable is not set, make sure you have published the module before upgrading it",
+      `No launchpad_v2 deployment for ${process.env.VITE_APP_NETWORK} in scripts/deployments.json, make sure you have published the module before upgrading it`,
     );
   }
 
   const move = new cli.Move();
 
-  move.upgradeObjectPackage({
+  const { output } = await move.upgradeObjectPackage({
     packageDirectoryPath: "move",
-    objectAddress: process.env.VITE_MODULE_ADDRESS,
+    objectAddress,
     namedAddresses: {
       // Upgrade module from an object
-      launchpad_addr: process.env.VITE_MODULE_ADDRESS,
+      blaze_token_launchpad: objectAddress,
     },
-    profile: `${process.env.PROJECT_NAME}-${process.env.VITE_APP_NETWORK}`,
+    profile,
+  });
+
+  await recordDeployment({
+    network: process.env.VITE_APP_NETWORK,
+    modules: ["launchpad", "launchpad_v2"],
+    packageDirectoryPath: "move",
+    objectAddress,
+    publishTx: transactionHashFromOutput(output),
   });
 }
 publish();
@@ -0,0 +1,348 @@
+/**
+ * Blaze Launchpad V2 - Pool Drafts
+ *
+ * Turns what a creator types into a form into the exact arguments of
+ * `launchpad_v2::create_pool`, checks them against the rules the contract
+ * (and the fungible asset framework underneath it) enforces, and previews
+ * the Bancor curve the pool will start on. SDK-free so the frontend can
+ * share it.
+ *
+ * A fresh pool has supply 0, so its first buy takes the contract's bootstrap
+ * path (tokens = deposit * reserve_ratio / 100) and fixes the starting price
+ * for every buy after it; `previewCurve` and `previewFirstBuy` both model
+ * that.
+ *
+ * @example
+ * ```typescript
+ * import { createPoolArguments, parsePoolDraft } from './pool-draft';
+ *
+ * const { draft, issues } = parsePoolDraft({ name: "Blaze", ticker: "BLZ", imageUri, decimals: "8", reserveRatio: "50", initialReserveApt: "1" });
+ * if (draft) console.log(createPoolArguments(draft));
+ * ```
+ */
+
+import { APT_DECIMALS, Amount, USD_CENTS_DECIMALS } from "./amount";
+import { BancorCurve, FeeConfig, MAX_U128, MAX_U64, calculateMarketCapFromPrice, simulateBuy } from "./bancor";
+import type { BuySimulation } from "./bancor";
+import { reserveAtMarketCap } from "./migration";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Bounds checked by `create_pool` (EINVALID_TICKER_LENGTH) */
+export const MIN_TICKER_LENGTH = 1;
+export const MAX_TICKER_LENGTH = 10;
+
+/** Bounds checked by `create_pool` (EINVALID_RESERVE_RATIO) */
+export const MIN_RESERVE_RATIO = 1n;
+export const MAX_RESERVE_RATIO = 100n;
+
+/** Largest `decimals` the fungible asset framework accepts */
+export const MAX_DECIMALS = 32;
+
+/** Longest name the fungible asset framework accepts, in bytes */
+export const MAX_NAME_BYTES = 32;
+
+/** Threshold `create_pool` uses when none is given, in USD cents */
+export const DEFAULT_MARKET_CAP_THRESHOLD_USD = 7_500_000n;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Form values, as typed */
+export interface PoolDraftInput {
+  name: string;
+  ticker: string;
+  imageUri: string;
+  description?: string;
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+
+  /** Whole tokens; empty for unlimited */
+  maxSupply?: string;
+  decimals: string;
+
+  /** Percent, 1-100 */
+  reserveRatio: string;
+
+  /** APT, e.g. "1.5" */
+  initialReserveApt: string;
+
+  /** USD, e.g. "75000"; empty for the contract default */
+  thresholdUsd?: string;
+}
+
+/** A pool ready for `create_pool`, in on-chain units */
+export interface PoolDraft {
+  name: string;
+  ticker: string;
+  imageUri: string;
+  description?: string;
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+
+  /** Base units; undefined for unlimited */
+  maxSupply?: bigint;
+  decimals: number;
+  reserveRatio: bigint;
+
+  /** Octas */
+  initialReserve: bigint;
+
+  /** USD cents; undefined for the contract default */
+  marketCapThresholdUsd?: bigint;
+}
+
+export interface PoolDraftIssue {
+  field: keyof PoolDraftInput;
+  message: string;
+}
+
+export interface CreatePoolArgument {
+  /** Parameter name in `create_pool` */
+  name: string;
+
+  /** Move type */
+  type: string;
+
+  /** Value submitted; undefined encodes `option::none()` */
+  value: string | number | bigint | undefined;
+}
+
+export interface CurvePoint {
+  /** APT bought in with, fees excluded, in octas */
+  aptDeposited: bigint;
+
+  /** Octas */
+  reserveBalance: bigint;
+
+  /** Base units */
+  supply: bigint;
+
+  /** Price per token in APT, scaled by 1e8 */
+  price: bigint;
+
+  /** USD cents */
+  marketCapUsd: bigint;
+
+  /** The pool migrates in the buy that reaches this point */
+  migrates: boolean;
+}
+
+export interface FirstBuyPreview extends BuySimulation {
+  /** Market cap after the buy, in USD cents */
+  marketCapUsd: bigint;
+
+  /** The buy alone would migrate the pool */
+  migrates: boolean;
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse a non-negative decimal string into base units
+ *
+ * @returns undefined for malformed, negative or over-precise amounts
+ */
+function parseUnits(value: string, decimals: number): bigint | undefined {
+  const amount = Amount.tryParse(value, decimals);
+  return amount && !amount.isNegative() ? amount.raw : undefined;
+}
+
+const optional = (value?: string) => (value && value.trim() ? value.trim() : undefined);
+
+/**
+ * Parse and check form values
+ *
+ * @returns The draft when there are no issues, and every issue found
+ */
+export function parsePoolDraft(input: PoolDraftInput): { draft?: PoolDraft; issues: PoolDraftIssue[] } {
+  const issues: PoolDraftIssue[] = [];
+  const invalid = (field: keyof PoolDraftInput, message: string) => {
+    issues.push({ field, message });
+    return undefined;
+  };
+
+  const decimals = /^\d+$/.test(input.decimals.trim())
+    ? Number(input.decimals)
+    : invalid("decimals", "Decimals must be a whole number");
+  const reserveRatio = /^\d+$/.test(input.reserveRatio.trim())
+    ? BigInt(input.reserveRatio.trim())
+    : invalid("reserveRatio", "Reserve ratio must be a whole percentage");
+  const initialReserve =
+    parseUnits(input.initialReserveApt, APT_DECIMALS) ?? invalid("initialReserveApt", "Initial reserve must be an APT amount");
+
+  let maxSupply: bigint | undefined;
+  if (optional(input.maxSupply) && decimals !== undefined) {
+    maxSupply =
+      parseUnits(input.maxSupply!, decimals) ??
+      invalid("maxSupply", `Max supply must be a number with at most ${decimals} decimals`);
+  }
+
+  let marketCapThresholdUsd: bigint | undefined;
+  if (optional(input.thresholdUsd)) {
+    marketCapThresholdUsd = parseUnits(input.thresholdUsd!, USD_CENTS_DECIMALS) ?? invalid("thresholdUsd", "Threshold must be a USD amount");
+  }
+
+  // Fields that failed to parse get stand-ins so the rest are still checked
+  const draft: PoolDraft = {
+    name: input.name.trim(),
+    ticker: input.ticker.trim(),
+    imageUri: input.imageUri.trim(),
+    description: optional(input.description),
+    website: optional(input.website),
+    twitter: optional(input.twitter),
+    telegram: optional(input.telegram),
+    discord: optional(input.discord),
+    maxSupply,
+    decimals: decimals ?? 0,
+    reserveRatio: reserveRatio ?? MIN_RESERVE_RATIO,
+    initialReserve: initialReserve ?? 1n,
+    marketCapThresholdUsd
+  };
+
+  const unparsed = new Set(issues.map((issue) => issue.field));
+  issues.push(...validatePoolDraft(draft).filter((issue) => !unparsed.has(issue.field)));
+  return issues.length > 0 ? { issues } : { draft, issues };
+}
+
+/**
+ * Check a draft against the rules `create_pool` and the fungible asset
+ * framework enforce
+ */
+export function validatePoolDraft(draft: PoolDraft): PoolDraftIssue[] {
+  const issues: PoolDraftIssue[] = [];
+  const bytes = (value: string) => new TextEncoder().encode(value).length;
+
+  if (!draft.name) {
+    issues.push({ field: "name", message: "Name is required" });
+  } else if (bytes(draft.name) > MAX_NAME_BYTES) {
+    issues.push({ field: "name", message: `Name must be at most ${MAX_NAME_BYTES} bytes` });
+  }
+
+  // Move measures string length in bytes
+  const tickerLength = bytes(draft.ticker);
+  if (tickerLength < MIN_TICKER_LENGTH || tickerLength > MAX_TICKER_LENGTH) {
+    issues.push({ field: "ticker", message: `Ticker must be ${MIN_TICKER_LENGTH}-${MAX_TICKER_LENGTH} characters` });
+  }
+
+  if (!draft.imageUri) {
+    issues.push({ field: "imageUri", message: "Image is required" });
+  }
+
+  if (!Number.isInteger(draft.decimals) || draft.decimals < 0 || draft.decimals > MAX_DECIMALS) {
+    issues.push({ field: "decimals", message: `Decimals must be 0-${MAX_DECIMALS}` });
+  }
+
+  if (draft.maxSupply !== undefined && (draft.maxSupply <= 0n || draft.maxSupply > MAX_U128)) {
+    issues.push({ field: "maxSupply", message: "Max supply must be positive and fit in a u128" });
+  }
+
+  if (draft.reserveRatio < MIN_RESERVE_RATIO || draft.reserveRatio > MAX_RESERVE_RATIO) {
+    issues.push({ field: "reserveRatio", message: `Reserve ratio must be ${MIN_RESERVE_RATIO}-${MAX_RESERVE_RATIO}%` });
+  }
+
+  if (draft.initialReserve <= 0n || draft.initialReserve > MAX_U64) {
+    issues.push({ field: "initialReserveApt", message: "Initial reserve must be greater than 0 APT" });
+  }
+
+  if (draft.marketCapThresholdUsd !== undefined && (draft.marketCapThresholdUsd <= 0n || draft.marketCapThresholdUsd > MAX_U64)) {
+    issues.push({ field: "thresholdUsd", message: "Threshold must be greater than $0" });
+  }
+
+  return issues;
+}
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+/**
+ * The arguments `create_pool` is called with, in order
+ */
+export function createPoolArguments(draft: PoolDraft): CreatePoolArgument[] {
+  return [
+    { name: "name", type: "String", value: draft.name },
+    { name: "ticker", type: "String", value: draft.ticker },
+    { name: "token_image_uri", type: "String", value: draft.imageUri },
+    { name: "description", type: "Option<String>", value: draft.description },
+    { name: "website", type: "Option<String>", value: draft.website },
+    { name: "twitter", type: "Option<String>", value: draft.twitter },
+    { name: "telegram", type: "Option<String>", value: draft.telegram },
+    { name: "discord", type: "Option<String>", value: draft.discord },
+    { name: "max_supply", type: "Option<u128>", value: draft.maxSupply },
+    { name: "decimals", type: "u8", value: draft.decimals },
+    { name: "reserve_ratio", type: "u64", value: draft.reserveRatio },
+    { name: "initial_apt_reserve", type: "u64", value: draft.initialReserve },
+    { name: "market_cap_threshold_usd", type: "Option<u64>", value: draft.marketCapThresholdUsd }
+  ];
+}
+
+// ============================================================================
+// PREVIEW
+// ============================================================================
+
+const NO_FEES: FeeConfig = { buyFeeBps: 0n, sellFeeBps: 0n };
+
+function initialCurve(draft: PoolDraft): BancorCurve {
+  return { reserveRatio: draft.reserveRatio, reserveBalance: draft.initialReserve, isActive: true };
+}
+
+/**
+ * Simulate the first buy into a freshly created pool
+ */
+export function previewFirstBuy(draft: PoolDraft, aptAmount: bigint, fees: FeeConfig, aptUsdPrice: bigint): FirstBuyPreview {
+  const simulation = simulateBuy(initialCurve(draft), 0n, aptAmount, fees);
+  const marketCapUsd = calculateMarketCapFromPrice(simulation.newSupply, simulation.newPrice, aptUsdPrice);
+  const threshold = draft.marketCapThresholdUsd ?? DEFAULT_MARKET_CAP_THRESHOLD_USD;
+  return { ...simulation, marketCapUsd, migrates: marketCapUsd >= threshold };
+}
+
+/**
+ * Points along the price curve, from the first buy up to the migration
+ * threshold
+ *
+ * @param firstBuy - Deposit (fees excluded) that bootstraps the supply, in octas
+ * @param points - Number of points, including the first buy (default: 40)
+ */
+export function previewCurve(draft: PoolDraft, aptUsdPrice: bigint, firstBuy: bigint, points: number = 40): CurvePoint[] {
+  if (firstBuy <= 0n || aptUsdPrice <= 0n) return [];
+  const threshold = draft.marketCapThresholdUsd ?? DEFAULT_MARKET_CAP_THRESHOLD_USD;
+
+  const first = simulateBuy(initialCurve(draft), 0n, firstBuy, NO_FEES);
+  // Aim 0.1% past the threshold so price truncation cannot leave the last
+  // point a cent short of it
+  const targetReserve = reserveAtMarketCap(threshold, draft.reserveRatio, aptUsdPrice);
+  const target = targetReserve + targetReserve / 1000n;
+  const remaining = target > first.newReserveBalance ? target - first.newReserveBalance : 0n;
+  const steps = BigInt(Math.max(1, points - 1));
+  const step = remaining > 0n ? (remaining + steps - 1n) / steps : 0n;
+
+  const curve: CurvePoint[] = [];
+  let supply = first.newSupply;
+  let deposited = firstBuy;
+  let snapshot: BancorCurve = { ...initialCurve(draft), reserveBalance: first.newReserveBalance };
+  let price = first.newPrice;
+
+  for (let i = 0; ; i++) {
+    const marketCapUsd = calculateMarketCapFromPrice(supply, price, aptUsdPrice);
+    const migrates = marketCapUsd >= threshold;
+    curve.push({ aptDeposited: deposited, reserveBalance: snapshot.reserveBalance, supply, price, marketCapUsd, migrates });
+    if (migrates || step === 0n || i + 1 >= points) break;
+
+    const next = simulateBuy(snapshot, supply, step, NO_FEES);
+    supply = next.newSupply;
+    price = next.newPrice;
+    deposited += step;
+    snapshot = { ...snapshot, reserveBalance: next.newReserveBalance };
+  }
+  return curve;
+}
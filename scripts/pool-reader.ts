@@ -0,0 +1,178 @@
+/**
+ * Blaze Launchpad V2 - Pool Reader
+ *
+ * Reads the state of many pools as one snapshot object per pool, instead of
+ * one view call after the other. View calls run with bounded concurrency,
+ * concurrent reads of the same pool share one request, and every read is
+ * pinned to the same ledger version so a page of pools is consistent.
+ * Snapshots are cached per pool and ledger version; the version is re-read
+ * once `ttlMs` has passed, and pools are only fetched again once it moved.
+ *
+ * @example
+ * ```typescript
+ * import { PoolReader } from './pool-reader';
+ *
+ * const reader = new PoolReader(blaze, { concurrency: 8 });
+ * const snapshots = await reader.getSnapshots(await blaze.getPools());
+ * ```
+ */
+
+import { BlazeClient } from "./client";
+import { normalizeAddress } from "./events";
+import { PoolInfo } from "./resources";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Default number of view calls in flight at once */
+export const DEFAULT_READ_CONCURRENCY = 8;
+
+/** Default time a ledger version is reused before reading it again, in ms */
+export const DEFAULT_SNAPSHOT_TTL_MS = 15_000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A pool's state as of one ledger version */
+export interface PoolSnapshot extends PoolInfo {
+  poolId: string;
+
+  /** Token supply, in base units */
+  supply: bigint;
+
+  /** Price per token in APT, scaled by 1e8 */
+  price: bigint;
+
+  /** Market cap in USD cents */
+  marketCapUsd: bigint;
+
+  /** Ledger version every field was read at */
+  ledgerVersion: bigint;
+}
+
+export interface PoolReaderOptions {
+  /** Most view calls in flight at once (default: 8) */
+  concurrency?: number;
+
+  /** How long a ledger version is reused, in ms (default: 15s) */
+  ttlMs?: number;
+}
+
+interface CachedSnapshot {
+  ledgerVersion: bigint;
+  snapshot: Promise<PoolSnapshot>;
+}
+
+// ============================================================================
+// READER
+// ============================================================================
+
+export class PoolReader {
+  readonly concurrency: number;
+  readonly ttlMs: number;
+
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private pinned?: { ledgerVersion: Promise<bigint>; readAt: number };
+
+  /** Latest snapshot request per pool, settled or still in flight */
+  private readonly cache = new Map<string, CachedSnapshot>();
+
+  constructor(
+    readonly client: BlazeClient,
+    options: PoolReaderOptions = {}
+  ) {
+    this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_READ_CONCURRENCY);
+    this.ttlMs = options.ttlMs ?? DEFAULT_SNAPSHOT_TTL_MS;
+  }
+
+  /**
+   * Snapshot of one pool at the pinned ledger version
+   */
+  async getSnapshot(poolId: string): Promise<PoolSnapshot> {
+    return this.snapshotAt(poolId, await this.ledgerVersion());
+  }
+
+  /**
+   * Snapshots of many pools, all at the same ledger version, in input order
+   */
+  async getSnapshots(poolIds: string[]): Promise<PoolSnapshot[]> {
+    const ledgerVersion = await this.ledgerVersion();
+    return Promise.all(poolIds.map((poolId) => this.snapshotAt(poolId, ledgerVersion)));
+  }
+
+  /**
+   * Drop a pool's cached snapshot, or every snapshot and the pinned ledger
+   * version, e.g. after a trade or a new pool
+   */
+  invalidate(poolId?: string): void {
+    if (poolId === undefined) {
+      this.cache.clear();
+      this.pinned = undefined;
+      return;
+    }
+    this.cache.delete(normalizeAddress(poolId));
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  private snapshotAt(poolId: string, ledgerVersion: bigint): Promise<PoolSnapshot> {
+    const key = normalizeAddress(poolId);
+    const cached = this.cache.get(key);
+    if (cached && cached.ledgerVersion === ledgerVersion) {
+      return cached.snapshot;
+    }
+
+    const snapshot = this.read(poolId, ledgerVersion);
+    this.cache.set(key, { ledgerVersion, snapshot });
+    // Failed reads are not cached, the next call tries again
+    snapshot.catch(() => {
+      if (this.cache.get(key)?.snapshot === snapshot) this.cache.delete(key);
+    });
+    return snapshot;
+  }
+
+  private ledgerVersion(): Promise<bigint> {
+    if (this.pinned && Date.now() - this.pinned.readAt < this.ttlMs) {
+      return this.pinned.ledgerVersion;
+    }
+
+    const pinned = { ledgerVersion: this.limit(() => this.client.getLedgerVersion()), readAt: Date.now() };
+    this.pinned = pinned;
+    pinned.ledgerVersion.catch(() => {
+      if (this.pinned === pinned) this.pinned = undefined;
+    });
+    return pinned.ledgerVersion;
+  }
+
+  private async read(poolId: string, ledgerVersion: bigint): Promise<PoolSnapshot> {
+    const options = { ledgerVersion };
+    const [pool, supply, price, marketCapUsd] = await Promise.all([
+      this.limit(() => this.client.getPool(poolId, options)),
+      this.limit(() => this.client.getCurrentSupply(poolId, options)),
+      this.limit(() => this.client.getCurrentPrice(poolId, options)),
+      this.limit(() => this.client.getMarketCapUsd(poolId, options))
+    ]);
+    return { poolId, ...pool, supply, price, marketCapUsd, ledgerVersion };
+  }
+
+  /**
+   * Run a view call once fewer than `concurrency` are in flight
+   */
+  private async limit<T>(task: () => Promise<T>): Promise<T> {
+    while (this.active >= this.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.waiting.shift()?.();
+    }
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Blaze Quests - Portfolio Building
+ *
+ * Splits a USDC budget across quest tokens and checks a portfolio against
+ * the rules `quest_staking::select_portfolio` enforces (1-5 tokens) plus the
+ * ones it leaves to clients (distinct tokens, non-zero amounts, buy-in still
+ * open). Amounts are USDC base units (6 decimals). SDK-free so the frontend
+ * can share it.
+ *
+ * @example
+ * ```typescript
+ * import { allocateBudget, validatePortfolio } from './portfolio';
+ *
+ * const selections = allocateBudget(100_000_000n, [
+ *   { tokenAddress: tokenA, weight: 60 },
+ *   { tokenAddress: tokenB, weight: 40 }
+ * ]);
+ * const issues = validatePortfolio(selections, quest);
+ * if (issues.length === 0) await client.selectPortfolio(signer, quest.questId, selections);
+ * ```
+ */
+
+import { Amount } from "./amount";
+import { normalizeAddress } from "./events";
+import type { Quest, TokenSelection } from "./resources";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Bounds checked by `select_portfolio` (ERR_INVALID_PORTFOLIO_SIZE) */
+export const MIN_PORTFOLIO_TOKENS = 1;
+export const MAX_PORTFOLIO_TOKENS = 5;
+
+export const USDC_DECIMALS = 6;
+
+/** Weights are resolved to this many steps per unit, e.g. 12.34% */
+const WEIGHT_PRECISION = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Allocation {
+  tokenAddress: string;
+
+  /** Relative share of the budget; percentages, slider positions, ... */
+  weight: number;
+}
+
+export type PortfolioIssueCode =
+  | "size"
+  | "duplicate-token"
+  | "invalid-address"
+  | "zero-amount"
+  | "quest-not-active"
+  | "buy-in-closed";
+
+export interface PortfolioIssue {
+  code: PortfolioIssueCode;
+  message: string;
+
+  /** Offending token, when the issue is about one selection */
+  tokenAddress?: string;
+}
+
+// ============================================================================
+// AMOUNTS
+// ============================================================================
+
+/**
+ * Parse a human USDC amount ("12.5") into base units
+ *
+ * @returns undefined for negative, malformed or over-precise amounts
+ */
+export function parseUsdc(value: string): bigint | undefined {
+  const amount = Amount.tryParse(value, USDC_DECIMALS);
+  return amount && !amount.isNegative() ? amount.raw : undefined;
+}
+
+/**
+ * Format USDC base units with up to 6 decimals, e.g. 12_500_000n -> "12.5"
+ */
+export function formatUsdc(amount: bigint): string {
+  return Amount.fromRaw(amount, USDC_DECIMALS).toString();
+}
+
+/**
+ * Split `budgetUsdc` across tokens in proportion to their weights
+ *
+ * Rounding leftovers go to the largest remainders (earlier tokens first on
+ * ties), so the amounts always sum to exactly `budgetUsdc`. Tokens with a
+ * zero weight get a zero amount; `validatePortfolio` reports them.
+ */
+export function allocateBudget(budgetUsdc: bigint, allocations: Allocation[]): TokenSelection[] {
+  const weights = allocations.map((allocation) => {
+    if (!Number.isFinite(allocation.weight) || allocation.weight < 0) {
+      throw new Error(`Invalid weight ${allocation.weight} for ${allocation.tokenAddress}`);
+    }
+    return BigInt(Math.round(allocation.weight * WEIGHT_PRECISION));
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (totalWeight === 0n) {
+    return allocations.map((allocation) => ({ tokenAddress: allocation.tokenAddress, amountUsdc: 0n }));
+  }
+
+  const amounts = weights.map((weight) => (budgetUsdc * weight) / totalWeight);
+  const remainders = weights.map((weight, index) => ({ index, remainder: (budgetUsdc * weight) % totalWeight }));
+  let leftover = budgetUsdc - amounts.reduce((sum, amount) => sum + amount, 0n);
+
+  remainders.sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1));
+  for (const { index } of remainders) {
+    if (leftover === 0n) break;
+    amounts[index] += 1n;
+    leftover -= 1n;
+  }
+
+  return allocations.map((allocation, index) => ({
+    tokenAddress: allocation.tokenAddress,
+    amountUsdc: amounts[index]
+  }));
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a portfolio before calling `select_portfolio`
+ *
+ * @param selections - Tokens and USDC amounts to submit
+ * @param quest - When given, also checks the quest still accepts portfolios
+ * @param now - Current time in seconds
+ * @returns Every rule the portfolio breaks (empty when it can be submitted)
+ */
+export function validatePortfolio(
+  selections: TokenSelection[],
+  quest?: Pick<Quest, "status" | "buyInTime">,
+  now: number = Math.floor(Date.now() / 1000)
+): PortfolioIssue[] {
+  const issues: PortfolioIssue[] = [];
+
+  if (selections.length < MIN_PORTFOLIO_TOKENS || selections.length > MAX_PORTFOLIO_TOKENS) {
+    issues.push({
+      code: "size",
+      message: `Pick between ${MIN_PORTFOLIO_TOKENS} and ${MAX_PORTFOLIO_TOKENS} tokens (got ${selections.length})`
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const selection of selections) {
+    if (!/^0x[0-9a-fA-F]{1,64}$/.test(selection.tokenAddress)) {
+      issues.push({
+        code: "invalid-address",
+        message: `"${selection.tokenAddress}" is not a token address`,
+        tokenAddress: selection.tokenAddress
+      });
+      continue;
+    }
+
+    const token = normalizeAddress(selection.tokenAddress);
+    if (seen.has(token)) {
+      issues.push({
+        code: "duplicate-token",
+        message: `${selection.tokenAddress} is selected more than once`,
+        tokenAddress: selection.tokenAddress
+      });
+    }
+    seen.add(token);
+
+    if (selection.amountUsdc <= 0n) {
+      issues.push({
+        code: "zero-amount",
+        message: `${selection.tokenAddress} has no USDC allocated`,
+        tokenAddress: selection.tokenAddress
+      });
+    }
+  }
+
+  if (quest && quest.status !== "Active") {
+    issues.push({ code: "quest-not-active", message: `Quest is ${quest.status}` });
+  }
+  if (quest && now >= quest.buyInTime) {
+    issues.push({
+      code: "buy-in-closed",
+      message: `Buy-in closed at ${new Date(quest.buyInTime * 1000).toISOString()}`
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,180 @@
+/**
+ * Blaze Launchpad V2 - Transaction Preflight
+ *
+ * Turns a fullnode simulation of an entry function call into a report:
+ * whether it would succeed, the decoded abort when it would not, the gas it
+ * would burn and what it would do to the sender's APT and pool token
+ * balances. `BlazeClient.submit` refuses to sign a call whose preflight
+ * failed. Nothing is imported from the SDK, so the frontend can share this
+ * module.
+ *
+ * @example
+ * ```typescript
+ * const preflight = await blaze.preflight(sender, data);
+ * if (!preflight.success) console.error(preflight.error?.message);
+ *
+ * // Submit even if the simulation fails
+ * await blaze.submit(signer, data, "report");
+ * ```
+ */
+
+import { LaunchpadEvent, RawEvent, decodeLaunchpadEvents, normalizeAddress } from "./events";
+import { BlazeModuleAddresses, decodeBlazeError, parseMoveAbort } from "./errors";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What `BlazeClient.submit` does with the simulation: refuse to submit a
+ * failing call ("enforce"), attach it to the result but submit anyway
+ * ("report"), or skip it ("off")
+ */
+export type PreflightMode = "enforce" | "report" | "off";
+
+/** Asset key used for APT in `balanceChanges` */
+export const APT_ASSET = "APT";
+
+/** Fields of a simulated user transaction the report is built from */
+export interface SimulatedTransaction {
+  success: boolean;
+  vm_status: string;
+  gas_used: string;
+  gas_unit_price: string;
+  max_gas_amount?: string;
+  events?: RawEvent[];
+}
+
+export interface BalanceChange {
+  /** `APT_ASSET`, or the pool (token metadata) address */
+  asset: string;
+
+  /** Change to the sender's balance in base units, negative when spent */
+  amount: bigint;
+}
+
+export interface Preflight {
+  /** Whether the VM would execute the call */
+  success: boolean;
+
+  /** Raw VM status, e.g. "Executed successfully" */
+  vmStatus: string;
+
+  /** Decoded abort when the call would fail (a BlazeError for Blaze modules) */
+  error?: Error;
+
+  /** Gas units the call would use */
+  gasUsed: bigint;
+
+  /** Estimated price per gas unit, in octas */
+  gasUnitPrice: bigint;
+
+  /** `gasUsed * gasUnitPrice`, in octas */
+  gasFee: bigint;
+
+  /** launchpad_v2 events the call would emit */
+  events: LaunchpadEvent[];
+
+  /** Expected changes to the sender's balances, gas included, APT first */
+  balanceChanges: BalanceChange[];
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Thrown instead of submitting a call whose preflight failed
+ */
+export class PreflightError extends Error {
+  readonly preflight: Preflight;
+
+  constructor(preflight: Preflight) {
+    super(`Transaction would fail: ${preflight.error?.message ?? preflight.vmStatus}`);
+    this.name = "PreflightError";
+    this.preflight = preflight;
+  }
+}
+
+// ============================================================================
+// DECODING
+// ============================================================================
+
+/**
+ * Error for a failed simulation: the typed BlazeError for Blaze aborts,
+ * a named abort for framework modules (e.g. `fungible_asset::EINSUFFICIENT_BALANCE`),
+ * or the VM status itself (e.g. OUT_OF_GAS)
+ */
+function simulationError(vmStatus: string, addresses: BlazeModuleAddresses): Error {
+  const decoded = decodeBlazeError(vmStatus, addresses);
+  if (decoded) {
+    return decoded;
+  }
+  const abort = parseMoveAbort(vmStatus);
+  if (abort) {
+    return new Error(`${abort.module} aborted with ${abort.name ?? `code ${abort.code}`}`);
+  }
+  return new Error(vmStatus);
+}
+
+/**
+ * Sender balance changes implied by the launchpad events and the gas fee
+ */
+function balanceChangesOf(events: LaunchpadEvent[], sender: string, gasFee: bigint): BalanceChange[] {
+  const changes = new Map<string, bigint>([[APT_ASSET, -gasFee]]);
+  const add = (asset: string, amount: bigint) => changes.set(asset, (changes.get(asset) ?? 0n) + amount);
+
+  for (const event of events) {
+    switch (event.type) {
+      case "CreatePoolEvent":
+        if (normalizeAddress(event.creator) === sender) add(APT_ASSET, -event.initialReserve);
+        break;
+      case "BuyEvent":
+        if (normalizeAddress(event.buyer) === sender) {
+          add(APT_ASSET, -event.aptSpent);
+          add(event.poolId, event.tokensReceived);
+        }
+        break;
+      case "SellEvent":
+        if (normalizeAddress(event.seller) === sender) {
+          add(APT_ASSET, event.aptReceived);
+          add(event.poolId, -event.tokensSold);
+        }
+        break;
+    }
+  }
+
+  return [...changes].map(([asset, amount]) => ({ asset, amount }));
+}
+
+/**
+ * Build a preflight report from a simulated transaction
+ *
+ * @param simulation - First entry of `aptos.transaction.simulate.simple`
+ * @param sender - Address the call was simulated for
+ * @param contractAddress - Address the launchpad_v2 module is published at
+ * @param addresses - Where each module is published, to decode aborts (default: the launchpad at contractAddress)
+ */
+export function decodeSimulation(
+  simulation: SimulatedTransaction,
+  sender: string,
+  contractAddress: string,
+  addresses: BlazeModuleAddresses = { launchpad: contractAddress, launchpad_v2: contractAddress }
+): Preflight {
+  const gasUsed = BigInt(simulation.gas_used);
+  const gasUnitPrice = BigInt(simulation.gas_unit_price);
+  const gasFee = gasUsed * gasUnitPrice;
+  // Failed simulations discard their events; only the gas is charged
+  const events = simulation.success ? decodeLaunchpadEvents(simulation, contractAddress) : [];
+
+  return {
+    success: simulation.success,
+    vmStatus: simulation.vm_status,
+    error: simulation.success ? undefined : simulationError(simulation.vm_status, addresses),
+    gasUsed,
+    gasUnitPrice,
+    gasFee,
+    events,
+    balanceChanges: balanceChangesOf(events, normalizeAddress(sender), gasFee)
+  };
+}
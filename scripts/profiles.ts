@@ -0,0 +1,144 @@
+/**
+ * Blaze Launchpad V2 - Aptos CLI Profiles (Node only)
+ *
+ * Reads signing keys from the Aptos CLI `config.yaml` or the environment.
+ * Kept out of blaze-sdk.ts because it needs `fs`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import YAML from 'yaml';
+import { AccountSigner } from './signer';
+
+/** Profiles tried, in order, when none is named */
+export const DEFAULT_PROFILES = ['blazev2-testnet', 'testnet', 'default'];
+
+/** Environment variable read by `envSigner` and `resolveSigner` */
+export const PRIVATE_KEY_ENV = 'PRIVATE_KEY';
+
+export interface AptosProfile {
+  /** Profile name in config.yaml */
+  name: string;
+
+  /** config.yaml the profile was read from */
+  configPath: string;
+  privateKey?: string;
+  account?: string;
+  network?: string;
+}
+
+export interface ResolveSignerOptions {
+  /** Profile to use; when omitted DEFAULT_PROFILES, then the first profile, are tried */
+  profile?: string;
+
+  /** Environment variable checked before any profile (default: PRIVATE_KEY) */
+  envVar?: string;
+}
+
+/**
+ * Locate the Aptos CLI config: `./.aptos`, then `../.aptos` (when running
+ * from scripts/), then `~/.aptos`
+ */
+export function findConfigPath(): string | null {
+  const candidates = [
+    path.join(process.cwd(), '.aptos', 'config.yaml'),
+    path.join(process.cwd(), '..', '.aptos', 'config.yaml'),
+    path.join(os.homedir(), '.aptos', 'config.yaml')
+  ];
+  return candidates.find((candidate) => fs.existsSync(candidate)) ?? null;
+}
+
+interface ConfigProfile {
+  private_key?: string;
+  account?: string;
+  network?: string;
+}
+
+function readProfiles(): { configPath: string; profiles: Record<string, ConfigProfile> } | null {
+  const configPath = findConfigPath();
+  if (!configPath) return null;
+
+  const config = YAML.parse(fs.readFileSync(configPath, 'utf8'));
+  if (!config?.profiles) return null;
+
+  return { configPath, profiles: config.profiles };
+}
+
+/**
+ * Names of all profiles in the Aptos CLI config
+ */
+export function listAptosProfiles(): string[] {
+  return Object.keys(readProfiles()?.profiles ?? {});
+}
+
+/**
+ * Read a profile from the Aptos CLI config
+ *
+ * A named profile must exist. Without a name, DEFAULT_PROFILES are tried
+ * in order, then the first profile in the file.
+ *
+ * @returns The profile, or null when there is no config or no match
+ */
+export function readAptosProfile(profileName?: string): AptosProfile | null {
+  const config = readProfiles();
+  if (!config) return null;
+
+  const name = profileName
+    ? (config.profiles[profileName] ? profileName : undefined)
+    : DEFAULT_PROFILES.find((profile) => config.profiles[profile]) ?? Object.keys(config.profiles)[0];
+  if (!name) return null;
+
+  const profile = config.profiles[name];
+  return {
+    name,
+    configPath: config.configPath,
+    privateKey: profile.private_key,
+    account: profile.account,
+    network: profile.network
+  };
+}
+
+/**
+ * Signer for an Aptos CLI profile
+ *
+ * @throws Error when the config, the profile or its private key is missing
+ */
+export function profileSigner(profileName?: string): AccountSigner {
+  const profile = readAptosProfile(profileName);
+  if (!profile) {
+    throw new Error(
+      profileName
+        ? `Aptos CLI profile "${profileName}" not found`
+        : 'No Aptos CLI config found in ./.aptos, ../.aptos or ~/.aptos (run: aptos init --profile testnet --network testnet)'
+    );
+  }
+  if (!profile.privateKey) {
+    throw new Error(`Aptos CLI profile "${profile.name}" has no private key`);
+  }
+  return AccountSigner.fromPrivateKey(profile.privateKey, `profile ${profile.name} (${profile.configPath})`);
+}
+
+/**
+ * Signer for a private key held in an environment variable
+ *
+ * @throws Error when the variable is unset
+ */
+export function envSigner(variable: string = PRIVATE_KEY_ENV): AccountSigner {
+  const privateKey = process.env[variable];
+  if (!privateKey) {
+    throw new Error(`${variable} environment variable is not set`);
+  }
+  return AccountSigner.fromPrivateKey(privateKey, `${variable} environment variable`);
+}
+
+/**
+ * Signer used by the scripts: the env var if set, otherwise a CLI profile
+ */
+export function resolveSigner(options: ResolveSignerOptions = {}): AccountSigner {
+  const variable = options.envVar ?? PRIVATE_KEY_ENV;
+  if (process.env[variable]) {
+    return envSigner(variable);
+  }
+  return profileSigner(options.profile);
+}
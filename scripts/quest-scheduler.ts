@@ -0,0 +1,427 @@
+/**
+ * Blaze Quests - Lifecycle Scheduler
+ *
+ * Polls `get_all_quests`, works out which phase each quest is in and sends
+ * notifications when buy-in closes and when results are due. quest_staking
+ * has no entry function to close a quest, so a quest stays `Active` on
+ * chain until `declare_winner`; the phase is derived from the clock.
+ *
+ * With `autoDeclare` set, quests whose result time has passed are scored
+ * with `scoreQuest` and the winner is submitted with the configured admin
+ * signer, or only reported when `dryRun` is on. `declare_winner` cannot be
+ * undone, so a ranking with unpriced tokens is reported instead of
+ * submitted, and a failed attempt is retried on the next poll. The clock
+ * is injectable so the whole lifecycle can be driven by a `FakeClock`
+ * without waiting.
+ *
+ * @example
+ * ```typescript
+ * import { ConsoleNotifier, QuestScheduler } from './quest-scheduler';
+ *
+ * const scheduler = new QuestScheduler({
+ *   client,
+ *   notifiers: [new ConsoleNotifier()],
+ *   autoDeclare: { signer, priceSource: async () => HistoricalPriceSource.fromTrades(trades) },
+ *   dryRun: true,
+ * });
+ * await scheduler.run();
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { BlazeClient, TransactionResult } from "./client";
+import { getErrorMessage } from "./errors";
+import { Leaderboard, PriceSource, scoreQuest } from "./quest-scoring";
+import type { Quest } from "./resources";
+import type { TransactionSigner } from "./signer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Where a quest is in its lifecycle
+ *
+ * - `open`: accepting participants and portfolios
+ * - `running`: buy-in closed, waiting for `result_time`
+ * - `awaiting-result`: `result_time` passed, no winner declared yet
+ * - `completed` / `cancelled`: final on-chain status
+ */
+export type QuestPhase = "open" | "running" | "awaiting-result" | "completed" | "cancelled";
+
+export type QuestNotificationKind =
+  | "buy-in-closed"
+  | "result-due"
+  | "winner-proposed"
+  | "winner-declared"
+  | "declare-failed";
+
+export interface QuestNotification {
+  kind: QuestNotificationKind;
+  quest: Quest;
+
+  /** One-line summary for humans */
+  message: string;
+
+  /** Scheduler time the notification was raised, in seconds */
+  at: number;
+
+  /** Ranking behind `winner-proposed` / `winner-declared` */
+  leaderboard?: Leaderboard;
+
+  /** Transaction behind `winner-declared` */
+  transaction?: TransactionResult;
+}
+
+/**
+ * Time source; seconds, like on-chain timestamps
+ */
+export interface Clock {
+  now(): number;
+  sleep(seconds: number): Promise<void>;
+}
+
+/**
+ * Delivers notifications somewhere
+ */
+export interface Notifier {
+  notify(notification: QuestNotification): Promise<void>;
+}
+
+/** Client methods the scheduler needs; a `BlazeClient` satisfies it */
+export type QuestSchedulerClient = Pick<BlazeClient, "getAllQuests" | "getParticipations" | "declareWinner">;
+
+export interface AutoDeclareOptions {
+  /** Quest admin account that signs `declare_winner`; required unless `dryRun` */
+  signer?: TransactionSigner;
+
+  /** Prices used to score a quest, e.g. from a freshly synced trade index */
+  priceSource(quest: Quest): Promise<PriceSource>;
+}
+
+export interface QuestSchedulerOptions {
+  client: QuestSchedulerClient;
+  notifiers: Notifier[];
+
+  /** Default: `SystemClock` */
+  clock?: Clock;
+
+  /** Seconds between polls (default: 60) */
+  pollSeconds?: number;
+
+  /** Score and declare winners once results are due */
+  autoDeclare?: AutoDeclareOptions;
+
+  /** Report the winner `autoDeclare` would submit without submitting it */
+  dryRun?: boolean;
+}
+
+// ============================================================================
+// CLOCKS
+// ============================================================================
+
+export class SystemClock implements Clock {
+  now(): number {
+    return Math.floor(Date.now() / 1000);
+  }
+
+  sleep(seconds: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+  }
+}
+
+/**
+ * Clock that only moves when told to; `sleep` advances it instantly
+ */
+export class FakeClock implements Clock {
+  private current: number;
+
+  constructor(start: number) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  advance(seconds: number): void {
+    this.current += seconds;
+  }
+
+  set(timestamp: number): void {
+    this.current = timestamp;
+  }
+
+  async sleep(seconds: number): Promise<void> {
+    this.advance(seconds);
+  }
+}
+
+// ============================================================================
+// NOTIFIERS
+// ============================================================================
+
+export class ConsoleNotifier implements Notifier {
+  async notify(notification: QuestNotification): Promise<void> {
+    const icon = {
+      "buy-in-closed": "🔒",
+      "result-due": "⏰",
+      "winner-proposed": "🧪",
+      "winner-declared": "🏆",
+      "declare-failed": "❌"
+    }[notification.kind];
+    console.log(`${icon} [${new Date(notification.at * 1000).toISOString()}] ${notification.message}`);
+  }
+}
+
+/**
+ * POSTs each notification as JSON (bigints as strings)
+ */
+export class WebhookNotifier implements Notifier {
+  constructor(private readonly url: string) {}
+
+  async notify(notification: QuestNotification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(notification, (_key, value) => (typeof value === 'bigint' ? value.toString() : value))
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook ${this.url} responded ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Stand-in for email: writes one `.eml` file per notification to a
+ * directory that a mail relay (or a human) can pick up
+ */
+export class OutboxNotifier implements Notifier {
+  constructor(private readonly directory: string, private readonly to: string = 'quest-admin@localhost') {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async notify(notification: QuestNotification): Promise<void> {
+    const file = path.join(
+      this.directory,
+      `${notification.at}-quest-${notification.quest.questId}-${notification.kind}.eml`
+    );
+    const body = [
+      `To: ${this.to}`,
+      `Subject: [Quest #${notification.quest.questId}] ${notification.kind}`,
+      `Date: ${new Date(notification.at * 1000).toUTCString()}`,
+      '',
+      notification.message,
+      ''
+    ];
+    fs.writeFileSync(file, body.join('\n'));
+  }
+}
+
+/**
+ * Keeps notifications in memory, for tests and dry runs
+ */
+export class MemoryNotifier implements Notifier {
+  readonly notifications: QuestNotification[] = [];
+
+  async notify(notification: QuestNotification): Promise<void> {
+    this.notifications.push(notification);
+  }
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Phase of a quest at `now` (seconds)
+ */
+export function questPhase(quest: Pick<Quest, "status" | "buyInTime" | "resultTime">, now: number): QuestPhase {
+  if (quest.status === "Completed") return "completed";
+  if (quest.status === "Cancelled") return "cancelled";
+  if (now < quest.buyInTime) return "open";
+  if (now < quest.resultTime) return "running";
+  return "awaiting-result";
+}
+
+export class QuestScheduler {
+  private readonly client: QuestSchedulerClient;
+  private readonly notifiers: Notifier[];
+  private readonly clock: Clock;
+  private readonly pollSeconds: number;
+  private readonly autoDeclare?: AutoDeclareOptions;
+  private readonly dryRun: boolean;
+
+  /** Last phase seen per quest id */
+  private readonly phases = new Map<number, QuestPhase>();
+
+  /** Quests a winner was already proposed or submitted for */
+  private readonly declared = new Set<number>();
+
+  /** Last `declare-failed` message per quest, so a retry failing alike is not re-reported */
+  private readonly failures = new Map<number, string>();
+  private stopped = false;
+
+  constructor(options: QuestSchedulerOptions) {
+    this.client = options.client;
+    this.notifiers = options.notifiers;
+    this.clock = options.clock ?? new SystemClock();
+    this.pollSeconds = options.pollSeconds ?? 60;
+    this.autoDeclare = options.autoDeclare;
+    this.dryRun = options.dryRun ?? false;
+
+    if (this.autoDeclare && !this.autoDeclare.signer && !this.dryRun) {
+      throw new Error("autoDeclare.signer is required unless dryRun is set");
+    }
+  }
+
+  /**
+   * Last phase seen for a quest
+   */
+  getPhase(questId: number): QuestPhase | undefined {
+    return this.phases.get(questId);
+  }
+
+  /**
+   * Poll once: notify about phase changes and handle due results
+   *
+   * Transitions that happened before the scheduler first saw a quest are
+   * not replayed, except that a quest already awaiting its result still
+   * gets a `result-due` reminder.
+   *
+   * @returns Notifications raised by this poll
+   */
+  async tick(): Promise<QuestNotification[]> {
+    const now = this.clock.now();
+    const quests = await this.client.getAllQuests();
+    const raised: QuestNotification[] = [];
+
+    for (const quest of quests) {
+      const previous = this.phases.get(quest.questId);
+      const phase = questPhase(quest, now);
+      this.phases.set(quest.questId, phase);
+
+      if (phase === previous) {
+        if (phase === "awaiting-result") await this.settle(quest, now, raised);
+        continue;
+      }
+
+      if (previous === "open" && phase !== "open") {
+        raised.push({
+          kind: "buy-in-closed",
+          quest,
+          at: now,
+          message: `Quest #${quest.questId} "${quest.name}" closed buy-in with ${quest.participants.length} participants`
+        });
+      }
+      if (phase === "awaiting-result") {
+        raised.push({
+          kind: "result-due",
+          quest,
+          at: now,
+          message: `Quest #${quest.questId} "${quest.name}" is ready for declare_winner`
+        });
+        await this.settle(quest, now, raised);
+      }
+    }
+
+    for (const notification of raised) {
+      await this.deliver(notification);
+    }
+    return raised;
+  }
+
+  /**
+   * Poll until `stop()` is called (or `maxTicks` polls have run)
+   */
+  async run(maxTicks: number = Infinity): Promise<void> {
+    this.stopped = false;
+    for (let ticks = 0; ticks < maxTicks && !this.stopped; ticks++) {
+      try {
+        await this.tick();
+      } catch (error) {
+        console.error(`❌ Quest poll failed: ${getErrorMessage(error, 'unknown error')}`);
+      }
+      if (ticks + 1 < maxTicks && !this.stopped) {
+        await this.clock.sleep(this.pollSeconds);
+      }
+    }
+  }
+
+  stop(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * Score a quest whose result is due and propose or submit its winner
+   *
+   * Retried on every poll until a winner is proposed or submitted; a
+   * failure is only reported again when its reason changes.
+   */
+  private async settle(quest: Quest, now: number, raised: QuestNotification[]): Promise<void> {
+    if (!this.autoDeclare || this.declared.has(quest.questId)) return;
+
+    const fail = (message: string, leaderboard?: Leaderboard) => {
+      if (this.failures.get(quest.questId) === message) return;
+      this.failures.set(quest.questId, message);
+      raised.push({ kind: "declare-failed", quest, at: now, leaderboard, message });
+    };
+
+    try {
+      const participations = await this.client.getParticipations(quest.questId);
+      const leaderboard = await scoreQuest(quest, participations, await this.autoDeclare.priceSource(quest));
+      if (!leaderboard.winner) {
+        fail(`Quest #${quest.questId} has no participant with a portfolio; declare a winner manually`, leaderboard);
+        return;
+      }
+
+      // Unpriced allocations are held flat, so the ranking may be wrong
+      const unpriced =
+        leaderboard.unpricedTokens.length > 0 ? ` with no price for ${leaderboard.unpricedTokens.join(", ")}` : "";
+
+      if (this.dryRun) {
+        this.declared.add(quest.questId);
+        raised.push({
+          kind: "winner-proposed",
+          quest,
+          at: now,
+          leaderboard,
+          message: `Quest #${quest.questId} winner would be ${leaderboard.winner}${unpriced} (dry run, not submitted)`
+        });
+        return;
+      }
+
+      if (unpriced) {
+        fail(`Quest #${quest.questId} not declared: ranking${unpriced}; waiting for prices`, leaderboard);
+        return;
+      }
+
+      const transaction = await this.client.declareWinner(this.autoDeclare.signer!, quest.questId, leaderboard.winner);
+      this.declared.add(quest.questId);
+      raised.push({
+        kind: "winner-declared",
+        quest,
+        at: now,
+        leaderboard,
+        transaction,
+        message: `Quest #${quest.questId} winner ${leaderboard.winner} declared: ${transaction.explorerUrl}`
+      });
+    } catch (error) {
+      fail(`Quest #${quest.questId} could not be settled: ${getErrorMessage(error, 'unknown error')}`);
+    }
+  }
+
+  /**
+   * Hand a notification to every notifier; one failing does not stop the rest
+   */
+  private async deliver(notification: QuestNotification): Promise<void> {
+    for (const notifier of this.notifiers) {
+      try {
+        await notifier.notify(notification);
+      } catch (error) {
+        console.error(`❌ ${notifier.constructor.name} failed: ${getErrorMessage(error, 'unknown error')}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Blaze Quests - Portfolio Scoring
+ *
+ * Ranks quest participants by how their portfolio performed between the
+ * quest's `buy_in_time` and `result_time`. Each `TokenSelection` is valued
+ * at `amount_usdc * endPrice / startPrice`; participants are ordered by
+ * the ratio of end to start value, with ties broken by earliest
+ * `selected_at`, then earliest `joined_at`, then address. Portfolios with
+ * nothing allocated have no return and are left unscored. Pure apart from
+ * the pluggable `PriceSource`, and shared with the frontend.
+ *
+ * @example
+ * ```typescript
+ * import { HistoricalPriceSource, scoreQuest } from './quest-scoring';
+ *
+ * const prices = HistoricalPriceSource.fromTrades(indexer.getTrades(poolId));
+ * const leaderboard = await scoreQuest(quest, participations, prices);
+ * await client.declareWinner(signer, quest.questId, leaderboard.winner!);
+ * ```
+ */
+
+import { normalizeAddress } from "./events";
+import type { Participation, Quest } from "./resources";
+import type { Trade } from "./trades";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Basis points in 100% */
+const BPS = 10_000n;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Token prices over time. Any consistent unit works (APT per token scaled
+ * by 1e8, USD cents, ...) since only the ratio between two snapshots of
+ * the same token is used.
+ */
+export interface PriceSource {
+  /**
+   * Latest price of `tokenAddress` at or before `timestamp` (seconds)
+   *
+   * @returns undefined when no price is known yet
+   */
+  getPrice(tokenAddress: string, timestamp: number): Promise<bigint | undefined>;
+}
+
+export interface PricePoint {
+  tokenAddress: string;
+
+  /** Seconds */
+  timestamp: number;
+  price: bigint;
+}
+
+/** Prices of each token at the two snapshot times, keyed by normalized address */
+export interface PriceSnapshots {
+  start: Map<string, bigint>;
+  end: Map<string, bigint>;
+}
+
+export interface ScoredSelection {
+  tokenAddress: string;
+
+  /** Allocation in USDC base units */
+  amountUsdc: bigint;
+  startPrice?: bigint;
+  endPrice?: bigint;
+
+  /** Allocation revalued at the end price, in USDC base units */
+  endValueUsdc: bigint;
+
+  /** False when a snapshot was missing and the allocation was held flat */
+  priced: boolean;
+}
+
+export interface LeaderboardEntry {
+  /** 1-based position */
+  rank: number;
+  user: string;
+
+  /** Portfolio value at buy-in, in USDC base units */
+  startValueUsdc: bigint;
+
+  /** Portfolio value at result time, in USDC base units */
+  endValueUsdc: bigint;
+
+  /** Return in basis points (rounded toward zero; ranking uses the exact ratio) */
+  returnBps: bigint;
+
+  /** Seconds */
+  selectedAt: number;
+
+  /** Seconds */
+  joinedAt: number;
+  selections: ScoredSelection[];
+}
+
+export interface Leaderboard {
+  questId: number;
+
+  /** Snapshot times in seconds */
+  startTime: number;
+  endTime: number;
+
+  /** Ranked participants with a portfolio */
+  entries: LeaderboardEntry[];
+
+  /** Participants that never selected a portfolio, or allocated nothing in it */
+  unscored: string[];
+
+  /** Tokens missing a start or end price; their allocations count at face value */
+  unpricedTokens: string[];
+
+  /** Address to pass to `declare_winner`, if anyone is ranked */
+  winner?: string;
+}
+
+// ============================================================================
+// PRICE SOURCES
+// ============================================================================
+
+/**
+ * Price source backed by a list of historical price points, e.g. launchpad_v2
+ * trades from the pool indexer
+ */
+export class HistoricalPriceSource implements PriceSource {
+  private readonly points = new Map<string, PricePoint[]>();
+
+  constructor(points: PricePoint[]) {
+    for (const point of points) {
+      const token = normalizeAddress(point.tokenAddress);
+      const series = this.points.get(token) ?? [];
+      series.push(point);
+      this.points.set(token, series);
+    }
+    for (const series of this.points.values()) {
+      series.sort((a, b) => a.timestamp - b.timestamp);
+    }
+  }
+
+  /**
+   * Use the `new_price` of each trade as the token's price at that time
+   */
+  static fromTrades(trades: Trade[]): HistoricalPriceSource {
+    return new HistoricalPriceSource(
+      trades.map((trade) => ({ tokenAddress: trade.poolId, timestamp: trade.timestamp, price: trade.price }))
+    );
+  }
+
+  async getPrice(tokenAddress: string, timestamp: number): Promise<bigint | undefined> {
+    const series = this.points.get(normalizeAddress(tokenAddress));
+    if (!series) return undefined;
+
+    let price: bigint | undefined;
+    for (const point of series) {
+      if (point.timestamp > timestamp) break;
+      price = point.price;
+    }
+    return price;
+  }
+}
+
+/**
+ * Price source for live standings: timestamps at or after "now" are priced
+ * with `getCurrentPrice` (e.g. the `get_current_price` view), earlier ones
+ * are delegated to `history`
+ */
+export class LivePriceSource implements PriceSource {
+  private readonly history: PriceSource;
+  private readonly getCurrentPrice: (tokenAddress: string) => Promise<bigint | undefined>;
+  private readonly now: () => number;
+
+  constructor(
+    history: PriceSource,
+    getCurrentPrice: (tokenAddress: string) => Promise<bigint | undefined>,
+    now: () => number = () => Math.floor(Date.now() / 1000)
+  ) {
+    this.history = history;
+    this.getCurrentPrice = getCurrentPrice;
+    this.now = now;
+  }
+
+  async getPrice(tokenAddress: string, timestamp: number): Promise<bigint | undefined> {
+    if (timestamp >= this.now()) {
+      return this.getCurrentPrice(tokenAddress);
+    }
+    return this.history.getPrice(tokenAddress, timestamp);
+  }
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function scoreSelections(participation: Participation, prices: PriceSnapshots): ScoredSelection[] {
+  return (participation.portfolio?.tokens ?? []).map((selection) => {
+    const token = normalizeAddress(selection.tokenAddress);
+    const startPrice = prices.start.get(token);
+    const endPrice = prices.end.get(token);
+    const priced = startPrice !== undefined && endPrice !== undefined && startPrice > 0n;
+    return {
+      tokenAddress: selection.tokenAddress,
+      amountUsdc: selection.amountUsdc,
+      startPrice,
+      endPrice,
+      endValueUsdc: priced ? (selection.amountUsdc * endPrice) / startPrice : selection.amountUsdc,
+      priced
+    };
+  });
+}
+
+/**
+ * Order two entries: higher return first, then earlier selection, then
+ * earlier join, then lower address. Entries with a zero start value have no
+ * return and come last.
+ */
+export function compareEntries(
+  a: Omit<LeaderboardEntry, "rank">,
+  b: Omit<LeaderboardEntry, "rank">
+): number {
+  // Cross-multiplying by a zero start value would tie it with every entry
+  const emptyA = a.startValueUsdc === 0n;
+  const emptyB = b.startValueUsdc === 0n;
+  if (emptyA !== emptyB) return emptyA ? 1 : -1;
+  // Compare endA / startA with endB / startB without dividing
+  const left = a.endValueUsdc * b.startValueUsdc;
+  const right = b.endValueUsdc * a.startValueUsdc;
+  if (left !== right) return left > right ? -1 : 1;
+  if (a.selectedAt !== b.selectedAt) return a.selectedAt - b.selectedAt;
+  if (a.joinedAt !== b.joinedAt) return a.joinedAt - b.joinedAt;
+  const userA = normalizeAddress(a.user);
+  const userB = normalizeAddress(b.user);
+  return userA < userB ? -1 : userA > userB ? 1 : 0;
+}
+
+/**
+ * Rank participations against known price snapshots
+ */
+export function rankParticipants(
+  quest: Pick<Quest, "questId" | "buyInTime" | "resultTime">,
+  participations: Participation[],
+  prices: PriceSnapshots
+): Leaderboard {
+  const unscored: string[] = [];
+  const unpriced = new Set<string>();
+  const scored: Array<Omit<LeaderboardEntry, "rank">> = [];
+
+  for (const participation of participations) {
+    if (!participation.portfolio || participation.portfolio.tokens.length === 0) {
+      unscored.push(participation.user);
+      continue;
+    }
+
+    const selections = scoreSelections(participation, prices);
+    const startValueUsdc = selections.reduce((sum, selection) => sum + selection.amountUsdc, 0n);
+    const endValueUsdc = selections.reduce((sum, selection) => sum + selection.endValueUsdc, 0n);
+    // select_portfolio accepts zero amounts, which leave no return to rank
+    if (startValueUsdc === 0n) {
+      unscored.push(participation.user);
+      continue;
+    }
+    for (const selection of selections) {
+      if (!selection.priced) unpriced.add(normalizeAddress(selection.tokenAddress));
+    }
+    scored.push({
+      user: participation.user,
+      startValueUsdc,
+      endValueUsdc,
+      returnBps: ((endValueUsdc - startValueUsdc) * BPS) / startValueUsdc,
+      selectedAt: participation.portfolio.selectedAt,
+      joinedAt: participation.joinedAt,
+      selections
+    });
+  }
+
+  const entries = scored.sort(compareEntries).map((entry, index) => ({ rank: index + 1, ...entry }));
+
+  return {
+    questId: quest.questId,
+    startTime: quest.buyInTime,
+    endTime: quest.resultTime,
+    entries,
+    unscored,
+    unpricedTokens: [...unpriced],
+    winner: entries[0]?.user
+  };
+}
+
+/**
+ * Fetch price snapshots at buy-in and result time for every selected token
+ */
+export async function fetchPriceSnapshots(
+  quest: Pick<Quest, "buyInTime" | "resultTime">,
+  participations: Participation[],
+  source: PriceSource
+): Promise<PriceSnapshots> {
+  const tokens = new Set<string>();
+  for (const participation of participations) {
+    for (const selection of participation.portfolio?.tokens ?? []) {
+      tokens.add(normalizeAddress(selection.tokenAddress));
+    }
+  }
+
+  const snapshots: PriceSnapshots = { start: new Map(), end: new Map() };
+  await Promise.all(
+    [...tokens].map(async (token) => {
+      const [start, end] = await Promise.all([
+        source.getPrice(token, quest.buyInTime),
+        source.getPrice(token, quest.resultTime)
+      ]);
+      if (start !== undefined) snapshots.start.set(token, start);
+      if (end !== undefined) snapshots.end.set(token, end);
+    })
+  );
+  return snapshots;
+}
+
+/**
+ * Score a quest end to end: fetch snapshots from `source`, then rank
+ */
+export async function scoreQuest(
+  quest: Pick<Quest, "questId" | "buyInTime" | "resultTime">,
+  participations: Participation[],
+  source: PriceSource
+): Promise<Leaderboard> {
+  const snapshots = await fetchPriceSnapshots(quest, participations, source);
+  return rankParticipants(quest, participations, snapshots);
+}
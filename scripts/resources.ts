@@ -0,0 +1,391 @@
+/**
+ * Blaze Launchpad V2 - Typed Resources
+ *
+ * Typed views of the structs returned by `launchpad_v2` and `quest_staking`
+ * view functions, plus decoders from the fullnode's JSON encoding: u64 as
+ * decimal strings, `Option<T>` as `{ vec: [] | [T] }`, `Object<T>` as
+ * `{ inner }` and Move 2 enums as `{ __variant__ }`. Quest decoders validate
+ * the response shape and throw `ResourceDecodeError` rather than returning
+ * half-decoded values. SDK-free so the frontend can share it.
+ */
+
+import type { BancorCurve } from "./bancor";
+
+// ============================================================================
+// LAUNCHPAD TYPES
+// ============================================================================
+
+export interface SocialLinks {
+  website?: string;
+  twitter?: string;
+  telegram?: string;
+  discord?: string;
+}
+
+export interface TokenMetadata {
+  name: string;
+  ticker: string;
+  tokenImageUri: string;
+  description?: string;
+  socialLinks: SocialLinks;
+
+  /** Creation time in seconds */
+  createdAt: number;
+  creator: string;
+}
+
+export interface PoolSettings {
+  /** Market cap that triggers migration, in USD cents */
+  marketCapThresholdUsd: bigint;
+  hyperionPoolAddress?: string;
+  migrationCompleted: boolean;
+
+  /** Migration time in seconds */
+  migrationTimestamp?: number;
+  tradingEnabled: boolean;
+}
+
+export interface PoolInfo {
+  metadata: TokenMetadata;
+  curve: BancorCurve;
+  settings: PoolSettings;
+}
+
+export interface OracleData {
+  /** APT price in USD cents */
+  aptUsdPrice: bigint;
+
+  /** Last update in seconds */
+  lastUpdate: number;
+  oracleAddress: string;
+}
+
+// ============================================================================
+// QUEST TYPES
+// ============================================================================
+
+export const QUEST_STATUSES = ["Active", "Closed", "Completed", "Cancelled"] as const;
+
+export type QuestStatus = (typeof QUEST_STATUSES)[number];
+
+export interface Quest {
+  questId: number;
+  name: string;
+  admin: string;
+
+  /** Entry fee in octas */
+  entryFee: bigint;
+
+  /** Time the quest stops accepting participants, in seconds */
+  buyInTime: number;
+
+  /** Time results can be declared, in seconds */
+  resultTime: number;
+  status: QuestStatus;
+  participants: string[];
+
+  /** Entry fees collected, in octas */
+  totalPool: bigint;
+  winner?: string;
+
+  /** Creation time in seconds */
+  createdAt: number;
+}
+
+export interface TokenSelection {
+  tokenAddress: string;
+
+  /** Allocation in USDC base units (6 decimals) */
+  amountUsdc: bigint;
+}
+
+export interface Portfolio {
+  tokens: TokenSelection[];
+
+  /** Sum of allocations in USDC base units (6 decimals) */
+  totalValueUsdc: bigint;
+
+  /** Selection time in seconds */
+  selectedAt: number;
+}
+
+export interface Participation {
+  questId: number;
+  user: string;
+  portfolio?: Portfolio;
+
+  /** Entry fee paid, in octas */
+  entryFeePaid: bigint;
+
+  /** Join time in seconds */
+  joinedAt: number;
+}
+
+// ============================================================================
+// MOVE JSON ENCODING
+// ============================================================================
+
+export type MoveOption<T> = { vec: T[] };
+
+export interface MoveTokenMetadata {
+  name: string;
+  ticker: string;
+  token_image_uri: string;
+  description: MoveOption<string>;
+  social_links: {
+    website: MoveOption<string>;
+    twitter: MoveOption<string>;
+    telegram: MoveOption<string>;
+    discord: MoveOption<string>;
+  };
+  created_at: string;
+  creator: string;
+}
+
+export interface MoveBancorCurve {
+  reserve_ratio: string;
+  reserve_balance: string;
+  is_active: boolean;
+}
+
+export interface MovePoolSettings {
+  market_cap_threshold_usd: string;
+  hyperion_pool_address: MoveOption<string>;
+  migration_completed: boolean;
+  migration_timestamp: MoveOption<string>;
+  trading_enabled: boolean;
+}
+
+export interface MoveQuest {
+  quest_id: string;
+  name: string;
+  admin: string;
+  entry_fee: string;
+  buy_in_time: string;
+  result_time: string;
+  status: { __variant__: QuestStatus };
+  participants: string[];
+  total_pool: string;
+  winner: MoveOption<string>;
+  created_at: string;
+}
+
+export interface MoveParticipation {
+  quest_id: string;
+  user: string;
+  portfolio: MoveOption<{
+    tokens: Array<{ token_address: string; amount_usdc: string }>;
+    total_value_usdc: string;
+    selected_at: string;
+  }>;
+  entry_fee_paid: string;
+  joined_at: string;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * A view function returned a value that does not match the expected Move
+ * struct layout, e.g. after a contract upgrade or from a misconfigured address
+ */
+export class ResourceDecodeError extends Error {
+  /** Path of the offending field, e.g. "quest.status" */
+  readonly path: string;
+
+  /** Value found at `path` */
+  readonly value: unknown;
+
+  constructor(path: string, expected: string, value: unknown) {
+    super(`Malformed ${path}: expected ${expected}, got ${describe(value)}`);
+    this.name = "ResourceDecodeError";
+    this.path = path;
+    this.value = value;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  return typeof value;
+}
+
+const U64_PATTERN = /^\d+$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new ResourceDecodeError(path, "object", value);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new ResourceDecodeError(path, "array", value);
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new ResourceDecodeError(path, "string", value);
+  return value;
+}
+
+function expectAddress(value: unknown, path: string): string {
+  if (typeof value !== "string" || !ADDRESS_PATTERN.test(value)) {
+    throw new ResourceDecodeError(path, "address", value);
+  }
+  return value;
+}
+
+/**
+ * u64 values arrive as decimal strings; plain numbers are accepted for
+ * hand-built fixtures
+ */
+function expectU64(value: unknown, path: string): bigint {
+  if (typeof value === "string" && U64_PATTERN.test(value)) return BigInt(value);
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  throw new ResourceDecodeError(path, "u64 string", value);
+}
+
+/** u64 that fits in a JS number, e.g. ids and timestamps in seconds */
+function expectU64Number(value: unknown, path: string): number {
+  const decoded = expectU64(value, path);
+  if (decoded > BigInt(Number.MAX_SAFE_INTEGER)) throw new ResourceDecodeError(path, "safe integer", value);
+  return Number(decoded);
+}
+
+function expectOption<T>(value: unknown, path: string, decode: (inner: unknown, path: string) => T): T | undefined {
+  const vec = expectArray(expectObject(value, path).vec, `${path}.vec`);
+  if (vec.length > 1) throw new ResourceDecodeError(`${path}.vec`, "at most one element", vec);
+  return vec.length === 0 ? undefined : decode(vec[0], `${path}.vec[0]`);
+}
+
+function expectVariant<T extends string>(value: unknown, path: string, variants: readonly T[]): T {
+  const variant = expectObject(value, path).__variant__;
+  if (typeof variant !== "string" || !variants.includes(variant as T)) {
+    throw new ResourceDecodeError(`${path}.__variant__`, variants.join(" | "), variant);
+  }
+  return variant as T;
+}
+
+// ============================================================================
+// DECODERS
+// ============================================================================
+
+/**
+ * Unwrap a Move `Option<T>`
+ */
+export function unwrapOption<T>(option: MoveOption<T>): T | undefined {
+  return option.vec[0];
+}
+
+export function decodeTokenMetadata(raw: MoveTokenMetadata): TokenMetadata {
+  return {
+    name: raw.name,
+    ticker: raw.ticker,
+    tokenImageUri: raw.token_image_uri,
+    description: unwrapOption(raw.description),
+    socialLinks: {
+      website: unwrapOption(raw.social_links.website),
+      twitter: unwrapOption(raw.social_links.twitter),
+      telegram: unwrapOption(raw.social_links.telegram),
+      discord: unwrapOption(raw.social_links.discord)
+    },
+    createdAt: Number(raw.created_at),
+    creator: raw.creator
+  };
+}
+
+export function decodeBancorCurve(raw: MoveBancorCurve): BancorCurve {
+  return {
+    reserveRatio: BigInt(raw.reserve_ratio),
+    reserveBalance: BigInt(raw.reserve_balance),
+    isActive: raw.is_active
+  };
+}
+
+export function decodePoolSettings(raw: MovePoolSettings): PoolSettings {
+  const migrationTimestamp = unwrapOption(raw.migration_timestamp);
+  return {
+    marketCapThresholdUsd: BigInt(raw.market_cap_threshold_usd),
+    hyperionPoolAddress: unwrapOption(raw.hyperion_pool_address),
+    migrationCompleted: raw.migration_completed,
+    migrationTimestamp: migrationTimestamp !== undefined ? Number(migrationTimestamp) : undefined,
+    tradingEnabled: raw.trading_enabled
+  };
+}
+
+/**
+ * Decode a `quest_staking::Quest`
+ *
+ * @throws ResourceDecodeError if `raw` does not have the Quest layout
+ */
+export function decodeQuest(raw: unknown, path: string = "quest"): Quest {
+  const quest = expectObject(raw, path);
+  return {
+    questId: expectU64Number(quest.quest_id, `${path}.quest_id`),
+    name: expectString(quest.name, `${path}.name`),
+    admin: expectAddress(quest.admin, `${path}.admin`),
+    entryFee: expectU64(quest.entry_fee, `${path}.entry_fee`),
+    buyInTime: expectU64Number(quest.buy_in_time, `${path}.buy_in_time`),
+    resultTime: expectU64Number(quest.result_time, `${path}.result_time`),
+    status: expectVariant(quest.status, `${path}.status`, QUEST_STATUSES),
+    participants: expectArray(quest.participants, `${path}.participants`).map((participant, index) =>
+      expectAddress(participant, `${path}.participants[${index}]`)
+    ),
+    totalPool: expectU64(quest.total_pool, `${path}.total_pool`),
+    winner: expectOption(quest.winner, `${path}.winner`, expectAddress),
+    createdAt: expectU64Number(quest.created_at, `${path}.created_at`)
+  };
+}
+
+/**
+ * Decode a `vector<Quest>`
+ *
+ * @throws ResourceDecodeError if `raw` is not a list of Quests
+ */
+export function decodeQuests(raw: unknown, path: string = "quests"): Quest[] {
+  return expectArray(raw, path).map((quest, index) => decodeQuest(quest, `${path}[${index}]`));
+}
+
+function decodePortfolio(raw: unknown, path: string): Portfolio {
+  const portfolio = expectObject(raw, path);
+  return {
+    tokens: expectArray(portfolio.tokens, `${path}.tokens`).map((token, index) => {
+      const selection = expectObject(token, `${path}.tokens[${index}]`);
+      return {
+        tokenAddress: expectAddress(selection.token_address, `${path}.tokens[${index}].token_address`),
+        amountUsdc: expectU64(selection.amount_usdc, `${path}.tokens[${index}].amount_usdc`)
+      };
+    }),
+    totalValueUsdc: expectU64(portfolio.total_value_usdc, `${path}.total_value_usdc`),
+    selectedAt: expectU64Number(portfolio.selected_at, `${path}.selected_at`)
+  };
+}
+
+/**
+ * Decode a `quest_staking::Participation`
+ *
+ * @throws ResourceDecodeError if `raw` does not have the Participation layout
+ */
+export function decodeParticipation(raw: unknown, path: string = "participation"): Participation {
+  const participation = expectObject(raw, path);
+  return {
+    questId: expectU64Number(participation.quest_id, `${path}.quest_id`),
+    user: expectAddress(participation.user, `${path}.user`),
+    portfolio: expectOption(participation.portfolio, `${path}.portfolio`, decodePortfolio),
+    entryFeePaid: expectU64(participation.entry_fee_paid, `${path}.entry_fee_paid`),
+    joinedAt: expectU64Number(participation.joined_at, `${path}.joined_at`)
+  };
+}
+
+/**
+ * Decode a `vector<address>`
+ *
+ * @throws ResourceDecodeError if `raw` is not a list of addresses
+ */
+export function decodeAddresses(raw: unknown, path: string = "addresses"): string[] {
+  return expectArray(raw, path).map((address, index) => expectAddress(address, `${path}[${index}]`));
+}
@@ -0,0 +1,113 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Quest Scheduler Script
+ *
+ * Watches quest_staking deployments and notifies when buy-in closes and
+ * when results are due. With AUTO_DECLARE=1 it scores due quests from the
+ * trade index and submits `declare_winner` with the admin profile; add
+ * DRY_RUN=1 to only report the winner it would pick.
+ *
+ * Usage:
+ *   QUEST_ADDRESS=0x... npm run schedule-quests
+ *   QUEST_ADDRESS=0x... AUTO_DECLARE=1 DRY_RUN=1 npm run schedule-quests
+ *   QUEST_ADDRESS=0x... AUTO_DECLARE=1 PROFILE=blazev2-testnet WEBHOOK_URL=https://... npm run schedule-quests
+ *
+ * Environment:
+ *   NETWORK           testnet | mainnet | devnet | local (default: testnet)
+ *   QUEST_ADDRESS     quest_staking address (default: deployments.json)
+ *   CONTRACT_ADDRESS  launchpad_v2 address used for trade prices (default: deployments.json)
+ *   POLL_SECONDS      seconds between polls (default: 60)
+ *   WEBHOOK_URL       POST each notification as JSON
+ *   OUTBOX_DIR        write each notification as an .eml file (email stand-in)
+ *   AUTO_DECLARE=1    score and declare winners once results are due
+ *   DRY_RUN=1         with AUTO_DECLARE, report the winner without submitting
+ *   PROFILE           admin profile signing declare_winner (or PRIVATE_KEY)
+ *   INDEX_DIR         trade index used for prices (default: .blaze-index)
+ */
+
+import { Network } from "@aptos-labs/ts-sdk";
+import { BlazeClient } from './client';
+import { findAddress, resolveAddress } from './deployments';
+import { getErrorMessage } from './errors';
+import { AptosEventSource, JsonlTradeStore, PoolIndexer } from './indexer';
+import { resolveSigner } from './profiles';
+import { HistoricalPriceSource } from './quest-scoring';
+import {
+  AutoDeclareOptions,
+  ConsoleNotifier,
+  Notifier,
+  OutboxNotifier,
+  QuestScheduler,
+  WebhookNotifier
+} from './quest-scheduler';
+
+async function main() {
+  console.log("🗓️  Quest Scheduler\n");
+
+  const network = Object.values(Network).find((candidate) => candidate === (process.env.NETWORK || Network.TESTNET));
+  if (!network) {
+    console.log(`❌ Error: NETWORK must be one of testnet, mainnet, devnet, local; got "${process.env.NETWORK}"`);
+    process.exit(1);
+  }
+
+  const questAddress = findAddress(network, "quest_staking", {
+    value: process.env.QUEST_ADDRESS,
+    name: "QUEST_ADDRESS"
+  });
+  const contractAddress = resolveAddress(network, "launchpad_v2", {
+    value: process.env.CONTRACT_ADDRESS,
+    name: "CONTRACT_ADDRESS"
+  });
+  const pollSeconds = Number(process.env.POLL_SECONDS || 60);
+  const dataDir = process.env.INDEX_DIR || ".blaze-index";
+  const dryRun = process.env.DRY_RUN === "1";
+
+  if (!questAddress) {
+    console.log(`❌ Error: QUEST_ADDRESS is required, deployments.json has no ${network} quest_staking deployment`);
+    process.exit(1);
+  }
+  if (!Number.isFinite(pollSeconds) || pollSeconds <= 0) {
+    console.log("❌ Error: POLL_SECONDS must be a positive number");
+    process.exit(1);
+  }
+
+  const client = new BlazeClient({ network, contractAddress, questAddress });
+
+  const notifiers: Notifier[] = [new ConsoleNotifier()];
+  if (process.env.WEBHOOK_URL) notifiers.push(new WebhookNotifier(process.env.WEBHOOK_URL));
+  if (process.env.OUTBOX_DIR) notifiers.push(new OutboxNotifier(process.env.OUTBOX_DIR));
+
+  // Dry runs never submit, so they need no key
+  const signer = process.env.AUTO_DECLARE === "1" && !dryRun ? resolveSigner({ profile: process.env.PROFILE }) : undefined;
+
+  let autoDeclare: AutoDeclareOptions | undefined;
+  if (process.env.AUTO_DECLARE === "1") {
+    const store = new JsonlTradeStore(dataDir);
+    const indexer = new PoolIndexer({ contractAddress, source: new AptosEventSource(client.aptos), store });
+    autoDeclare = {
+      signer,
+      priceSource: async () => {
+        await indexer.sync();
+        return HistoricalPriceSource.fromTrades(store.readTrades());
+      }
+    };
+  }
+
+  const declareMode = !autoDeclare ? "off" : dryRun ? "dry run" : `as ${signer?.accountAddress}`;
+  console.log(`🌐 Network: ${network}`);
+  console.log(`📍 Quests: ${questAddress}`);
+  console.log(`⏱️  Poll: every ${pollSeconds}s`);
+  console.log(`🤖 Auto-declare: ${declareMode}\n`);
+
+  const scheduler = new QuestScheduler({ client, notifiers, pollSeconds, autoDeclare, dryRun });
+
+  try {
+    await scheduler.run();
+  } catch (error) {
+    console.error("❌ Error:", getErrorMessage(error));
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,119 @@
+/**
+ * Blaze Launchpad V2 - Signers
+ *
+ * Every write method on `BlazeClient` takes a `Signer`. Node code usually
+ * wraps a private key (`AccountSigner`, or `profileSigner` / `envSigner`
+ * from ./profiles), the browser wraps the wallet adapter
+ * (`WalletAdapterSigner`). A bare `Account` or wallet object is accepted
+ * too and converted with `toSigner`.
+ */
+
+import {
+  Account,
+  Aptos,
+  Ed25519PrivateKey,
+  InputEntryFunctionData
+} from "@aptos-labs/ts-sdk";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface Signer {
+  /** Address transactions are sent from */
+  readonly accountAddress: string;
+
+  /** Where the key came from (e.g. "profile testnet"), for logs */
+  readonly source: string;
+
+  /**
+   * Sign and submit an entry function call
+   *
+   * @returns Hash of the pending transaction
+   */
+  signAndSubmit(aptos: Aptos, data: InputEntryFunctionData): Promise<string>;
+}
+
+/**
+ * Browser wallet, e.g. built from `useWallet()`:
+ * `{ accountAddress: account.address.toString(), signAndSubmitTransaction }`
+ */
+export interface WalletAdapter {
+  accountAddress: string;
+  signAndSubmitTransaction(transaction: { data: InputEntryFunctionData }): Promise<{ hash: string }>;
+}
+
+/** Anything write methods can sign with */
+export type TransactionSigner = Signer | Account | WalletAdapter;
+
+// ============================================================================
+// IMPLEMENTATIONS
+// ============================================================================
+
+/**
+ * Signs locally with an SDK `Account`
+ */
+export class AccountSigner implements Signer {
+  readonly accountAddress: string;
+
+  constructor(readonly account: Account, readonly source: string = "account") {
+    this.accountAddress = account.accountAddress.toString();
+  }
+
+  /**
+   * Build a signer from an Ed25519 private key (hex, with or without the
+   * `ed25519-priv-` prefix the Aptos CLI writes)
+   */
+  static fromPrivateKey(privateKey: Ed25519PrivateKey | string, source: string = "private key"): AccountSigner {
+    const key = typeof privateKey === "string" ? new Ed25519PrivateKey(privateKey) : privateKey;
+    return new AccountSigner(Account.fromPrivateKey({ privateKey: key }), source);
+  }
+
+  async signAndSubmit(aptos: Aptos, data: InputEntryFunctionData): Promise<string> {
+    const transaction = await aptos.transaction.build.simple({
+      sender: this.account.accountAddress,
+      data,
+    });
+    const committedTxn = await aptos.signAndSubmitTransaction({ signer: this.account, transaction });
+    return committedTxn.hash;
+  }
+}
+
+/**
+ * Delegates signing to a connected wallet; the wallet builds the transaction
+ */
+export class WalletAdapterSigner implements Signer {
+  readonly source = "wallet";
+
+  constructor(private readonly wallet: WalletAdapter) {}
+
+  get accountAddress(): string {
+    return this.wallet.accountAddress;
+  }
+
+  async signAndSubmit(_aptos: Aptos, data: InputEntryFunctionData): Promise<string> {
+    const { hash } = await this.wallet.signAndSubmitTransaction({ data });
+    return hash;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isSigner(signer: TransactionSigner): signer is Signer {
+  return "signAndSubmit" in signer;
+}
+
+function isWalletAdapter(signer: TransactionSigner): signer is WalletAdapter {
+  return "signAndSubmitTransaction" in signer;
+}
+
+/**
+ * Normalize anything write methods accept into a `Signer`
+ */
+export function toSigner(signer: TransactionSigner): Signer {
+  if (isSigner(signer)) return signer;
+  if (isWalletAdapter(signer)) return new WalletAdapterSigner(signer);
+  return new AccountSigner(signer);
+}
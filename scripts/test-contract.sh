@@ -101,10 +101,10 @@ case $choice in
         echo "📝 Steps to create a pool:"
         echo "   1. cd scripts"
         echo "   2. npm install"
-        echo "   3. npm run create-pool"
+        echo "   3. npm run blaze -- pool create --name <name> --ticker <ticker> --image <uri>"
         echo ""
         echo "   OR directly:"
-        echo "   ts-node scripts/create-pool.ts"
+        echo "   ts-node scripts/cli.ts pool create --help"
         echo ""
         echo "📚 See CLI_LIMITATIONS.md for detailed explanation"
         echo ""
@@ -0,0 +1,92 @@
+/**
+ * Fixed point amounts: parsing, rounding and formatting without floats
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Amount } from "../amount";
+
+describe("Amount.parse", () => {
+  it("parses 0.29 APT to exact octas from a string or a number", () => {
+    // 0.29 * 1e8 is 28999999.999999996 as a float
+    assert.equal(Amount.apt("0.29").raw, 29_000_000n);
+    assert.equal(Amount.apt(0.29).raw, 29_000_000n);
+    assert.equal(Amount.parse("-1.5", 8).raw, -150_000_000n);
+    assert.equal(Amount.parse(".5", 2).raw, 50n);
+  });
+
+  it("accepts e-notation, as numbers print it", () => {
+    assert.equal(String(0.0000001), "1e-7");
+    assert.equal(Amount.apt(0.0000001).raw, 10n);
+    assert.equal(Amount.parse("1.5e3", 8).raw, 150_000_000_000n);
+    assert.equal(Amount.parse("25E-2", 2).raw, 25n);
+    assert.throws(() => Amount.parse("1e1000", 8), /out of range/);
+  });
+
+  it("rejects digits past the precision unless told how to round", () => {
+    assert.throws(() => Amount.parse("0.123456789", 8), /has more than 8 decimals/);
+    assert.equal(Amount.tryParse("0.123456789", 8), undefined);
+    assert.equal(Amount.parse("0.123456789", 8, "floor").raw, 12_345_678n);
+    assert.equal(Amount.parse("0.123456789", 8, "ceil").raw, 12_345_679n);
+    assert.equal(Amount.parse("0.123456785", 8, "round").raw, 12_345_679n);
+    assert.equal(Amount.parse("0.123456784", 8, "round").raw, 12_345_678n);
+    // Towards -∞ / +∞, not towards zero
+    assert.equal(Amount.parse("-0.123456789", 8, "floor").raw, -12_345_679n);
+    assert.equal(Amount.parse("-0.123456789", 8, "ceil").raw, -12_345_678n);
+    assert.equal(Amount.parse("-0.123456785", 8, "round").raw, -12_345_679n);
+    // Trailing zeros are not extra precision
+    assert.equal(Amount.parse("0.290000000000", 8).raw, 29_000_000n);
+  });
+
+  it("rejects what is not a decimal", () => {
+    for (const value of ["", ".", "abc", "1.2.3", "0x10", "1,000", Infinity, NaN]) {
+      assert.throws(() => Amount.parse(value, 8), /Invalid amount/, String(value));
+    }
+  });
+});
+
+describe("Amount above 2^53", () => {
+  const u64Max = 18_446_744_073_709_551_615n;
+
+  it("keeps every digit through parsing, arithmetic and formatting", () => {
+    const amount = Amount.parse("184467440737.09551615", 8);
+    assert.equal(amount.raw, u64Max);
+    assert.equal(amount.toString(), "184467440737.09551615");
+    assert.equal(amount.sub(Amount.fromRaw(1n, 8)).raw, u64Max - 1n);
+    assert.equal(Amount.fromRaw("340282366920938463463374607431768211455", 8).format({ maxDecimals: 0 }).length, 31);
+  });
+
+  it("rejects non-integer base units", () => {
+    assert.throws(() => Amount.fromRaw(1.5, 8), /must be an integer/);
+  });
+
+  it("values a huge supply at a price without losing precision", () => {
+    const tokens = Amount.fromRaw(u64Max, 8);
+    assert.equal(tokens.valueAt(Amount.usdCents(1n)).raw, u64Max / 100_000_000n);
+  });
+});
+
+describe("Amount.format", () => {
+  it("writes 4+ leading fraction zeros as a subscript count when tiny", () => {
+    assert.equal(Amount.fromRaw(120n, 8).format({ tiny: true }), "0.0₅12");
+    assert.equal(Amount.fromRaw(123_456n, 12).format({ tiny: true }), "0.0₆1234");
+    assert.equal(Amount.fromRaw(123_456n, 12).format({ tiny: true, significantDigits: 2 }), "0.0₆12");
+    assert.equal(Amount.fromRaw(1n, 22).format({ tiny: true }), "0.0₂₁1");
+    assert.equal(Amount.fromRaw(-120n, 8).format({ tiny: true }), "-0.0₅12");
+  });
+
+  it("keeps plain notation below four zeros, at or above 1 and without tiny", () => {
+    assert.equal(Amount.fromRaw(12_000n, 8).format({ tiny: true }), "0.00012");
+    assert.equal(Amount.fromRaw(100_000_120n, 8).format({ tiny: true }), "1.0000012");
+    assert.equal(Amount.fromRaw(120n, 8).format(), "0.0000012");
+  });
+
+  it("rounds, pads and groups", () => {
+    const amount = Amount.parse("1234567.125", 8);
+    assert.equal(amount.format({ maxDecimals: 2 }), "1234567.13");
+    assert.equal(amount.format({ maxDecimals: 2, rounding: "floor" }), "1234567.12");
+    assert.equal(amount.format({ maxDecimals: 2, grouping: true }), "1,234,567.13");
+    assert.equal(Amount.octas(150_000_000n).format({ minDecimals: 2 }), "1.50");
+    assert.equal(Amount.fromRaw(-1n, 8).format({ maxDecimals: 2 }), "0");
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Golden vectors for the Bancor port
+ *
+ * Each scenario replays a `launchpad_v2.move` unit test: a pool created by
+ * `create_test_pool` (reserve ratio 50, 1 APT initial reserve) with the
+ * default 1% buy / sell fees and the $8.50 oracle price from `init_module`.
+ * The Move tests only assert inequalities, so the expected integers were
+ * derived step by step from the contract's u64/u128 arithmetic.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BancorArithmeticError,
+  BancorCurve,
+  FeeConfig,
+  calculateCurrentPrice,
+  calculateMarketCap,
+  calculatePurchaseReturn,
+  calculateSaleReturn,
+  simulateBuy,
+  simulateSell
+} from "../bancor";
+
+const FEES: FeeConfig = { buyFeeBps: 100n, sellFeeBps: 100n };
+const INITIAL_RESERVE = 100_000_000n;
+const APT_USD_PRICE = 850n;
+
+function testPool(reserveBalance: bigint = INITIAL_RESERVE): BancorCurve {
+  return { reserveRatio: 50n, reserveBalance, isActive: true };
+}
+
+describe("test_bancor_calculations", () => {
+  it("mints deposit * reserve_ratio / 100 from an empty pool", () => {
+    assert.equal(calculatePurchaseReturn(0n, INITIAL_RESERVE, 50n, 10_000_000n), 5_000_000n);
+  });
+
+  it("returns nothing for a sale while the supply is 0", () => {
+    assert.equal(calculateSaleReturn(0n, INITIAL_RESERVE, 50n, 1_000n), 0n);
+  });
+
+  it("prices an empty pool at 0", () => {
+    assert.equal(calculateCurrentPrice(0n, INITIAL_RESERVE, 50n), 0n);
+    assert.equal(calculateMarketCap(0n, INITIAL_RESERVE, 50n, APT_USD_PRICE), 0n);
+  });
+});
+
+describe("test_buy_and_sell_tokens", () => {
+  const buy = simulateBuy(testPool(), 0n, 50_000_000n, FEES);
+
+  it("buys 0.5 APT with the 1% fee taken first", () => {
+    assert.deepEqual(buy, {
+      tokensOut: 24_750_000n,
+      fee: 500_000n,
+      aptToReserve: 49_500_000n,
+      newPrice: 1_208_080_808n,
+      newSupply: 24_750_000n,
+      newReserveBalance: 149_500_000n
+    });
+  });
+
+  it("sells half the tokens back", () => {
+    const sell = simulateSell(testPool(buy.newReserveBalance), buy.newSupply, buy.tokensOut / 2n, FEES);
+    // power_fraction's linear approximation hits 0 at half the supply, so the whole reserve is paid out
+    assert.deepEqual(sell, {
+      aptOut: 148_005_000n,
+      fee: 1_495_000n,
+      aptFromReserve: 149_500_000n,
+      newPrice: 0n,
+      newSupply: 12_375_000n,
+      newReserveBalance: 0n
+    });
+  });
+
+  it("aborts like the contract when more than half the supply is sold", () => {
+    assert.throws(
+      () => simulateSell(testPool(buy.newReserveBalance), buy.newSupply, buy.tokensOut / 2n + 1n, FEES),
+      BancorArithmeticError
+    );
+  });
+
+  it("rejects a zero buy like EINVALID_AMOUNT", () => {
+    assert.throws(() => simulateBuy(testPool(), 0n, 0n, FEES), BancorArithmeticError);
+  });
+
+  it("rejects a zero sale like EINVALID_AMOUNT", () => {
+    assert.throws(() => simulateSell(testPool(buy.newReserveBalance), buy.newSupply, 0n, FEES), BancorArithmeticError);
+  });
+});
+
+describe("test_fees_collected / test_market_cap_calculation", () => {
+  const buy = simulateBuy(testPool(), 0n, 100_000_000n, FEES);
+  const curve = testPool(buy.newReserveBalance);
+
+  it("collects 1% of a 1 APT buy", () => {
+    assert.equal(buy.fee, 1_000_000n);
+    assert.equal(buy.aptToReserve, 99_000_000n);
+    assert.equal(buy.tokensOut, 49_500_000n);
+  });
+
+  it("prices the pool after the buy", () => {
+    assert.equal(buy.newPrice, 804_040_404n);
+    assert.equal(calculateCurrentPrice(buy.newSupply, curve.reserveBalance, curve.reserveRatio), buy.newPrice);
+  });
+
+  it("values the pool in USD cents at $8.50 and $17.00", () => {
+    assert.equal(calculateMarketCap(buy.newSupply, curve.reserveBalance, curve.reserveRatio, APT_USD_PRICE), 3_382n);
+    assert.equal(calculateMarketCap(buy.newSupply, curve.reserveBalance, curve.reserveRatio, 1_700n), 6_765n);
+  });
+
+  it("buys on the curve once the pool has supply", () => {
+    assert.deepEqual(simulateBuy(curve, buy.newSupply, 10_000_000n, FEES), {
+      tokensOut: 1_231_281n,
+      fee: 100_000n,
+      aptToReserve: 9_900_000n,
+      newPrice: 823_554_997n,
+      newSupply: 50_731_281n,
+      newReserveBalance: 208_900_000n
+    });
+  });
+
+  it("sells a tenth of the supply on the curve", () => {
+    assert.deepEqual(simulateSell(curve, buy.newSupply, 4_950_000n, FEES), {
+      aptOut: 39_402_000n,
+      fee: 398_000n,
+      aptFromReserve: 39_800_000n,
+      newPrice: 714_702_581n,
+      newSupply: 44_550_000n,
+      newReserveBalance: 159_200_000n
+    });
+  });
+});
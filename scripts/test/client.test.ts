@@ -0,0 +1,110 @@
+/**
+ * BlazeClient reads against a fake fullnode
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Aptos, Network } from "@aptos-labs/ts-sdk";
+import { BlazeClient } from "../client";
+import { ParticipationError } from "../errors";
+
+const CONTRACT = "0xf2ca7e5f4e8fb07ea86f701ca1fd1da98d5c41d2f87979be0723a13da3bca125";
+const QUEST = "0x22d710758f35e3de12a5457419c356d97b36d766cf802a5d15b092cb231d4e1d";
+const POOL = "0x5c0a7bd1e2f3a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d";
+const ALICE = "0x0a11ce";
+const BOB = "0x0b0b";
+
+interface ViewCall {
+  function: string;
+  ledgerVersion?: bigint;
+}
+
+interface ViewRequest {
+  payload: { function: string; functionArguments: unknown[] };
+  options?: { ledgerVersion?: bigint };
+}
+
+/**
+ * Fullnode answering each view by name; by default with the pool after a
+ * 1 APT buy
+ */
+function fakeFullnode(
+  ledgerVersion: string,
+  views: Record<string, (args: unknown[]) => unknown[]> = {
+    get_curve_data: () => [{ reserve_ratio: "50", reserve_balance: "199000000", is_active: true }],
+    get_current_supply: () => ["49500000"],
+    get_fees: () => ["100", "100"]
+  }
+) {
+  const calls: ViewCall[] = [];
+  const aptos = {
+    getLedgerInfo: async () => ({ ledger_version: ledgerVersion }),
+    view: async ({ payload, options }: ViewRequest) => {
+      const name = payload.function.split("::")[2];
+      calls.push({ function: name, ledgerVersion: options?.ledgerVersion });
+      return views[name](payload.functionArguments);
+    }
+  };
+  const client = new BlazeClient({
+    network: Network.TESTNET,
+    contractAddress: CONTRACT,
+    questAddress: QUEST,
+    aptos: aptos as unknown as Aptos
+  });
+  return { client, calls };
+}
+
+describe("BlazeClient quotes", () => {
+  it("reads the curve, supply and fees at one ledger version", async () => {
+    const { client, calls } = fakeFullnode("7200");
+
+    const quote = await client.quoteBuy(POOL, "0.1");
+
+    assert.equal(quote.tokensOut, 1_231_281n);
+    assert.deepEqual(
+      calls.map((call) => call.function).sort(),
+      ["get_current_supply", "get_curve_data", "get_fees"]
+    );
+    assert.ok(calls.every((call) => call.ledgerVersion === 7200n));
+  });
+
+  it("quotes at the version it is given", async () => {
+    const { client, calls } = fakeFullnode("7200");
+
+    const quote = await client.quoteSell(POOL, "0.0495", 8, { ledgerVersion: 7100n });
+
+    assert.equal(quote.aptOut, 39_402_000n);
+    assert.equal(calls.length, 3);
+    assert.ok(calls.every((call) => call.ledgerVersion === 7100n));
+  });
+});
+
+describe("BlazeClient participations", () => {
+  // quest_staking keeps one Participation per user: ALICE's is for quest 1, BOB never joined
+  const { client } = fakeFullnode("7200", {
+    has_user_participated: ([user]) => [user === ALICE],
+    get_user_participation: () => [
+      { quest_id: "1", user: ALICE, portfolio: { vec: [] }, entry_fee_paid: "10000000", joined_at: "1717200060" }
+    ],
+    get_quest_participants: ([questId]) => [questId === 1 ? [ALICE] : [ALICE, BOB]]
+  });
+
+  it("finds the participation for its own quest", async () => {
+    assert.equal(await client.hasParticipated(ALICE, 1), true);
+    assert.equal((await client.getParticipation(ALICE, 1)).questId, 1);
+  });
+
+  it("does not count it for another quest", async () => {
+    assert.equal(await client.hasParticipated(ALICE, 2), false);
+    assert.equal(await client.findParticipation(ALICE, 2), undefined);
+    await assert.rejects(client.getParticipation(ALICE, 2), ParticipationError);
+  });
+
+  it("skips participants whose participation is for another quest", async () => {
+    assert.deepEqual(
+      (await client.getParticipations(1)).map((participation) => participation.user),
+      [ALICE]
+    );
+    assert.deepEqual(await client.getParticipations(2), []);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Address lookup in the deployments manifest and env overrides of it
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { findAddress, parseDeployments, shadowedDeployment } from "../deployments";
+
+const RECORDED = "0x9239ac2bb7bb998c6d19d1b309dd2093f130185710415832caf30bf0c99d678a";
+const OTHER = "0xf2ca7e5f4e8fb07ea86f701ca1fd1da98d5c41d2f87979be0723a13da3bca125";
+
+const deployments = parseDeployments({
+  version: 1,
+  networks: {
+    devnet: {
+      launchpad_v2: { address: RECORDED, package: "blaze_launchpad", packageVersion: "1.0.0" }
+    }
+  }
+});
+
+const override = (value?: string) => ({ value, name: "VITE_MODULE_ADDRESS" });
+
+describe("findAddress", () => {
+  it("prefers the override to the manifest", () => {
+    assert.equal(findAddress("devnet", "launchpad_v2", override(OTHER), deployments), OTHER);
+    assert.equal(findAddress("devnet", "launchpad_v2", override(), deployments), RECORDED);
+    assert.equal(findAddress("testnet", "launchpad_v2", override(), deployments), undefined);
+  });
+});
+
+describe("shadowedDeployment", () => {
+  it("reports the manifest entry an override replaces", () => {
+    assert.equal(shadowedDeployment("devnet", "launchpad_v2", override(OTHER), deployments)?.address, RECORDED);
+  });
+
+  it("ignores an override that matches the manifest or has nothing to replace", () => {
+    const sameAddress = override(`0x${RECORDED.slice(2).toUpperCase()}`);
+    assert.equal(shadowedDeployment("devnet", "launchpad_v2", sameAddress, deployments), undefined);
+    assert.equal(shadowedDeployment("devnet", "launchpad_v2", override(), deployments), undefined);
+    assert.equal(shadowedDeployment("testnet", "launchpad_v2", override(OTHER), deployments), undefined);
+  });
+});
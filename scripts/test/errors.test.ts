@@ -0,0 +1,77 @@
+/**
+ * Abort decoding for the launchpad, launchpad_v2 and quest_staking modules
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ContractError,
+  InsufficientBalanceError,
+  QuestNotActiveError,
+  SlippageExceededError,
+  TradingDisabledError,
+  decodeBlazeError,
+  getErrorMessage
+} from "../errors";
+import { getDeployment } from "../deployments";
+
+const LAUNCHPAD = getDeployment("testnet", "launchpad_v2").address;
+const QUEST = "0x22d710758f35e3de12a5457419c356d97b36d766cf802a5d15b092cb231d4e1d";
+const OTHER = "0xbeef";
+
+describe("decodeBlazeError", () => {
+  it("decodes a named launchpad_v2 abort", () => {
+    const error = decodeBlazeError(
+      `Move abort in ${LAUNCHPAD}::launchpad_v2: ESLIPPAGE_EXCEEDED(0x66): Slippage tolerance exceeded`
+    );
+    assert.ok(error instanceof SlippageExceededError);
+    assert.equal(error.code, 102);
+    assert.equal(error.abortName, "ESLIPPAGE_EXCEEDED");
+  });
+
+  it("reads the vm_status of a failed transaction", () => {
+    const error = decodeBlazeError({ vm_status: `Move abort in ${LAUNCHPAD}::launchpad_v2: 0x6f` });
+    assert.ok(error instanceof InsufficientBalanceError);
+    assert.equal(error.abortName, "EINSUFFICIENT_BALANCE");
+  });
+
+  it("masks the std::error category off quest_staking codes", () => {
+    const error = decodeBlazeError(`Move abort in ${QUEST}::quest_staking: ERR_QUEST_NOT_ACTIVE(0x30005):`, {
+      quest_staking: QUEST
+    });
+    assert.ok(error instanceof QuestNotActiveError);
+    assert.equal(error.code, 5);
+    assert.equal(error.abortName, "ERR_QUEST_NOT_ACTIVE");
+  });
+
+  it("decodes the raw codes the v1 launchpad asserts", () => {
+    const inactive = decodeBlazeError(`Move abort in ${LAUNCHPAD}::launchpad: 0x64`);
+    assert.ok(inactive instanceof TradingDisabledError);
+    assert.equal(inactive.code, 100);
+
+    const balance = decodeBlazeError(`Move abort in ${LAUNCHPAD}::launchpad: 101`);
+    assert.ok(balance instanceof InsufficientBalanceError);
+    assert.equal(balance.code, 101);
+  });
+
+  it("falls back to ContractError for an unknown code", () => {
+    const error = decodeBlazeError(`Move abort in ${LAUNCHPAD}::launchpad_v2: 0x3e7`);
+    assert.ok(error instanceof ContractError);
+    assert.equal(error.abortName, "E999");
+  });
+
+  it("ignores a module of the same name published elsewhere", () => {
+    assert.equal(decodeBlazeError(`Move abort in ${OTHER}::launchpad_v2: 0x66`), undefined);
+  });
+
+  it("checks against the configured address instead of the manifest", () => {
+    const message = `Move abort in ${OTHER}::launchpad_v2: 0x66`;
+    assert.ok(decodeBlazeError(message, { launchpad_v2: OTHER }) instanceof SlippageExceededError);
+    assert.equal(decodeBlazeError(`Move abort in ${LAUNCHPAD}::launchpad_v2: 0x66`, { launchpad_v2: OTHER }), undefined);
+  });
+
+  it("leaves framework aborts alone", () => {
+    assert.equal(decodeBlazeError("Move abort in 0x1::fungible_asset: EINSUFFICIENT_BALANCE(0x10004):"), undefined);
+    assert.equal(getErrorMessage("OUT_OF_GAS"), "OUT_OF_GAS");
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Decoding launchpad_v2 and quest_staking events from their JSON data
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { decodeLaunchpadEvent, decodeQuestEvent, eventTypeOf, questEventTypeOf } from "../events";
+
+const CONTRACT = "0xf2ca7e5f4e8fb07ea86f701ca1fd1da98d5c41d2f87979be0723a13da3bca125";
+const QUEST = "0x22d710758f35e3de12a5457419c356d97b36d766cf802a5d15b092cb231d4e1d";
+const POOL = "0x5c0a7bd1e2f3a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d";
+
+const buyData = {
+  pool_id: { inner: POOL },
+  buyer: "0x0a11ce",
+  apt_spent: "100000000",
+  tokens_received: "49500000",
+  fee_collected: "1000000",
+  new_price: "804040404",
+  new_supply: "49500000",
+  timestamp: "1717200030"
+};
+
+describe("decodeLaunchpadEvent", () => {
+  it("decodes u64 strings to bigints and unwraps object addresses", () => {
+    assert.deepEqual(decodeLaunchpadEvent({ type: eventTypeOf(CONTRACT, "BuyEvent"), data: buyData }, CONTRACT), {
+      type: "BuyEvent",
+      poolId: POOL,
+      buyer: "0x0a11ce",
+      aptSpent: 100_000_000n,
+      tokensReceived: 49_500_000n,
+      feeCollected: 1_000_000n,
+      newPrice: 804_040_404n,
+      newSupply: 49_500_000n,
+      timestamp: 1_717_200_030n
+    });
+  });
+
+  it("matches the contract address in short or long form", () => {
+    const longForm = `0x${"abc".padStart(64, "0")}`;
+    const shortForm = { type: "0xABC::launchpad_v2::BuyEvent", data: buyData };
+    assert.equal(decodeLaunchpadEvent(shortForm, longForm)?.type, "BuyEvent");
+    assert.equal(decodeLaunchpadEvent({ type: "0x1::launchpad_v2::BuyEvent", data: buyData }, CONTRACT), undefined);
+    assert.equal(decodeLaunchpadEvent({ type: "0x1::coin::CoinDeposit", data: {} }, "0x1"), undefined);
+  });
+
+  it("names the field when the data is malformed", () => {
+    const event = { type: eventTypeOf(CONTRACT, "BuyEvent"), data: { ...buyData, apt_spent: "1.5" } };
+    assert.throws(() => decodeLaunchpadEvent(event, CONTRACT), /"apt_spent" should be an integer, got "1.5"/);
+
+    const missing = { type: eventTypeOf(CONTRACT, "BuyEvent"), data: { ...buyData, pool_id: undefined } };
+    assert.throws(() => decodeLaunchpadEvent(missing, CONTRACT), /"pool_id" should be an object address/);
+  });
+});
+
+describe("decodeQuestEvent", () => {
+  it("decodes ids and times to numbers", () => {
+    const data = {
+      quest_id: "3",
+      name: "Week 1",
+      admin: "0xad",
+      entry_fee: "10000000",
+      buy_in_time: "1717200600",
+      result_time: "1717203600"
+    };
+    assert.deepEqual(decodeQuestEvent({ type: questEventTypeOf(QUEST, "QuestCreatedEvent"), data }, QUEST), {
+      type: "QuestCreatedEvent",
+      questId: 3,
+      name: "Week 1",
+      admin: "0xad",
+      entryFee: 10_000_000n,
+      buyInTime: 1_717_200_600,
+      resultTime: 1_717_203_600
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Pool indexer against a recorded page of BuyEvent / SellEvent
+ *
+ * `fixtures/events.json` holds five trades on two pools, in the shape
+ * `index-pools.ts` accepts as FIXTURE. The amounts come from the Bancor
+ * port, so prices and supplies line up with the curve.
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { EventSource, IndexedEvent, JsonlTradeStore, PoolIndexer, StaticEventSource } from "../indexer";
+import { EventCursor, Trade } from "../trades";
+
+const CONTRACT = "0xf2ca7e5f4e8fb07ea86f701ca1fd1da98d5c41d2f87979be0723a13da3bca125";
+const POOL_A = "0x5c0a7bd1e2f3a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90a1b2c3d";
+const POOL_B = "0x7e31c4d5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f708192a3b4c5d6e7f8091";
+
+const FIXTURE = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "events.json");
+
+/** Every event in the fixture, buys then sells */
+async function recordedEvents(): Promise<IndexedEvent[]> {
+  const source = StaticEventSource.fromFile(FIXTURE);
+  const buys = await source.fetchEvents(`${CONTRACT}::launchpad_v2::BuyEvent`, undefined, 100);
+  const sells = await source.fetchEvents(`${CONTRACT}::launchpad_v2::SellEvent`, undefined, 100);
+  return [...buys, ...sells];
+}
+
+/** Records the cursor of every request it forwards */
+class RecordingSource implements EventSource {
+  readonly requests: Array<EventCursor | undefined> = [];
+
+  constructor(private readonly inner: EventSource) {}
+
+  fetchEvents(eventType: string, after: EventCursor | undefined, limit: number): Promise<IndexedEvent[]> {
+    this.requests.push(after);
+    return this.inner.fetchEvents(eventType, after, limit);
+  }
+}
+
+/** Appends trades but dies before the first cursor save, like a crash mid-page */
+class CrashingStore extends JsonlTradeStore {
+  saveCursors(): void {
+    throw new Error("process killed");
+  }
+}
+
+function tradeKeys(trades: Trade[]): string[] {
+  return trades.map((trade) => `${trade.version}:${trade.eventIndex}`);
+}
+
+describe("PoolIndexer", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "blaze-index-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("indexes the recorded page in chain order", async () => {
+    const indexer = new PoolIndexer({
+      contractAddress: CONTRACT,
+      source: StaticEventSource.fromFile(FIXTURE),
+      store: new JsonlTradeStore(directory)
+    });
+
+    assert.equal(await indexer.sync(), 5);
+    const trades = indexer.getTrades(POOL_A);
+    assert.deepEqual(
+      trades.map((trade) => trade.side),
+      ["buy", "buy", "sell", "buy"]
+    );
+    assert.deepEqual(trades[2], {
+      version: 2140052618n,
+      eventIndex: 0,
+      poolId: POOL_A,
+      fee: 407_659n,
+      price: 734_509_940n,
+      supply: 45_781_281n,
+      timestamp: 1717200320,
+      side: "sell",
+      trader: "0x1d8f3c2b4a5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f708192a3b4c5d6e7f8",
+      aptAmount: 40_358_311n,
+      tokenAmount: 4_950_000n
+    });
+    assert.equal(indexer.getTrades(POOL_B).length, 1);
+  });
+
+  it("resumes from the saved cursor", async () => {
+    const events = await recordedEvents();
+    const firstRun = events.filter((event) => event.version <= 2140052207n);
+
+    await new PoolIndexer({
+      contractAddress: CONTRACT,
+      source: new StaticEventSource(firstRun),
+      store: new JsonlTradeStore(directory)
+    }).sync();
+
+    const source = new RecordingSource(new StaticEventSource(events));
+    const indexer = new PoolIndexer({ contractAddress: CONTRACT, source, store: new JsonlTradeStore(directory) });
+
+    assert.equal(await indexer.sync(), 2);
+    // BuyEvent resumes after the third buy; SellEvent had none, so it starts over
+    assert.deepEqual(source.requests, [{ version: 2140052207n, eventIndex: 0 }, undefined]);
+    assert.equal(indexer.getTrades(POOL_A).length, 4);
+  });
+
+  it("does not duplicate a page replayed after a crash", async () => {
+    const crashed = new PoolIndexer({
+      contractAddress: CONTRACT,
+      source: StaticEventSource.fromFile(FIXTURE),
+      store: new CrashingStore(directory),
+      pageSize: 2
+    });
+    await assert.rejects(crashed.sync(), /process killed/);
+
+    // The first page was written but its cursor was not, so the restart fetches it again
+    const indexer = new PoolIndexer({
+      contractAddress: CONTRACT,
+      source: StaticEventSource.fromFile(FIXTURE),
+      store: new JsonlTradeStore(directory),
+      pageSize: 2
+    });
+    assert.equal(await indexer.sync(), 5);
+
+    const lines = fs.readFileSync(path.join(directory, "trades.jsonl"), "utf8").trim().split("\n");
+    assert.equal(lines.length, 7);
+    const trades = [...indexer.getTrades(POOL_A), ...indexer.getTrades(POOL_B)];
+    assert.equal(new Set(tradeKeys(trades)).size, 5);
+    assert.equal(trades.length, 5);
+  });
+
+  it("buckets trades into candles aligned to the epoch", async () => {
+    const indexer = new PoolIndexer({
+      contractAddress: CONTRACT,
+      source: StaticEventSource.fromFile(FIXTURE),
+      store: new JsonlTradeStore(directory)
+    });
+    await indexer.sync();
+
+    assert.deepEqual(indexer.getCandles(POOL_A, "5m"), [
+      {
+        time: 1717200000,
+        open: 804_040_404n,
+        high: 823_554_997n,
+        low: 804_040_404n,
+        close: 823_554_997n,
+        volumeApt: 110_000_000n,
+        volumeTokens: 50_731_281n,
+        trades: 2
+      },
+      {
+        time: 1717200300,
+        open: 734_509_940n,
+        high: 784_865_107n,
+        low: 734_509_940n,
+        close: 784_865_107n,
+        volumeApt: 65_358_311n,
+        volumeTokens: 8_319_593n,
+        trades: 2
+      }
+    ]);
+
+    const [hour] = indexer.getCandles(POOL_A, "1h");
+    assert.equal(hour.time, 1717200000);
+    assert.equal(hour.trades, 4);
+    assert.equal(hour.open, 804_040_404n);
+    assert.equal(hour.high, 823_554_997n);
+    assert.equal(hour.low, 734_509_940n);
+    assert.equal(hour.close, 784_865_107n);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * PoolReader against a stub BlazeClient: shared requests, bounded
+ * concurrency and the ledger-version cache
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { BlazeClient, ViewOptions } from "../client";
+import { PoolReader, PoolReaderOptions } from "../pool-reader";
+
+const POOL_A = "0x0a";
+const POOL_B = "0x0b";
+const POOL_C = "0x0c";
+
+/**
+ * Client whose views each take a turn of the event loop, counting calls per
+ * view and the most in flight at once
+ */
+function stubClient() {
+  const state = {
+    ledgerVersion: 100n,
+    calls: new Map<string, number>(),
+    active: 0,
+    maxActive: 0,
+    failing: new Set<string>()
+  };
+
+  const view =
+    <T>(name: string, value: (poolId: string) => T) =>
+    async (poolId?: string, options?: ViewOptions): Promise<T> => {
+      state.calls.set(name, (state.calls.get(name) ?? 0) + 1);
+      state.active++;
+      state.maxActive = Math.max(state.maxActive, state.active);
+      try {
+        await new Promise((resolve) => setImmediate(resolve));
+        if (poolId !== undefined && state.failing.has(poolId)) throw new Error(`${name} failed for ${poolId}`);
+        assert.equal(options?.ledgerVersion, poolId === undefined ? undefined : state.ledgerVersion);
+        return value(poolId ?? "");
+      } finally {
+        state.active--;
+      }
+    };
+
+  const client = {
+    getLedgerVersion: view("getLedgerVersion", () => state.ledgerVersion),
+    getPool: view("getPool", () => ({ isActive: true })),
+    getCurrentSupply: view("getCurrentSupply", () => 1_000n),
+    getCurrentPrice: view("getCurrentPrice", () => 42n),
+    getMarketCapUsd: view("getMarketCapUsd", () => 4_200n)
+  };
+
+  const reader = (options?: PoolReaderOptions) => new PoolReader(client as unknown as BlazeClient, options);
+  return { state, reader };
+}
+
+describe("PoolReader", () => {
+  it("shares one read between concurrent requests for the same pool", async () => {
+    const { state, reader } = stubClient();
+    const pools = reader();
+
+    const [first, second, many] = await Promise.all([
+      pools.getSnapshot(POOL_A),
+      // Another spelling of the same address
+      pools.getSnapshot(`0x${"a".padStart(64, "0")}`),
+      pools.getSnapshots([POOL_A, POOL_B, POOL_A])
+    ]);
+
+    assert.equal(first, second);
+    assert.deepEqual(
+      many.map((snapshot) => snapshot.poolId),
+      [POOL_A, POOL_B, POOL_A]
+    );
+    assert.equal(state.calls.get("getLedgerVersion"), 1);
+    assert.equal(state.calls.get("getPool"), 2);
+    assert.equal(first.price, 42n);
+    assert.equal(first.ledgerVersion, 100n);
+  });
+
+  it("keeps no more than `concurrency` view calls in flight", async () => {
+    const { state, reader } = stubClient();
+
+    await reader({ concurrency: 3 }).getSnapshots([POOL_A, POOL_B, POOL_C]);
+
+    assert.equal(state.calls.get("getCurrentPrice"), 3);
+    assert.equal(state.maxActive, 3);
+  });
+
+  it("reuses the ledger version within ttlMs and snapshots while it has not moved", async () => {
+    const { state, reader } = stubClient();
+    const cached = reader({ ttlMs: 60_000 });
+    const rechecked = reader({ ttlMs: 0 });
+
+    await cached.getSnapshot(POOL_A);
+    state.ledgerVersion = 101n;
+    assert.equal((await cached.getSnapshot(POOL_A)).ledgerVersion, 100n);
+    assert.equal(state.calls.get("getLedgerVersion"), 1);
+    assert.equal(state.calls.get("getPool"), 1);
+
+    // Past the TTL the version is read again, but the pool only once it moved
+    await rechecked.getSnapshot(POOL_A);
+    await rechecked.getSnapshot(POOL_A);
+    assert.equal(state.calls.get("getLedgerVersion"), 3);
+    assert.equal(state.calls.get("getPool"), 2);
+
+    state.ledgerVersion = 102n;
+    assert.equal((await rechecked.getSnapshot(POOL_A)).ledgerVersion, 102n);
+    assert.equal(state.calls.get("getPool"), 3);
+  });
+
+  it("reads a pool again after invalidate", async () => {
+    const { state, reader } = stubClient();
+    const pools = reader({ ttlMs: 60_000 });
+
+    await pools.getSnapshots([POOL_A, POOL_B]);
+    pools.invalidate(POOL_A);
+    await pools.getSnapshots([POOL_A, POOL_B]);
+    assert.equal(state.calls.get("getPool"), 3);
+
+    pools.invalidate();
+    await pools.getSnapshot(POOL_B);
+    assert.equal(state.calls.get("getLedgerVersion"), 2);
+    assert.equal(state.calls.get("getPool"), 4);
+  });
+
+  it("does not cache a failed read", async () => {
+    const { state, reader } = stubClient();
+    const pools = reader({ ttlMs: 60_000 });
+
+    state.failing.add(POOL_A);
+    const [failed, ok] = await Promise.allSettled([pools.getSnapshot(POOL_A), pools.getSnapshot(POOL_B)]);
+    assert.equal(failed.status, "rejected");
+    assert.equal(ok.status, "fulfilled");
+
+    state.failing.clear();
+    assert.equal((await pools.getSnapshot(POOL_A)).poolId, POOL_A);
+    assert.equal(state.calls.get("getPool"), 3);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Signer lookup from PRIVATE_KEY and the Aptos CLI config
+ *
+ * Each test builds a throwaway tree with a home directory and a repo
+ * checkout, points HOME at it and runs from `repo/scripts`, so the real
+ * ~/.aptos is never read.
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import {
+  envSigner,
+  findConfigPath,
+  listAptosProfiles,
+  profileSigner,
+  readAptosProfile,
+  resolveSigner
+} from "../profiles";
+
+const KEYS = {
+  env: "0x1111111111111111111111111111111111111111111111111111111111111111",
+  named: "0x2222222222222222222222222222222222222222222222222222222222222222",
+  testnet: "0x3333333333333333333333333333333333333333333333333333333333333333",
+  fallback: "0x4444444444444444444444444444444444444444444444444444444444444444"
+};
+
+function addressOf(privateKey: string): string {
+  return Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(privateKey) }).accountAddress.toString();
+}
+
+/** Write a config.yaml with `profiles` under `directory/.aptos` */
+function writeConfig(directory: string, profiles: Record<string, { private_key?: string; network?: string }>): string {
+  const lines = ["---", "profiles:"];
+  for (const [name, profile] of Object.entries(profiles)) {
+    lines.push(`  ${name}:`);
+    if (profile.private_key) lines.push(`    private_key: "${profile.private_key}"`);
+    lines.push(`    network: ${profile.network ?? "Testnet"}`);
+  }
+  fs.mkdirSync(path.join(directory, ".aptos"), { recursive: true });
+  const configPath = path.join(directory, ".aptos", "config.yaml");
+  fs.writeFileSync(configPath, lines.join("\n") + "\n");
+  return configPath;
+}
+
+describe("profiles", () => {
+  const saved = { cwd: process.cwd(), home: process.env.HOME, privateKey: process.env.PRIVATE_KEY };
+  let home: string;
+  let repo: string;
+  let scripts: string;
+
+  beforeEach(() => {
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "blaze-profiles-")));
+    home = path.join(root, "home");
+    repo = path.join(root, "repo");
+    scripts = path.join(repo, "scripts");
+    fs.mkdirSync(home, { recursive: true });
+    fs.mkdirSync(scripts, { recursive: true });
+    process.env.HOME = home;
+    delete process.env.PRIVATE_KEY;
+    process.chdir(scripts);
+  });
+
+  afterEach(() => {
+    process.chdir(saved.cwd);
+    process.env.HOME = saved.home;
+    if (saved.privateKey === undefined) delete process.env.PRIVATE_KEY;
+    else process.env.PRIVATE_KEY = saved.privateKey;
+    fs.rmSync(path.dirname(home), { recursive: true, force: true });
+  });
+
+  describe("findConfigPath", () => {
+    it("searches ./.aptos, then ../.aptos, then ~/.aptos", () => {
+      const inHome = writeConfig(home, { default: {} });
+      assert.equal(findConfigPath(), inHome);
+
+      const inRepo = writeConfig(repo, { default: {} });
+      assert.equal(findConfigPath(), inRepo);
+
+      const inScripts = writeConfig(scripts, { default: {} });
+      assert.equal(findConfigPath(), inScripts);
+    });
+
+    it("returns null when there is no config", () => {
+      assert.equal(findConfigPath(), null);
+      assert.deepEqual(listAptosProfiles(), []);
+    });
+  });
+
+  describe("readAptosProfile", () => {
+    it("reads a named profile", () => {
+      const configPath = writeConfig(repo, { testnet: { private_key: KEYS.testnet }, mine: { private_key: KEYS.named } });
+
+      assert.deepEqual(readAptosProfile("mine"), {
+        name: "mine",
+        configPath,
+        privateKey: KEYS.named,
+        account: undefined,
+        network: "Testnet"
+      });
+    });
+
+    it("tries blazev2-testnet, testnet and default before the first profile", () => {
+      writeConfig(repo, { zeta: {}, default: {}, testnet: {}, "blazev2-testnet": {} });
+      assert.equal(readAptosProfile()?.name, "blazev2-testnet");
+
+      writeConfig(repo, { zeta: {}, default: {}, testnet: {} });
+      assert.equal(readAptosProfile()?.name, "testnet");
+
+      writeConfig(repo, { zeta: {}, default: {} });
+      assert.equal(readAptosProfile()?.name, "default");
+
+      writeConfig(repo, { zeta: {}, alpha: {} });
+      assert.equal(readAptosProfile()?.name, "zeta");
+      assert.deepEqual(listAptosProfiles(), ["zeta", "alpha"]);
+    });
+
+    it("does not fall back when the named profile is missing", () => {
+      writeConfig(repo, { testnet: { private_key: KEYS.testnet } });
+      assert.equal(readAptosProfile("mainnet"), null);
+    });
+  });
+
+  describe("profileSigner", () => {
+    it("signs with the profile's key", () => {
+      const configPath = writeConfig(repo, { mine: { private_key: KEYS.named } });
+      const signer = profileSigner("mine");
+
+      assert.equal(signer.accountAddress, addressOf(KEYS.named));
+      assert.equal(signer.source, `profile mine (${configPath})`);
+    });
+
+    it("reports a missing config, profile or key", () => {
+      assert.throws(() => profileSigner(), /No Aptos CLI config found in \.\/\.aptos, \.\.\/\.aptos or ~\/\.aptos/);
+
+      writeConfig(repo, { testnet: {} });
+      assert.throws(() => profileSigner("mainnet"), /Aptos CLI profile "mainnet" not found/);
+      assert.throws(() => profileSigner(), /Aptos CLI profile "testnet" has no private key/);
+    });
+  });
+
+  describe("resolveSigner", () => {
+    it("prefers PRIVATE_KEY over any profile", () => {
+      writeConfig(repo, { testnet: { private_key: KEYS.testnet }, mine: { private_key: KEYS.named } });
+      process.env.PRIVATE_KEY = KEYS.env;
+
+      for (const signer of [resolveSigner(), resolveSigner({ profile: "mine" })]) {
+        assert.equal(signer.accountAddress, addressOf(KEYS.env));
+        assert.equal(signer.source, "PRIVATE_KEY environment variable");
+      }
+    });
+
+    it("falls back to the profile when PRIVATE_KEY is unset", () => {
+      writeConfig(repo, { testnet: { private_key: KEYS.testnet }, mine: { private_key: KEYS.named } });
+
+      assert.equal(resolveSigner().accountAddress, addressOf(KEYS.testnet));
+      assert.equal(resolveSigner({ profile: "mine" }).accountAddress, addressOf(KEYS.named));
+    });
+
+    it("reads another variable when envVar is set", () => {
+      process.env.ADMIN_KEY = KEYS.fallback;
+      try {
+        assert.equal(resolveSigner({ envVar: "ADMIN_KEY" }).accountAddress, addressOf(KEYS.fallback));
+      } finally {
+        delete process.env.ADMIN_KEY;
+      }
+    });
+  });
+
+  describe("envSigner", () => {
+    it("requires the variable to be set", () => {
+      assert.throws(() => envSigner(), /PRIVATE_KEY environment variable is not set/);
+    });
+  });
+});
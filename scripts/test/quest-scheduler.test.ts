@@ -0,0 +1,229 @@
+/**
+ * Quest scheduler driven by a FakeClock through a quest's whole lifecycle
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TransactionResult } from "../client";
+import { HistoricalPriceSource } from "../quest-scoring";
+import {
+  FakeClock,
+  MemoryNotifier,
+  QuestScheduler,
+  QuestSchedulerClient,
+  QuestSchedulerOptions
+} from "../quest-scheduler";
+import type { Participation, Quest } from "../resources";
+import type { WalletAdapter } from "../signer";
+
+const START = 1_717_200_000;
+const BUY_IN = START + 600;
+const RESULT = START + 3_600;
+
+const ALICE = "0x0a11ce";
+const BOB = "0x0b0b";
+const TOKEN_UP = "0x0a";
+const TOKEN_DOWN = "0x0b";
+
+const ADMIN: WalletAdapter = {
+  accountAddress: "0xad",
+  signAndSubmitTransaction: async () => ({ hash: "0x1" })
+};
+
+function participation(user: string, tokenAddress: string, joinedAt: number): Participation {
+  return {
+    questId: 1,
+    user,
+    entryFeePaid: 10_000_000n,
+    joinedAt,
+    portfolio: {
+      tokens: [{ tokenAddress, amountUsdc: 100_000_000n }],
+      totalValueUsdc: 100_000_000n,
+      selectedAt: joinedAt
+    }
+  };
+}
+
+/**
+ * One quest on a fake chain; `declareWinner` completes it like the contract
+ * does, after throwing `failures` times
+ */
+class FakeQuestClient implements QuestSchedulerClient {
+  readonly declared: Array<{ signer: unknown; questId: number; winner: string }> = [];
+  failures = 0;
+
+  readonly quest: Quest = {
+    questId: 1,
+    name: "Week 1",
+    admin: ADMIN.accountAddress,
+    entryFee: 10_000_000n,
+    buyInTime: BUY_IN,
+    resultTime: RESULT,
+    status: "Active",
+    participants: [ALICE, BOB],
+    totalPool: 20_000_000n,
+    createdAt: START
+  };
+
+  async getAllQuests(): Promise<Quest[]> {
+    return [{ ...this.quest }];
+  }
+
+  async getParticipations(): Promise<Participation[]> {
+    return [participation(ALICE, TOKEN_UP, START + 60), participation(BOB, TOKEN_DOWN, START + 30)];
+  }
+
+  async declareWinner(signer: unknown, questId: number, winner: string): Promise<TransactionResult> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("Request timed out");
+    }
+    this.declared.push({ signer, questId, winner });
+    this.quest.status = "Completed";
+    this.quest.winner = winner;
+    return { hash: "0x1", explorerUrl: "https://explorer.aptoslabs.com/txn/0x1", success: true, events: [] };
+  }
+}
+
+// TOKEN_UP gains 50% between buy-in and result, TOKEN_DOWN loses 10%, so ALICE wins
+const prices = new HistoricalPriceSource([
+  { tokenAddress: TOKEN_UP, timestamp: START, price: 100n },
+  { tokenAddress: TOKEN_UP, timestamp: RESULT - 1, price: 150n },
+  { tokenAddress: TOKEN_DOWN, timestamp: START, price: 100n },
+  { tokenAddress: TOKEN_DOWN, timestamp: RESULT - 1, price: 90n }
+]);
+
+function setup(options: Partial<QuestSchedulerOptions> = {}) {
+  const client = new FakeQuestClient();
+  const clock = new FakeClock(START);
+  const notifier = new MemoryNotifier();
+  const scheduler = new QuestScheduler({ client, clock, notifiers: [notifier], pollSeconds: 600, ...options });
+  return { client, clock, notifier, scheduler };
+}
+
+const kinds = (notifier: MemoryNotifier) => notifier.notifications.map((notification) => notification.kind);
+
+describe("QuestScheduler", () => {
+  it("walks a quest from open to declared", async () => {
+    const { client, clock, notifier, scheduler } = setup({
+      autoDeclare: { signer: ADMIN, priceSource: async () => prices }
+    });
+
+    assert.deepEqual(await scheduler.tick(), []);
+    assert.equal(scheduler.getPhase(1), "open");
+
+    clock.set(BUY_IN);
+    assert.deepEqual(
+      (await scheduler.tick()).map((notification) => notification.kind),
+      ["buy-in-closed"]
+    );
+    assert.equal(scheduler.getPhase(1), "running");
+    assert.match(notifier.notifications[0].message, /closed buy-in with 2 participants/);
+
+    clock.set(RESULT);
+    const settled = await scheduler.tick();
+    assert.deepEqual(
+      settled.map((notification) => notification.kind),
+      ["result-due", "winner-declared"]
+    );
+    assert.deepEqual(client.declared, [{ signer: ADMIN, questId: 1, winner: ALICE }]);
+    assert.equal(settled[1].leaderboard?.entries[0].returnBps, 5_000n);
+    assert.equal(settled[1].at, RESULT);
+
+    clock.advance(600);
+    assert.deepEqual(await scheduler.tick(), []);
+    assert.equal(scheduler.getPhase(1), "completed");
+    assert.equal(client.declared.length, 1);
+  });
+
+  it("runs the lifecycle on the poll interval without waiting", async () => {
+    const { client, clock, notifier, scheduler } = setup({
+      autoDeclare: { signer: ADMIN, priceSource: async () => prices }
+    });
+
+    // Polls at START, +600 (buy-in), ..., +3600 (result) and +4200
+    await scheduler.run(8);
+
+    assert.equal(clock.now(), START + 7 * 600);
+    assert.deepEqual(kinds(notifier), ["buy-in-closed", "result-due", "winner-declared"]);
+    assert.deepEqual(
+      notifier.notifications.map((notification) => notification.at),
+      [BUY_IN, RESULT, RESULT]
+    );
+    assert.equal(client.declared.length, 1);
+  });
+
+  it("only proposes the winner in a dry run", async () => {
+    const { client, clock, notifier, scheduler } = setup({
+      autoDeclare: { priceSource: async () => prices },
+      dryRun: true
+    });
+
+    await scheduler.tick();
+    clock.set(RESULT);
+    await scheduler.tick();
+    clock.advance(600);
+    await scheduler.tick();
+
+    // Skipping past buy-in still reports it closing
+    assert.deepEqual(kinds(notifier), ["buy-in-closed", "result-due", "winner-proposed"]);
+    assert.match(notifier.notifications[2].message, new RegExp(`winner would be ${ALICE}`));
+    assert.deepEqual(client.declared, []);
+    assert.equal(scheduler.getPhase(1), "awaiting-result");
+  });
+
+  it("retries a failed declaration on the next poll", async () => {
+    const { client, clock, notifier, scheduler } = setup({
+      autoDeclare: { signer: ADMIN, priceSource: async () => prices }
+    });
+    client.failures = 1;
+
+    clock.set(RESULT);
+    await scheduler.tick();
+    assert.deepEqual(kinds(notifier), ["result-due", "declare-failed"]);
+    assert.match(notifier.notifications[1].message, /Request timed out/);
+
+    clock.advance(600);
+    await scheduler.tick();
+    assert.deepEqual(kinds(notifier), ["result-due", "declare-failed", "winner-declared"]);
+    assert.deepEqual(client.declared, [{ signer: ADMIN, questId: 1, winner: ALICE }]);
+  });
+
+  it("reports a ranking with unpriced tokens instead of submitting it", async () => {
+    const upOnly = new HistoricalPriceSource([
+      { tokenAddress: TOKEN_UP, timestamp: START, price: 100n },
+      { tokenAddress: TOKEN_UP, timestamp: RESULT - 1, price: 150n }
+    ]);
+    const { client, clock, notifier, scheduler } = setup({
+      autoDeclare: { signer: ADMIN, priceSource: async () => upOnly }
+    });
+
+    clock.set(RESULT);
+    await scheduler.tick();
+    clock.advance(600);
+    await scheduler.tick();
+
+    // Retried on the second poll, but the same failure is not reported twice
+    assert.deepEqual(kinds(notifier), ["result-due", "declare-failed"]);
+    assert.match(notifier.notifications[1].message, /no price for 0x0+b; waiting for prices/);
+    assert.deepEqual(client.declared, []);
+    assert.equal(scheduler.getPhase(1), "awaiting-result");
+  });
+
+  it("reminds about a quest already awaiting its result when first seen", async () => {
+    const { clock, notifier, scheduler } = setup();
+    clock.set(RESULT + 60);
+
+    await scheduler.tick();
+
+    assert.deepEqual(kinds(notifier), ["result-due"]);
+  });
+
+  it("requires a signer to auto-declare unless dryRun is set", () => {
+    assert.throws(
+      () => setup({ autoDeclare: { priceSource: async () => prices } }),
+      /autoDeclare.signer is required unless dryRun is set/
+    );
+    assert.doesNotThrow(() => setup({ autoDeclare: { priceSource: async () => prices }, dryRun: true }));
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Ranking quest portfolios by return and the tie-breakers after it
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeAddress } from "../events";
+import { PriceSnapshots, compareEntries, rankParticipants } from "../quest-scoring";
+import type { Participation } from "../resources";
+
+const QUEST = { questId: 1, buyInTime: 100, resultTime: 200 };
+
+const TOKEN_FLAT = "0x0a";
+const TOKEN_TRIPLE = "0x0b";
+
+// Snapshots are keyed by normalized address
+const prices: PriceSnapshots = {
+  start: new Map([
+    [normalizeAddress(TOKEN_FLAT), 100n],
+    [normalizeAddress(TOKEN_TRIPLE), 100n]
+  ]),
+  end: new Map([
+    [normalizeAddress(TOKEN_FLAT), 100n],
+    [normalizeAddress(TOKEN_TRIPLE), 300n]
+  ])
+};
+
+function participation(
+  user: string,
+  tokens: Array<[string, bigint]>,
+  { selectedAt = 50, joinedAt = 10 }: { selectedAt?: number; joinedAt?: number } = {}
+): Participation {
+  return {
+    questId: 1,
+    user,
+    entryFeePaid: 10_000_000n,
+    joinedAt,
+    portfolio: {
+      tokens: tokens.map(([tokenAddress, amountUsdc]) => ({ tokenAddress, amountUsdc })),
+      totalValueUsdc: tokens.reduce((sum, [, amount]) => sum + amount, 0n),
+      selectedAt
+    }
+  };
+}
+
+const ranking = (participations: Participation[]) =>
+  rankParticipants(QUEST, participations, prices).entries.map((entry) => entry.user);
+
+describe("rankParticipants", () => {
+  it("ranks by return first", () => {
+    const leaderboard = rankParticipants(
+      QUEST,
+      [participation("0x01", [[TOKEN_FLAT, 100n]], { selectedAt: 5 }), participation("0x02", [[TOKEN_TRIPLE, 100n]])],
+      prices
+    );
+
+    assert.deepEqual(
+      leaderboard.entries.map((entry) => [entry.user, entry.returnBps]),
+      [
+        ["0x02", 20_000n],
+        ["0x01", 0n]
+      ]
+    );
+    assert.equal(leaderboard.winner, "0x02");
+  });
+
+  it("leaves a portfolio with nothing allocated unscored", () => {
+    const leaderboard = rankParticipants(
+      QUEST,
+      [participation("0x01", [[TOKEN_FLAT, 0n]], { selectedAt: 5 }), participation("0x02", [[TOKEN_TRIPLE, 100n]])],
+      prices
+    );
+
+    assert.deepEqual(
+      leaderboard.entries.map((entry) => entry.user),
+      ["0x02"]
+    );
+    assert.deepEqual(leaderboard.unscored, ["0x01"]);
+    assert.equal(leaderboard.winner, "0x02");
+  });
+
+  it("breaks a tie in return by earlier selection", () => {
+    assert.deepEqual(
+      ranking([
+        participation("0x01", [[TOKEN_TRIPLE, 100n]], { selectedAt: 60, joinedAt: 1 }),
+        participation("0x02", [[TOKEN_TRIPLE, 500n]], { selectedAt: 55, joinedAt: 9 })
+      ]),
+      ["0x02", "0x01"]
+    );
+  });
+
+  it("then by earlier join", () => {
+    const late = participation("0x01", [[TOKEN_FLAT, 100n]], { joinedAt: 20 });
+    const early = participation("0x02", [[TOKEN_FLAT, 100n]]);
+    assert.deepEqual(ranking([late, early]), ["0x02", "0x01"]);
+  });
+
+  it("then by lower address, whatever its form", () => {
+    const longForm = `0x${"a".padStart(64, "0")}`;
+    assert.deepEqual(
+      ranking([participation("0x0B", [[TOKEN_FLAT, 100n]]), participation(longForm, [[TOKEN_FLAT, 100n]])]),
+      [longForm, "0x0B"]
+    );
+  });
+});
+
+describe("compareEntries", () => {
+  const entry = (user: string, startValueUsdc: bigint, endValueUsdc: bigint, selectedAt: number) => ({
+    user,
+    startValueUsdc,
+    endValueUsdc,
+    returnBps: 0n,
+    selectedAt,
+    joinedAt: 0,
+    selections: []
+  });
+
+  it("orders a zero start value after every other entry, consistently", () => {
+    const empty = entry("0x01", 0n, 0n, 5);
+    const loss = entry("0x02", 100n, 50n, 50);
+    const gain = entry("0x03", 100n, 300n, 50);
+
+    assert.ok(compareEntries(empty, loss) > 0);
+    assert.ok(compareEntries(loss, empty) < 0);
+    assert.ok(compareEntries(gain, loss) < 0);
+    assert.deepEqual(
+      [empty, gain, loss].sort(compareEntries).map((sorted) => sorted.user),
+      ["0x03", "0x02", "0x01"]
+    );
+  });
+});
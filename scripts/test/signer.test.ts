@@ -0,0 +1,51 @@
+/**
+ * Signer construction from raw keys, SDK accounts and wallets
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Account, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import { AccountSigner, WalletAdapter, WalletAdapterSigner, toSigner } from "../signer";
+
+const HEX_KEY = "0x5555555555555555555555555555555555555555555555555555555555555555";
+const ADDRESS = Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(HEX_KEY) }).accountAddress.toString();
+
+describe("AccountSigner.fromPrivateKey", () => {
+  it("accepts the AIP-80 key the Aptos CLI writes", () => {
+    const signer = AccountSigner.fromPrivateKey(`ed25519-priv-${HEX_KEY}`, "profile testnet");
+
+    assert.equal(signer.accountAddress, ADDRESS);
+    assert.equal(signer.source, "profile testnet");
+  });
+
+  it("accepts a bare hex key", () => {
+    assert.equal(AccountSigner.fromPrivateKey(HEX_KEY).accountAddress, ADDRESS);
+  });
+
+  it("rejects a key of the wrong length", () => {
+    assert.throws(() => AccountSigner.fromPrivateKey("ed25519-priv-0x1234"));
+  });
+});
+
+describe("toSigner", () => {
+  it("wraps an SDK account", () => {
+    const account = Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(HEX_KEY) });
+    const signer = toSigner(account);
+
+    assert.ok(signer instanceof AccountSigner);
+    assert.equal(signer.accountAddress, ADDRESS);
+  });
+
+  it("wraps a wallet adapter", () => {
+    const wallet: WalletAdapter = { accountAddress: ADDRESS, signAndSubmitTransaction: async () => ({ hash: "0x1" }) };
+    const signer = toSigner(wallet);
+
+    assert.ok(signer instanceof WalletAdapterSigner);
+    assert.equal(signer.accountAddress, ADDRESS);
+  });
+
+  it("passes a Signer through", () => {
+    const signer = AccountSigner.fromPrivateKey(HEX_KEY);
+    assert.equal(toSigner(signer), signer);
+  });
+});
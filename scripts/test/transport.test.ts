@@ -0,0 +1,281 @@
+/**
+ * Rate limiting, retries and failover of the resilient transport, against
+ * a scripted fake network and a clock that only moves when slept on
+ */
+
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ResilientTransport,
+  Send,
+  TokenBucket,
+  TransportClock,
+  TransportEvent,
+  TransportOptions,
+  TransportRequest,
+  fetchSend,
+  retryAfterMs
+} from "../transport";
+
+const NODE_A = "https://a.example/v1";
+const NODE_B = "https://b.example/v1";
+
+class FakeClock implements TransportClock {
+  current = 1_000_000;
+  readonly sleeps: number[] = [];
+
+  now(): number {
+    return this.current;
+  }
+
+  async sleep(ms: number): Promise<void> {
+    this.sleeps.push(ms);
+    this.current += ms;
+  }
+}
+
+type Reply = { status: number; headers?: Record<string, string> } | Error;
+
+/**
+ * Answers each request with the next scripted reply for its host, 200 once
+ * the script runs out, and records the URLs hit
+ */
+function fakeNetwork(script: Record<string, Reply[]>) {
+  const urls: string[] = [];
+  const send: Send = async (request) => {
+    urls.push(request.url);
+    const reply = script[new URL(request.url).origin]?.shift() ?? { status: 200 };
+    if (reply instanceof Error) throw reply;
+    return { status: reply.status, statusText: "", data: { url: request.url }, headers: reply.headers };
+  };
+  return { send, urls };
+}
+
+function setup(script: Record<string, Reply[]>, options: Partial<TransportOptions> = {}) {
+  const clock = new FakeClock();
+  const network = fakeNetwork(script);
+  const transport = new ResilientTransport({
+    endpoints: { fullnode: [NODE_A] },
+    rateLimit: { burst: 100, perSecond: 100 },
+    baseDelayMs: 500,
+    send: network.send,
+    clock,
+    ...options
+  });
+  const events: TransportEvent[] = [];
+  transport.subscribe((event) => events.push(event));
+  return { clock, transport, events, urls: network.urls };
+}
+
+const get = (url: string): TransportRequest => ({ url, method: "GET" });
+
+describe("TokenBucket", () => {
+  it("lets a burst through, then spaces requests at the sustained rate", async () => {
+    const clock = new FakeClock();
+    const bucket = new TokenBucket({ burst: 2, perSecond: 4 }, clock);
+
+    assert.equal(await bucket.take(), 0);
+    assert.equal(await bucket.take(), 0);
+    assert.equal(await bucket.take(), 250);
+
+    clock.current += 1_000;
+    assert.equal(await bucket.take(), 0);
+    assert.equal(await bucket.take(), 0);
+    assert.equal(await bucket.take(), 250);
+  });
+});
+
+describe("ResilientTransport retries", () => {
+  it("retries 408, 429 and 5xx answers with exponential backoff", async () => {
+    const { transport, events } = setup({
+      "https://a.example": [{ status: 408 }, { status: 502 }, { status: 503 }]
+    });
+
+    const response = await transport.provider(get(`${NODE_A}/accounts/0x1`));
+
+    assert.equal(response.status, 200);
+    const delays = events.flatMap((event) => (event.type === "retry" ? [event.delayMs] : []));
+    assert.equal(delays.length, 3);
+    // Base delay doubled per retry, jittered down to half
+    delays.forEach((delay, attempt) => {
+      assert.ok(delay >= 250 * 2 ** attempt && delay <= 500 * 2 ** attempt, `retry ${attempt}: ${delay}ms`);
+    });
+    assert.equal(transport.metrics().retries, 3);
+  });
+
+  it("does not retry other client errors", async () => {
+    const { transport, urls } = setup({ "https://a.example": [{ status: 404 }] });
+
+    assert.equal((await transport.provider(get(`${NODE_A}/accounts/0x1`))).status, 404);
+    assert.equal(urls.length, 1);
+  });
+
+  it("waits as long as Retry-After asks, capped at maxDelayMs", async () => {
+    const { transport, clock } = setup(
+      {
+        "https://a.example": [
+          { status: 429, headers: { "Retry-After": "3" } },
+          { status: 429, headers: { "retry-after": "600" } }
+        ]
+      },
+      { maxDelayMs: 10_000 }
+    );
+
+    await transport.provider(get(`${NODE_A}/accounts/0x1`));
+
+    assert.deepEqual(clock.sleeps, [3_000, 10_000]);
+    assert.equal(transport.metrics().rateLimited, 2);
+  });
+
+  it("gives up after maxRetries and returns the last answer", async () => {
+    const { transport, urls } = setup(
+      { "https://a.example": [{ status: 503 }, { status: 503 }, { status: 503 }] },
+      { maxRetries: 2 }
+    );
+
+    assert.equal((await transport.provider(get(`${NODE_A}/accounts/0x1`))).status, 503);
+    assert.equal(urls.length, 3);
+    assert.equal(transport.metrics().failures, 1);
+  });
+
+  it("throws when the network fails on every attempt", async () => {
+    const down = () => new Error("ECONNRESET");
+    const { transport } = setup({ "https://a.example": [down(), down()] }, { maxRetries: 1 });
+
+    await assert.rejects(transport.provider(get(`${NODE_A}/accounts/0x1`)), /failed after 2 attempt\(s\): ECONNRESET/);
+  });
+});
+
+describe("ResilientTransport submissions", () => {
+  const submit = (url: string): TransportRequest => ({ url, method: "POST", body: new Uint8Array([1]) });
+
+  it("does not resend a transaction the node may have accepted", async () => {
+    const { transport, urls } = setup({ "https://a.example": [{ status: 500 }, new Error("socket hang up")] });
+
+    assert.equal((await transport.provider(submit(`${NODE_A}/transactions`))).status, 500);
+    await assert.rejects(transport.provider(submit(`${NODE_A}/transactions/batch`)), /socket hang up/);
+    assert.equal(urls.length, 2);
+  });
+
+  it("resends one that was refused with 429", async () => {
+    const { transport, urls } = setup({ "https://a.example": [{ status: 429 }] });
+
+    assert.equal((await transport.provider(submit(`${NODE_A}/transactions`))).status, 200);
+    assert.equal(urls.length, 2);
+  });
+
+  it("retries simulations, which are not submissions", async () => {
+    const { transport, urls } = setup({ "https://a.example": [{ status: 500 }] });
+
+    assert.equal((await transport.provider(submit(`${NODE_A}/transactions/simulate`))).status, 200);
+    assert.equal(urls.length, 2);
+  });
+});
+
+describe("ResilientTransport failover", () => {
+  it("moves a failing request to the next endpoint straight away and keeps it there", async () => {
+    const { transport, events, urls, clock } = setup(
+      { "https://a.example": [new Error("ECONNREFUSED")] },
+      { endpoints: { fullnode: [NODE_A, NODE_B] } }
+    );
+
+    const response = await transport.provider<unknown, { url: string }>(get(`${NODE_A}/accounts/0x1?x=1`));
+
+    assert.equal(response.data.url, `${NODE_B}/accounts/0x1?x=1`);
+    assert.deepEqual(
+      events.filter((event) => event.type === "failover"),
+      [{ type: "failover", from: NODE_A, to: NODE_B }]
+    );
+    assert.deepEqual(clock.sleeps, []);
+
+    // NODE_A cools down, so the next request starts on NODE_B
+    await transport.provider(get(`${NODE_A}/ledger`));
+    assert.equal(urls.at(-1), `${NODE_B}/ledger`);
+
+    const [a, b] = transport.metrics().endpoints;
+    assert.equal(a.failures, 1);
+    assert.ok(a.cooldownUntil > clock.now());
+    assert.ok(b.score > a.score);
+    assert.equal(transport.metrics().failovers, 1);
+  });
+
+  it("returns to the preferred endpoint once its cooldown is over and it is as healthy", async () => {
+    const { transport, urls, clock } = setup(
+      { "https://a.example": [{ status: 503 }] },
+      { endpoints: { fullnode: [NODE_A, NODE_B] }, baseDelayMs: 0 }
+    );
+
+    await transport.provider(get(`${NODE_A}/ledger`));
+    clock.current += 60_000;
+    // NODE_B's score is higher until NODE_A answers again, so it keeps the traffic
+    await transport.provider(get(`${NODE_A}/ledger`));
+
+    assert.deepEqual(urls, [`${NODE_A}/ledger`, `${NODE_B}/ledger`, `${NODE_B}/ledger`]);
+  });
+
+  it("routes indexer requests only to indexer endpoints", async () => {
+    const indexer = "https://a.example/v1/graphql";
+    const { transport, urls } = setup(
+      {},
+      { endpoints: { fullnode: [NODE_A], indexer: [indexer, "https://c.example/v1/graphql"] } }
+    );
+
+    await transport.provider({ url: indexer, method: "POST", body: { query: "{}" } });
+
+    assert.deepEqual(urls, [indexer]);
+  });
+});
+
+describe("retryAfterMs", () => {
+  it("reads seconds or an HTTP date, from Headers or a plain object", () => {
+    const now = Date.parse("2024-06-01T00:00:00Z");
+    assert.equal(retryAfterMs(new Headers({ "Retry-After": "2" }), now), 2_000);
+    assert.equal(retryAfterMs({ "retry-after": ["5"] }, now), 5_000);
+    assert.equal(retryAfterMs({ "Retry-After": "Sat, 01 Jun 2024 00:00:10 GMT" }, now), 10_000);
+    assert.equal(retryAfterMs({ "Retry-After": "soon" }, now), undefined);
+    assert.equal(retryAfterMs(undefined, now), undefined);
+  });
+});
+
+describe("fetchSend", () => {
+  const realFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  function fakeFetch(status: number, text: string) {
+    const calls: Array<{ url: string; init?: RequestInit }> = [];
+    globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+      calls.push({ url: String(input), init });
+      return new Response(text, { status, headers: { "Retry-After": "1" } });
+    };
+    return calls;
+  }
+
+  it("sends params and a JSON body, and parses a JSON answer", async () => {
+    const calls = fakeFetch(200, '{"ok":true}');
+
+    const response = await fetchSend({
+      url: `${NODE_A}/view`,
+      method: "POST",
+      params: { ledger_version: 7200n, skipped: undefined },
+      headers: { "x-aptos-client": "blaze" },
+      body: { function: "0x1::coin::balance" }
+    });
+
+    assert.equal(calls[0].url, `${NODE_A}/view?ledger_version=7200`);
+    assert.equal(calls[0].init?.body, '{"function":"0x1::coin::balance"}');
+    assert.deepEqual(calls[0].init?.headers, { "x-aptos-client": "blaze" });
+    assert.deepEqual(response.data, { ok: true });
+    assert.equal(retryAfterMs(response.headers, 0), 1_000);
+  });
+
+  it("keeps a non-JSON answer, such as a proxy's throttling page, as text", async () => {
+    fakeFetch(429, "<html>Too Many Requests</html>");
+
+    const response = await fetchSend(get(`${NODE_A}/ledger`));
+
+    assert.equal(response.status, 429);
+    assert.equal(response.data, "<html>Too Many Requests</html>");
+  });
+});
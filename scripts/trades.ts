@@ -0,0 +1,192 @@
+/**
+ * Blaze Launchpad V2 - Trades & Candles
+ *
+ * Normalises `BuyEvent` / `SellEvent` into a single trade record and
+ * aggregates trades into OHLCV candles. Prices are the `new_price` the
+ * contract emitted after each trade (APT per token, scaled by 1e8).
+ * Pure functions only, shared by the Node indexer and the frontend.
+ *
+ * @example
+ * ```typescript
+ * import { tradeFromEvent, buildCandles } from './trades';
+ *
+ * const trades = events.map((e) => tradeFromEvent(e, cursor)).filter(Boolean);
+ * const candles = buildCandles(trades, "5m");
+ * ```
+ */
+
+import type { BuyEvent, SellEvent } from "./events";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type TradeSide = "buy" | "sell";
+
+/** Position of an event on chain, used to order and resume */
+export interface EventCursor {
+  /** Ledger version of the transaction that emitted the event */
+  version: bigint;
+
+  /** Index of the event within its transaction */
+  eventIndex: number;
+}
+
+export interface Trade extends EventCursor {
+  poolId: string;
+  side: TradeSide;
+
+  /** Buyer or seller address */
+  trader: string;
+
+  /** APT spent (buy, including fee) or received (sell, after fee), in octas */
+  aptAmount: bigint;
+
+  /** Tokens received (buy) or sold (sell), in base units */
+  tokenAmount: bigint;
+
+  /** Fee sent to the treasury, in octas */
+  fee: bigint;
+
+  /** Price per token after the trade, scaled by 1e8 */
+  price: bigint;
+
+  /** Token supply after the trade, in base units */
+  supply: bigint;
+
+  /** Block timestamp in seconds */
+  timestamp: number;
+}
+
+export type Timeframe = "1m" | "5m" | "1h" | "1d";
+
+/** Bucket length of each supported timeframe, in seconds */
+export const TIMEFRAME_SECONDS: Record<Timeframe, number> = {
+  "1m": 60,
+  "5m": 5 * 60,
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
+};
+
+export interface Candle {
+  /** Bucket start, in seconds */
+  time: number;
+  open: bigint;
+  high: bigint;
+  low: bigint;
+  close: bigint;
+
+  /** APT traded in the bucket, in octas */
+  volumeApt: bigint;
+
+  /** Tokens traded in the bucket, in base units */
+  volumeTokens: bigint;
+
+  /** Number of trades in the bucket */
+  trades: number;
+}
+
+// ============================================================================
+// TRADES
+// ============================================================================
+
+/**
+ * Convert a decoded BuyEvent / SellEvent into a trade
+ *
+ * @param event - Decoded launchpad event
+ * @param cursor - Position of the event on chain
+ */
+export function tradeFromEvent(event: BuyEvent | SellEvent, cursor: EventCursor): Trade {
+  const common = {
+    version: cursor.version,
+    eventIndex: cursor.eventIndex,
+    poolId: event.poolId,
+    fee: event.feeCollected,
+    price: event.newPrice,
+    supply: event.newSupply,
+    timestamp: Number(event.timestamp),
+  };
+
+  if (event.type === "BuyEvent") {
+    return {
+      ...common,
+      side: "buy",
+      trader: event.buyer,
+      aptAmount: event.aptSpent,
+      tokenAmount: event.tokensReceived,
+    };
+  }
+  return {
+    ...common,
+    side: "sell",
+    trader: event.seller,
+    aptAmount: event.aptReceived,
+    tokenAmount: event.tokensSold,
+  };
+}
+
+/**
+ * Order two positions on chain
+ *
+ * @returns Negative if a is before b, positive if after, 0 if equal
+ */
+export function compareCursors(a: EventCursor, b: EventCursor): number {
+  if (a.version !== b.version) {
+    return a.version < b.version ? -1 : 1;
+  }
+  return a.eventIndex - b.eventIndex;
+}
+
+/**
+ * Sort trades into chain order
+ */
+export function sortTrades(trades: Trade[]): Trade[] {
+  return [...trades].sort(compareCursors);
+}
+
+// ============================================================================
+// CANDLES
+// ============================================================================
+
+/**
+ * Aggregate trades into OHLCV candles
+ *
+ * Buckets are aligned to the Unix epoch. Buckets without trades are
+ * skipped rather than filled, so the result can have gaps.
+ *
+ * @param trades - Trades for a single pool, in any order
+ * @param timeframe - Candle length
+ * @returns Candles in ascending time order
+ */
+export function buildCandles(trades: Trade[], timeframe: Timeframe): Candle[] {
+  const bucketSeconds = TIMEFRAME_SECONDS[timeframe];
+  const candles: Candle[] = [];
+  let current: Candle | undefined;
+
+  for (const trade of sortTrades(trades)) {
+    const time = trade.timestamp - (trade.timestamp % bucketSeconds);
+
+    if (!current || current.time !== time) {
+      current = {
+        time,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volumeApt: 0n,
+        volumeTokens: 0n,
+        trades: 0,
+      };
+      candles.push(current);
+    }
+
+    if (trade.price > current.high) current.high = trade.price;
+    if (trade.price < current.low) current.low = trade.price;
+    current.close = trade.price;
+    current.volumeApt += trade.aptAmount;
+    current.volumeTokens += trade.tokenAmount;
+    current.trades += 1;
+  }
+
+  return candles;
+}
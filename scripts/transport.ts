@@ -0,0 +1,495 @@
+/**
+ * Blaze Launchpad V2 - Resilient Transport
+ *
+ * A drop-in `client` for `AptosConfig` that sits between the SDK and the
+ * network: a token bucket spaces requests out, throttled (429) and failed
+ * requests are retried with exponential backoff honouring `Retry-After`, and
+ * each request goes to the healthiest of several fullnode / indexer
+ * endpoints, failing over when one misbehaves. Counters and per-endpoint
+ * health are available as a snapshot and to subscribers. Nothing is
+ * imported from the SDK, so the frontend and the scripts share one
+ * implementation.
+ *
+ * @example
+ * ```typescript
+ * import { ResilientTransport, defaultEndpoints } from './transport';
+ *
+ * const transport = new ResilientTransport({ endpoints: defaultEndpoints("testnet") });
+ * const aptos = new Aptos(new AptosConfig({
+ *   network: Network.TESTNET,
+ *   fullnode: transport.primaryUrl("fullnode"),
+ *   indexer: transport.primaryUrl("indexer"),
+ *   client: transport
+ * }));
+ * transport.subscribe((event) => console.log(event));
+ * ```
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Statuses worth retrying: throttling, timeouts and gateway errors */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/** Weight of the newest outcome in an endpoint's score and latency averages */
+const HEALTH_SMOOTHING = 0.2;
+
+/** How long an endpoint is skipped after a failure, doubled per consecutive failure */
+const BASE_COOLDOWN_MS = 1_000;
+const MAX_COOLDOWN_MS = 60_000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Response headers as `fetch` returns them or as a plain object */
+export type HeaderSource = { get(name: string): string | null } | Record<string, string | string[] | undefined>;
+
+/**
+ * Request as the SDK hands it to `AptosConfig.client.provider`, keeping only
+ * what the transport reads
+ */
+export interface TransportRequest<Req = unknown> {
+  url: string;
+  method: "GET" | "POST";
+  originMethod?: string;
+  body?: Req;
+  contentType?: string;
+
+  /** Query parameters, sent as strings; `undefined` ones are left out */
+  params?: Record<string, unknown>;
+
+  /** Per-request `ClientConfig` overrides */
+  overrides?: { WITH_CREDENTIALS?: boolean };
+  headers?: Record<string, unknown>;
+}
+
+/** Response as the SDK expects it back; HTTP errors are responses, not throws */
+export interface TransportResponse<Res = unknown> {
+  status: number;
+  statusText: string;
+  data: Res;
+  headers?: HeaderSource;
+}
+
+/** Sends one request over the network */
+export type Send = (request: TransportRequest) => Promise<TransportResponse>;
+
+export type EndpointKind = "fullnode" | "indexer";
+
+/** Interchangeable base URLs per API, in order of preference */
+export interface Endpoints {
+  fullnode: string[];
+  indexer?: string[];
+}
+
+export interface RateLimit {
+  /** Requests that may go out back to back (default: 10) */
+  burst: number;
+
+  /** Sustained requests per second (default: 8) */
+  perSecond: number;
+}
+
+export interface TransportOptions {
+  endpoints: Endpoints;
+
+  /** Client-side request budget shared by every request (default: 10 burst, 8/s) */
+  rateLimit?: RateLimit;
+
+  /** Retries after the first attempt (default: 4) */
+  maxRetries?: number;
+
+  /** First backoff delay, doubled per retry (default: 500ms) */
+  baseDelayMs?: number;
+
+  /** Longest single wait, including `Retry-After` (default: 30s) */
+  maxDelayMs?: number;
+
+  /** Underlying HTTP client (default: `fetchSend`) */
+  send?: Send;
+
+  /** Default: `systemClock` */
+  clock?: TransportClock;
+}
+
+/**
+ * Time source in milliseconds; injectable so backoff and rate limiting can
+ * be tested without waiting
+ */
+export interface TransportClock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+export interface EndpointHealth {
+  kind: EndpointKind;
+  url: string;
+
+  /** Smoothed success rate, 0-1 */
+  score: number;
+
+  /** Smoothed latency of answered requests, in ms */
+  latencyMs: number;
+  requests: number;
+  failures: number;
+
+  /** Epoch ms until which the endpoint is skipped, 0 when usable */
+  cooldownUntil: number;
+}
+
+export interface TransportMetrics {
+  requests: number;
+  retries: number;
+  failovers: number;
+
+  /** 429 responses received */
+  rateLimited: number;
+
+  /** Requests that still failed after every retry */
+  failures: number;
+
+  /** Time spent waiting for the token bucket, in ms */
+  throttledMs: number;
+  endpoints: EndpointHealth[];
+}
+
+export type TransportEvent =
+  | { type: "request"; url: string; attempt: number }
+  | { type: "response"; url: string; status: number; latencyMs: number }
+  | { type: "error"; url: string; error: string }
+  | { type: "retry"; url: string; attempt: number; delayMs: number; reason: string }
+  | { type: "failover"; from: string; to: string };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const systemClock: TransportClock = {
+  now: () => Date.now(),
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+};
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+/**
+ * Public Aptos Labs endpoints of a network, for a single-endpoint setup
+ */
+export function defaultEndpoints(network: string): Endpoints {
+  if (network === "local") {
+    return { fullnode: ["http://127.0.0.1:8080/v1"], indexer: ["http://127.0.0.1:8090/v1/graphql"] };
+  }
+  return {
+    fullnode: [`https://api.${network}.aptoslabs.com/v1`],
+    indexer: [`https://api.${network}.aptoslabs.com/v1/graphql`]
+  };
+}
+
+/**
+ * Split a comma separated endpoint list (e.g. from an environment variable),
+ * falling back when it is empty
+ */
+export function parseEndpointList(value: string | undefined, fallback: string[] = []): string[] {
+  const urls = (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0);
+  return urls.length > 0 ? urls : fallback;
+}
+
+function headerOf(headers: HeaderSource | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.get === "function") {
+    return headers.get(name) ?? undefined;
+  }
+  const values = headers as Record<string, string | string[] | undefined>;
+  const key = Object.keys(values).find((candidate) => candidate.toLowerCase() === name);
+  const value = key ? values[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Wait requested by a `Retry-After` header (seconds or an HTTP date), in ms
+ */
+export function retryAfterMs(headers: HeaderSource | undefined, now: number = Date.now()): number | undefined {
+  const value = headerOf(headers, "retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Transaction submission is not idempotent: a request that reached the node
+ * may have been accepted, so it is only retried when refused with 429
+ */
+function isSubmission(request: TransportRequest): boolean {
+  return request.method === "POST" && /\/transactions(\/batch)?$/.test(trimSlash(request.url));
+}
+
+/**
+ * `Send` over the global `fetch`, shaped like @aptos-labs/aptos-client's
+ * browser build: JSON bodies unless binary, and non-JSON answers kept as text
+ */
+export const fetchSend: Send = async (request) => {
+  const headers: Record<string, string> = {};
+  for (const [key, value] of Object.entries(request.headers ?? {})) {
+    if (value !== undefined) headers[key] = String(value);
+  }
+
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(request.params ?? {})) {
+    if (value !== undefined) params.append(key, String(value));
+  }
+  const query = params.toString();
+  const url = query ? `${request.url}?${query}` : request.url;
+
+  // Copied so a view into a larger buffer sends only its own bytes
+  const body = request.body instanceof Uint8Array ? new Uint8Array(request.body).buffer : JSON.stringify(request.body);
+  const response = await fetch(url, {
+    method: request.method,
+    headers,
+    body: request.method === "GET" ? undefined : body,
+    // Cookies keep a browser on one fullnode behind the load balancer, as with aptos-client
+    credentials: request.overrides?.WITH_CREDENTIALS === false ? "omit" : "include"
+  });
+  const text = await response.text();
+  let data: unknown = text;
+  try {
+    data = text ? JSON.parse(text) : undefined;
+  } catch {
+    // Proxies answer throttling with HTML; keep it as text
+  }
+
+  return { status: response.status, statusText: response.statusText, data, headers: response.headers };
+};
+
+// ============================================================================
+// TOKEN BUCKET
+// ============================================================================
+
+/**
+ * Allows `burst` requests at once, refilled at `perSecond`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(readonly limit: RateLimit, private readonly clock: TransportClock = systemClock) {
+    this.tokens = limit.burst;
+    this.updatedAt = clock.now();
+  }
+
+  /**
+   * Wait for a token
+   *
+   * @returns Time spent waiting, in ms
+   */
+  async take(): Promise<number> {
+    let waited = 0;
+    for (;;) {
+      const now = this.clock.now();
+      this.tokens = Math.min(this.limit.burst, this.tokens + ((now - this.updatedAt) / 1000) * this.limit.perSecond);
+      this.updatedAt = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return waited;
+      }
+      const delay = Math.ceil(((1 - this.tokens) / this.limit.perSecond) * 1000);
+      await this.clock.sleep(delay);
+      waited += delay;
+    }
+  }
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+export class ResilientTransport {
+  readonly maxRetries: number;
+  readonly baseDelayMs: number;
+  readonly maxDelayMs: number;
+
+  private readonly send: Send;
+  private readonly clock: TransportClock;
+  private readonly bucket: TokenBucket;
+  private readonly endpoints: EndpointHealth[];
+  private readonly consecutiveFailures = new Map<EndpointHealth, number>();
+  private readonly listeners = new Set<(event: TransportEvent) => void>();
+  private readonly counters = { requests: 0, retries: 0, failovers: 0, rateLimited: 0, failures: 0, throttledMs: 0 };
+
+  constructor(options: TransportOptions) {
+    if (options.endpoints.fullnode.length === 0) {
+      throw new Error("At least one fullnode endpoint is required");
+    }
+    this.maxRetries = options.maxRetries ?? 4;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30_000;
+    this.send = options.send ?? fetchSend;
+    this.clock = options.clock ?? systemClock;
+    this.bucket = new TokenBucket(options.rateLimit ?? { burst: 10, perSecond: 8 }, this.clock);
+
+    const entries = (kind: EndpointKind, urls: string[] = []): EndpointHealth[] =>
+      urls.map((url) => ({
+        kind,
+        url: trimSlash(url),
+        score: 1,
+        latencyMs: 0,
+        requests: 0,
+        failures: 0,
+        cooldownUntil: 0
+      }));
+    this.endpoints = [
+      ...entries("fullnode", options.endpoints.fullnode),
+      ...entries("indexer", options.endpoints.indexer)
+    ];
+  }
+
+  /**
+   * Preferred endpoint of a kind, to configure `AptosConfig` with; requests
+   * to it are then routed by health
+   */
+  primaryUrl(kind: EndpointKind): string | undefined {
+    return this.endpoints.find((endpoint) => endpoint.kind === kind)?.url;
+  }
+
+  /**
+   * Counters and per-endpoint health at this moment
+   */
+  metrics(): TransportMetrics {
+    return { ...this.counters, endpoints: this.endpoints.map((endpoint) => ({ ...endpoint })) };
+  }
+
+  /**
+   * Listen to every request, response, retry and failover
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (event: TransportEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * `AptosConfig.client` entry point
+   */
+  async provider<Req, Res>(request: TransportRequest<Req>): Promise<TransportResponse<Res>> {
+    this.counters.requests++;
+    const base = this.endpointFor(request.url);
+    const kind = base?.kind;
+    const path = base ? request.url.slice(base.url.length) : "";
+    const submission = isSubmission(request);
+
+    let previous: EndpointHealth | undefined;
+    for (let attempt = 0; ; attempt++) {
+      const endpoint = kind ? this.pick(kind) : undefined;
+      if (previous && endpoint && endpoint !== previous) {
+        this.counters.failovers++;
+        this.emit({ type: "failover", from: previous.url, to: endpoint.url });
+      }
+      previous = endpoint;
+      const url = endpoint ? `${endpoint.url}${path}` : request.url;
+
+      this.counters.throttledMs += await this.bucket.take();
+      this.emit({ type: "request", url, attempt });
+      const startedAt = this.clock.now();
+
+      let response: TransportResponse<Res> | undefined;
+      let reason: string;
+      try {
+        response = (await this.send({ ...request, url })) as TransportResponse<Res>;
+        const latencyMs = this.clock.now() - startedAt;
+        this.emit({ type: "response", url, status: response.status, latencyMs });
+        if (!RETRYABLE_STATUSES.has(response.status)) {
+          if (endpoint) this.record(endpoint, true, latencyMs);
+          return response;
+        }
+        if (response.status === 429) this.counters.rateLimited++;
+        reason = `HTTP ${response.status}`;
+      } catch (error) {
+        reason = error instanceof Error ? error.message : String(error);
+        this.emit({ type: "error", url, error: reason });
+      }
+
+      const retryAfter = response ? retryAfterMs(response.headers, this.clock.now()) : undefined;
+      if (endpoint) this.record(endpoint, false, this.clock.now() - startedAt, retryAfter);
+
+      const retryable = !submission || response?.status === 429;
+      if (!retryable || attempt >= this.maxRetries) {
+        this.counters.failures++;
+        if (response) return response;
+        throw new Error(`Request to ${url} failed after ${attempt + 1} attempt(s): ${reason}`);
+      }
+
+      // Honour Retry-After when given, otherwise back off exponentially with jitter
+      const backoff = this.baseDelayMs * 2 ** attempt * (0.5 + Math.random() / 2);
+      const delayMs = Math.min(this.maxDelayMs, retryAfter ?? backoff);
+      this.counters.retries++;
+      this.emit({ type: "retry", url, attempt: attempt + 1, delayMs, reason });
+      // A healthy alternative can be tried straight away
+      if (!(kind && this.pick(kind) !== endpoint)) {
+        await this.clock.sleep(delayMs);
+      }
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Internals
+  // --------------------------------------------------------------------------
+
+  private emit(event: TransportEvent): void {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private endpointFor(url: string): EndpointHealth | undefined {
+    // Longest match first: the indexer URL may extend the fullnode one
+    return [...this.endpoints]
+      .sort((a, b) => b.url.length - a.url.length)
+      .find(
+        (endpoint) => url === endpoint.url || url.startsWith(`${endpoint.url}/`) || url.startsWith(`${endpoint.url}?`)
+      );
+  }
+
+  /**
+   * Best endpoint of a kind: out of cooldown, highest score, preferring the
+   * configured order on ties; when all cool down, the one free soonest
+   */
+  private pick(kind: EndpointKind): EndpointHealth {
+    const candidates = this.endpoints.filter((endpoint) => endpoint.kind === kind);
+    const now = this.clock.now();
+    const ready = candidates.filter((endpoint) => endpoint.cooldownUntil <= now);
+    if (ready.length === 0) {
+      return candidates.reduce((best, endpoint) => (endpoint.cooldownUntil < best.cooldownUntil ? endpoint : best));
+    }
+    return ready.reduce((best, endpoint) => (endpoint.score > best.score + 1e-9 ? endpoint : best));
+  }
+
+  private record(endpoint: EndpointHealth, ok: boolean, latencyMs: number, retryAfter?: number): void {
+    endpoint.requests++;
+    endpoint.score = endpoint.score * (1 - HEALTH_SMOOTHING) + (ok ? HEALTH_SMOOTHING : 0);
+    if (ok) {
+      endpoint.latencyMs =
+        endpoint.latencyMs === 0
+          ? latencyMs
+          : endpoint.latencyMs * (1 - HEALTH_SMOOTHING) + latencyMs * HEALTH_SMOOTHING;
+      endpoint.cooldownUntil = 0;
+      this.consecutiveFailures.delete(endpoint);
+      return;
+    }
+
+    endpoint.failures++;
+    const failures = (this.consecutiveFailures.get(endpoint) ?? 0) + 1;
+    this.consecutiveFailures.set(endpoint, failures);
+    const cooldown = retryAfter ?? Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (failures - 1));
+    endpoint.cooldownUntil = this.clock.now() + cooldown;
+  }
+}
@@ -25,8 +25,11 @@ export default defineConfig({
     }),
   ],
   resolve: {
+    // Shared modules under scripts/ must use the dapp's SDK, not scripts/node_modules
+    dedupe: ["@aptos-labs/ts-sdk"],
     alias: {
       "@": path.resolve(__dirname, "./frontend"),
+      "@sdk": path.resolve(__dirname, "./scripts"),
       process: "process/browser",
       path: "path-browserify",
       os: "os-browserify",